@@ -0,0 +1,251 @@
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { TestProject } from 'vitest/node';
+// Brings 'vitest' into scope for the ProvidedContext augmentation at the end.
+import type {} from 'vitest';
+
+/**
+ * A small Node stand-in for the backend's session and playback-stream routes,
+ * speaking the same protocol as GameController (JSON cells only; the binary
+ * routes answer 404, so clients fall back to JSON). It has its own small B/S
+ * stepper rather than the app's engine, and keeps everything in memory.
+ *
+ * Vitest starts it once per run (globalSetup in vite.config.ts) and hands its
+ * base URL to the tests as `playbackStandInUrl`. GET /__standIn/sessions lists
+ * the sessions, oldest first, so tests can check what the client told them.
+ */
+
+const BASE_PATH = '/api/v1/game';
+const MIN_INTERVAL_MS = 10;
+const MAX_INTERVAL_MS = 10_000;
+const MAX_UNACKNOWLEDGED_FRAMES = 16;
+
+interface Rule {
+  birth: Set<number>;
+  survival: Set<number>;
+}
+
+// Boards are sets of "x,y" keys; coordinates stay strings on the wire, BigInt in between.
+type Board = Set<string>;
+
+interface StandInSession {
+  board: Board;
+  rule: Rule;
+  generation: number;
+  stream: { intervalMs: number; paused: boolean; acknowledged: number; wake: () => void } | null;
+  /** Every control message received, in order. */
+  controls: unknown[];
+}
+
+function parseRule(text: string): Rule {
+  const match = /^B([0-8]*)\/S([0-8]*)$/i.exec(text.trim());
+  if (!match) throw new Error(`Rule '${text}' is not a B/S rule.`);
+  const digits = (s: string) => new Set([...s].map(Number));
+  return { birth: digits(match[1]), survival: digits(match[2]) };
+}
+
+// The stand-in does not stop at the 64-bit boundary; tests stay well inside it.
+function step(board: Board, rule: Rule): Board {
+  const neighbours = new Map<string, number>();
+  for (const key of board) {
+    const [x, y] = key.split(',').map(BigInt);
+    for (let dx = -1n; dx <= 1n; dx++) {
+      for (let dy = -1n; dy <= 1n; dy++) {
+        if (dx === 0n && dy === 0n) continue;
+        const k = `${x + dx},${y + dy}`;
+        neighbours.set(k, (neighbours.get(k) ?? 0) + 1);
+      }
+    }
+  }
+  const next: Board = new Set();
+  for (const [key, n] of neighbours) {
+    if (board.has(key) ? rule.survival.has(n) : rule.birth.has(n)) next.add(key);
+  }
+  return next;
+}
+
+const toPairs = (keys: Iterable<string>) => [...keys].map((key) => key.split(','));
+
+function send(res: ServerResponse, status: number, body?: unknown): void {
+  if (body === undefined) {
+    res.writeHead(status).end();
+  } else if (typeof body === 'string') {
+    res.writeHead(status, { 'Content-Type': 'text/plain' }).end(body);
+  } else {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let text = '';
+  for await (const chunk of req) text += chunk;
+  return JSON.parse(text || '{}');
+}
+
+async function streamSession(
+  session: StandInSession,
+  exists: () => boolean,
+  url: URL,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> {
+  const intervalMs = Number(url.searchParams.get('intervalMs') ?? 100);
+  if (!(intervalMs >= MIN_INTERVAL_MS && intervalMs <= MAX_INTERVAL_MS)) {
+    send(res, 400, `Interval must be between ${MIN_INTERVAL_MS} and ${MAX_INTERVAL_MS} ms.`);
+    return;
+  }
+  if (session.stream) {
+    send(res, 409, 'Session is already streaming.');
+    return;
+  }
+
+  let wake = () => {};
+  const stream = {
+    intervalMs,
+    paused: url.searchParams.get('paused') === 'true',
+    acknowledged: session.generation,
+    wake: () => wake(),
+  };
+  session.stream = stream;
+  let open = true;
+  req.on('close', () => {
+    open = false;
+    wake();
+  });
+
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  res.flushHeaders();
+
+  // Like the backend: a frame per interval, never more than the window past the
+  // last ack, and any control message cuts a wait short.
+  let lastFrame = 0;
+  while (open) {
+    const blocked = stream.paused || session.generation - stream.acknowledged >= MAX_UNACKNOWLEDGED_FRAMES;
+    const due = blocked ? Infinity : lastFrame + stream.intervalMs - Date.now();
+    if (due > 0) {
+      await new Promise<void>((resolve) => {
+        const timer = due === Infinity ? undefined : setTimeout(resolve, due);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      continue;
+    }
+    if (!exists()) {
+      res.write('event: end\ndata: {}\n\n');
+      break;
+    }
+    const before = session.board;
+    const after = step(before, session.rule);
+    session.board = after;
+    session.generation++;
+    lastFrame = Date.now();
+    const frame = {
+      births: toPairs([...after].filter((key) => !before.has(key))),
+      deaths: toPairs([...before].filter((key) => !after.has(key))),
+      generation: session.generation,
+      liveCellCount: after.size,
+    };
+    res.write(`event: frame\ndata: ${JSON.stringify(frame)}\n\n`);
+  }
+  if (session.stream === stream) session.stream = null;
+  res.end();
+}
+
+function controlStream(session: StandInSession, message: Record<string, unknown>, res: ServerResponse): void {
+  const stream = session.stream;
+  if (!stream) {
+    send(res, 409, 'Session has no open stream.');
+    return;
+  }
+  session.controls.push(message);
+  switch (message.type) {
+    case 'pause':
+      stream.paused = true;
+      break;
+    case 'resume':
+      stream.paused = false;
+      break;
+    case 'speed':
+      if (typeof message.intervalMs !== 'number' || message.intervalMs < MIN_INTERVAL_MS || message.intervalMs > MAX_INTERVAL_MS) {
+        send(res, 400, `Interval must be between ${MIN_INTERVAL_MS} and ${MAX_INTERVAL_MS} ms.`);
+        return;
+      }
+      stream.intervalMs = message.intervalMs;
+      break;
+    case 'ack':
+      if (typeof message.generation !== 'number') {
+        send(res, 400, 'An ack needs the generation rendered.');
+        return;
+      }
+      stream.acknowledged = Math.max(stream.acknowledged, message.generation);
+      break;
+    default:
+      send(res, 400, `Unknown control type '${String(message.type)}'.`);
+      return;
+  }
+  stream.wake();
+  send(res, 204);
+}
+
+/** Starts the stand-in on a free port of 127.0.0.1; resolves with its API base URL. */
+export async function startPlaybackStandIn(): Promise<{ url: string; close: () => Promise<void> }> {
+  const sessions = new Map<string, StandInSession>();
+  let nextId = 0;
+
+  const server = createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      if (url.pathname === '/__standIn/sessions') {
+        return send(res, 200, [...sessions].map(([id, s]) => ({ id, generation: s.generation, stream: s.stream, controls: s.controls })));
+      }
+      const path = url.pathname.startsWith(BASE_PATH) ? url.pathname.slice(BASE_PATH.length) : null;
+      if (path === '/sessions' && req.method === 'POST') {
+        const body = await readJson(req);
+        const cells = body.cells as [string, string][];
+        const id = `standin-${++nextId}`;
+        const rule = parseRule(typeof body.rule === 'string' ? body.rule : 'B3/S23');
+        const board: Board = new Set(cells.map(([x, y]) => `${BigInt(x)},${BigInt(y)}`));
+        sessions.set(id, { board, rule, generation: 0, stream: null, controls: [] });
+        return send(res, 200, { sessionId: id, liveCellCount: board.size });
+      }
+      const match = path?.match(/^\/sessions\/([^/]+)(\/stream)?$/);
+      const session = match ? sessions.get(match[1]) : undefined;
+      if (!match || match[1] === 'binary') return send(res, 404, 'No such route.');
+      if (!session) return send(res, 404, 'Session does not exist or has expired.');
+      if (!match[2] && req.method === 'DELETE') {
+        sessions.delete(match[1]);
+        return send(res, 204);
+      }
+      if (match[2] && req.method === 'GET') return await streamSession(session, () => sessions.has(match[1]), url, req, res);
+      if (match[2] && req.method === 'POST') return controlStream(session, await readJson(req), res);
+      send(res, 405, 'Method not allowed.');
+    } catch (e) {
+      if (!res.headersSent) send(res, 500, e instanceof Error ? e.message : String(e));
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}${BASE_PATH}`,
+    close: () => new Promise<void>((resolve) => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+/** Vitest globalSetup: one stand-in for the whole run. */
+export default async function setup(project: TestProject): Promise<() => Promise<void>> {
+  const standIn = await startPlaybackStandIn();
+  project.provide('playbackStandInUrl', standIn.url);
+  return standIn.close;
+}
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    playbackStandInUrl: string;
+  }
+}
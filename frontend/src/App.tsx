@@ -1,53 +1,44 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import { Grid } from './components/Grid';
-import { Controls, type Cluster } from './components/Controls';
-import { FileUpload } from './components/FileUpload';
+import { Controls, type Cluster, type ControlsHandle } from './components/Controls';
+import { FileUpload, type FileUploadHandle } from './components/FileUpload';
+import { Timeline } from './components/Timeline';
+import { PatternLibrary } from './components/PatternLibrary';
+import { PopulationChart } from './components/PopulationChart';
+import { CensusPanel } from './components/CensusPanel';
+import { SessionsPanel } from './components/SessionsPanel';
+import { CommandPalette } from './components/CommandPalette';
 import { useGameOfLife } from './hooks/useGameOfLife';
+import { useSessions } from './hooks/useSessions';
+import { useShortcuts, type CommandActions } from './hooks/useShortcuts';
 import type { Cell } from './services/api';
+import { patternClip, type LibraryPattern } from './services/patternLibrary';
+import type { Clip } from './services/selection';
+import { boardSignature } from './services/repeatDetection';
+import { boundingBox } from './services/patternFormats';
+import { DEFAULT_CENSUS_GAP, connectedComponents, takeCensus } from './services/census';
+import type { Rect } from './services/selection';
+import { isShareHash } from './services/shareLink';
+import type { ClusterCommandId } from './services/shortcuts';
+import type { CenteredView } from './services/viewport';
+import { emptyMotionTracker, trackClusters, type MotionTracker, type Velocity } from './services/clusterMotion';
 
-// Cells whose bounding boxes overlap within this margin (in cells) are merged
+// Cells with at most this many empty cells between them are merged
 // into the same cluster. Large enough to group typical patterns but small
 // enough to separate clusters that are far apart.
 const CLUSTER_MARGIN = 100n;
 
 /**
- * Groups cells into spatial clusters using bounding-box expansion.
- * Each cell is assigned to the first existing cluster whose bounding box
- * (expanded by CLUSTER_MARGIN on all sides) contains the cell.
- * If no cluster matches, a new one is created.
+ * Groups cells into spatial clusters: the connected components of the board
+ * when cells up to `gap` empty cells apart count as neighbours.
  *
  * BigInt arithmetic is used throughout so coordinates near ±long.MaxValue
  * are handled exactly without precision loss.
  */
-export function detectClusters(cells: Cell[]): Cluster[] {
+export function detectClusters(cells: Cell[], gap: bigint = CLUSTER_MARGIN): Cluster[] {
   if (cells.length === 0) return [];
 
-  type BBox = {
-    minX: bigint; maxX: bigint;
-    minY: bigint; maxY: bigint;
-    count: number;
-  };
-
-  const boxes: BBox[] = [];
-
-  for (const [cx, cy] of cells) {
-    const match = boxes.find(
-      (b) =>
-        cx >= b.minX - CLUSTER_MARGIN &&
-        cx <= b.maxX + CLUSTER_MARGIN &&
-        cy >= b.minY - CLUSTER_MARGIN &&
-        cy <= b.maxY + CLUSTER_MARGIN
-    );
-    if (match) {
-      if (cx < match.minX) match.minX = cx;
-      if (cx > match.maxX) match.maxX = cx;
-      if (cy < match.minY) match.minY = cy;
-      if (cy > match.maxY) match.maxY = cy;
-      match.count++;
-    } else {
-      boxes.push({ minX: cx, maxX: cx, minY: cy, maxY: cy, count: 1 });
-    }
-  }
+  const boxes = connectedComponents(cells, gap).map((component) => ({ ...boundingBox(component), cells: component }));
 
   // Safe sort — no subtraction, avoids overflow for large BigInt coordinates.
   boxes.sort((a, b) => (a.minX < b.minX ? -1 : a.minX > b.minX ? 1 : 0));
@@ -56,9 +47,16 @@ export function detectClusters(cells: Cell[]): Cluster[] {
     const cx = (box.minX + box.maxX) / 2n; // BigInt division truncates — fine for center
     const cy = (box.minY + box.maxY) / 2n;
     const label = boxes.length > 1
-      ? `Cluster ${i + 1} (${box.count} cells)`
-      : `Fit All (${box.count} cells)`;
-    return { label, x: cx, y: cy };
+      ? `Cluster ${i + 1} (${box.cells.length} cells)`
+      : `Fit All (${box.cells.length} cells)`;
+    return {
+      label,
+      x: cx,
+      y: cy,
+      width: box.maxX - box.minX,
+      height: box.maxY - box.minY,
+      shape: boardSignature(box.cells),
+    };
   });
 }
 
@@ -67,25 +65,204 @@ function App() {
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   // centerOn key increments on every jump so Grid's useEffect always fires,
   // even when jumping to the same coordinate twice.
-  const [centerOn, setCenterOn] = useState<{ x: bigint; y: bigint; key: number } | null>(null);
+  // A width/height span makes Grid zoom so the span fits as well.
+  const [centerOn, setCenterOn] = useState<
+    { x: bigint; y: bigint; key: number; width?: bigint; height?: bigint } | null
+  >(null);
 
-  const clusters = useMemo(() => detectClusters(game.cells), [game.cells]);
+  // Viewport to restore from a shared link or saved session (see Grid's
+  // restoreView), and the Grid's latest viewport, kept in a ref so panning
+  // does not re-render App.
+  const [restoreView, setRestoreView] = useState<(CenteredView & { key: number }) | null>(null);
+  const viewRef = useRef<CenteredView | null>(null);
+  const handleViewChange = useCallback((view: CenteredView) => {
+    viewRef.current = view;
+  }, []);
+  const showView = (view: CenteredView) => {
+    setRestoreView((prev) => ({ ...view, key: (prev?.key ?? 0) + 1 }));
+  };
+
+  // A page opened on a shared link shows the link, not the autosaved board.
+  const [startedFromLink] = useState(() => isShareHash(window.location.hash));
+  const [sessionsOpen, setSessionsOpen] = useState(false);
+  const sessions = useSessions({
+    cells: game.cells,
+    generation: game.generation,
+    rule: game.rule,
+    topology: game.topology,
+    speed: game.speed,
+    viewRef,
+    restoreSession: game.restoreSession,
+    onRestoreView: showView,
+    restoreAutosave: !startedFromLink,
+  });
+
+  // Pattern library: the open panel and the pattern being stamped on the Grid.
+  // The key changes on every pick so picking the same pattern again re-arms it.
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [chartOpen, setChartOpen] = useState(false);
+  const [stamp, setStamp] = useState<{ id: string; name: string; clip: Clip; key: number } | null>(null);
+  const [censusOpen, setCensusOpen] = useState(false);
+  const [censusGap, setCensusGap] = useState(DEFAULT_CENSUS_GAP);
+
+  const detected = useMemo(() => detectClusters(game.cells), [game.cells]);
+
+  // Cluster velocities: each new board is fed to the motion tracker while
+  // rendering, so the speeds shown always belong to the clusters shown.
+  const [motion, setMotion] = useState<{
+    clusters: Cluster[] | null;
+    tracker: MotionTracker;
+    velocities: (Velocity | null)[];
+  }>({ clusters: null, tracker: emptyMotionTracker(), velocities: [] });
+  if (motion.clusters !== detected) {
+    const tracked = trackClusters(motion.tracker, game.generation, detected.map((c) => c.shape));
+    setMotion({ clusters: detected, ...tracked });
+  }
+  // Only taken while the panel is open: classifying every object is not free on big boards.
+  const census = useMemo(
+    () => (censusOpen ? takeCensus(game.cells, game.rule, censusGap) : []),
+    [censusOpen, game.cells, game.rule, censusGap],
+  );
+  const clusters = useMemo(
+    () => detected.map((c, i) => ({ ...c, velocity: motion.clusters === detected ? motion.velocities[i] : null })),
+    [detected, motion],
+  );
+  // Cluster boxes for the minimap; a cluster's center is rounded, so a box may be off by a cell.
+  const clusterBoxes = useMemo(
+    () => detected.map((c): Rect => {
+      const minX = c.x - c.width / 2n;
+      const minY = c.y - c.height / 2n;
+      return { minX, minY, maxX: minX + c.width, maxY: minY + c.height };
+    }),
+    [detected],
+  );
+
+  // Opens a shared link on load, and when a link is pasted into this tab. The
+  // hash is cleared first, so a reload does not reopen it over later edits.
+  const { openLink } = game;
+  const openLinkRef = useRef(openLink);
+  useEffect(() => { openLinkRef.current = openLink; }, [openLink]);
+  useEffect(() => {
+    const handleHash = async () => {
+      const { hash, pathname, search } = window.location;
+      if (!isShareHash(hash)) return;
+      window.history.replaceState(null, '', `${pathname}${search}`);
+      const shared = await openLinkRef.current(hash);
+      if (shared?.view) showView(shared.view);
+    };
+    void handleHash();
+    window.addEventListener('hashchange', handleHash);
+    return () => window.removeEventListener('hashchange', handleHash);
+  }, []);
 
   const jumpTo = (x: bigint, y: bigint) => {
     setCenterOn((prev) => ({ x, y, key: (prev?.key ?? 0) + 1 }));
   };
 
+  const fitCluster = (c: Cluster) => {
+    setCenterOn((prev) => ({ x: c.x, y: c.y, width: c.width, height: c.height, key: (prev?.key ?? 0) + 1 }));
+  };
+
+  const showInstance = (r: Rect) => {
+    setCenterOn((prev) => ({
+      x: (r.minX + r.maxX) / 2n,
+      y: (r.minY + r.maxY) / 2n,
+      width: r.maxX - r.minX,
+      height: r.maxY - r.minY,
+      key: (prev?.key ?? 0) + 1,
+    }));
+  };
+
+  const selectLibraryPattern = (pattern: LibraryPattern) => {
+    setStamp((prev) => (prev?.id === pattern.id
+      ? null
+      : { id: pattern.id, name: pattern.name, clip: patternClip(pattern), key: (prev?.key ?? 0) + 1 }));
+  };
+
+  const toggleLibrary = () => {
+    if (libraryOpen) setStamp(null);
+    setLibraryOpen(!libraryOpen);
+  };
+
   const handleReset = () => {
     game.reset();
     jumpTo(0n, 0n);
   };
 
+  const showStatus = (message: string) => {
+    setStatusMessage(message);
+    window.setTimeout(() => setStatusMessage(null), 4000);
+  };
+
+  const handleCopyLink = async () => {
+    const url = await game.shareLink(viewRef.current);
+    if (!url) return;
+    // The address bar gets the link too; replaceState does not fire hashchange, so it is not reopened.
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      showStatus('Link copied to clipboard');
+    } catch {
+      // Clipboard access can be denied; the link can still be copied from the address bar.
+      showStatus('Could not copy — the link is in the address bar');
+    }
+  };
+
+  // Keyboard shortcuts and the Ctrl+K palette. Pan and zoom steps go to the
+  // Grid like centerOn, with a key that changes on every press.
+  const controlsRef = useRef<ControlsHandle>(null);
+  const fileUploadRef = useRef<FileUploadHandle>(null);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [viewStep, setViewStep] = useState<
+    ({ pan: { dx: number; dy: number } } | { zoom: 'in' | 'out' }) & { key: number } | null
+  >(null);
+  const pan = (dx: number, dy: number) => setViewStep((prev) => ({ pan: { dx, dy }, key: (prev?.key ?? 0) + 1 }));
+  const zoom = (direction: 'in' | 'out') => setViewStep((prev) => ({ zoom: direction, key: (prev?.key ?? 0) + 1 }));
+
+  const confirmReset = () => {
+    if (window.confirm('Reset the board? This clears every cell and goes back to generation 0.')) handleReset();
+  };
+
+  const ready = (action: () => void) => (game.loading ? undefined : action);
+  const actions: CommandActions = {
+    palette: () => setPaletteOpen((open) => !open),
+    togglePlay: game.togglePlay,
+    step: ready(game.stepForward),
+    simulate10: ready(() => game.simulateN(10)),
+    simulate100: ready(() => game.simulateN(100)),
+    focusGeneration: () => controlsRef.current?.focusGeneration(),
+    toggleAutoPause: () => game.setAutoPause(!game.autoPause),
+    faster: () => controlsRef.current?.nudgeSpeed('faster'),
+    slower: () => controlsRef.current?.nudgeSpeed('slower'),
+    undo: game.undoLabel === null ? undefined : game.undo,
+    redo: game.redoLabel === null ? undefined : game.redo,
+    focusRule: () => controlsRef.current?.focusRule(),
+    panLeft: () => pan(-1, 0),
+    panRight: () => pan(1, 0),
+    panUp: () => pan(0, -1),
+    panDown: () => pan(0, 1),
+    zoomIn: () => zoom('in'),
+    zoomOut: () => zoom('out'),
+    focusJump: () => controlsRef.current?.focusJump(),
+    reset: confirmReset,
+    loadFile: () => fileUploadRef.current?.openFile(),
+    export: () => fileUploadRef.current?.exportPattern(),
+    copyLink: () => void handleCopyLink(),
+    toggleLibrary,
+    toggleChart: () => setChartOpen(!chartOpen),
+    toggleCensus: () => setCensusOpen(!censusOpen),
+    toggleSessions: () => setSessionsOpen(!sessionsOpen),
+  };
+  clusters.slice(0, 9).forEach((c, i) => {
+    actions[`cluster${i + 1}` as ClusterCommandId] = () => fitCluster(c);
+  });
+  const shortcuts = useShortcuts(actions);
+
   const handleLoadFile = async (content: string) => {
-    const success = await game.loadLife106(content);
+    const success = await game.loadPattern(content);
     if (success) {
       jumpTo(0n, 0n);
-      setStatusMessage('Pattern loaded from file');
-      window.setTimeout(() => setStatusMessage(null), 4000);
+      showStatus('Pattern loaded from file');
     }
   };
 
@@ -98,24 +275,127 @@ function App() {
       {statusMessage && (
         <div style={styles.toast}>{statusMessage}</div>
       )}
-      <FileUpload onLoad={handleLoadFile} onExport={game.exportCells} />
+      <FileUpload
+        ref={fileUploadRef}
+        keymap={shortcuts.keymap}
+        onLoad={handleLoadFile}
+        onExport={game.exportCells}
+        onCopyLink={handleCopyLink}
+        libraryOpen={libraryOpen}
+        onToggleLibrary={toggleLibrary}
+        chartOpen={chartOpen}
+        onToggleChart={() => setChartOpen(!chartOpen)}
+        censusOpen={censusOpen}
+        onToggleCensus={() => setCensusOpen(!censusOpen)}
+        sessionsOpen={sessionsOpen}
+        onToggleSessions={() => setSessionsOpen(!sessionsOpen)}
+      />
       <Controls
+        ref={controlsRef}
+        keymap={shortcuts.keymap}
         generation={game.generation}
         liveCellCount={game.liveCellCount}
         isPlaying={game.isPlaying}
         speed={game.speed}
+        rule={game.rule}
+        topology={game.topology}
+        engineKind={game.engineKind}
+        connectionHealth={game.connectionHealth}
         loading={game.loading}
         error={game.error}
         clusters={clusters}
+        repeat={game.repeat}
+        autoPause={game.autoPause}
+        onAutoPauseChange={game.setAutoPause}
+        streamPlayback={game.streamPlayback}
+        onStreamPlaybackChange={game.changeStreamPlayback}
         onStep={game.stepForward}
         onSimulateN={game.simulateN}
+        onGoToGeneration={game.goToGeneration}
         onTogglePlay={game.togglePlay}
         onReset={handleReset}
+        undoLabel={game.undoLabel}
+        redoLabel={game.redoLabel}
+        onUndo={game.undo}
+        onRedo={game.redo}
         onSpeedChange={game.setSpeed}
+        onRuleChange={game.changeRule}
+        onTopologyChange={game.changeTopology}
         onClearError={game.clearError}
         onJumpTo={jumpTo}
+        onFitCluster={fitCluster}
+      />
+      <Timeline
+        generations={game.timeline}
+        generation={game.generation}
+        isPlaying={game.isPlaying}
+        onScrub={game.scrubTo}
+        onResume={game.togglePlay}
+        onFork={game.forkTimeline}
       />
-      <Grid cells={game.cells} onToggleCell={game.toggleCell} centerOn={centerOn} />
+      {chartOpen && (
+        <PopulationChart
+          samples={game.population}
+          generation={game.generation}
+          onClose={() => setChartOpen(false)}
+        />
+      )}
+      <div style={styles.workspace}>
+        <Grid
+          cells={game.cells}
+          onToggleCell={game.toggleCell}
+          onEditCells={game.editCells}
+          centerOn={centerOn}
+          stamp={stamp}
+          onStampEnd={() => setStamp(null)}
+          restoreView={restoreView}
+          onViewChange={handleViewChange}
+          viewStep={viewStep}
+          keymap={shortcuts.keymap}
+          clusters={clusterBoxes}
+          topology={game.topology}
+          states={game.states}
+        />
+        {libraryOpen && (
+          <PatternLibrary
+            selectedId={stamp?.id ?? null}
+            onSelect={selectLibraryPattern}
+            onClose={toggleLibrary}
+          />
+        )}
+        {censusOpen && (
+          <CensusPanel
+            entries={census}
+            gap={censusGap}
+            onGapChange={setCensusGap}
+            onJump={showInstance}
+            onClose={() => setCensusOpen(false)}
+          />
+        )}
+        {sessionsOpen && (
+          <SessionsPanel
+            sessions={sessions.sessions}
+            lastAutosave={sessions.lastAutosave}
+            error={sessions.error}
+            onSave={sessions.saveAs}
+            onOpen={sessions.open}
+            onRename={sessions.rename}
+            onDuplicate={sessions.duplicate}
+            onDelete={sessions.remove}
+            onClearError={sessions.clearError}
+            onClose={() => setSessionsOpen(false)}
+          />
+        )}
+      </div>
+      {paletteOpen && (
+        <CommandPalette
+          keymap={shortcuts.keymap}
+          actions={actions}
+          onRebind={shortcuts.rebind}
+          onResetKeys={shortcuts.resetKeymap}
+          onClose={() => setPaletteOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -157,6 +437,11 @@ const styles: Record<string, React.CSSProperties> = {
     letterSpacing: '1px',
     textTransform: 'uppercase' as const,
   },
+  workspace: {
+    flex: 1,
+    display: 'flex',
+    minHeight: 0,
+  },
   toast: {
     position: 'absolute',
     top: 12,
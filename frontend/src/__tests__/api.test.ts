@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest';
-import { parseCells, serializeCells } from '../services/api';
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { backoffDelay, decodeCells, encodeCells, parseCells, serializeCells, type Cell } from '../services/api';
 
 const LONG_MAX = 9223372036854775807n;
 const LONG_MIN = -9223372036854775808n;
@@ -57,6 +57,13 @@ describe('serializeCells', () => {
 });
 
 describe('parseCells / serializeCells round-trip', () => {
+  it('carries the state of dying cells as a third string', () => {
+    const original: Cell[] = [[0n, 1n], [LONG_MIN, 2n, 7]];
+    expect(serializeCells(original)).toEqual([['0', '1'], ['-9223372036854775808', '2', '7']]);
+    expect(parseCells(serializeCells(original))).toEqual(original);
+    expect(parseCells([['3', '4', '1']])).toEqual([[3n, 4n]]);
+  });
+
   it('round-trips normal coordinates', () => {
     const original: [bigint, bigint][] = [[0n, 1n], [-100n, 200n]];
     expect(parseCells(serializeCells(original))).toEqual(original);
@@ -67,3 +74,234 @@ describe('parseCells / serializeCells round-trip', () => {
     expect(parseCells(serializeCells(original))).toEqual(original);
   });
 });
+
+describe('encodeCells / decodeCells', () => {
+  const sortCells = (cells: Cell[]) =>
+    [...cells].sort(([ax, ay], [bx, by]) => (ax < bx ? -1 : ax > bx ? 1 : ay < by ? -1 : ay > by ? 1 : 0));
+
+  it('round-trips normal coordinates, sorted by x then y', () => {
+    const original: Cell[] = [[2n, 0n], [0n, 1n], [-100n, 200n], [0n, -1n]];
+    expect(decodeCells(encodeCells(original))).toEqual(sortCells(original));
+  });
+
+  it('round-trips the corners of the 64-bit plane', () => {
+    const original: Cell[] = [[LONG_MAX, LONG_MIN], [LONG_MIN, LONG_MAX], [LONG_MIN, LONG_MIN], [LONG_MAX, LONG_MAX], [0n, 0n]];
+    expect(decodeCells(encodeCells(original))).toEqual(sortCells(original));
+  });
+
+  it('matches the bytes the server writes', () => {
+    // Same bytes as BinaryCellCodecTests on the server: LONG_MIN → LONG_MAX wraps to a step of -1.
+    const bytes = encodeCells([[LONG_MAX, 0n], [LONG_MIN, 0n]]);
+    expect([...bytes]).toEqual([2, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x01, 0, 1, 0]);
+  });
+
+  it('encodes a dense pattern in about two bytes per cell', () => {
+    const cells: Cell[] = [];
+    for (let x = 0n; x < 100n; x++) {
+      for (let y = 0n; y < 100n; y++) cells.push([x - 2_000_000_000_000n, y + LONG_MAX - 99n]);
+    }
+    const bytes = encodeCells(cells);
+    expect(bytes.length).toBeLessThan(cells.length * 2.1);
+    expect(decodeCells(bytes)).toEqual(cells);
+  });
+
+  it('encodes an empty board as a single zero byte', () => {
+    expect([...encodeCells([])]).toEqual([0]);
+    expect(decodeCells(new Uint8Array([0]))).toEqual([]);
+  });
+
+  it('rejects truncated, over-long and oversized data', () => {
+    const bytes = encodeCells([[5n, 5n], [6n, 6n]]);
+    expect(() => decodeCells(bytes.slice(0, -1))).toThrow('truncated');
+    expect(() => decodeCells(Uint8Array.of(...bytes, 0))).toThrow('unexpected bytes');
+    expect(() => decodeCells(Uint8Array.of(1, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x02, 0))).toThrow('64 bits');
+    // A count of 1,000,001 cells.
+    expect(() => decodeCells(Uint8Array.of(0xc1, 0x84, 0x3d))).toThrow('more than');
+  });
+});
+
+describe('binary transport negotiation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  // A fresh module per test, so the negotiated transport starts over.
+  const freshApi = () => import('../services/api');
+
+  it('sends cells in the binary encoding and reads binary replies', async () => {
+    const api = await freshApi();
+    const fetchMock = vi.fn(async () => new Response(api.encodeCells([[LONG_MIN, 1n]])));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await api.simulate([[LONG_MAX, 2n]], 5, 'B36/S23', 'plane:clip');
+
+    expect(result.cells).toEqual([[LONG_MIN, 1n]]);
+    expect(result.generationsComputed).toBe(5);
+    expect(result.liveCellCount).toBe(1);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toMatch(/\/simulate\/binary\?generations=5&rule=B36%2FS23&topology=plane%3Aclip$/);
+    expect((init.headers as Record<string, string>)['Content-Type']).toBe(api.CELLS_MEDIA_TYPE);
+    expect(api.decodeCells(init.body as Uint8Array)).toEqual([[LONG_MAX, 2n]]);
+  });
+
+  it('falls back to JSON for the rest of the session when the server has no binary routes', async () => {
+    const api = await freshApi();
+    const fetchMock = vi.fn(async (url: string) => url.includes('/binary')
+      ? new Response('', { status: 404 })
+      : Response.json({ cells: [['-9223372036854775808', '0']], generationsComputed: 1, liveCellCount: 1 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect((await api.tick([[0n, 0n]], 'B3/S23', 'plane:clip')).cells).toEqual([[LONG_MIN, 0n]]);
+    expect((await api.tick([[0n, 0n]], 'B3/S23', 'plane:clip')).cells).toEqual([[LONG_MIN, 0n]]);
+
+    const urls = fetchMock.mock.calls.map(([url]) => url);
+    expect(urls.filter((u) => u.includes('/binary'))).toHaveLength(1);
+    expect(urls.filter((u) => u.endsWith('/tick'))).toHaveLength(2);
+  });
+
+  it('sends boards under Generations rules, or with dying cells, as JSON', async () => {
+    const api = await freshApi();
+    const fetchMock = vi.fn(async () => Response.json({ cells: [['0', '0', '2']], generationsComputed: 1, liveCellCount: 0 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect((await api.tick([[0n, 0n]], 'B2/S/C3', 'plane:clip')).cells).toEqual([[0n, 0n, 2]]);
+    await api.tick([[0n, 0n, 2]], 'B3/S23', 'plane:clip');
+
+    const calls = fetchMock.mock.calls as unknown as [string, RequestInit][];
+    expect(calls.map(([url]) => url.endsWith('/tick'))).toEqual([true, true]);
+    expect(JSON.parse(calls[1][1].body as string).cells).toEqual([['0', '0', '2']]);
+  });
+
+  it('reports a rejected binary request instead of retrying it as JSON', async () => {
+    const api = await freshApi();
+    const fetchMock = vi.fn(async () => new Response('Rule is not supported', { status: 400 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(api.tick([], 'B0/S8', 'plane:clip')).rejects.toMatchObject({ status: 400 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('grows exponentially up to a cap, jittered down from it', () => {
+    const max = () => 1 - Number.EPSILON;
+    expect(backoffDelay(1, max)).toBeCloseTo(600);
+    expect(backoffDelay(2, max)).toBeCloseTo(1200);
+    expect(backoffDelay(10, max)).toBeCloseTo(5000);
+    expect(backoffDelay(3, () => 0.5)).toBeCloseTo(1200);
+    expect(backoffDelay(3, () => 0)).toBe(0);
+  });
+});
+
+describe('timeouts, retries and cancellation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.resetModules();
+  });
+
+  // Fresh modules per test: the transport and the connection health start over.
+  const freshModules = async () => {
+    // Zero jitter: retries follow each other without waiting.
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    return { api: await import('../services/api'), health: await import('../services/connectionHealth') };
+  };
+
+  // A fetch that never answers, but rejects like fetch does once its signal aborts.
+  const hangingFetch = () => vi.fn((_url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+    init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+  }));
+
+  it('retries idempotent calls on server errors and reports a degraded connection', async () => {
+    const { api, health } = await freshModules();
+    let calls = 0;
+    const fetchMock = vi.fn(async () => ++calls < 3
+      ? new Response('Unavailable', { status: 503 })
+      : new Response(api.encodeCells([[1n, 1n]])));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect((await api.tick([[0n, 0n]], 'B3/S23', 'plane:clip')).cells).toEqual([[1n, 1n]]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(health.getConnectionHealth()).toBe('degraded');
+  });
+
+  it('gives up after its retries, reports offline and surfaces the last error', async () => {
+    const { api, health } = await freshModules();
+    const fetchMock = vi.fn(async () => new Response('Unavailable', { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(api.simulate([[0n, 0n]], 5, 'B3/S23', 'plane:clip')).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1 + api.MAX_RETRIES);
+    expect(health.getConnectionHealth()).toBe('offline');
+  });
+
+  it('does not retry rejected requests', async () => {
+    const { api, health } = await freshModules();
+    const fetchMock = vi.fn(async () => new Response('Bad rule', { status: 400 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(api.tick([], 'B0', 'plane:clip')).rejects.toMatchObject({ status: 400 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(health.getConnectionHealth()).toBe('online');
+  });
+
+  it('takes a full session memory for an answer, not an outage', async () => {
+    const { api, health } = await freshModules();
+    const fetchMock = vi.fn(async () => new Response('Session memory is full', { status: api.SESSION_MEMORY_FULL }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(api.createSession([[0n, 0n]], 'B3/S23', 'plane:clip')).rejects.toMatchObject({ status: 507 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(health.getConnectionHealth()).toBe('online');
+  });
+
+  it('does not retry calls that change server state', async () => {
+    const { api } = await freshModules();
+    const fetchMock = vi.fn(async () => new Response('Unavailable', { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(api.advanceSession('s1', 0, 1)).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out each attempt with a readable error', async () => {
+    const { api, health } = await freshModules();
+    const fetchMock = hangingFetch();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(api.tick([], 'B3/S23', 'plane:clip', { timeoutMs: 20, retries: 1 })).rejects.toThrow('No answer from the server within 0.02 s.');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(health.getConnectionHealth()).toBe('offline');
+  });
+
+  it('rejects with an AbortError when cancelled, without retrying or touching the health', async () => {
+    const { api, health } = await freshModules();
+    const fetchMock = hangingFetch();
+    vi.stubGlobal('fetch', fetchMock);
+    const controller = new AbortController();
+
+    const request = api.parseLife106('#Life 1.06\n0 0', { signal: controller.signal });
+    controller.abort();
+
+    const error = await request.catch((e: unknown) => e);
+    expect(api.isAbortError(error)).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(health.getConnectionHealth()).toBe('online');
+  });
+
+  it('stops waiting between retries once cancelled', async () => {
+    const { api } = await freshModules();
+    vi.mocked(Math.random).mockReturnValue(0.99);
+    const fetchMock = vi.fn(async () => new Response('Unavailable', { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const controller = new AbortController();
+
+    const request = api.tick([], 'B3/S23', 'plane:clip', { signal: controller.signal });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    expect(api.isAbortError(await request.catch((e: unknown) => e))).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
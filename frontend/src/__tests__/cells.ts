@@ -0,0 +1,11 @@
+import type { Cell } from '../services/api';
+
+/** Cells as sorted "x,y" keys, so boards compare regardless of cell order. */
+export function sorted(cells: Cell[]): string[] {
+  return cells.map(([x, y]) => `${x},${y}`).sort();
+}
+
+/** `cells` moved by (dx, dy). */
+export function shift(cells: Cell[], dx: bigint, dy: bigint): Cell[] {
+  return cells.map(([x, y]) => [x + dx, y + dy] as Cell);
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import type { Cell } from '../services/api';
+import { cellsToMap, computeNextGeneration } from '../services/localEngine';
+import { connectedComponents, takeCensus } from '../services/census';
+import { CONWAY_RULE, parseRule } from '../services/rules';
+import { shift } from './cells';
+
+const block: Cell[] = [[0n, 0n], [1n, 0n], [0n, 1n], [1n, 1n]];
+const blinker: Cell[] = [[0n, 0n], [1n, 0n], [2n, 0n]];
+const glider: Cell[] = [[1n, 0n], [2n, 1n], [0n, 2n], [1n, 2n], [2n, 2n]];
+const toad: Cell[] = [[1n, 0n], [2n, 0n], [3n, 0n], [0n, 1n], [1n, 1n], [2n, 1n]];
+
+function step(cells: Cell[], generations: number): Cell[] {
+  let board = cellsToMap(cells);
+  for (let i = 0; i < generations; i++) board = computeNextGeneration(board, parseRule(CONWAY_RULE));
+  return [...board.values()];
+}
+
+function counts(cells: Cell[], gap?: bigint): Record<string, number> {
+  return Object.fromEntries(takeCensus(cells, CONWAY_RULE, gap).map((e) => [e.name, e.instances.length]));
+}
+
+describe('connectedComponents', () => {
+  it('connects the 8 neighbours at gap 0', () => {
+    expect(connectedComponents([[0n, 0n], [1n, 1n], [2n, 2n]], 0n)).toHaveLength(1);
+    expect(connectedComponents([[0n, 0n], [2n, 0n]], 0n)).toHaveLength(2);
+  });
+
+  it('bridges up to `gap` empty cells', () => {
+    expect(connectedComponents([[0n, 0n], [3n, 3n]], 2n)).toHaveLength(1);
+    expect(connectedComponents([[0n, 0n], [4n, 3n]], 2n)).toHaveLength(2);
+  });
+
+  it('joins chains however the cells are ordered', () => {
+    const chain: Cell[] = [[0n, 0n], [4n, 0n], [1n, 0n], [3n, 0n], [2n, 0n]];
+    expect(connectedComponents(chain, 0n)).toEqual([chain]);
+  });
+
+  it('handles negative coordinates across the origin', () => {
+    expect(connectedComponents([[-1n, -1n], [0n, 0n]], 0n)).toHaveLength(1);
+    expect(connectedComponents([[-2n, 0n], [0n, 0n]], 0n)).toHaveLength(2);
+  });
+
+  it('agrees with comparing every pair of cells', () => {
+    // A fixed pseudo-random scatter, dense enough that many buckets meet only at a corner.
+    let seed = 12345;
+    const next = () => (seed = (seed * 1103515245 + 12345) % 2147483648) % 80;
+    const cells: Cell[] = Array.from({ length: 300 }, () => [BigInt(next() - 40), BigInt(next() - 40)] as Cell);
+    for (const gap of [0n, 1n, 3n]) {
+      const group = cells.map((_, i) => i);
+      const root = (i: number): number => (group[i] === i ? i : root(group[i]));
+      cells.forEach(([ax, ay], i) => cells.forEach(([bx, by], j) => {
+        const near = (d: bigint) => d <= gap + 1n && d >= -gap - 1n;
+        if (near(ax - bx) && near(ay - by)) group[root(j)] = root(i);
+      }));
+      const expected = new Set(cells.map((_, i) => root(i))).size;
+      expect(connectedComponents(cells, gap)).toHaveLength(expected);
+    }
+  });
+
+  it('works near the 64-bit limits', () => {
+    const max = 9_223_372_036_854_775_807n;
+    expect(connectedComponents([[max, max], [max - 1n, max - 1n], [-max, -max]], 0n)).toHaveLength(2);
+  });
+});
+
+describe('takeCensus', () => {
+  it('counts blocks, blinkers and gliders', () => {
+    const board = [...block, ...shift(block, 10n, 0n), ...shift(blinker, 0n, 10n), ...shift(glider, 20n, 20n)];
+    expect(counts(board)).toEqual({ Block: 2, Blinker: 1, Glider: 1 });
+  });
+
+  it('recognizes every phase, rotation and reflection of a glider', () => {
+    const mirrored = glider.map(([x, y]) => [-x, y] as Cell);
+    const rotated = glider.map(([x, y]) => [y, -x] as Cell);
+    for (let g = 0; g < 4; g++) {
+      const board = [...step(glider, g), ...shift(step(mirrored, g), 50n, 0n), ...shift(step(rotated, g), 0n, 50n)];
+      expect(counts(board)).toEqual({ Glider: 3 });
+    }
+  });
+
+  it('needs a gap of 1 to see both phases of a toad', () => {
+    expect(counts(step(toad, 1), 1n)).toEqual({ Toad: 1 });
+    expect(counts(step(toad, 1), 0n)).toEqual({ Unidentified: 2 });
+  });
+
+  it('lists unknown objects last', () => {
+    const census = takeCensus([[0n, 0n], ...shift(block, 10n, 0n)], CONWAY_RULE);
+    expect(census.map((e) => e.name)).toEqual(['Block', 'Unidentified']);
+    expect(census[1].id).toBeNull();
+  });
+
+  it('gives each instance its bounding box, in reading order', () => {
+    const [entry] = takeCensus([...shift(block, 10n, 5n), ...block], CONWAY_RULE);
+    expect(entry.instances).toEqual([
+      { minX: 0n, maxX: 1n, minY: 0n, maxY: 1n },
+      { minX: 10n, maxX: 11n, minY: 5n, maxY: 6n },
+    ]);
+  });
+
+  it('only knows objects that survive under the rule', () => {
+    // A block is stable under HighLife (B36/S23) too.
+    expect(takeCensus(block, 'B36/S23')[0].name).toBe('Block');
+    // Under Seeds (B2/S) nothing survives, so nothing is known.
+    expect(takeCensus(block, 'B2/S')[0].name).toBe('Unidentified');
+  });
+});
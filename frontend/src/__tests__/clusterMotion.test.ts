@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import type { Cell } from '../services/api';
+import { cellsToMap, computeNextGeneration } from '../services/localEngine';
+import { CONWAY_RULE, parseRule } from '../services/rules';
+import { detectClusters } from '../App';
+import {
+  MAX_TRACKED_SHAPES,
+  describeVelocity,
+  emptyMotionTracker,
+  formatSpeed,
+  heading,
+  trackClusters,
+  type MotionTracker,
+  type Velocity,
+} from '../services/clusterMotion';
+import { shift } from './cells';
+
+const conway = parseRule(CONWAY_RULE);
+
+const glider: Cell[] = [[1n, 0n], [2n, 1n], [0n, 2n], [1n, 2n], [2n, 2n]];
+const lwss: Cell[] = [[1n, 0n], [4n, 0n], [0n, 1n], [0n, 2n], [4n, 2n], [0n, 3n], [1n, 3n], [2n, 3n], [3n, 3n]];
+const blinker: Cell[] = [[0n, 0n], [1n, 0n], [2n, 0n]];
+
+/** Steps `cells` for `generations`, tracking clusters each generation; returns the last velocities. */
+function follow(cells: Cell[], generations: number): (Velocity | null)[] {
+  let board = cellsToMap(cells);
+  let tracker: MotionTracker = emptyMotionTracker();
+  let velocities: (Velocity | null)[] = [];
+  for (let g = 0n; g <= BigInt(generations); g++) {
+    ({ tracker, velocities } = trackClusters(tracker, g, detectClusters([...board.values()]).map((c) => c.shape)));
+    board = computeNextGeneration(board, conway);
+  }
+  return velocities;
+}
+
+describe('trackClusters', () => {
+  it('knows nothing until a shape comes back', () => {
+    expect(follow(glider, 3)).toEqual([null]);
+  });
+
+  it('measures a glider at c/4 diagonal', () => {
+    const [v] = follow(glider, 8);
+    expect(v).toEqual({ dx: 1n, dy: 1n, period: 4n });
+    expect(formatSpeed(v!)).toBe('c/4');
+    expect(heading(v!)).toEqual({ direction: 'SE', arrow: '↘', kind: 'diagonal' });
+  });
+
+  it('measures a lightweight spaceship at c/2 orthogonal', () => {
+    const [v] = follow(lwss, 8);
+    expect(formatSpeed(v!)).toBe('c/2');
+    expect(heading(v!)).toMatchObject({ direction: 'W', kind: 'orthogonal' });
+  });
+
+  it('reports oscillators as stationary', () => {
+    const [v] = follow(blinker, 4);
+    expect(v).toEqual({ dx: 0n, dy: 0n, period: 2n });
+    expect(describeVelocity(v!)).toBe('stationary');
+  });
+
+  it('tracks far-apart clusters separately, even with the same shape', () => {
+    const far = 2_000_000_000_000n;
+    const velocities = follow([...glider, ...shift(glider, far, far), ...shift(blinker, -far, 0n)], 8);
+    expect(velocities).toEqual([
+      { dx: 0n, dy: 0n, period: 2n },
+      { dx: 1n, dy: 1n, period: 4n },
+      { dx: 1n, dy: 1n, period: 4n },
+    ]);
+  });
+
+  it('gets the speed right across skipped generations', () => {
+    const start = trackClusters(emptyMotionTracker(), 0n, detectClusters(glider).map((c) => c.shape));
+    const later = shift(glider, 25n, 25n); // the glider 100 generations on
+    const { tracker, velocities } = trackClusters(start.tracker, 100n, detectClusters(later).map((c) => c.shape));
+    expect(velocities[0]).toEqual({ dx: 25n, dy: 25n, period: 100n });
+    expect(formatSpeed(velocities[0]!)).toBe('c/4');
+    expect(tracker.lastGeneration).toBe(100n);
+  });
+
+  it('ignores copies too far away to be the same object', () => {
+    const { tracker } = trackClusters(emptyMotionTracker(), 0n, detectClusters(glider).map((c) => c.shape));
+    const { velocities } = trackClusters(tracker, 4n, detectClusters(shift(glider, 500n, 0n)).map((c) => c.shape));
+    expect(velocities).toEqual([null]);
+  });
+
+  it('replaces a generation recorded twice', () => {
+    const shape = detectClusters(glider)[0].shape;
+    let { tracker } = trackClusters(emptyMotionTracker(), 0n, [shape]);
+    ({ tracker } = trackClusters(tracker, 4n, [shape]));
+    const { velocities } = trackClusters(tracker, 4n, [shape]);
+    expect(velocities).toEqual([{ dx: 0n, dy: 0n, period: 4n }]);
+  });
+
+  it('forgets everything when generations go backwards', () => {
+    const shape = detectClusters(glider)[0].shape;
+    const { tracker } = trackClusters(emptyMotionTracker(), 10n, [shape]);
+    expect(trackClusters(tracker, 2n, [shape]).velocities).toEqual([null]);
+  });
+
+  it(`keeps at most ${MAX_TRACKED_SHAPES} shapes`, () => {
+    let tracker = emptyMotionTracker();
+    for (let g = 0n; g < BigInt(MAX_TRACKED_SHAPES) + 10n; g++) {
+      ({ tracker } = trackClusters(tracker, g, [{ signature: `shape ${g}`, minX: 0n, minY: 0n }]));
+    }
+    expect(tracker.sightings.size).toBe(MAX_TRACKED_SHAPES);
+  });
+});
+
+describe('formatSpeed', () => {
+  it('reduces the fraction of c', () => {
+    expect(formatSpeed({ dx: 2n, dy: 0n, period: 4n })).toBe('c/2');
+    expect(formatSpeed({ dx: 0n, dy: -2n, period: 5n })).toBe('2c/5');
+    expect(formatSpeed({ dx: 3n, dy: 3n, period: 3n })).toBe('c');
+  });
+});
+
+describe('describeVelocity', () => {
+  it('names oblique headings', () => {
+    const v = { dx: -2n, dy: 1n, period: 6n };
+    expect(heading(v)).toEqual({ direction: 'SW', arrow: '↙', kind: 'oblique' });
+    expect(describeVelocity(v)).toBe('c/3 oblique heading SW, moving (-2, 1) every 6 generations');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { computeNextGeneration } from '../services/localEngine';
+import { LONG_MAX, LONG_MIN } from '../services/patternFormats';
+import { parseRule } from '../services/rules';
+import { parseTopology } from '../services/topology';
+import type { Cell } from '../services/api';
+
+function toMap(cells: Cell[]): Map<string, Cell> {
+  return new Map(cells.map((c) => [`${c[0]},${c[1]}`, c]));
+}
+
+function keys(map: Map<string, Cell>): string[] {
+  return [...map.keys()].sort();
+}
+
+const CONWAY = parseRule('B3/S23');
+
+describe('computeNextGeneration', () => {
+  it('oscillates a blinker under Conway rules', () => {
+    const next = computeNextGeneration(toMap([[0n, -1n], [0n, 0n], [0n, 1n]]), CONWAY);
+    expect(keys(next)).toEqual(['-1,0', '0,0', '1,0']);
+  });
+
+  it('keeps a block stable', () => {
+    const block: Cell[] = [[0n, 0n], [0n, 1n], [1n, 0n], [1n, 1n]];
+    expect(keys(computeNextGeneration(toMap(block), CONWAY))).toEqual(keys(toMap(block)));
+  });
+
+  it('applies HighLife B6 births that Conway would not', () => {
+    // The centre cell (1,1) has exactly six live neighbours.
+    const ring: Cell[] = [[0n, 0n], [1n, 0n], [2n, 0n], [0n, 2n], [1n, 2n], [2n, 2n]];
+    expect(computeNextGeneration(toMap(ring), parseRule('B36/S23')).has('1,1')).toBe(true);
+    expect(computeNextGeneration(toMap(ring), CONWAY).has('1,1')).toBe(false);
+  });
+
+  it('keeps isolated cells alive under S0 rules', () => {
+    const next = computeNextGeneration(toMap([[0n, 0n]]), parseRule('B3/S0'));
+    expect(keys(next)).toEqual(['0,0']);
+  });
+
+  it('never creates cells beyond long.MaxValue', () => {
+    const edge: Cell[] = [[LONG_MAX, 0n], [LONG_MAX, 1n], [LONG_MAX, 2n]];
+    const next = computeNextGeneration(toMap(edge), CONWAY);
+    for (const [x] of next.values()) expect(x <= LONG_MAX).toBe(true);
+  });
+
+  it('wraps around the 64-bit limits when the plane wraps', () => {
+    // A blinker standing across the seam between long.MaxValue and long.MinValue.
+    const seam: Cell[] = [[0n, LONG_MAX], [0n, LONG_MIN], [0n, LONG_MIN + 1n]];
+    const next = computeNextGeneration(toMap(seam), CONWAY, parseTopology('plane:wrap'));
+    expect(keys(next)).toEqual(keys(toMap([[-1n, LONG_MIN], [0n, LONG_MIN], [1n, LONG_MIN]])));
+  });
+
+  it('lets nothing live outside a bounded rectangle', () => {
+    // The blinker's middle sits on the right edge, so the cell to its right is never born.
+    const next = computeNextGeneration(toMap([[4n, -1n], [4n, 0n], [4n, 1n], [20n, 20n]]), CONWAY, parseTopology('rect:5x5@0,-2'));
+    expect(keys(next)).toEqual(['3,0', '4,0']);
+  });
+
+  it('mirrors across the top and bottom of a Klein bottle', () => {
+    // Three cells along the bottom row; across the bottom edge they meet the top row mirrored.
+    const bottom: Cell[] = [[0n, 4n], [1n, 4n], [2n, 4n]];
+    const klein = computeNextGeneration(toMap(bottom), CONWAY, parseTopology('klein:6x5@0,0'));
+    const torus = computeNextGeneration(toMap(bottom), CONWAY, parseTopology('torus:6x5@0,0'));
+    expect(keys(torus)).toEqual(['1,0', '1,3', '1,4']);
+    expect(keys(klein)).toEqual(['1,3', '1,4', '4,0']);
+  });
+
+  it('lets live cells die through the states of a Generations rule', () => {
+    // Brian's Brain: two live cells side by side give birth above and below them, then start dying.
+    const brain = parseRule('B2/S/C3');
+    const next = computeNextGeneration(toMap([[0n, 0n], [1n, 0n]]), brain);
+    expect(next.get('0,0')).toEqual([0n, 0n, 2]);
+    expect(next.get('1,0')).toEqual([1n, 0n, 2]);
+    expect(next.get('0,-1')).toEqual([0n, -1n]);
+    expect(next.get('1,1')).toEqual([1n, 1n]);
+    expect(next.size).toBe(6);
+
+    // The dying cells are gone a generation later and were no one's neighbour.
+    const after = computeNextGeneration(next, brain);
+    expect(after.has('0,0')).toBe(false);
+    expect(after.get('0,-1')).toEqual([0n, -1n, 2]);
+  });
+
+  it('does not give birth on a dying cell', () => {
+    // (1, 1) has two live neighbours, but is still dying.
+    const board = toMap([[0n, 0n], [2n, 0n], [1n, 1n, 2]]);
+    const next = computeNextGeneration(board, parseRule('B2/S345/C4'));
+    expect(next.get('1,1')).toEqual([1n, 1n, 3]);
+  });
+
+  it('clears dying cells left over from a rule with more states', () => {
+    const next = computeNextGeneration(toMap([[0n, 0n, 3], [5n, 5n]]), CONWAY);
+    expect(next.size).toBe(0);
+  });
+});
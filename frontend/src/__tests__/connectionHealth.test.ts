@@ -0,0 +1,51 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { SLOW_RESPONSE_MS, nextHealth } from '../services/connectionHealth';
+
+const answered = (attempts = 1, elapsedMs = 50) => ({ type: 'answered' as const, attempts, elapsedMs });
+
+describe('nextHealth', () => {
+  it('stays online while requests answer first time and quickly', () => {
+    expect(nextHealth('online', answered())).toBe('online');
+    expect(nextHealth('degraded', answered())).toBe('online');
+  });
+
+  it('degrades on retries and slow answers', () => {
+    expect(nextHealth('online', { type: 'attemptFailed' })).toBe('degraded');
+    expect(nextHealth('online', answered(2))).toBe('degraded');
+    expect(nextHealth('online', answered(1, SLOW_RESPONSE_MS + 1))).toBe('degraded');
+  });
+
+  it('goes offline when a request gives up', () => {
+    expect(nextHealth('online', { type: 'failed' })).toBe('offline');
+    expect(nextHealth('degraded', { type: 'failed' })).toBe('offline');
+  });
+
+  it('recovers from offline through degraded', () => {
+    expect(nextHealth('offline', { type: 'attemptFailed' })).toBe('offline');
+    expect(nextHealth('offline', answered())).toBe('degraded');
+    expect(nextHealth(nextHealth('offline', answered()), answered())).toBe('online');
+  });
+});
+
+describe('connection health store', () => {
+  afterEach(() => {
+    vi.resetModules();
+  });
+
+  it('notifies subscribers of changes only', async () => {
+    const health = await import('../services/connectionHealth');
+    const listener = vi.fn();
+    const unsubscribe = health.subscribeConnectionHealth(listener);
+
+    health.reportConnection(answered());
+    expect(listener).not.toHaveBeenCalled();
+    health.reportConnection({ type: 'failed' });
+    expect(health.getConnectionHealth()).toBe('offline');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    health.reportConnection(answered());
+    expect(health.getConnectionHealth()).toBe('degraded');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -29,6 +29,18 @@ describe('detectClusters', () => {
     expect(result).toHaveLength(2);
   });
 
+  it('merges clusters bridged by a cell that arrives later', () => {
+    // 0 and 200 are too far apart on their own; 100, listed last, bridges them.
+    const cells: Cell[] = [[0n, 0n], [200n, 0n], [100n, 0n]];
+    expect(detectClusters(cells)).toHaveLength(1);
+  });
+
+  it('takes the gap as an argument', () => {
+    const cells: Cell[] = [[0n, 0n], [2n, 0n]];
+    expect(detectClusters(cells, 0n)).toHaveLength(2);
+    expect(detectClusters(cells, 1n)).toHaveLength(1);
+  });
+
   it('computes cluster center as midpoint of bounding box', () => {
     const cells: Cell[] = [[0n, 0n], [10n, 20n]];
     const result = detectClusters(cells);
@@ -36,6 +48,13 @@ describe('detectClusters', () => {
     expect(result[0].y).toBe(10n);  // (0 + 20) / 2
   });
 
+  it('reports the bounding-box span for fitting the cluster', () => {
+    const cells: Cell[] = [[-3n, 4n], [10n, 20n]];
+    const result = detectClusters(cells);
+    expect(result[0].width).toBe(13n);
+    expect(result[0].height).toBe(16n);
+  });
+
   it('uses "Fit All" label when there is only one cluster', () => {
     const cells: Cell[] = [[0n, 0n], [1n, 1n]];
     const result = detectClusters(cells);
@@ -0,0 +1,251 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { createHttpEngine, createWorkerEngine, isServerUnavailable } from '../services/engine';
+import { ApiError, decodeCells, encodeCells, serializeCells, type Cell } from '../services/api';
+import { cellsToMap, handleEngineRequest, simulateLocally, type EngineRequest } from '../services/localEngine';
+import { diffCellMaps } from '../services/history';
+
+describe('isServerUnavailable', () => {
+  it('treats network failures as an outage', () => {
+    expect(isServerUnavailable(new TypeError('Failed to fetch'))).toBe(true);
+  });
+
+  it('treats 5xx responses as an outage', () => {
+    expect(isServerUnavailable(new ApiError(503, 'API error 503'))).toBe(true);
+  });
+
+  it('does not fail over when session memory is full', () => {
+    expect(isServerUnavailable(new ApiError(507, 'API error 507: session memory is full'))).toBe(false);
+  });
+
+  it('treats rate limiting as an outage', () => {
+    expect(isServerUnavailable(new ApiError(429, 'API error 429'))).toBe(true);
+  });
+
+  it('does not fail over on rejected requests', () => {
+    expect(isServerUnavailable(new ApiError(400, 'API error 400: bad rule'))).toBe(false);
+  });
+
+  it('does not fail over on cancelled requests', () => {
+    expect(isServerUnavailable(new DOMException('The operation was aborted.', 'AbortError'))).toBe(false);
+  });
+
+  it('treats timeouts as an outage', () => {
+    expect(isServerUnavailable(new Error('No answer from the server within 15 s.'))).toBe(true);
+  });
+});
+
+/**
+ * An in-memory stand-in for the backend's session endpoints and /simulate, stepping
+ * with the local engine. Sessions hold at most `sessionMemory` cells between them.
+ */
+function fakeSessionServer(sessionMemory = Infinity) {
+  const sessions = new Map<string, { cells: Cell[]; rule: string; topology: string; generation: number }>();
+  const calls: string[] = [];
+  let nextId = 0;
+
+  const fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+    const path = new URL(url).pathname.replace(/^.*\/game\//, '');
+    if (url.endsWith('/log')) return new Response(null, { status: 204 });
+    calls.push(`${init.method} ${path.replace(/[0-9]+/, 'N')}`);
+
+    const held = () => [...sessions.values()].reduce((sum, session) => sum + session.cells.length, 0);
+    const query = new URL(url).searchParams;
+    if (path === 'simulate/binary') {
+      const cells = simulateLocally(decodeCells(init.body as Uint8Array), Number(query.get('generations')), query.get('rule')!, query.get('topology')!);
+      return new Response(encodeCells(cells));
+    }
+    if (path === 'sessions/binary') {
+      const cells = decodeCells(init.body as Uint8Array);
+      if (held() + cells.length > sessionMemory) return new Response('Session memory is full', { status: 507 });
+      const id = String(++nextId);
+      const rule = query.get('rule') ?? 'B3/S23';
+      const topology = query.get('topology') ?? 'plane:clip';
+      sessions.set(id, { cells, rule, topology, generation: 0 });
+      return Response.json({ sessionId: id, liveCellCount: 0 });
+    }
+    const [, id, action] = path.split('/');
+    const session = sessions.get(id);
+    if (!session) return new Response('Session not found', { status: 404 });
+    if (init.method === 'DELETE') {
+      sessions.delete(id);
+      return new Response(null, { status: 204 });
+    }
+    if (action === 'advance') {
+      const { fromGeneration, generations } = JSON.parse(init.body as string);
+      if (fromGeneration !== session.generation) return new Response('Stale', { status: 409 });
+      const before = cellsToMap(session.cells);
+      const after = cellsToMap(simulateLocally(session.cells, generations, session.rule, session.topology));
+      if (held() - session.cells.length + after.size > sessionMemory) return new Response('Session memory is full', { status: 507 });
+      const { added, removed } = diffCellMaps(before, after);
+      session.cells = [...after.values()];
+      session.generation += generations;
+      return Response.json({
+        births: serializeCells(added),
+        deaths: serializeCells(removed),
+        generation: session.generation,
+        liveCellCount: after.size,
+      });
+    }
+    return new Response('Unknown route', { status: 404 });
+  });
+
+  vi.stubGlobal('fetch', fetchMock);
+  return { sessions, calls };
+}
+
+const blinker = () => cellsToMap([[0n, -1n], [0n, 0n], [0n, 1n]]);
+const sortedCells = (board: Map<string, Cell>) => [...board.keys()].sort();
+
+describe('createHttpEngine', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('uploads the board once and then advances it by births and deaths', async () => {
+    const server = fakeSessionServer();
+    const engine = createHttpEngine();
+
+    const first = await engine.advance(blinker(), 1, 'B3/S23', 'plane:clip');
+    expect(sortedCells(first.board)).toEqual(['-1,0', '0,0', '1,0']);
+    expect(first.births).toHaveLength(2);
+    expect(first.deaths).toHaveLength(2);
+
+    const second = await engine.advance(first.board, 1, 'B3/S23', 'plane:clip');
+    expect(sortedCells(second.board)).toEqual(sortedCells(blinker()));
+
+    expect(server.calls).toEqual(['POST sessions/binary', 'POST sessions/N/advance', 'POST sessions/N/advance']);
+  });
+
+  it('starts a new session for an edited board or another rule, deleting the old one', async () => {
+    const server = fakeSessionServer();
+    const engine = createHttpEngine();
+
+    const first = await engine.advance(blinker(), 1, 'B3/S23', 'plane:clip');
+    const edited = new Map(first.board).set('5,5', [5n, 5n]);
+    await engine.advance(edited, 1, 'B3/S23', 'plane:clip');
+    await engine.advance(blinker(), 1, 'B36/S23', 'plane:clip');
+
+    expect(server.calls.filter((c) => c === 'POST sessions/binary')).toHaveLength(3);
+    expect(server.calls.filter((c) => c.startsWith('DELETE'))).toHaveLength(2);
+    await vi.waitFor(() => expect(server.sessions.size).toBe(1));
+  });
+
+  it('starts a new session for another topology and steps in it', async () => {
+    const server = fakeSessionServer();
+    const engine = createHttpEngine();
+
+    await engine.advance(blinker(), 1, 'B3/S23', 'plane:clip');
+    // In a 3-high torus the blinker's ends are neighbours, so every cell sees the other two.
+    const wrapped = await engine.advance(blinker(), 1, 'B3/S23', 'torus:5x3@-2,-1');
+
+    expect(server.calls.filter((c) => c === 'POST sessions/binary')).toHaveLength(2);
+    expect([...server.sessions.values()].at(-1)?.topology).toBe('torus:5x3@-2,-1');
+    expect(sortedCells(wrapped.board)).toEqual(['-1,-1', '-1,0', '-1,1', '0,-1', '0,0', '0,1', '1,-1', '1,0', '1,1']);
+  });
+
+  it('re-creates a session the server lost and carries on from the same board', async () => {
+    const server = fakeSessionServer();
+    const engine = createHttpEngine();
+
+    const first = await engine.advance(blinker(), 1, 'B3/S23', 'plane:clip');
+    server.sessions.clear(); // the server restarted
+    const second = await engine.advance(first.board, 1, 'B3/S23', 'plane:clip');
+
+    expect(sortedCells(second.board)).toEqual(sortedCells(blinker()));
+    expect(server.calls.filter((c) => c === 'POST sessions/binary')).toHaveLength(2);
+  });
+
+  it('keeps the 64-bit corners exact', async () => {
+    fakeSessionServer();
+    const engine = createHttpEngine();
+    const max = 9223372036854775807n;
+    const block = cellsToMap([[max, max], [max - 1n, max], [max, max - 1n], [max - 1n, max - 1n]]);
+
+    const result = await engine.advance(block, 3, 'B3/S23', 'plane:clip');
+    expect(sortedCells(result.board)).toEqual(sortedCells(block));
+    expect(result.births).toEqual([]);
+    expect(result.deaths).toEqual([]);
+  });
+
+  it('advances without a session while session memory is full', async () => {
+    const server = fakeSessionServer(2);
+    const engine = createHttpEngine();
+
+    const first = await engine.advance(blinker(), 1, 'B3/S23', 'plane:clip');
+    const second = await engine.advance(first.board, 1, 'B3/S23', 'plane:clip');
+
+    expect(sortedCells(second.board)).toEqual(sortedCells(blinker()));
+    expect(server.calls).toEqual(['POST sessions/binary', 'POST simulate/binary', 'POST simulate/binary']);
+  });
+
+  it('drops a session that outgrows session memory and carries on without one', async () => {
+    const server = fakeSessionServer(3);
+    const engine = createHttpEngine();
+    // Three cells in a corner become a block of four, then stay one.
+    const corner = cellsToMap([[0n, 0n], [1n, 0n], [0n, 1n]]);
+
+    const first = await engine.advance(corner, 1, 'B3/S23', 'plane:clip');
+    expect(first.board.size).toBe(4);
+    await vi.waitFor(() => expect(server.sessions.size).toBe(0));
+    await engine.advance(first.board, 1, 'B3/S23', 'plane:clip');
+
+    expect(server.calls.filter((c) => c === 'POST sessions/binary')).toHaveLength(1);
+    expect(server.calls.filter((c) => c === 'POST simulate/binary')).toHaveLength(2);
+  });
+
+  it('does not retry errors other than a lost session', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Bad rule', { status: 400 })));
+    const engine = createHttpEngine();
+    await expect(engine.advance(blinker(), 1, 'B0/S8', 'plane:clip')).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+/** A stand-in for workers/lifeWorker.ts that answers on the next task, unless it was terminated. */
+class FakeLifeWorker {
+  static instances: FakeLifeWorker[] = [];
+  onmessage: ((e: { data: unknown }) => void) | null = null;
+  onerror: ((e: { message: string }) => void) | null = null;
+  terminated = false;
+
+  constructor() {
+    FakeLifeWorker.instances.push(this);
+  }
+
+  postMessage(request: EngineRequest) {
+    setTimeout(() => {
+      if (!this.terminated) this.onmessage?.({ data: handleEngineRequest(request) });
+    });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+describe('createWorkerEngine', () => {
+  afterEach(() => {
+    FakeLifeWorker.instances = [];
+    vi.unstubAllGlobals();
+  });
+
+  it('cancels a jump by terminating its own worker, leaving steps running', async () => {
+    vi.stubGlobal('Worker', FakeLifeWorker);
+    const engine = createWorkerEngine();
+    const controller = new AbortController();
+
+    const jump = engine.jump([...blinker().values()], 1_000_000n, 'B3/S23', 'plane:clip', controller.signal);
+    controller.abort();
+    await expect(jump).rejects.toMatchObject({ name: 'AbortError' });
+
+    const [stepper, jumper] = FakeLifeWorker.instances;
+    expect(jumper.terminated).toBe(true);
+    expect(stepper.terminated).toBe(false);
+    const step = await engine.advance(blinker(), 2, 'B3/S23', 'plane:clip');
+    expect(sortedCells(step.board)).toEqual(sortedCells(blinker()));
+
+    // The next jump gets a fresh worker.
+    const result = await engine.jump([...blinker().values()], 2n, 'B3/S23', 'plane:clip');
+    expect(result.cells).toHaveLength(3);
+    expect(FakeLifeWorker.instances).toHaveLength(3);
+  });
+});
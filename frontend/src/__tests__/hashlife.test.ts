@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { hashLifeAdvance } from '../services/hashlife';
+import { simulateLocally } from '../services/localEngine';
+import { parseRule } from '../services/rules';
+import type { Cell } from '../services/api';
+import { sorted, shift } from './cells';
+
+const LONG_MAX = 9223372036854775807n;
+const LONG_MIN = -9223372036854775808n;
+
+const CONWAY = parseRule('B3/S23');
+const GLIDER: Cell[] = [[1n, 0n], [2n, 1n], [0n, 2n], [1n, 2n], [2n, 2n]];
+const R_PENTOMINO: Cell[] = [[1n, 0n], [2n, 0n], [0n, 1n], [1n, 1n], [1n, 2n]];
+
+describe('hashLifeAdvance', () => {
+  it('returns the input for zero generations', () => {
+    expect(hashLifeAdvance(GLIDER, 0n, CONWAY)).toBe(GLIDER);
+  });
+
+  it('returns an empty board unchanged', () => {
+    expect(hashLifeAdvance([], 1000n, CONWAY)).toEqual([]);
+  });
+
+  it('rejects negative generation counts', () => {
+    expect(() => hashLifeAdvance(GLIDER, -1n, CONWAY)).toThrow('negative');
+  });
+
+  it('matches step-by-step simulation for single generations', () => {
+    for (let n = 1; n <= 9; n++) {
+      expect(sorted(hashLifeAdvance(R_PENTOMINO, BigInt(n), CONWAY)))
+        .toEqual(sorted(simulateLocally(R_PENTOMINO, n, 'B3/S23')));
+    }
+  });
+
+  it('matches step-by-step simulation for a methuselah over 300 generations', () => {
+    expect(sorted(hashLifeAdvance(R_PENTOMINO, 300n, CONWAY)))
+      .toEqual(sorted(simulateLocally(R_PENTOMINO, 300, 'B3/S23')));
+  });
+
+  it('matches step-by-step simulation under HighLife', () => {
+    const replicator: Cell[] = [[2n, 0n], [3n, 0n], [4n, 0n], [1n, 1n], [4n, 1n], [0n, 2n], [4n, 2n], [0n, 3n], [3n, 3n], [0n, 4n], [1n, 4n], [2n, 4n]];
+    expect(sorted(hashLifeAdvance(replicator, 48n, parseRule('B36/S23'))))
+      .toEqual(sorted(simulateLocally(replicator, 48, 'B36/S23')));
+  });
+
+  it('moves a glider exactly across a billion generations', () => {
+    // A glider moves (1, 1) every 4 generations.
+    const result = hashLifeAdvance(GLIDER, 4_000_000_000n, CONWAY);
+    expect(sorted(result)).toEqual(sorted(shift(GLIDER, 1_000_000_000n, 1_000_000_000n)));
+  });
+
+  it('jumps beyond number precision', () => {
+    const generations = 4n * 2n ** 55n;
+    const result = hashLifeAdvance(GLIDER, generations, CONWAY);
+    expect(sorted(result)).toEqual(sorted(shift(GLIDER, 2n ** 55n, 2n ** 55n)));
+  });
+
+  it('keeps a blinker in phase after an even jump', () => {
+    const blinker: Cell[] = [[0n, -1n], [0n, 0n], [0n, 1n]];
+    expect(sorted(hashLifeAdvance(blinker, 1_000_000_000n, CONWAY))).toEqual(sorted(blinker));
+  });
+
+  it('works with patterns spread across the 64-bit plane', () => {
+    const far: Cell[] = [...GLIDER, ...shift(GLIDER, LONG_MIN, LONG_MIN), ...shift(GLIDER, LONG_MAX - 1000n, 0n)];
+    const result = hashLifeAdvance(far, 40n, CONWAY);
+    expect(sorted(result)).toEqual(sorted(shift(far, 10n, 10n)));
+  });
+
+  it('stops at the 64-bit wall like stepping', () => {
+    // Gliders crash into each side and into a corner, leaving debris along the wall.
+    const crashes: Cell[][] = [
+      shift(GLIDER, LONG_MAX - 10n, 0n),
+      shift(GLIDER, 0n, LONG_MAX - 10n),
+      shift(GLIDER, LONG_MAX - 10n, LONG_MAX - 12n),
+      shift(GLIDER.map(([x, y]): Cell => [-x, -y]), LONG_MIN + 10n, LONG_MIN + 12n),
+    ];
+    for (const pattern of crashes) {
+      for (const n of [7, 64, 200]) {
+        expect(sorted(hashLifeAdvance(pattern, BigInt(n), CONWAY)))
+          .toEqual(sorted(simulateLocally(pattern, n, 'B3/S23')));
+      }
+    }
+  });
+
+  it('leaves the debris of a crash at the wall after a long jump', () => {
+    // The glider turns into a block against the wall some 400 generations in.
+    const glider = shift(GLIDER, LONG_MAX - 100n, 0n);
+    const block = simulateLocally(glider, 600, 'B3/S23');
+    expect(block).toHaveLength(4);
+    expect(sorted(hashLifeAdvance(glider, 1_000_000_000n, CONWAY))).toEqual(sorted(block));
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import type { Cell } from '../services/api';
+import {
+  MAX_HISTORY_CELLS,
+  MAX_HISTORY_ENTRIES,
+  applyEntry,
+  diffCellMaps,
+  diffDelta,
+  emptyHistory,
+  mergeEntries,
+  pushEntry,
+  redoEntry,
+  revertEntry,
+  undoEntry,
+  type HistoryEntry,
+} from '../services/history';
+import { cellsToMap } from '../services/localEngine';
+
+const LONG_MAX = 9223372036854775807n;
+const LONG_MIN = -9223372036854775808n;
+
+function keys(map: Map<string, Cell>): string[] {
+  return [...map.keys()].sort();
+}
+
+function entry(label: string, added: Cell[], removed: Cell[] = [], from = 0n, to = from): HistoryEntry {
+  return { label, added, removed, fromGeneration: from, toGeneration: to };
+}
+
+describe('diffCellMaps', () => {
+  it('lists only cells that changed', () => {
+    const before = cellsToMap([[0n, 0n], [1n, 0n], [2n, 0n]]);
+    const after = cellsToMap([[1n, -1n], [1n, 0n], [1n, 1n]]);
+    const { added, removed } = diffCellMaps(before, after);
+    expect(added.map(String).sort()).toEqual(['1,-1', '1,1']);
+    expect(removed.map(String).sort()).toEqual(['0,0', '2,0']);
+  });
+
+  it('is empty for identical boards', () => {
+    const map = cellsToMap([[LONG_MAX, LONG_MIN]]);
+    expect(diffCellMaps(map, new Map(map))).toEqual({ added: [], removed: [] });
+  });
+});
+
+describe('dying states', () => {
+  const before = cellsToMap([[0n, 0n], [1n, 0n, 2]]);
+  const after = cellsToMap([[0n, 0n, 2], [0n, 1n]]);
+
+  it('lists a cell that only changed state as both added and removed', () => {
+    const { added, removed } = diffCellMaps(before, after);
+    expect(added).toEqual([[0n, 0n, 2], [0n, 1n]]);
+    expect(removed).toEqual([[0n, 0n], [1n, 0n, 2]]);
+  });
+
+  it('undoes a change of state back to the old state', () => {
+    const step = entry('step', ...Object.values(diffCellMaps(before, after)) as [Cell[], Cell[]]);
+    expect([...revertEntry(after, step).values()]).toEqual(expect.arrayContaining([...before.values()]));
+    expect([...applyEntry(before, step).values()]).toEqual(expect.arrayContaining([...after.values()]));
+  });
+
+  it('reads births and deaths reported by a server session against the board', () => {
+    // The server reports (0, 0) as a birth in state 2 and (1, 0) as gone.
+    const { added, removed } = diffDelta(before, [[0n, 0n, 2], [0n, 1n]], [[1n, 0n]]);
+    expect(added).toEqual([[0n, 0n, 2], [0n, 1n]]);
+    expect(removed).toEqual([[1n, 0n, 2], [0n, 0n]]);
+  });
+
+  it('merges two changes of state into one', () => {
+    const merged = mergeEntries(
+      entry('rewind', [[0n, 0n, 2]], [[0n, 0n]]),
+      entry('rewind', [[0n, 0n, 3]], [[0n, 0n, 2]]),
+    );
+    expect(merged.added).toEqual([[0n, 0n, 3]]);
+    expect(merged.removed).toEqual([[0n, 0n]]);
+  });
+});
+
+describe('applyEntry / revertEntry', () => {
+  it('round-trips a step of a blinker', () => {
+    const before = cellsToMap([[0n, 0n], [1n, 0n], [2n, 0n]]);
+    const after = cellsToMap([[1n, -1n], [1n, 0n], [1n, 1n]]);
+    const e = { ...entry('step', [], [], 0n, 1n), ...diffCellMaps(before, after) };
+    expect(keys(applyEntry(before, e))).toEqual(keys(after));
+    expect(keys(revertEntry(after, e))).toEqual(keys(before));
+  });
+
+  it('keeps 64-bit boundary cells exact', () => {
+    const e = entry('toggle', [[LONG_MAX, LONG_MAX]], [[LONG_MIN, LONG_MIN]]);
+    const before = cellsToMap([[LONG_MIN, LONG_MIN]]);
+    const after = applyEntry(before, e);
+    expect([...after.values()]).toEqual([[LONG_MAX, LONG_MAX]]);
+    expect([...revertEntry(after, e).values()]).toEqual([[LONG_MIN, LONG_MIN]]);
+  });
+
+  it('does not mutate the input board', () => {
+    const before = cellsToMap([[0n, 0n]]);
+    applyEntry(before, entry('toggle', [[5n, 5n]]));
+    expect(keys(before)).toEqual(['0,0']);
+  });
+});
+
+describe('pushEntry / undoEntry / redoEntry', () => {
+  it('moves entries between the undo and redo stacks', () => {
+    let h = pushEntry(emptyHistory(), entry('toggle', [[0n, 0n]]));
+    h = pushEntry(h, entry('step', [[1n, 1n]], [], 0n, 1n));
+    const undone = undoEntry(h);
+    expect(undone?.entry.label).toBe('step');
+    expect(undone?.history.past).toHaveLength(1);
+    expect(undone?.history.future).toHaveLength(1);
+    const redone = redoEntry(undone!.history);
+    expect(redone?.entry.label).toBe('step');
+    expect(redone?.history.future).toHaveLength(0);
+  });
+
+  it('returns null when there is nothing to undo or redo', () => {
+    expect(undoEntry(emptyHistory())).toBeNull();
+    expect(redoEntry(emptyHistory())).toBeNull();
+  });
+
+  it('clears the redo stack on a new action', () => {
+    let h = pushEntry(emptyHistory(), entry('toggle', [[0n, 0n]]));
+    h = undoEntry(h)!.history;
+    h = pushEntry(h, entry('toggle', [[1n, 1n]]));
+    expect(h.future).toHaveLength(0);
+    expect(redoEntry(h)).toBeNull();
+  });
+
+  it('skips actions that changed nothing', () => {
+    const h = pushEntry(emptyHistory(), entry('reset', []));
+    expect(h.past).toHaveLength(0);
+  });
+
+  it('records a generation change even without cell changes', () => {
+    const h = pushEntry(emptyHistory(), entry('step', [], [], 4n, 5n));
+    expect(h.past).toHaveLength(1);
+  });
+
+  it('records a universe change even without cell changes', () => {
+    const h = pushEntry(emptyHistory(), { ...entry('open link', []), fromTopology: 'plane:clip', toTopology: 'torus:8x8@0,0' });
+    expect(h.past).toHaveLength(1);
+  });
+
+  it('drops the oldest entries beyond the entry limit', () => {
+    let h = emptyHistory();
+    for (let i = 0; i < MAX_HISTORY_ENTRIES + 5; i++) h = pushEntry(h, entry(`t${i}`, [[BigInt(i), 0n]]));
+    expect(h.past).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(h.past[0].label).toBe('t5');
+  });
+
+  it('drops the oldest entries beyond the cell limit but keeps the newest', () => {
+    // One shared cell: the limit counts entries' cells, not distinct coordinates.
+    const many = (n: number): Cell[] => new Array<Cell>(n).fill([0n, 0n]);
+    let h = pushEntry(emptyHistory(), entry('load', many(10)));
+    h = pushEntry(h, entry('load', many(MAX_HISTORY_CELLS)));
+    expect(h.past).toHaveLength(1);
+    expect(h.size).toBe(MAX_HISTORY_CELLS);
+    h = pushEntry(h, entry('reset', [], many(MAX_HISTORY_CELLS + 1)));
+    expect(h.past).toHaveLength(1);
+    expect(h.past[0].label).toBe('reset');
+  });
+});
+
+describe('mergeEntries / coalescing', () => {
+  it('nets out cells added then removed', () => {
+    const merged = mergeEntries(
+      entry('rewind', [[1n, 1n], [2n, 2n]], [[0n, 0n]], 10n, 5n),
+      entry('rewind', [[0n, 0n]], [[1n, 1n]], 5n, 3n),
+    );
+    expect(merged.added).toEqual([[2n, 2n]]);
+    expect(merged.removed).toEqual([]);
+    expect(merged.fromGeneration).toBe(10n);
+    expect(merged.toGeneration).toBe(3n);
+  });
+
+  it('coalesces consecutive entries with the same label', () => {
+    let h = pushEntry(emptyHistory(), entry('step', [[9n, 9n]], [], 0n, 1n));
+    h = pushEntry(h, entry('rewind', [[1n, 1n]], [], 1n, 0n), true);
+    h = pushEntry(h, entry('rewind', [[2n, 2n]], [], 0n, 0n), true);
+    expect(h.past.map((e) => e.label)).toEqual(['step', 'rewind']);
+    expect(h.past[1].added).toHaveLength(2);
+  });
+
+  it('drops a coalesced entry that nets to nothing', () => {
+    let h = pushEntry(emptyHistory(), entry('rewind', [[1n, 1n]], [], 4n, 2n), true);
+    h = pushEntry(h, entry('rewind', [], [[1n, 1n]], 2n, 4n), true);
+    expect(h.past).toHaveLength(0);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { parseLife105, serializeLife105 } from '../services/life105';
+import type { Cell } from '../services/api';
+import { sorted } from './cells';
+
+const LONG_MAX = 9223372036854775807n;
+const LONG_MIN = -9223372036854775808n;
+
+const GLIDER_105 = `#Life 1.05
+#D The smallest spaceship.
+#N
+#P -1 -1
+.*.
+..*
+***
+`;
+
+describe('parseLife105', () => {
+  it('parses a glider placed by its #P offset', () => {
+    const result = parseLife105(GLIDER_105);
+    expect(sorted(result.cells)).toEqual(sorted([[0n, -1n], [1n, 0n], [-1n, 1n], [0n, 1n], [1n, 1n]]));
+    expect(result.comments).toEqual(['The smallest spaceship.']);
+    expect(result.rule).toBe('B3/S23');
+  });
+
+  it('parses multiple blocks', () => {
+    const result = parseLife105('#Life 1.05\n#P 0 0\n**\n#P 100 -50\n*\n');
+    expect(sorted(result.cells)).toEqual(sorted([[0n, 0n], [1n, 0n], [100n, -50n]]));
+  });
+
+  it('converts #R survival/birth rules to B/S notation', () => {
+    expect(parseLife105('#Life 1.05\n#R 23/36\n#P 0 0\n*\n').rule).toBe('B36/S23');
+  });
+
+  it('keeps BigInt block offsets near the 64-bit limits exact', () => {
+    const result = parseLife105(`#Life 1.05\n#P ${LONG_MAX - 1n} ${LONG_MIN}\n**\n`);
+    expect(result.cells).toEqual([[LONG_MAX - 1n, LONG_MIN], [LONG_MAX, LONG_MIN]]);
+  });
+
+  it('rejects blocks that cross long.MaxValue', () => {
+    expect(() => parseLife105(`#Life 1.05\n#P ${LONG_MAX} 0\n**\n`)).toThrow('64-bit');
+  });
+
+  it('rejects a malformed #P line', () => {
+    expect(() => parseLife105('#Life 1.05\n#P one two\n*\n')).toThrow('block position');
+  });
+
+  it('rejects unexpected characters', () => {
+    expect(() => parseLife105('#Life 1.05\n#P 0 0\n*O*\n')).toThrow('Unexpected character');
+  });
+});
+
+describe('serializeLife105', () => {
+  it('writes header, normal rule and one block', () => {
+    const output = serializeLife105([[1n, 0n], [2n, 1n], [0n, 2n], [1n, 2n], [2n, 2n]]);
+    expect(output).toBe('#Life 1.05\n#N\n#P 0 0\n.*\n..*\n***\n');
+  });
+
+  it('writes other rules as #R survival/birth', () => {
+    expect(serializeLife105([[0n, 0n]], { rule: 'B36/S23' })).toContain('#R 23/36');
+  });
+
+  it('writes distant cells as separate blocks instead of drawing the gap', () => {
+    const output = serializeLife105([[0n, 0n], [2_000_000_000_000n, 0n]]);
+    expect(output).toContain('#P 0 0');
+    expect(output).toContain('#P 2000000000000 0');
+    expect(output.length).toBeLessThan(100);
+  });
+
+  it('keeps empty rows inside a block', () => {
+    expect(serializeLife105([[0n, 0n], [0n, 2n]])).toContain('#P 0 0\n*\n.\n*\n');
+  });
+
+  it('round-trips cells at long.MinValue and long.MaxValue', () => {
+    const original: Cell[] = [[LONG_MIN, LONG_MIN], [LONG_MAX, LONG_MAX], [-1n, 0n], [0n, 0n], [31n, 5n], [32n, 5n]];
+    expect(sorted(parseLife105(serializeLife105(original)).cells)).toEqual(sorted(original));
+  });
+});
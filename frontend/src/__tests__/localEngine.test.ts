@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_STEPPED_JUMP, cellsToMap, handleEngineRequest, simulateLocally } from '../services/localEngine';
+import type { Cell } from '../services/api';
+import { sorted } from './cells';
+
+const GLIDER: Cell[] = [[1n, 0n], [2n, 1n], [0n, 2n], [1n, 2n], [2n, 2n]];
+
+describe('cellsToMap', () => {
+  it('keys cells by "x,y" and drops duplicates', () => {
+    const map = cellsToMap([[1n, 2n], [1n, 2n], [-3n, 4n]]);
+    expect([...map.keys()]).toEqual(['1,2', '-3,4']);
+  });
+});
+
+describe('simulateLocally', () => {
+  it('moves a glider one cell diagonally every 4 generations', () => {
+    const result = simulateLocally(GLIDER, 4, 'B3/S23');
+    expect(sorted(result)).toEqual(sorted(GLIDER.map(([x, y]) => [x + 1n, y + 1n])));
+  });
+
+  it('returns the input for zero generations', () => {
+    expect(sorted(simulateLocally(GLIDER, 0, 'B3/S23'))).toEqual(sorted(GLIDER));
+  });
+
+  it('works near long.MinValue', () => {
+    const off = -9223372036854775000n;
+    const shifted: Cell[] = GLIDER.map(([x, y]) => [x + off, y + off]);
+    const result = simulateLocally(shifted, 4, 'B3/S23');
+    expect(sorted(result)).toEqual(sorted(shifted.map(([x, y]) => [x + 1n, y + 1n])));
+  });
+});
+
+describe('handleEngineRequest', () => {
+  it('echoes the request id with the result', () => {
+    const response = handleEngineRequest({ id: 7, type: 'simulate', cells: [[0n, -1n], [0n, 0n], [0n, 1n]], generations: 1, rule: 'B3/S23', topology: 'plane:clip' });
+    expect(response.id).toBe(7);
+    expect('cells' in response && sorted(response.cells)).toEqual(['-1,0', '0,0', '1,0']);
+  });
+
+  it('runs HashLife jumps with BigInt generation counts', () => {
+    const response = handleEngineRequest({ id: 2, type: 'jump', cells: GLIDER, generations: 4_000_000n, rule: 'B3/S23', topology: 'plane:clip' });
+    expect('cells' in response && sorted(response.cells))
+      .toEqual(sorted(GLIDER.map(([x, y]) => [x + 1_000_000n, y + 1_000_000n])));
+  });
+
+  it('steps jumps in a bounded universe, where HashLife does not apply', () => {
+    // A glider on an 8×8 torus is back where it started after 32 generations.
+    const response = handleEngineRequest({ id: 3, type: 'jump', cells: GLIDER, generations: 32n, rule: 'B3/S23', topology: 'torus:8x8@0,0' });
+    expect('cells' in response && sorted(response.cells)).toEqual(sorted(GLIDER));
+  });
+
+  it('refuses stepped jumps longer than MAX_STEPPED_JUMP', () => {
+    const response = handleEngineRequest({ id: 4, type: 'jump', cells: GLIDER, generations: MAX_STEPPED_JUMP + 1n, rule: 'B3/S23', topology: 'torus:8x8@0,0' });
+    expect(response).toMatchObject({ id: 4, error: expect.stringContaining('limited to') });
+  });
+
+  it('steps jumps under a Generations rule, and HashLife past dying cells left over from one', () => {
+    const brain = handleEngineRequest({ id: 5, type: 'jump', cells: [[0n, 0n], [1n, 0n]], generations: 2n, rule: 'B2/S/C3', topology: 'plane:clip' });
+    expect('cells' in brain && brain.cells).toContainEqual([0n, -1n, 2]);
+    const refused = handleEngineRequest({ id: 6, type: 'jump', cells: GLIDER, generations: MAX_STEPPED_JUMP + 1n, rule: 'B2/S/C3', topology: 'plane:clip' });
+    expect(refused).toMatchObject({ error: expect.stringContaining('Under B2/S/C3') });
+
+    const leftover = handleEngineRequest({ id: 7, type: 'jump', cells: [...GLIDER, [50n, 50n, 2]], generations: 4n, rule: 'B3/S23', topology: 'plane:clip' });
+    expect('cells' in leftover && sorted(leftover.cells)).toEqual(sorted(GLIDER.map(([x, y]) => [x + 1n, y + 1n])));
+  });
+
+  it('reports an invalid rule as an error instead of throwing', () => {
+    const response = handleEngineRequest({ id: 1, type: 'simulate', cells: [], generations: 1, rule: 'nonsense', topology: 'plane:clip' });
+    expect(response).toMatchObject({ id: 1, error: expect.stringContaining('B/S notation') });
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { LONG_MAX, LONG_MIN } from '../services/patternFormats';
+import { MINIMAP_SCALE_MARKS, fromMinimap, toMinimap } from '../services/minimap';
+
+describe('toMinimap', () => {
+  it('puts the origin in the middle and the 64-bit boundary just inside the edge', () => {
+    expect(toMinimap(0n)).toBe(0);
+    expect(toMinimap(LONG_MAX)).toBeGreaterThan(0.98);
+    expect(toMinimap(LONG_MAX)).toBeLessThan(1);
+    expect(toMinimap(LONG_MIN)).toBeCloseTo(-toMinimap(LONG_MAX), 10);
+  });
+
+  it('keeps nearby and trillions-apart patterns apart', () => {
+    // The two clusters of the sample file: near the origin and two trillion cells away.
+    const near = toMinimap(2n);
+    const far = toMinimap(-2_000_000_000_000n);
+    expect(near).toBeGreaterThan(0);
+    expect(far).toBeLessThan(-0.6);
+    expect(near - far).toBeGreaterThan(0.6);
+  });
+
+  it('is monotonic', () => {
+    const values = [LONG_MIN, -(10n ** 12n), -1000n, -1n, 0n, 1n, 1000n, 10n ** 12n, LONG_MAX];
+    const positions = values.map(toMinimap);
+    for (let i = 1; i < positions.length; i++) expect(positions[i]).toBeGreaterThan(positions[i - 1]);
+  });
+
+  it('spaces the scale marks evenly', () => {
+    const positions = MINIMAP_SCALE_MARKS.map(toMinimap);
+    const gaps = positions.slice(1).map((p, i) => p - positions[i]);
+    for (const gap of gaps) expect(gap).toBeCloseTo(gaps[0], 3);
+  });
+});
+
+describe('fromMinimap', () => {
+  it('inverts toMinimap to within the precision of a float', () => {
+    for (const v of [0n, 5n, -5n, 123_456n, -2_000_000_000_000n]) {
+      expect(fromMinimap(toMinimap(v))).toBe(v);
+    }
+    const big = 10n ** 18n;
+    const back = fromMinimap(toMinimap(big));
+    expect(Number(back - big) / Number(big)).toBeCloseTo(0, 9);
+  });
+
+  it('clamps the edges to the 64-bit range', () => {
+    expect(fromMinimap(1)).toBe(LONG_MAX);
+    expect(fromMinimap(-1)).toBe(LONG_MIN);
+    expect(fromMinimap(5)).toBe(LONG_MAX);
+    expect(fromMinimap(-5)).toBe(LONG_MIN);
+  });
+});
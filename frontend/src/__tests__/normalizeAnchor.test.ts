@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { normalizeAnchor } from '../components/Grid';
+import { normalizeAnchor } from '../services/viewport';
 
 const CELL_SIZE = 20;
 
@@ -64,3 +64,21 @@ describe('normalizeAnchor', () => {
     expect(Math.abs(afterScreenX - beforeScreenX)).toBeLessThan(1);
   });
 });
+
+describe('normalizeAnchor with zoom', () => {
+  it('absorbs whole cells at the given cell size', () => {
+    // 4 px per cell: pixel.x = 10 → shiftX = round(10/4) = 3 (2.5 rounds up)
+    const result = normalizeAnchor({ cell: { x: 0n, y: 0n }, pixel: { x: 10, y: 0 } }, 4);
+    expect(result.cell.x).toBe(-3n);
+    expect(result.pixel.x).toBe(-2);
+  });
+
+  it('absorbs many cells per pixel when zoomed out', () => {
+    // 1/1024 px per cell: 3 px = 3072 cells
+    const result = normalizeAnchor({ cell: { x: 0n, y: 0n }, pixel: { x: 3, y: -1 } }, 1 / 1024);
+    expect(result.cell.x).toBe(-3072n);
+    expect(result.cell.y).toBe(1024n);
+    expect(result.pixel.x).toBe(0);
+    expect(result.pixel.y).toBe(0);
+  });
+});
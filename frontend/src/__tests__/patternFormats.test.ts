@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { detectPatternFormat } from '../services/patternFormats';
+
+describe('detectPatternFormat', () => {
+  it('detects Life 1.06 from its header', () => {
+    expect(detectPatternFormat('#Life 1.06\n0 1\n1 2\n')).toBe('life106');
+  });
+
+  it('falls back to Life 1.06 for a headerless coordinate list', () => {
+    expect(detectPatternFormat('0 1\n1 2\n')).toBe('life106');
+  });
+
+  it('falls back to Life 1.06 for an empty file', () => {
+    expect(detectPatternFormat('')).toBe('life106');
+  });
+
+  it('detects RLE from the size header', () => {
+    expect(detectPatternFormat('x = 3, y = 3, rule = B3/S23\nbob$2bo$3o!')).toBe('rle');
+  });
+
+  it('detects RLE after leading comment lines', () => {
+    expect(detectPatternFormat('#N Glider\n#C comment\n\nx = 3, y = 3\nbob$2bo$3o!')).toBe('rle');
+  });
+
+  it('detects RLE from a Golly #CXRLE line', () => {
+    expect(detectPatternFormat('#CXRLE Pos=0,0\nx = 1, y = 1\no!')).toBe('rle');
+  });
+
+  it('detects Life 1.05 from its header', () => {
+    expect(detectPatternFormat('#Life 1.05\n#P 0 0\n.*.\n')).toBe('life105');
+  });
+
+  it('detects headerless Life 1.05 from a #P block', () => {
+    expect(detectPatternFormat('#D comment\n#P -1 -1\n.*.\n')).toBe('life105');
+  });
+
+  it('detects XLife-style RLE with a #P offset as RLE', () => {
+    expect(detectPatternFormat('#P 5 5\nx = 1, y = 1\no!')).toBe('rle');
+  });
+
+  it('detects plaintext from a ! comment', () => {
+    expect(detectPatternFormat('!Name: Glider\n.O.\n..O\nOOO\n')).toBe('plaintext');
+  });
+
+  it('detects plaintext from its first row', () => {
+    expect(detectPatternFormat('.O.\n..O\nOOO\n')).toBe('plaintext');
+  });
+
+  it('handles Windows CRLF line endings', () => {
+    expect(detectPatternFormat('#N Glider\r\nx = 3, y = 3\r\nbob$2bo$3o!\r\n')).toBe('rle');
+  });
+});
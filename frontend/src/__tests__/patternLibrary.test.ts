@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import type { Cell } from '../services/api';
+import { cellsToMap, computeNextGeneration } from '../services/localEngine';
+import { hashLifeAdvance } from '../services/hashlife';
+import { CONWAY_RULE, parseRule } from '../services/rules';
+import {
+  PATTERN_CATEGORIES,
+  PATTERN_LIBRARY,
+  patternClip,
+  searchPatterns,
+  type LibraryPattern,
+} from '../services/patternLibrary';
+
+const conway = parseRule(CONWAY_RULE);
+
+function byId(id: string): LibraryPattern {
+  const pattern = PATTERN_LIBRARY.find((p) => p.id === id);
+  if (!pattern) throw new Error(`No pattern ${id}`);
+  return pattern;
+}
+
+function run(cells: Cell[], generations: number): Cell[] {
+  let map = cellsToMap(cells);
+  for (let i = 0; i < generations; i++) map = computeNextGeneration(map, conway);
+  return [...map.values()];
+}
+
+function keys(cells: Cell[], dx = 0n, dy = 0n): string[] {
+  return cells.map(([x, y]) => `${x + dx},${y + dy}`).sort();
+}
+
+describe('PATTERN_LIBRARY', () => {
+  it('has unique ids, known categories and parseable RLE', () => {
+    expect(new Set(PATTERN_LIBRARY.map((p) => p.id)).size).toBe(PATTERN_LIBRARY.length);
+    for (const p of PATTERN_LIBRARY) {
+      expect(PATTERN_CATEGORIES).toContain(p.category);
+      expect(patternClip(p).cells.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('covers every category', () => {
+    for (const category of PATTERN_CATEGORIES) {
+      expect(searchPatterns('', category).length).toBeGreaterThan(0);
+    }
+  });
+
+  it('still lifes do not change', () => {
+    for (const p of searchPatterns('', 'Still lifes')) {
+      const { cells } = patternClip(p);
+      expect(keys(run(cells, 1)), p.id).toEqual(keys(cells));
+    }
+  });
+
+  it.each([
+    ['blinker', 2],
+    ['toad', 2],
+    ['beacon', 2],
+    ['pulsar', 3],
+    ['pentadecathlon', 15],
+    ['kok-galaxy', 8],
+  ])('%s oscillates with period %i', (id, period) => {
+    const { cells } = patternClip(byId(id));
+    for (let p = 1; p < period; p++) expect(keys(run(cells, p))).not.toEqual(keys(cells));
+    expect(keys(run(cells, period))).toEqual(keys(cells));
+  });
+
+  it.each([
+    ['glider', 1n, 1n],
+    ['lwss', -2n, 0n],
+    ['mwss', -2n, 0n],
+    ['hwss', -2n, 0n],
+  ])('%s reappears moved by (%i, %i) after 4 generations', (id, dx, dy) => {
+    const { cells } = patternClip(byId(id));
+    expect(keys(run(cells, 4))).toEqual(keys(cells, dx, dy));
+  });
+
+  it.each(['gosper-gun', 'simkin-gun'])('%s keeps growing', (id) => {
+    const { cells } = patternClip(byId(id));
+    const later = hashLifeAdvance(cells, 1200n, conway);
+    const muchLater = hashLifeAdvance(cells, 2400n, conway);
+    expect(later.length).toBeGreaterThan(cells.length);
+    expect(muchLater.length).toBeGreaterThan(later.length);
+  });
+
+  it('the puffer train keeps growing', () => {
+    const { cells } = patternClip(byId('puffer-train'));
+    const later = hashLifeAdvance(cells, 400n, conway);
+    expect(hashLifeAdvance(cells, 800n, conway).length).toBeGreaterThan(later.length);
+  });
+
+  it('diehard vanishes at generation 130', () => {
+    const { cells } = patternClip(byId('diehard'));
+    expect(run(cells, 129).length).toBeGreaterThan(0);
+    expect(run(cells, 130)).toEqual([]);
+  });
+
+  it.each([
+    ['r-pentomino', 1103n, 116],
+    ['acorn', 5206n, 633],
+  ])('%s settles by generation %i', (id, generation, population) => {
+    const { cells } = patternClip(byId(id));
+    const settled = hashLifeAdvance(cells, generation, conway);
+    expect(settled.length).toBe(population);
+  });
+});
+
+describe('patternClip', () => {
+  it('normalizes the pattern to its top-left corner', () => {
+    const clip = patternClip(byId('glider'));
+    expect(clip.width).toBe(3n);
+    expect(clip.height).toBe(3n);
+    expect(keys(clip.cells)).toEqual(keys([[1n, 0n], [2n, 1n], [0n, 2n], [1n, 2n], [2n, 2n]]));
+  });
+
+  it('returns the cached clip on later calls', () => {
+    const p = byId('pulsar');
+    expect(patternClip(p)).toBe(patternClip(p));
+  });
+});
+
+describe('searchPatterns', () => {
+  it('matches names and descriptions case-insensitively', () => {
+    expect(searchPatterns('GLIDER').map((p) => p.id)).toEqual(['eater-1', 'glider', 'gosper-gun', 'simkin-gun']);
+  });
+
+  it('filters by category', () => {
+    expect(searchPatterns('spaceship', 'Spaceships').map((p) => p.id)).toEqual(['lwss', 'mwss', 'hwss']);
+  });
+
+  it('returns everything for an empty query', () => {
+    expect(searchPatterns('  ')).toHaveLength(PATTERN_LIBRARY.length);
+  });
+});
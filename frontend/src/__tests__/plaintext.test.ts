@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { parsePlaintext, serializePlaintext } from '../services/plaintext';
+import type { Cell } from '../services/api';
+import { sorted } from './cells';
+
+const GLIDER_CELLS = `!Name: Glider
+!The smallest spaceship.
+.O.
+..O
+OOO
+`;
+
+const GLIDER: Cell[] = [[1n, 0n], [2n, 1n], [0n, 2n], [1n, 2n], [2n, 2n]];
+
+describe('parsePlaintext', () => {
+  it('parses a glider with name and comments', () => {
+    const result = parsePlaintext(GLIDER_CELLS);
+    expect(sorted(result.cells)).toEqual(sorted(GLIDER));
+    expect(result.name).toBe('Glider');
+    expect(result.comments).toEqual(['The smallest spaceship.']);
+  });
+
+  it('accepts "*" as a live cell and short rows', () => {
+    const result = parsePlaintext('*\n..*\n');
+    expect(result.cells).toEqual([[0n, 0n], [2n, 1n]]);
+  });
+
+  it('keeps blank rows as empty rows', () => {
+    expect(parsePlaintext('O\n\nO\n').cells).toEqual([[0n, 0n], [0n, 2n]]);
+  });
+
+  it('rejects unexpected characters', () => {
+    expect(() => parsePlaintext('.O.\n.X.\n')).toThrow('row 2');
+  });
+
+  it('handles Windows CRLF line endings', () => {
+    const result = parsePlaintext(GLIDER_CELLS.replace(/\n/g, '\r\n'));
+    expect(sorted(result.cells)).toEqual(sorted(GLIDER));
+  });
+});
+
+describe('serializePlaintext', () => {
+  it('writes name and rows relative to the bounding box', () => {
+    const shifted: Cell[] = GLIDER.map(([x, y]) => [x - 5n, y + 7n]);
+    expect(serializePlaintext(shifted, { name: 'Glider' })).toBe('!Name: Glider\n.O\n..O\nOOO\n');
+  });
+
+  it('writes an empty pattern as a comment line, which parses back to no cells', () => {
+    expect(serializePlaintext([])).toBe('!Empty pattern\n');
+    expect(serializePlaintext([], { name: 'Nothing' })).toBe('!Name: Nothing\n');
+    expect(parsePlaintext(serializePlaintext([])).cells).toEqual([]);
+  });
+
+  it('refuses patterns spread across the 64-bit plane', () => {
+    expect(() => serializePlaintext([[0n, 0n], [2_000_000_000_000n, 0n]])).toThrow('too large');
+  });
+
+  it('round-trips through parsePlaintext', () => {
+    expect(sorted(parsePlaintext(serializePlaintext(GLIDER)).cells)).toEqual(sorted(GLIDER));
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, it, expect, inject, vi } from 'vitest';
+import { parseEventStream, type PlaybackStream, type StreamFrame } from '../services/playbackStream';
+
+declare module 'vitest' {
+  export interface ProvidedContext {
+    playbackStandInUrl: string;
+  }
+}
+
+describe('parseEventStream', () => {
+  it('splits complete events and keeps the incomplete rest', () => {
+    const { events, rest } = parseEventStream('event: frame\ndata: {"a":1}\n\nevent: frame\ndata: {"a"');
+    expect(events).toEqual([{ event: 'frame', data: '{"a":1}' }]);
+    expect(rest).toBe('event: frame\ndata: {"a"');
+  });
+
+  it('accepts CRLF line ends, joins data lines and skips comments', () => {
+    const { events, rest } = parseEventStream(': keep-alive\r\n\r\ndata: one\r\ndata: two\r\n\r\n');
+    expect(events).toEqual([{ event: 'message', data: 'one\ntwo' }]);
+    expect(rest).toBe('');
+  });
+});
+
+interface StandInSession {
+  id: string;
+  generation: number;
+  stream: { intervalMs: number; paused: boolean; acknowledged: number } | null;
+  controls: { type: string }[];
+}
+
+describe('openPlaybackStream against the Node stand-in server', () => {
+  const baseUrl = inject('playbackStandInUrl');
+  const blinker: [bigint, bigint][] = [[0n, -1n], [0n, 0n], [0n, 1n]];
+  let stream: PlaybackStream | null = null;
+
+  // The API base is read when the module loads, so each test imports afresh.
+  beforeEach(() => {
+    vi.stubEnv('VITE_API_BASE', baseUrl);
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    stream?.close();
+    stream = null;
+    vi.unstubAllEnvs();
+  });
+
+  const open = async (options: { intervalMs?: number; scheduleRender?: (render: () => void) => void } = {}) => {
+    const { openPlaybackStream } = await import('../services/playbackStream');
+    const frames: StreamFrame[] = [];
+    const batches: number[] = [];
+    const errors: Error[] = [];
+    stream = openPlaybackStream({
+      cells: blinker,
+      rule: 'B3/S23',
+      topology: 'plane:clip',
+      intervalMs: options.intervalMs ?? 10,
+      onFrames: (batch) => {
+        frames.push(...batch);
+        batches.push(batch.length);
+      },
+      onError: (e) => errors.push(e),
+      scheduleRender: options.scheduleRender ?? ((render) => setTimeout(render, 0)),
+    });
+    return { stream, frames, batches, errors };
+  };
+
+  // The session the client opened last.
+  const latestSession = async (): Promise<StandInSession> => {
+    const sessions: StandInSession[] = await (await fetch(new URL('/__standIn/sessions', baseUrl))).json();
+    return sessions[sessions.length - 1];
+  };
+
+  it('receives one generation per frame as births and deaths', async () => {
+    const { frames, errors } = await open();
+
+    await vi.waitFor(() => expect(frames.length).toBeGreaterThanOrEqual(3));
+    expect(errors).toEqual([]);
+    expect(frames.slice(0, 3).map((f) => f.generation)).toEqual([1, 2, 3]);
+    expect(frames[0].births).toEqual(expect.arrayContaining([[-1n, 0n], [1n, 0n]]));
+    expect(frames[0].deaths).toEqual(expect.arrayContaining([[0n, -1n], [0n, 1n]]));
+    expect(frames[1].births).toEqual(expect.arrayContaining(frames[0].deaths));
+    expect(frames[0].liveCellCount).toBe(3);
+  });
+
+  it('holds the server back while rendering lags, then hands over the backlog in one batch', async () => {
+    const pending: (() => void)[] = [];
+    const { frames, batches } = await open({ scheduleRender: (render) => pending.push(render) });
+
+    // Nothing is rendered, so nothing is acknowledged: the server stops 16 frames in.
+    await vi.waitFor(async () => expect((await latestSession()).generation).toBe(16));
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect((await latestSession()).generation).toBe(16);
+    expect(pending).toHaveLength(1);
+
+    pending.shift()!();
+    expect(batches).toEqual([16]);
+    expect(frames.at(-1)?.generation).toBe(16);
+
+    await vi.waitFor(async () => expect((await latestSession()).generation).toBeGreaterThan(16));
+    expect((await latestSession()).controls).toContainEqual({ type: 'ack', generation: 16 });
+  });
+
+  it('opens paused, then resumes and changes speed through control messages', async () => {
+    const { stream: playback, frames } = await open({ intervalMs: 20 });
+    playback.pause();
+
+    await vi.waitFor(async () => expect((await latestSession()).stream?.paused).toBe(true));
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(frames).toEqual([]);
+    expect((await latestSession()).controls).toEqual([]);
+
+    playback.setSpeed(30);
+    playback.resume();
+    await vi.waitFor(() => expect(frames.length).toBeGreaterThan(0));
+    const session = await latestSession();
+    expect(session.controls).toEqual([{ type: 'speed', intervalMs: 30 }, { type: 'resume' }]);
+    expect(session.stream?.intervalMs).toBe(30);
+
+    playback.pause();
+    await vi.waitFor(async () => expect((await latestSession()).stream?.paused).toBe(true));
+  });
+
+  it('reports an error when the server ends the stream', async () => {
+    const { frames, errors } = await open();
+    await vi.waitFor(() => expect(frames.length).toBeGreaterThan(0));
+
+    await fetch(`${baseUrl}/sessions/${(await latestSession()).id}`, { method: 'DELETE' });
+
+    await vi.waitFor(() => expect(errors).toHaveLength(1));
+    expect(errors[0].message).toMatch(/session expired/);
+  });
+
+  it('deletes its session when closed', async () => {
+    const { frames } = await open();
+    await vi.waitFor(() => expect(frames.length).toBeGreaterThan(0));
+    const { id } = await latestSession();
+
+    stream?.close();
+    stream = null;
+
+    await vi.waitFor(async () => expect((await latestSession())?.id).not.toBe(id));
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_POPULATION_SAMPLES,
+  populationToCsv,
+  populationToJson,
+  recordPopulation,
+  type PopulationSample,
+} from '../services/population';
+
+function series(...entries: [bigint, number, { births: number; deaths: number }?][]): PopulationSample[] {
+  return entries.reduce<PopulationSample[]>((s, [g, p, step]) => recordPopulation(s, g, p, step), []);
+}
+
+describe('recordPopulation', () => {
+  it('records steps with their births and deaths', () => {
+    const s = series([0n, 5], [1n, 6, { births: 3, deaths: 2 }]);
+    expect(s).toEqual([
+      { generation: 0n, population: 5, births: null, deaths: null, gap: false },
+      { generation: 1n, population: 6, births: 3, deaths: 2, gap: false },
+    ]);
+  });
+
+  it('marks a jump as a gap without inventing the generations in between', () => {
+    const s = series([0n, 5], [100n, 40]);
+    expect(s).toHaveLength(2);
+    expect(s[1]).toEqual({ generation: 100n, population: 40, births: null, deaths: null, gap: true });
+  });
+
+  it('updates only the population when the newest generation is recorded again', () => {
+    const s = series([0n, 5], [1n, 6, { births: 3, deaths: 2 }], [1n, 7]);
+    expect(s).toHaveLength(2);
+    expect(s[1]).toMatchObject({ population: 7, births: 3, deaths: 2 });
+  });
+
+  it('forks the series when an earlier generation is recorded', () => {
+    const s = series([0n, 5], [1n, 6, { births: 1, deaths: 0 }], [2n, 7, { births: 1, deaths: 0 }], [1n, 2]);
+    expect(s.map((x) => x.generation)).toEqual([0n, 1n]);
+    expect(s[1].population).toBe(2);
+  });
+
+  it(`keeps the newest ${MAX_POPULATION_SAMPLES} samples`, () => {
+    let s: PopulationSample[] = Array.from({ length: MAX_POPULATION_SAMPLES }, (_, g) => (
+      { generation: BigInt(g), population: g, births: null, deaths: null, gap: false }
+    ));
+    for (let g = MAX_POPULATION_SAMPLES; g < MAX_POPULATION_SAMPLES + 5; g++) s = recordPopulation(s, BigInt(g), g);
+    expect(s).toHaveLength(MAX_POPULATION_SAMPLES);
+    expect(s[0].generation).toBe(5n);
+    expect(s.at(-1)?.generation).toBe(BigInt(MAX_POPULATION_SAMPLES + 4));
+  });
+});
+
+describe('populationToCsv', () => {
+  it('writes a header and leaves unknown counts empty', () => {
+    const csv = populationToCsv(series([0n, 5], [1n, 6, { births: 3, deaths: 2 }], [11n, 9]));
+    expect(csv).toBe([
+      'generation,population,births,deaths,gap',
+      '0,5,,,false',
+      '1,6,3,2,false',
+      '11,9,,,true',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('populationToJson', () => {
+  it('writes generations as strings so huge ones survive', () => {
+    const big = 9_007_199_254_740_993n;
+    const parsed = JSON.parse(populationToJson(series([big, 1])));
+    expect(parsed).toEqual([{ generation: '9007199254740993', population: 1, births: null, deaths: null, gap: false }]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import type { Cell } from '../services/api';
+import { cellsToMap, computeNextGeneration } from '../services/localEngine';
+import { CONWAY_RULE, parseRule } from '../services/rules';
+import {
+  MAX_TRACKED_GENERATIONS,
+  boardSignature,
+  describeRepeat,
+  emptyDetector,
+  observeGeneration,
+  type RepeatDetector,
+} from '../services/repeatDetection';
+
+const conway = parseRule(CONWAY_RULE);
+
+/** Plays `cells` from generation `start` until a repeat is reported or `limit` generations pass. */
+function play(cells: Cell[], limit: number, start = 0n): RepeatDetector {
+  let board = cellsToMap(cells);
+  let detector = observeGeneration(emptyDetector(), start, board);
+  for (let g = 1n; g <= BigInt(limit) && !detector.report; g++) {
+    board = computeNextGeneration(board, conway);
+    detector = observeGeneration(detector, start + g, board);
+  }
+  return detector;
+}
+
+const block: Cell[] = [[0n, 0n], [1n, 0n], [0n, 1n], [1n, 1n]];
+const blinker: Cell[] = [[0n, 0n], [1n, 0n], [2n, 0n]];
+const glider: Cell[] = [[1n, 0n], [2n, 1n], [0n, 2n], [1n, 2n], [2n, 2n]];
+const diehard: Cell[] = [[6n, 0n], [0n, 1n], [1n, 1n], [1n, 2n], [5n, 2n], [6n, 2n], [7n, 2n]];
+const rPentomino: Cell[] = [[1n, 0n], [2n, 0n], [0n, 1n], [1n, 1n], [1n, 2n]];
+
+describe('boardSignature', () => {
+  it('ignores translation and insertion order', () => {
+    const moved = glider.map(([x, y]) => [x + 1_000_000_000_000n, y - 7n] as Cell);
+    const a = boardSignature(cellsToMap(glider));
+    const b = boardSignature(cellsToMap([...moved].reverse()));
+    expect(b.signature).toBe(a.signature);
+    expect(b.minX - a.minX).toBe(1_000_000_000_000n);
+    expect(b.minY - a.minY).toBe(-7n);
+  });
+
+  it('tells different shapes with the same population apart', () => {
+    const line: Cell[] = [[0n, 0n], [1n, 0n], [2n, 0n], [3n, 0n]];
+    expect(boardSignature(cellsToMap(line)).signature).not.toBe(boardSignature(cellsToMap(block)).signature);
+  });
+
+  it('tells the same cells in different dying states apart', () => {
+    const dying: Cell[] = [[0n, 0n], [1n, 0n, 2], [2n, 0n, 3]];
+    const later: Cell[] = [[0n, 0n], [1n, 0n, 3], [2n, 0n, 2]];
+    expect(boardSignature(dying).signature).not.toBe(boardSignature(later).signature);
+    expect(boardSignature(dying).signature).not.toBe(boardSignature(blinker).signature);
+  });
+});
+
+describe('observeGeneration', () => {
+  it('reports a still life with period 1', () => {
+    const { report } = play(block, 10);
+    expect(report).toEqual({ generation: 0n, period: 1n, dx: 0n, dy: 0n, population: 4 });
+    expect(describeRepeat(report!)).toBe('Stabilized at generation 0 with period 1');
+  });
+
+  it('reports an oscillator with its period', () => {
+    const { report } = play(blinker, 10);
+    expect(report).toMatchObject({ generation: 0n, period: 2n, dx: 0n, dy: 0n });
+  });
+
+  it('reports a glider as a moving repeat', () => {
+    const { report } = play(glider, 10);
+    expect(report).toMatchObject({ generation: 0n, period: 4n, dx: 1n, dy: 1n });
+    expect(describeRepeat(report!)).toBe('Moving: repeats from generation 0 every 4 generations, shifted by (1, 1)');
+  });
+
+  it('counts only live cells in the population', () => {
+    const board = cellsToMap([[0n, 0n], [1n, 0n], [5n, 5n, 2]]);
+    const detector = observeGeneration(observeGeneration(emptyDetector(), 0n, board), 1n, board);
+    expect(detector.report).toMatchObject({ period: 1n, population: 2 });
+  });
+
+  it('reports when a pattern dies out', () => {
+    const { report } = play(diehard, 200);
+    expect(report).toMatchObject({ generation: 130n, period: 1n, population: 0 });
+    expect(describeRepeat(report!)).toBe('Died out at generation 130');
+  });
+
+  it('does not report a board that never repeats as a whole', () => {
+    // The R-pentomino settles into still lifes and blinkers, but its escaping
+    // gliders keep the whole board from ever repeating.
+    expect(play(rPentomino, 1200).report).toBeNull();
+  });
+
+  it('keeps the report while the run continues', () => {
+    const detector = play(block, 10);
+    const next = observeGeneration(detector, detector.lastGeneration! + 1n, cellsToMap(block));
+    expect(next.report).toBe(detector.report);
+  });
+
+  it('starts over when generations are not consecutive', () => {
+    const detector = play(block, 10);
+    const edited = observeGeneration(detector, detector.lastGeneration!, cellsToMap(block));
+    expect(edited.report).toBeNull();
+    const jumped = observeGeneration(emptyDetector(), 0n, cellsToMap(blinker));
+    expect(observeGeneration(jumped, 2n, cellsToMap(blinker)).report).toBeNull();
+  });
+
+  it(`forgets generations older than ${MAX_TRACKED_GENERATIONS}`, () => {
+    let detector = emptyDetector();
+    const first = cellsToMap([[0n, 0n]]);
+    detector = observeGeneration(detector, 0n, first);
+    for (let g = 1; g <= MAX_TRACKED_GENERATIONS; g++) {
+      detector = observeGeneration(detector, BigInt(g), cellsToMap([[0n, 0n], [BigInt(g), 0n]]));
+    }
+    expect(detector.seen.size).toBe(MAX_TRACKED_GENERATIONS);
+    expect(observeGeneration(detector, BigInt(MAX_TRACKED_GENERATIONS + 1), first).report).toBeNull();
+  });
+});
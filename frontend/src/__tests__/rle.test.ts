@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { parseRle, serializeRle } from '../services/rle';
+import type { Cell } from '../services/api';
+import { sorted } from './cells';
+
+const LONG_MAX = 9223372036854775807n;
+const LONG_MIN = -9223372036854775808n;
+
+const GLIDER_RLE = `#N Glider
+#O Richard K. Guy
+#C The smallest, most common, and first discovered spaceship.
+x = 3, y = 3, rule = B3/S23
+bob$2bo$3o!`;
+
+const GLIDER: Cell[] = [[1n, 0n], [2n, 1n], [0n, 2n], [1n, 2n], [2n, 2n]];
+
+// Order-insensitive comparison — parsers and serializers may emit cells in any order.
+describe('parseRle', () => {
+  it('parses a glider with header and comments', () => {
+    const result = parseRle(GLIDER_RLE);
+    expect(sorted(result.cells)).toEqual(sorted(GLIDER));
+    expect(result.name).toBe('Glider');
+    expect(result.author).toBe('Richard K. Guy');
+    expect(result.comments).toEqual(['The smallest, most common, and first discovered spaceship.']);
+    expect(result.rule).toBe('B3/S23');
+  });
+
+  it('returns no rule when the header omits it', () => {
+    expect(parseRle('x = 1, y = 1\no!').rule).toBeUndefined();
+  });
+
+  it('handles runs and row skips split across lines', () => {
+    const result = parseRle('x = 12, y = 3\n1\n2o$\n2$o!');
+    expect(result.cells).toHaveLength(13);
+    expect(result.cells[12]).toEqual([0n, 3n]);
+  });
+
+  it('ignores everything after the ! terminator', () => {
+    const result = parseRle('x = 2, y = 1\n2o!\nthis is trailing text $$$');
+    expect(sorted(result.cells)).toEqual(['0,0', '1,0']);
+  });
+
+  it('reads # lines after the header and between body lines', () => {
+    const result = parseRle('x = 3, y = 3\n#N Glider\nbob$2bo$\n#C late comment\n3o!');
+    expect(sorted(result.cells)).toEqual(sorted(GLIDER));
+    expect(result.name).toBe('Glider');
+    expect(result.comments).toEqual(['late comment']);
+  });
+
+  it('accepts a body without a terminator', () => {
+    expect(parseRle('x = 1, y = 1\no').cells).toEqual([[0n, 0n]]);
+  });
+
+  it('applies a #CXRLE Pos offset', () => {
+    const result = parseRle('#CXRLE Pos=-5,10\nx = 2, y = 1\n2o!');
+    expect(result.cells).toEqual([[-5n, 10n], [-4n, 10n]]);
+  });
+
+  it('applies a #P offset near the 64-bit limit', () => {
+    const result = parseRle(`#P ${LONG_MAX - 1n} ${LONG_MIN}\nx = 2, y = 1\n2o!`);
+    expect(result.cells).toEqual([[LONG_MAX - 1n, LONG_MIN], [LONG_MAX, LONG_MIN]]);
+  });
+
+  it('rejects cells pushed past long.MaxValue', () => {
+    expect(() => parseRle(`#P ${LONG_MAX} 0\nx = 2, y = 1\n2o!`)).toThrow('64-bit');
+  });
+
+  it('rejects a file without a header', () => {
+    expect(() => parseRle('bo$2bo$3o!')).toThrow('header');
+  });
+
+  it('rejects a header with an invalid size', () => {
+    expect(() => parseRle('x = abc, y = 3\no!')).toThrow('"x"');
+  });
+
+  it('rejects unexpected characters in the body', () => {
+    expect(() => parseRle('x = 1, y = 1\no*!')).toThrow('Unexpected character');
+  });
+
+  it('reads multi-state tags as live and dying cells', () => {
+    const { cells, rule } = parseRle('x = 5, y = 2, rule = B2/S345/C4\nA.2B$2.pA!');
+    expect(rule).toBe('B2/S345/C4');
+    expect(cells).toEqual([[0n, 0n], [2n, 0n, 2], [3n, 0n, 2], [2n, 1n, 25]]);
+    expect(() => parseRle('x = 1, y = 1\npo!')).toThrow('state prefix');
+  });
+
+  it('rejects runs that exceed the cell limit', () => {
+    expect(() => parseRle('x = 2000000, y = 1\n2000000o!')).toThrow('maximum');
+  });
+
+  it('handles Windows CRLF line endings', () => {
+    const result = parseRle(GLIDER_RLE.replace(/\n/g, '\r\n'));
+    expect(sorted(result.cells)).toEqual(sorted(GLIDER));
+  });
+});
+
+describe('serializeRle', () => {
+  it('writes position, header and run-length body', () => {
+    const output = serializeRle(GLIDER, { name: 'Glider' });
+    expect(output).toBe('#CXRLE Pos=0,0\n#N Glider\nx = 3, y = 3, rule = B3/S23\nbo$2bo$3o!\n');
+  });
+
+  it('writes an empty pattern', () => {
+    expect(serializeRle([])).toBe('x = 0, y = 0, rule = B3/S23\n!\n');
+  });
+
+  it('encodes huge gaps as run counts instead of expanding them', () => {
+    const output = serializeRle([[0n, 0n], [2_000_000_000_000n, 0n]]);
+    expect(output).toContain('o1999999999999bo!');
+  });
+
+  it('wraps long bodies without splitting tokens', () => {
+    const cells: Cell[] = [];
+    for (let i = 0n; i < 200n; i += 2n) cells.push([i, 0n]);
+    const lines = serializeRle(cells).trimEnd().split('\n');
+    for (const line of lines) expect(line.length).toBeLessThanOrEqual(70);
+    expect(lines.slice(2).join('')).toMatch(/^(ob)+o!$/);
+  });
+});
+
+describe('parseRle / serializeRle round-trip', () => {
+  it('round-trips the glider', () => {
+    expect(sorted(parseRle(serializeRle(GLIDER)).cells)).toEqual(sorted(GLIDER));
+  });
+
+  it('round-trips cells at long.MinValue and long.MaxValue', () => {
+    const original: Cell[] = [[LONG_MIN, LONG_MIN], [LONG_MAX, LONG_MIN], [LONG_MIN + 1n, LONG_MIN + 2n]];
+    expect(sorted(parseRle(serializeRle(original)).cells)).toEqual(sorted(original));
+  });
+
+  it('round-trips metadata', () => {
+    const result = parseRle(serializeRle(GLIDER, { name: 'G', author: 'A', comments: ['one', 'two'], rule: 'B36/S23' }));
+    expect(result).toMatchObject({ name: 'G', author: 'A', comments: ['one', 'two'], rule: 'B36/S23' });
+  });
+
+  it('round-trips dying cells with multi-state tags', () => {
+    const cells: Cell[] = [[5n, 5n], [6n, 5n, 2], [7n, 5n, 2], [5n, 7n, 3], [LONG_MAX, 7n, 30]];
+    const rle = serializeRle(cells, { rule: 'B2/S345/C31' });
+    expect(rle).toContain('A2B2$C');
+    expect(parseRle(rle).cells).toEqual(cells);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { parseRule, formatRule, normalizeRule, nextCellState, nextState, RULE_PRESETS } from '../services/rules';
+
+describe('parseRule', () => {
+  it('parses B/S notation', () => {
+    const rule = parseRule('B3/S23');
+    expect(rule.birth).toBe(1 << 3);
+    expect(rule.survival).toBe((1 << 2) | (1 << 3));
+  });
+
+  it('is case-insensitive and ignores surrounding whitespace', () => {
+    expect(parseRule('  b36/s23 ')).toEqual(parseRule('B36/S23'));
+  });
+
+  it('accepts S/B order', () => {
+    expect(parseRule('S23/B3')).toEqual(parseRule('B3/S23'));
+  });
+
+  it('accepts the legacy survival/birth form', () => {
+    expect(parseRule('23/36')).toEqual(parseRule('B36/S23'));
+  });
+
+  it('accepts empty birth or survival lists', () => {
+    expect(parseRule('B2/S').survival).toBe(0);
+  });
+
+  it('rejects malformed rules', () => {
+    expect(() => parseRule('Conway')).toThrow('B/S notation');
+    expect(() => parseRule('B9/S23')).toThrow('B/S notation');
+  });
+
+  it('rejects B0 rules', () => {
+    expect(() => parseRule('B012/S23')).toThrow('B0');
+  });
+
+  it('reads Generations rules in every order, with two states by default', () => {
+    expect(parseRule('B3/S23').states).toBe(2);
+    expect(parseRule('/2/3')).toEqual({ birth: 1 << 2, survival: 0, states: 3 });
+    expect(parseRule('345/2/4')).toEqual(parseRule('B2/S345/C4'));
+    expect(parseRule('s345/b2/c4')).toEqual(parseRule('B2/S345/C4'));
+  });
+
+  it('rejects state counts outside 2 to 256', () => {
+    expect(() => parseRule('B2/S/C1')).toThrow('2 to 256');
+    expect(() => parseRule('/2/257')).toThrow('2 to 256');
+    expect(parseRule('/2/256').states).toBe(256);
+  });
+});
+
+describe('formatRule / normalizeRule', () => {
+  it('formats digits in ascending order', () => {
+    expect(formatRule(parseRule('B63/S32'))).toBe('B36/S23');
+  });
+
+  it('normalizes every spelling to the canonical form', () => {
+    expect(normalizeRule('23/3')).toBe('B3/S23');
+    expect(normalizeRule('s23/b3')).toBe('B3/S23');
+  });
+
+  it('writes the state count of Generations rules only', () => {
+    expect(normalizeRule('/2/3')).toBe('B2/S/C3');
+    expect(normalizeRule('345/2/4')).toBe('B2/S345/C4');
+    expect(normalizeRule('B3/S23/C2')).toBe('B3/S23');
+  });
+
+  it('keeps every preset in canonical form', () => {
+    for (const preset of RULE_PRESETS) expect(normalizeRule(preset.rule)).toBe(preset.rule);
+  });
+});
+
+describe('nextState', () => {
+  const conway = parseRule('B3/S23');
+
+  it('applies birth to dead cells', () => {
+    expect(nextState(conway, false, 3)).toBe(true);
+    expect(nextState(conway, false, 2)).toBe(false);
+  });
+
+  it('applies survival to live cells', () => {
+    expect(nextState(conway, true, 2)).toBe(true);
+    expect(nextState(conway, true, 4)).toBe(false);
+  });
+});
+
+describe('nextCellState', () => {
+  const starWars = parseRule('B2/S345/C4');
+
+  it('gives birth to empty cells and keeps surviving live cells', () => {
+    expect(nextCellState(starWars, 0, 2)).toBe(1);
+    expect(nextCellState(starWars, 0, 3)).toBe(0);
+    expect(nextCellState(starWars, 1, 4)).toBe(1);
+  });
+
+  it('moves a live cell that does not survive through the dying states', () => {
+    expect(nextCellState(starWars, 1, 2)).toBe(2);
+    expect(nextCellState(starWars, 2, 2)).toBe(3);
+    expect(nextCellState(starWars, 3, 2)).toBe(0);
+  });
+
+  it('ends a state the rule does not have, and kills outright under two-state rules', () => {
+    expect(nextCellState(starWars, 9, 3)).toBe(0);
+    expect(nextCellState(parseRule('B3/S23'), 1, 1)).toBe(0);
+  });
+});
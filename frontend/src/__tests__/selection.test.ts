@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import type { Cell } from '../services/api';
+import { cellsToMap } from '../services/localEngine';
+import { applyEntry } from '../services/history';
+import {
+  clearRect,
+  copyRect,
+  fillRect,
+  flipClip,
+  moveRect,
+  paintCells,
+  pasteClip,
+  placeClip,
+  rectFromCorners,
+  rotateClip,
+  transformRect,
+  type CellEdit,
+  type Rect,
+} from '../services/selection';
+
+const LONG_MAX = 9223372036854775807n;
+const LONG_MIN = -9223372036854775808n;
+
+function keys(cells: Iterable<Cell>): string[] {
+  return [...cells].map(([x, y]) => `${x},${y}`).sort();
+}
+
+function apply(board: Map<string, Cell>, edit: CellEdit): Map<string, Cell> {
+  return applyEntry(board, { label: 'edit', ...edit, fromGeneration: 0n, toGeneration: 0n });
+}
+
+// .O.
+// ..O
+// OOO
+const GLIDER: Cell[] = [[1n, 0n], [2n, 1n], [0n, 2n], [1n, 2n], [2n, 2n]];
+const BOX: Rect = { minX: 0n, minY: 0n, maxX: 2n, maxY: 2n };
+
+describe('rectFromCorners', () => {
+  it('orders corners', () => {
+    expect(rectFromCorners({ x: 5n, y: -1n }, { x: -2n, y: 3n })).toEqual({ minX: -2n, minY: -1n, maxX: 5n, maxY: 3n });
+  });
+
+  it('clamps to the 64-bit range', () => {
+    const rect = rectFromCorners({ x: LONG_MAX - 1n, y: LONG_MIN - 5n }, { x: LONG_MAX + 10n, y: LONG_MIN });
+    expect(rect).toEqual({ minX: LONG_MAX - 1n, minY: LONG_MIN, maxX: LONG_MAX, maxY: LONG_MIN });
+  });
+});
+
+describe('copyRect / placeClip', () => {
+  it('copies cells relative to the top-left corner', () => {
+    const clip = copyRect([[10n, 10n], [12n, 11n], [50n, 50n]], { minX: 10n, minY: 10n, maxX: 12n, maxY: 12n });
+    expect(keys(clip.cells)).toEqual(['0,0', '2,1']);
+    expect(clip.width).toBe(3n);
+    expect(clip.height).toBe(3n);
+  });
+
+  it('drops cells placed past the 64-bit limit', () => {
+    const clip = copyRect(GLIDER, BOX);
+    const placed = placeClip(clip, LONG_MAX - 1n, 0n);
+    expect(keys(placed)).toEqual(keys([[LONG_MAX, 0n], [LONG_MAX - 1n, 2n], [LONG_MAX, 2n]]));
+  });
+});
+
+describe('rotateClip / flipClip', () => {
+  it('rotates 90° clockwise', () => {
+    const clip = rotateClip({ cells: [[0n, 0n], [1n, 0n]], width: 2n, height: 1n });
+    // OO  →  O
+    //        O
+    expect(keys(clip.cells)).toEqual(['0,0', '0,1']);
+    expect(clip.width).toBe(1n);
+    expect(clip.height).toBe(2n);
+  });
+
+  it('returns to the start after four rotations', () => {
+    let clip = copyRect(GLIDER, BOX);
+    for (let i = 0; i < 4; i++) clip = rotateClip(clip);
+    expect(keys(clip.cells)).toEqual(keys(GLIDER));
+  });
+
+  it('flips horizontally and vertically', () => {
+    const clip = copyRect(GLIDER, BOX);
+    expect(keys(flipClip(clip, 'horizontal').cells)).toEqual(keys([[1n, 0n], [0n, 1n], [0n, 2n], [1n, 2n], [2n, 2n]]));
+    expect(keys(flipClip(clip, 'vertical').cells)).toEqual(keys([[0n, 0n], [1n, 0n], [2n, 0n], [2n, 1n], [1n, 2n]]));
+  });
+});
+
+describe('pasteClip', () => {
+  it('adds only cells that are not already alive', () => {
+    const board = cellsToMap([[100n, 100n]]);
+    const edit = pasteClip(board, { cells: [[0n, 0n], [1n, 0n]], width: 2n, height: 1n }, 100n, 100n);
+    expect(keys(edit.added)).toEqual(['101,100']);
+    expect(edit.removed).toEqual([]);
+  });
+});
+
+describe('paintCells', () => {
+  it('turns on only cells that are dead', () => {
+    const board = cellsToMap([[0n, 0n]]);
+    const edit = paintCells(board, [[0n, 0n], [1n, 0n], [2n, 0n]], false);
+    expect(keys(edit.added)).toEqual(['1,0', '2,0']);
+    expect(edit.removed).toEqual([]);
+  });
+
+  it('erases only cells that are alive', () => {
+    const board = cellsToMap([[0n, 0n], [5n, 5n]]);
+    const edit = paintCells(board, [[0n, 0n], [1n, 0n]], true);
+    expect(edit.added).toEqual([]);
+    expect(keys(edit.removed)).toEqual(['0,0']);
+    expect(keys(apply(board, edit).values())).toEqual(['5,5']);
+  });
+
+  it('drops cells past the 64-bit limits', () => {
+    const edit = paintCells(new Map(), [[LONG_MAX, 0n], [LONG_MAX + 1n, 0n], [0n, LONG_MIN - 1n]], false);
+    expect(keys(edit.added)).toEqual([`${LONG_MAX},0`]);
+  });
+});
+
+describe('clearRect / fillRect', () => {
+  it('clears inside or outside the rectangle', () => {
+    const board = cellsToMap([...GLIDER, [10n, 10n]]);
+    expect(keys(clearRect(board, BOX, 'inside').removed)).toEqual(keys(GLIDER));
+    expect(keys(clearRect(board, BOX, 'outside').removed)).toEqual(['10,10']);
+  });
+
+  it('fills inside, skipping live cells', () => {
+    const board = cellsToMap(GLIDER);
+    const edit = fillRect(board, BOX, 'inside');
+    expect(edit.added).toHaveLength(4);
+    expect(apply(board, edit).size).toBe(9);
+  });
+
+  it('fills the pattern bounding box outside the rectangle', () => {
+    const board = cellsToMap([[0n, 0n], [3n, 3n]]);
+    const edit = fillRect(board, { minX: 1n, minY: 1n, maxX: 2n, maxY: 2n }, 'outside');
+    expect(apply(board, edit).size).toBe(16 - 4);
+  });
+
+  it('rejects fills larger than the cell limit', () => {
+    const huge = { minX: 0n, minY: 0n, maxX: 10_000n, maxY: 10_000n };
+    expect(() => fillRect(new Map(), huge, 'inside')).toThrow(/exceed/);
+  });
+});
+
+describe('transformRect / moveRect', () => {
+  it('rotates a selection in place and reports the new rectangle', () => {
+    const board = cellsToMap([[0n, 0n], [1n, 0n], [2n, 0n]]);
+    const { edit, rect } = transformRect(board, { minX: 0n, minY: 0n, maxX: 2n, maxY: 0n }, rotateClip);
+    expect(keys(apply(board, edit).values())).toEqual(['0,0', '0,1', '0,2']);
+    expect(rect).toEqual({ minX: 0n, minY: 0n, maxX: 0n, maxY: 2n });
+  });
+
+  it('moves cells, keeping overlaps alive', () => {
+    const board = cellsToMap([[0n, 0n], [1n, 0n]]);
+    const { edit, rect } = moveRect(board, { minX: 0n, minY: 0n, maxX: 1n, maxY: 0n }, 1n, 0n);
+    expect(keys(apply(board, edit).values())).toEqual(['1,0', '2,0']);
+    expect(keys(edit.added)).toEqual(['2,0']);
+    expect(keys(edit.removed)).toEqual(['0,0']);
+    expect(rect.minX).toBe(1n);
+  });
+
+  it('moves exactly next to the 64-bit boundary', () => {
+    const board = cellsToMap([[LONG_MAX - 1n, LONG_MIN]]);
+    const sel = { minX: LONG_MAX - 1n, minY: LONG_MIN, maxX: LONG_MAX - 1n, maxY: LONG_MIN };
+    const { edit } = moveRect(board, sel, 1n, 0n);
+    expect([...apply(board, edit).values()]).toEqual([[LONG_MAX, LONG_MIN]]);
+  });
+
+  it('rejects moves across the 64-bit boundary', () => {
+    const sel = { minX: LONG_MAX, minY: 0n, maxX: LONG_MAX, maxY: 0n };
+    expect(() => moveRect(new Map(), sel, 1n, 0n)).toThrow(/boundary/);
+  });
+
+  it('rejects rotations that would cross the 64-bit boundary', () => {
+    const sel = { minX: 0n, minY: LONG_MAX - 1n, maxX: 3n, maxY: LONG_MAX };
+    expect(() => transformRect(new Map(), sel, rotateClip)).toThrow(/boundary/);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import type { Cell } from '../services/api';
+import { LONG_MAX, LONG_MIN } from '../services/patternFormats';
+import {
+  copyName,
+  handleSessionRequest,
+  packCells,
+  unpackCells,
+  type PackedSnapshot,
+  type SessionInfo,
+} from '../services/sessionDb';
+
+// An in-memory stand-in for the part of IndexedDB that sessionDb uses. Requests
+// succeed on a later task, and a transaction completes once its requests have.
+function fakeDb(): { db: IDBDatabase; sessions: Map<unknown, unknown> } {
+  const stores = new Map<string, Map<unknown, unknown>>([['sessions', new Map()], ['boards', new Map()]]);
+  const transaction = () => {
+    let pending = 0;
+    let done = false;
+    const tx = { oncomplete: null as (() => void) | null, onerror: null, onabort: null, objectStore };
+    function request<T>(run: () => T) {
+      pending++;
+      const req = { result: undefined as T | undefined, error: null, onsuccess: null as (() => void) | null, onerror: null };
+      setTimeout(() => {
+        req.result = run();
+        pending--;
+        req.onsuccess?.();
+        setTimeout(() => {
+          if (pending === 0 && !done) {
+            done = true;
+            tx.oncomplete?.();
+          }
+        });
+      });
+      return req;
+    }
+    function objectStore(name: string) {
+      const store = stores.get(name)!;
+      return {
+        put: (value: unknown, key?: unknown) =>
+          request(() => void store.set(key ?? (value as SessionInfo).sessionId, structuredClone(value))),
+        get: (key: unknown) => request(() => store.get(key)),
+        getAll: () => request(() => [...store.values()]),
+        delete: (key: unknown) => request(() => void store.delete(key)),
+      };
+    }
+    return tx;
+  };
+  return { db: { transaction } as unknown as IDBDatabase, sessions: stores.get('sessions')! };
+}
+
+describe('packCells / unpackCells', () => {
+  it('round-trips cells, including the 64-bit limits', () => {
+    const cells: Cell[] = [[0n, 0n], [-1n, 5n], [LONG_MIN, LONG_MAX], [LONG_MAX, LONG_MIN]];
+    expect(unpackCells(packCells(cells))).toEqual(cells);
+  });
+
+  it('uses 16 bytes per cell', () => {
+    expect(packCells([[1n, 2n], [3n, 4n]]).byteLength).toBe(32);
+    expect(unpackCells(packCells([]))).toEqual([]);
+  });
+
+  it('packs a million cells', () => {
+    const cells: Cell[] = Array.from({ length: 1_000_000 }, (_, i) => [BigInt(i % 1000), BigInt(Math.floor(i / 1000))]);
+    const back = unpackCells(packCells(cells));
+    expect(back).toHaveLength(1_000_000);
+    expect(back[999_999]).toEqual([999n, 999n]);
+  });
+});
+
+describe('copyName', () => {
+  it('adds "(copy)", numbering further copies', () => {
+    expect(copyName('Glider gun', [])).toBe('Glider gun (copy)');
+    expect(copyName('Glider gun', ['Glider gun (copy)'])).toBe('Glider gun (copy 2)');
+    expect(copyName('Glider gun', ['Glider gun (copy)', 'Glider gun (copy 2)'])).toBe('Glider gun (copy 3)');
+  });
+
+  it('does not stack suffixes when copying a copy', () => {
+    expect(copyName('Glider gun (copy)', ['Glider gun (copy)'])).toBe('Glider gun (copy 2)');
+  });
+});
+
+describe('handleSessionRequest', () => {
+  const snapshot: PackedSnapshot = {
+    board: packCells([[0n, 0n], [LONG_MAX, LONG_MIN]]),
+    generation: 42n,
+    rule: 'B36/S23',
+    topology: 'klein:64x48@-32,-24',
+    speed: 150,
+    view: { anchor: { cell: { x: 3n, y: -4n }, pixel: { x: 10, y: 20 } }, cellSize: 8 },
+  };
+
+  it('saves and loads the board, generation, rule, universe, speed and view', async () => {
+    const { db } = fakeDb();
+    const saved = await handleSessionRequest(db, { id: 1, type: 'save', name: 'Twisted', snapshot });
+    const { sessionId } = (saved as { result: SessionInfo }).result;
+
+    const loaded = await handleSessionRequest(db, { id: 2, type: 'load', sessionId });
+    const { board, ...rest } = (loaded as { result: PackedSnapshot }).result;
+    expect(unpackCells(board)).toEqual(unpackCells(snapshot.board));
+    expect(rest).toEqual({
+      generation: snapshot.generation,
+      rule: snapshot.rule,
+      topology: snapshot.topology,
+      speed: snapshot.speed,
+      view: snapshot.view,
+    });
+  });
+
+  it('opens sessions saved before universes on the plane', async () => {
+    const { db, sessions } = fakeDb();
+    const saved = await handleSessionRequest(db, { id: 1, type: 'save', name: 'Old', snapshot });
+    const { sessionId } = (saved as { result: SessionInfo }).result;
+    const old: Partial<SessionInfo> = { ...(sessions.get(sessionId) as SessionInfo) };
+    delete old.topology;
+    sessions.set(sessionId, old);
+
+    const loaded = await handleSessionRequest(db, { id: 2, type: 'load', sessionId });
+    expect((loaded as { result: PackedSnapshot }).result.topology).toBe('plane:clip');
+    const listed = await handleSessionRequest(db, { id: 3, type: 'list' });
+    expect((listed as { result: SessionInfo[] }).result.map((s) => s.topology)).toEqual(['plane:clip']);
+  });
+});
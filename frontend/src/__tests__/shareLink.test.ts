@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { Cell } from '../services/api';
+import { LONG_MAX, LONG_MIN } from '../services/patternFormats';
+import {
+  MAX_LINK_LENGTH,
+  buildShareUrl,
+  decodeShareHash,
+  encodeShareHash,
+  isShareHash,
+  type SharedState,
+} from '../services/shareLink';
+import { sorted } from './cells';
+
+const glider: Cell[] = [[1n, 0n], [2n, 1n], [0n, 2n], [1n, 2n], [2n, 2n]];
+
+function state(cells: Cell[], extra: Partial<SharedState> = {}): SharedState {
+  return { cells, rule: 'B3/S23', topology: 'plane:clip', generation: 0n, view: null, ...extra };
+}
+
+describe('encodeShareHash / decodeShareHash', () => {
+  it('round-trips cells, rule, universe, generation and view', async () => {
+    const original = state(glider, {
+      rule: 'B36/S23',
+      topology: 'torus:64x48@-32,-24',
+      generation: 123_456_789_012_345_678_901n,
+      view: { anchor: { cell: { x: -40n, y: 7n }, pixel: { x: -12.5, y: 3.25 } }, cellSize: 0.125 },
+    });
+    const hash = await encodeShareHash(original);
+    expect(hash).toMatch(/^life=[A-Za-z0-9_-]+$/);
+    const decoded = await decodeShareHash(`#${hash}`);
+    expect(decoded).not.toBeNull();
+    expect(sorted(decoded!.cells)).toEqual(sorted(glider));
+    expect(decoded!.rule).toBe('B36/S23');
+    expect(decoded!.topology).toBe('torus:64x48@-32,-24');
+    expect(decoded!.generation).toBe(123_456_789_012_345_678_901n);
+    expect(decoded!.view).toEqual(original.view);
+  });
+
+  it('keeps cells at the 64-bit limits exact', async () => {
+    const corners: Cell[] = [[LONG_MIN, LONG_MIN], [LONG_MAX, LONG_MIN], [LONG_MIN, LONG_MAX], [LONG_MAX, LONG_MAX]];
+    const decoded = await decodeShareHash(await encodeShareHash(state(corners)));
+    expect(sorted(decoded!.cells)).toEqual(sorted(corners));
+  });
+
+  it('costs the same wherever the pattern sits', async () => {
+    const far = glider.map(([x, y]) => [x + LONG_MAX - 10n, y + LONG_MAX - 10n] as Cell);
+    const near = await encodeShareHash(state(glider));
+    expect((await encodeShareHash(state(far))).length).toBeLessThanOrEqual(near.length + 16);
+  });
+
+  it('opens links from before universes on the plane', async () => {
+    // Format 1: version, generation 5, rule "B3/S23", no view, one cell at (0, 0).
+    const bytes = Uint8Array.from([1, 5, 6, ...new TextEncoder().encode('B3/S23'), 0, 1, 0, 0]);
+    const deflated = new Uint8Array(await new Response(
+      new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw')),
+    ).arrayBuffer());
+    const base64 = btoa(String.fromCharCode(...deflated)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+    const decoded = await decodeShareHash(`#life=${base64}`);
+    expect(decoded).toEqual({ cells: [[0n, 0n]], rule: 'B3/S23', topology: 'plane:clip', generation: 5n, view: null });
+  });
+
+  it('ignores hashes that are not share links', async () => {
+    expect(isShareHash('#section')).toBe(false);
+    expect(await decodeShareHash('#section')).toBeNull();
+    expect(await decodeShareHash('')).toBeNull();
+  });
+
+  it('rejects a link cut short', async () => {
+    const hash = await encodeShareHash(state(glider));
+    await expect(decodeShareHash(hash.slice(0, hash.length - 6))).rejects.toThrow(/damaged|incomplete/);
+  });
+
+  it('rejects characters that are not base64url', async () => {
+    await expect(decodeShareHash('#life=abc$def')).rejects.toThrow(/damaged/);
+  });
+});
+
+describe('buildShareUrl', () => {
+  it('puts the hash after the base URL', async () => {
+    const url = await buildShareUrl(state(glider), 'https://example.test/life/');
+    expect(url).toMatch(/^https:\/\/example\.test\/life\/#life=/);
+  });
+
+  it('refuses patterns too large for a link with a message saying so', async () => {
+    // Random cells compress poorly, so this cannot fit in MAX_LINK_LENGTH characters.
+    let seed = 1;
+    const random = () => (seed = (seed * 1_103_515_245 + 12_345) % 2 ** 31);
+    const cells: Cell[] = Array.from({ length: 5000 }, () => [BigInt(random()), BigInt(random())] as Cell);
+    await expect(buildShareUrl(state(cells), 'https://example.test/'))
+      .rejects.toThrow(`links are limited to ${MAX_LINK_LENGTH.toLocaleString('en-US')}`);
+  });
+
+  it('fits a dense 1,000-cell pattern', async () => {
+    const cells: Cell[] = Array.from({ length: 1000 }, (_, i) => [BigInt(i % 40), BigInt(Math.floor(i / 40) * 2)] as Cell);
+    const url = await buildShareUrl(state(cells), 'https://example.test/');
+    expect(url.length).toBeLessThanOrEqual(MAX_LINK_LENGTH);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COMMANDS,
+  DEFAULT_KEYMAP,
+  bindKeys,
+  comboFromEvent,
+  commandForCombo,
+  formatCombo,
+  loadKeymap,
+  saveKeymap,
+  withShortcut,
+} from '../services/shortcuts';
+
+const press = (key: string, mods: { ctrl?: boolean; meta?: boolean; alt?: boolean; shift?: boolean } = {}) =>
+  comboFromEvent({
+    key,
+    ctrlKey: mods.ctrl ?? false,
+    metaKey: mods.meta ?? false,
+    altKey: mods.alt ?? false,
+    shiftKey: mods.shift ?? false,
+  });
+
+function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+  };
+}
+
+describe('comboFromEvent', () => {
+  it('upper-cases letters and names the space bar', () => {
+    expect(press('n')).toBe('N');
+    expect(press(' ')).toBe('Space');
+    expect(press('ArrowLeft')).toBe('ArrowLeft');
+  });
+
+  it('treats Ctrl and Cmd alike', () => {
+    expect(press('k', { ctrl: true })).toBe('Mod+K');
+    expect(press('k', { meta: true })).toBe('Mod+K');
+    expect(press('Z', { ctrl: true, shift: true })).toBe('Mod+Shift+Z');
+  });
+
+  it('leaves Shift out of typed symbols', () => {
+    expect(press('+', { shift: true })).toBe('+');
+    expect(press('1')).toBe('1');
+    expect(press('ArrowUp', { shift: true })).toBe('Shift+ArrowUp');
+  });
+
+  it('ignores a bare modifier', () => {
+    expect(press('Shift', { shift: true })).toBeNull();
+    expect(press('Control', { ctrl: true })).toBeNull();
+  });
+});
+
+describe('formatCombo', () => {
+  it('shows Ctrl for Mod and arrows as symbols', () => {
+    expect(formatCombo('Mod+Shift+Z')).toBe('Ctrl+Shift+Z');
+    expect(formatCombo('ArrowLeft')).toBe('←');
+  });
+
+  it('keeps a plus key intact', () => {
+    expect(formatCombo('+')).toBe('+');
+    expect(formatCombo('Mod++')).toBe('Ctrl++');
+  });
+});
+
+describe('keymap', () => {
+  it('binds the requested defaults', () => {
+    expect(commandForCombo(DEFAULT_KEYMAP, 'Space')?.id).toBe('togglePlay');
+    expect(commandForCombo(DEFAULT_KEYMAP, 'N')?.id).toBe('step');
+    expect(commandForCombo(DEFAULT_KEYMAP, 'R')?.id).toBe('reset');
+    expect(commandForCombo(DEFAULT_KEYMAP, 'G')?.id).toBe('focusJump');
+    expect(commandForCombo(DEFAULT_KEYMAP, 'ArrowDown')?.id).toBe('panDown');
+    expect(commandForCombo(DEFAULT_KEYMAP, '3')?.id).toBe('cluster3');
+    expect(commandForCombo(DEFAULT_KEYMAP, 'Mod+K')?.id).toBe('palette');
+    expect(commandForCombo(DEFAULT_KEYMAP, 'Q')).toBeNull();
+  });
+
+  it('never binds one combo to two commands by default', () => {
+    const combos = COMMANDS.flatMap((c) => c.keys);
+    expect(new Set(combos).size).toBe(combos.length);
+  });
+
+  it('moves a combo to the command it is bound to', () => {
+    const keymap = bindKeys(DEFAULT_KEYMAP, 'toggleLibrary', ['N']);
+    expect(keymap.toggleLibrary).toEqual(['N']);
+    expect(keymap.step).toEqual([]);
+    expect(commandForCombo(keymap, 'N')?.id).toBe('toggleLibrary');
+    expect(DEFAULT_KEYMAP.step).toEqual(['N']);
+  });
+
+  it('adds the first shortcut to tooltips', () => {
+    expect(withShortcut('Step', DEFAULT_KEYMAP, 'step')).toBe('Step (N)');
+    expect(withShortcut('Zoom in', DEFAULT_KEYMAP, 'zoomIn')).toBe('Zoom in (+)');
+    expect(withShortcut('Library', DEFAULT_KEYMAP, 'toggleLibrary')).toBe('Library');
+  });
+});
+
+describe('loadKeymap / saveKeymap', () => {
+  it('round-trips remapped shortcuts', () => {
+    const storage = memoryStorage();
+    const keymap = bindKeys(bindKeys(DEFAULT_KEYMAP, 'step', ['S']), 'reset', []);
+    saveKeymap(keymap, storage);
+    expect(loadKeymap(storage)).toEqual(keymap);
+  });
+
+  it('keeps a moved combo off its old command after reloading', () => {
+    const storage = memoryStorage();
+    saveKeymap(bindKeys(DEFAULT_KEYMAP, 'toggleChart', ['Space']), storage);
+    const loaded = loadKeymap(storage);
+    expect(commandForCombo(loaded, 'Space')?.id).toBe('toggleChart');
+    expect(loaded.togglePlay).toEqual([]);
+  });
+
+  it('falls back to the defaults for missing or malformed data', () => {
+    expect(loadKeymap(memoryStorage())).toEqual(DEFAULT_KEYMAP);
+    expect(loadKeymap(null)).toEqual(DEFAULT_KEYMAP);
+    const storage = memoryStorage();
+    storage.setItem('game-of-life.shortcuts', '{not json');
+    expect(loadKeymap(storage)).toEqual(DEFAULT_KEYMAP);
+    storage.setItem('game-of-life.shortcuts', JSON.stringify({ step: 'S', unknown: ['X'], reset: [1] }));
+    expect(loadKeymap(storage)).toEqual(DEFAULT_KEYMAP);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import type { Cell } from '../services/api';
+import { cellsToMap, computeNextGeneration } from '../services/localEngine';
+import { parseRule } from '../services/rules';
+import {
+  KEYFRAME_INTERVAL,
+  MAX_TIMELINE_FRAMES,
+  boardAt,
+  emptyTimeline,
+  recordFrame,
+  timelineGenerations,
+  truncateAfter,
+  type Timeline,
+} from '../services/timeline';
+
+const CONWAY = parseRule('B3/S23');
+const LONG_MAX = 9223372036854775807n;
+
+function keys(map: Map<string, Cell> | null): string[] {
+  return map ? [...map.keys()].sort() : [];
+}
+
+/** Records `count` generations of `start`, returning the timeline and every board. */
+function run(start: Cell[], count: number): { timeline: Timeline; boards: Map<string, Cell>[] } {
+  let board = cellsToMap(start);
+  let timeline = recordFrame(emptyTimeline(), 0n, board);
+  const boards = [board];
+  for (let g = 1; g <= count; g++) {
+    board = computeNextGeneration(board, CONWAY);
+    timeline = recordFrame(timeline, BigInt(g), board);
+    boards.push(board);
+  }
+  return { timeline, boards };
+}
+
+const GLIDER: Cell[] = [[1n, 0n], [2n, 1n], [0n, 2n], [1n, 2n], [2n, 2n]];
+
+describe('recordFrame / boardAt', () => {
+  it('reconstructs every retained generation from keyframes and deltas', () => {
+    const { timeline, boards } = run(GLIDER, KEYFRAME_INTERVAL * 2 + 5);
+    boards.forEach((board, g) => {
+      expect(keys(boardAt(timeline, BigInt(g)))).toEqual(keys(board));
+    });
+  });
+
+  it('stores deltas between keyframes', () => {
+    const { timeline } = run(GLIDER, 3);
+    expect(timeline.frames[0].cells).toHaveLength(5);
+    expect(timeline.frames[1].cells).toBeUndefined();
+    expect(timeline.frames[1].births.length + timeline.frames[1].deaths.length).toBeLessThan(10);
+  });
+
+  it('returns null for generations that are not retained', () => {
+    const { timeline } = run(GLIDER, 3);
+    expect(boardAt(timeline, 10n)).toBeNull();
+  });
+
+  it('allows gaps between recorded generations', () => {
+    let timeline = recordFrame(emptyTimeline(), 0n, cellsToMap(GLIDER));
+    timeline = recordFrame(timeline, 100n, cellsToMap([[5n, 5n]]));
+    expect(timelineGenerations(timeline)).toEqual([0n, 100n]);
+    expect(keys(boardAt(timeline, 100n))).toEqual(['5,5']);
+  });
+
+  it('keeps 64-bit boundary cells exact', () => {
+    let timeline = recordFrame(emptyTimeline(), 0n, cellsToMap([[LONG_MAX, -LONG_MAX - 1n]]));
+    timeline = recordFrame(timeline, 1n, cellsToMap([[LONG_MAX, LONG_MAX]]));
+    expect([...boardAt(timeline, 0n)!.values()]).toEqual([[LONG_MAX, -LONG_MAX - 1n]]);
+  });
+
+  it('forks when a generation at or before the newest frame is recorded again', () => {
+    const { timeline } = run(GLIDER, 10);
+    const edited = cellsToMap([[0n, 0n]]);
+    const forked = recordFrame(timeline, 4n, edited);
+    expect(timelineGenerations(forked)).toEqual([0n, 1n, 2n, 3n, 4n]);
+    expect(keys(boardAt(forked, 4n))).toEqual(['0,0']);
+    const next = recordFrame(forked, 5n, new Map());
+    expect(keys(boardAt(next, 4n))).toEqual(['0,0']);
+  });
+});
+
+describe('ring bounds', () => {
+  it('drops the oldest keyframe group beyond the frame limit', () => {
+    const { timeline, boards } = run(GLIDER, MAX_TIMELINE_FRAMES + KEYFRAME_INTERVAL);
+    const gens = timelineGenerations(timeline);
+    expect(gens.length).toBeLessThanOrEqual(MAX_TIMELINE_FRAMES);
+    expect(timeline.frames[0].cells).toBeDefined();
+    const first = Number(gens[0]);
+    expect(first % KEYFRAME_INTERVAL).toBe(0);
+    expect(keys(boardAt(timeline, gens[0]))).toEqual(keys(boards[first]));
+  });
+});
+
+describe('truncateAfter', () => {
+  it('drops later frames and rebuilds the head', () => {
+    const { timeline, boards } = run(GLIDER, 40);
+    const cut = truncateAfter(timeline, 35n);
+    expect(timelineGenerations(cut).at(-1)).toBe(35n);
+    expect(keys(cut.head)).toEqual(keys(boards[35]));
+    const next = recordFrame(cut, 36n, boards[36]);
+    expect(keys(boardAt(next, 36n))).toEqual(keys(boards[36]));
+  });
+
+  it('returns the same timeline when nothing is after the generation', () => {
+    const { timeline } = run(GLIDER, 3);
+    expect(truncateAfter(timeline, 3n)).toBe(timeline);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { LONG_MAX, LONG_MIN } from '../services/patternFormats';
+import {
+  PLANE_TOPOLOGY,
+  formatTopology,
+  inUniverse,
+  neighborOf,
+  normalizeTopology,
+  parseTopology,
+  seamImages,
+} from '../services/topology';
+
+describe('parseTopology', () => {
+  it('reads the plane with either edge policy, clipping by default', () => {
+    expect(parseTopology('plane')).toEqual({ kind: 'plane', edge: 'clip' });
+    expect(parseTopology(' Plane:Wrap ')).toEqual({ kind: 'plane', edge: 'wrap' });
+    expect(normalizeTopology('plane')).toBe(PLANE_TOPOLOGY);
+  });
+
+  it('reads bounded universes with 64-bit anchors', () => {
+    expect(parseTopology('klein:40x30@-9223372036854775808,7')).toEqual({
+      kind: 'klein', x: LONG_MIN, y: 7n, width: 40n, height: 30n,
+    });
+    expect(normalizeTopology('TORUS:8x8@0,-4')).toBe('torus:8x8@0,-4');
+  });
+
+  it('round-trips through formatTopology', () => {
+    for (const text of ['plane:clip', 'plane:wrap', 'rect:1x1@5,5', 'torus:3x100@-50,0', 'klein:64x64@0,0']) {
+      expect(formatTopology(parseTopology(text))).toBe(text);
+    }
+  });
+
+  it('rejects unknown notation, wrapped universes under 3 cells and universes past the 64-bit plane', () => {
+    expect(() => parseTopology('sphere:8x8@0,0')).toThrow(/not a topology/);
+    expect(() => parseTopology('torus:2x8@0,0')).toThrow(/at least 3/);
+    expect(() => parseTopology('rect:0x8@0,0')).toThrow(/at least 1/);
+    expect(() => parseTopology(`rect:2x2@${LONG_MAX},0`)).toThrow(/past the 64-bit plane/);
+    expect(parseTopology(`rect:1x1@${LONG_MAX},${LONG_MAX}`)).toMatchObject({ kind: 'rect' });
+  });
+});
+
+describe('neighborOf', () => {
+  const torus = parseTopology('torus:4x3@10,20');
+  const klein = parseTopology('klein:4x3@10,20');
+
+  it('clips or wraps at the 64-bit limits of the plane', () => {
+    expect(neighborOf(parseTopology('plane:clip'), LONG_MAX, 0n, 1n, 0n)).toBeNull();
+    expect(neighborOf(parseTopology('plane:wrap'), LONG_MAX, LONG_MIN, 1n, -1n)).toEqual([LONG_MIN, LONG_MAX]);
+  });
+
+  it('stops at the edge of a rectangle', () => {
+    const rect = parseTopology('rect:4x3@10,20');
+    expect(neighborOf(rect, 13n, 21n, 1n, 0n)).toBeNull();
+    expect(neighborOf(rect, 13n, 21n, -1n, 1n)).toEqual([12n, 22n]);
+  });
+
+  it('joins opposite edges of a torus', () => {
+    expect(neighborOf(torus, 13n, 21n, 1n, 0n)).toEqual([10n, 21n]);
+    expect(neighborOf(torus, 10n, 20n, -1n, -1n)).toEqual([13n, 22n]);
+  });
+
+  it('mirrors left to right across the top and bottom of a Klein bottle only', () => {
+    expect(neighborOf(klein, 13n, 21n, 1n, 0n)).toEqual([10n, 21n]);
+    expect(neighborOf(klein, 11n, 22n, 0n, 1n)).toEqual([12n, 20n]);
+    expect(neighborOf(klein, 10n, 20n, -1n, -1n)).toEqual([10n, 22n]);
+  });
+
+  it('agrees with inUniverse', () => {
+    expect(inUniverse(torus, 13n, 22n)).toBe(true);
+    expect(inUniverse(torus, 14n, 22n)).toBe(false);
+    expect(inUniverse(parseTopology('plane:clip'), LONG_MIN, LONG_MAX)).toBe(true);
+  });
+});
+
+describe('seamImages', () => {
+  const view = { minX: -10n, maxX: 20n, minY: -10n, maxY: 20n };
+
+  it('repeats a torus in the tiles around it', () => {
+    const images = seamImages(parseTopology('torus:5x5@0,0'), [[1n, 2n]], view);
+    expect(images).toHaveLength(8);
+    expect(images).toContainEqual([6n, 2n]);
+    expect(images).toContainEqual([-4n, -3n]);
+  });
+
+  it('mirrors the tiles above and below a Klein bottle', () => {
+    const images = seamImages(parseTopology('klein:5x5@0,0'), [[1n, 2n]], view);
+    expect(images).toContainEqual([6n, 2n]);
+    expect(images).toContainEqual([3n, -3n]);
+    expect(images).toContainEqual([3n, 7n]);
+  });
+
+  it('draws nothing for the plane, a rectangle or tiles out of view', () => {
+    expect(seamImages(parseTopology('plane:wrap'), [[1n, 2n]], view)).toEqual([]);
+    expect(seamImages(parseTopology('rect:5x5@0,0'), [[1n, 2n]], view)).toEqual([]);
+    expect(seamImages(parseTopology('torus:5x5@100,100'), [[101n, 102n]], view)).toEqual([]);
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CELL_SIZE,
+  MAX_CELL_SIZE,
+  MIN_CELL_SIZE,
+  cellAtPixel,
+  cellsAlongLine,
+  clampCellSize,
+  fitCellSize,
+  formatZoom,
+  getViewState,
+  pinchView,
+  zoomAt,
+  type Anchor,
+} from '../services/viewport';
+
+const LONG_MAX = 9223372036854775807n;
+const origin: Anchor = { cell: { x: 0n, y: 0n }, pixel: { x: 0, y: 0 } };
+
+describe('getViewState', () => {
+  it('defaults to 1:1 zoom', () => {
+    const view = getViewState(200, 100, origin);
+    expect(view.cellSize).toBe(DEFAULT_CELL_SIZE);
+    expect(view.startCol).toBe(-1n);
+    expect(view.endCol).toBe(11n);   // ceil(200/20) + 1
+    expect(view.endRow).toBe(6n);    // ceil(100/20) + 1
+  });
+
+  it('covers more cells when zoomed out', () => {
+    const view = getViewState(200, 100, origin, 1 / 1000);
+    expect(view.endCol).toBe(200_001n);
+    expect(view.endRow).toBe(100_001n);
+  });
+
+  it('keeps BigInt-exact bounds near the 64-bit limit', () => {
+    const anchor: Anchor = { cell: { x: LONG_MAX, y: LONG_MAX }, pixel: { x: 0, y: 0 } };
+    const view = getViewState(100, 100, anchor, 2);
+    expect(view.startCol).toBe(LONG_MAX - 1n);
+    expect(view.endCol).toBe(LONG_MAX + 51n);
+  });
+});
+
+describe('cellAtPixel', () => {
+  it('maps a pixel to the cell under it at 1:1', () => {
+    expect(cellAtPixel(origin, 20, 45, 19)).toEqual({ x: 2n, y: 0n });
+  });
+
+  it('handles pixels left of and above the anchor', () => {
+    expect(cellAtPixel(origin, 20, -1, -21)).toEqual({ x: -1n, y: -2n });
+  });
+
+  it('respects the zoom factor', () => {
+    expect(cellAtPixel(origin, 5, 45, 19)).toEqual({ x: 9n, y: 3n });
+  });
+
+  it('is exact at large BigInt coordinates', () => {
+    const anchor: Anchor = { cell: { x: LONG_MAX - 10n, y: -LONG_MAX }, pixel: { x: 3, y: 3 } };
+    expect(cellAtPixel(anchor, 4, 43, 3)).toEqual({ x: LONG_MAX, y: -LONG_MAX });
+  });
+});
+
+describe('zoomAt', () => {
+  it('keeps the cell under the zoom point in place', () => {
+    const anchor: Anchor = { cell: { x: 100n, y: -50n }, pixel: { x: 7, y: -3 } };
+    const before = cellAtPixel(anchor, 20, 333, 217);
+    const next = zoomAt(anchor, 20, 3, 333, 217);
+    expect(cellAtPixel(next, 3, 333, 217)).toEqual(before);
+  });
+
+  it('keeps the point fixed when zooming far out and back in', () => {
+    const anchor: Anchor = { cell: { x: LONG_MAX - 500n, y: 0n }, pixel: { x: 0, y: 0 } };
+    const target = cellAtPixel(anchor, 20, 410, 230);
+    const out = zoomAt(anchor, 20, 1 / 1024, 410, 230);
+    const back = zoomAt(out, 1 / 1024, 20, 410, 230);
+    expect(cellAtPixel(back, 20, 410, 230)).toEqual(target);
+  });
+
+  it('keeps the anchor pixel small', () => {
+    const next = zoomAt(origin, 20, 0.5, 800, 600);
+    expect(Math.abs(next.pixel.x)).toBeLessThanOrEqual(0.25);
+    expect(Math.abs(next.pixel.y)).toBeLessThanOrEqual(0.25);
+  });
+});
+
+describe('pinchView', () => {
+  const start = { anchor: origin, cellSize: 20, distance: 100, midX: 100, midY: 100 };
+
+  it('zooms by the change in finger spread around the starting midpoint', () => {
+    const { anchor, cellSize } = pinchView(start, 200, 100, 100);
+    expect(cellSize).toBe(40);
+    // Cell (5, 5) was under the midpoint and still is.
+    expect(cellAtPixel(anchor, cellSize, 100, 100)).toEqual({ x: 5n, y: 5n });
+  });
+
+  it('pans with the midpoint', () => {
+    const { anchor, cellSize } = pinchView(start, 100, 160, 40);
+    expect(cellSize).toBe(20);
+    expect(cellAtPixel(anchor, cellSize, 160, 40)).toEqual({ x: 5n, y: 5n });
+  });
+
+  it('keeps the anchor normalized and exact at the 64-bit edge', () => {
+    const edge: Anchor = { cell: { x: LONG_MAX - 10n, y: 0n }, pixel: { x: 0, y: 0 } };
+    const { anchor, cellSize } = pinchView({ ...start, anchor: edge }, 50, 90, 130);
+    expect(Math.abs(anchor.pixel.x)).toBeLessThan(cellSize);
+    expect(Math.abs(anchor.pixel.y)).toBeLessThan(cellSize);
+    expect(cellAtPixel(anchor, cellSize, 90, 130)).toEqual({ x: LONG_MAX - 5n, y: 5n });
+  });
+});
+
+describe('cellsAlongLine', () => {
+  it('covers every cell a fast stroke crosses, once each, in order', () => {
+    const cells = cellsAlongLine(origin, 10, 5, 5, 95, 5);
+    expect(cells).toEqual(Array.from({ length: 10 }, (_, i) => ({ x: BigInt(i), y: 0n })));
+  });
+
+  it('leaves no gaps on a diagonal', () => {
+    const cells = cellsAlongLine(origin, 10, 5, 5, 45, 45);
+    expect(cells[0]).toEqual({ x: 0n, y: 0n });
+    expect(cells[cells.length - 1]).toEqual({ x: 4n, y: 4n });
+    for (let i = 1; i < cells.length; i++) {
+      const step = (cells[i].x - cells[i - 1].x) + (cells[i].y - cells[i - 1].y);
+      expect(step === 1n || step === 2n).toBe(true);
+    }
+  });
+
+  it('returns the one cell for a point', () => {
+    expect(cellsAlongLine(origin, 20, 30, 30, 30, 30)).toEqual([{ x: 1n, y: 1n }]);
+  });
+});
+
+describe('fitCellSize', () => {
+  it('never zooms in past 1:1 for small patterns', () => {
+    expect(fitCellSize(800, 600, 2n, 2n)).toBe(DEFAULT_CELL_SIZE);
+  });
+
+  it('zooms out so a wide span fits', () => {
+    const size = fitCellSize(880, 600, 9_999n, 10n);
+    expect(size).toBeCloseTo(800 / 10_000);
+  });
+
+  it('fits the whole 64-bit plane', () => {
+    const span = LONG_MAX * 2n + 1n;
+    const size = fitCellSize(880, 880, span, span);
+    expect(size).toBeGreaterThanOrEqual(MIN_CELL_SIZE);
+    expect(size * Number(span)).toBeLessThanOrEqual(800.001);
+  });
+});
+
+describe('clampCellSize', () => {
+  it('clamps to the zoom range', () => {
+    expect(clampCellSize(1000)).toBe(MAX_CELL_SIZE);
+    expect(clampCellSize(0)).toBe(MIN_CELL_SIZE);
+    expect(clampCellSize(7)).toBe(7);
+  });
+});
+
+describe('formatZoom', () => {
+  it('shows pixels per cell when zoomed in', () => {
+    expect(formatZoom(20)).toBe('20 px/cell');
+    expect(formatZoom(2.345)).toBe('2.3 px/cell');
+  });
+
+  it('shows cells per pixel when zoomed out', () => {
+    expect(formatZoom(1 / 64)).toBe('1 px : 64 cells');
+    expect(formatZoom(1e-9)).toBe('1 px : 1.0e+9 cells');
+  });
+});
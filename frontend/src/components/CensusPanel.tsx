@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import type { CensusEntry } from '../services/census';
+import { PATTERN_LIBRARY } from '../services/patternLibrary';
+import type { Rect } from '../services/selection';
+import { PatternThumbnail } from './PatternLibrary';
+
+interface CensusPanelProps {
+  entries: CensusEntry[];
+  /** Empty cells allowed between two cells of the same object. */
+  gap: bigint;
+  onGapChange: (gap: bigint) => void;
+  /** Called with the bounding box of the instance to show. */
+  onJump: (instance: Rect) => void;
+  onClose: () => void;
+}
+
+const GAP_OPTIONS = [0n, 1n, 2n, 3n];
+
+export function CensusPanel({ entries, gap, onGapChange, onJump, onClose }: CensusPanelProps) {
+  // Instance last jumped to, per entry, so repeated clicks step through them.
+  const [cursor, setCursor] = useState<{ name: string; index: number } | null>(null);
+  const total = entries.reduce((n, e) => n + e.instances.length, 0);
+
+  const jump = (entry: CensusEntry) => {
+    const index = cursor?.name === entry.name ? (cursor.index + 1) % entry.instances.length : 0;
+    setCursor({ name: entry.name, index });
+    onJump(entry.instances[index]);
+  };
+
+  return (
+    <aside style={styles.panel}>
+      <div style={styles.header}>
+        <span style={styles.title}>Census</span>
+        <button style={styles.close} onClick={onClose} title="Close the census">✕</button>
+      </div>
+      <div style={styles.options}>
+        <span>{total} {total === 1 ? 'object' : 'objects'}</span>
+        <label style={styles.gapLabel} title="Empty cells allowed between two cells of the same object">
+          Gap
+          <select
+            style={styles.select}
+            value={gap.toString()}
+            onChange={(e) => onGapChange(BigInt(e.target.value))}
+          >
+            {GAP_OPTIONS.map((g) => <option key={g.toString()} value={g.toString()}>{g.toString()}</option>)}
+          </select>
+        </label>
+      </div>
+      <ul style={styles.list}>
+        {entries.length === 0 && <li style={styles.empty}>The board is empty.</li>}
+        {entries.map((entry) => {
+          const pattern = PATTERN_LIBRARY.find((p) => p.id === entry.id);
+          const count = entry.instances.length;
+          const active = cursor?.name === entry.name && cursor.index < count;
+          return (
+            <li key={entry.name}>
+              <button
+                style={{ ...styles.item, ...(active ? styles.itemActive : {}) }}
+                onClick={() => jump(entry)}
+                title={count > 1 ? `Jump to each ${entry.name.toLowerCase()} in turn` : `Jump to the ${entry.name.toLowerCase()}`}
+              >
+                {pattern ? <PatternThumbnail pattern={pattern} /> : <span style={styles.unknown}>?</span>}
+                <span style={styles.itemText}>
+                  <span style={styles.itemName}>{entry.name}</span>
+                  <span style={styles.itemCategory}>{entry.category ?? 'Matches no known object'}</span>
+                </span>
+                <span style={styles.count}>
+                  {active ? `${cursor.index + 1}/${count}` : `×${count}`}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <div style={styles.footer}>
+        Counts still lifes, oscillators and spaceships from the library in any phase and orientation. Click an entry to jump to it.
+      </div>
+    </aside>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    width: '260px',
+    display: 'flex',
+    flexDirection: 'column',
+    background: '#0d0b08',
+    borderLeft: '1px solid #2a2218',
+    minHeight: 0,
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '8px 12px',
+    borderBottom: '1px solid #2a2218',
+  },
+  title: {
+    color: '#b09a6a',
+    fontSize: '11px',
+    letterSpacing: '1px',
+    textTransform: 'uppercase' as const,
+  },
+  close: {
+    background: 'none',
+    border: 'none',
+    color: '#b09a6a',
+    cursor: 'pointer',
+    fontSize: '12px',
+  },
+  options: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '8px 12px',
+    borderBottom: '1px solid #2a2218',
+    color: '#b09a6a',
+    fontSize: '11px',
+  },
+  gapLabel: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+  },
+  select: {
+    padding: '2px 4px',
+    background: '#120f0a',
+    color: '#c8b896',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    fontSize: '11px',
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: '6px',
+    overflowY: 'auto',
+    flex: 1,
+  },
+  empty: {
+    color: '#b09a6a',
+    fontSize: '12px',
+    padding: '8px 6px',
+  },
+  item: {
+    width: '100%',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '5px 6px',
+    background: 'none',
+    border: '1px solid transparent',
+    borderRadius: '2px',
+    cursor: 'pointer',
+    textAlign: 'left',
+  },
+  itemActive: {
+    background: '#1a1510',
+    borderColor: '#c4a25b',
+  },
+  unknown: {
+    width: '44px',
+    height: '44px',
+    flexShrink: 0,
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    border: '1px solid #2a2218',
+    color: '#b09a6a',
+    fontSize: '16px',
+  },
+  itemText: {
+    flex: 1,
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+  },
+  itemName: {
+    color: '#c8b896',
+    fontSize: '12px',
+    fontWeight: 600,
+  },
+  itemCategory: {
+    color: '#b09a6a',
+    fontSize: '10px',
+  },
+  count: {
+    color: '#c4a25b',
+    fontSize: '12px',
+    fontWeight: 600,
+    fontVariantNumeric: 'tabular-nums',
+  },
+  footer: {
+    padding: '8px 12px',
+    borderTop: '1px solid #2a2218',
+    color: 'rgba(196, 162, 91, 0.6)',
+    fontSize: '10px',
+    lineHeight: 1.4,
+  },
+};
@@ -0,0 +1,239 @@
+import { useRef, useState } from 'react';
+import { COMMANDS, comboFromEvent, formatCombo, type CommandId, type Keymap } from '../services/shortcuts';
+import type { CommandActions } from '../hooks/useShortcuts';
+
+interface CommandPaletteProps {
+  keymap: Keymap;
+  /** Commands without an action are listed but cannot run right now. */
+  actions: CommandActions;
+  onRebind: (id: CommandId, keys: string[]) => void;
+  onResetKeys: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Ctrl+K: every command with its shortcut. Type to filter, ↑/↓ and Enter to
+ * run one. "Change" waits for the next key combo and binds it to that command.
+ */
+export function CommandPalette({ keymap, actions, onRebind, onResetKeys, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [highlight, setHighlight] = useState(0);
+  // The command waiting for a new key combo.
+  const [recording, setRecording] = useState<CommandId | null>(null);
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const shown = COMMANDS.filter((c) => {
+    const text = `${c.label} ${c.group} ${keymap[c.id].map(formatCombo).join(' ')}`.toLowerCase();
+    return words.every((w) => text.includes(w));
+  });
+  const current = Math.min(highlight, shown.length - 1);
+
+  const run = (id: CommandId) => {
+    const action = actions[id];
+    if (!action) return;
+    onClose();
+    action();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keys pressed in the palette are for the palette, not the Grid or the app shortcuts.
+    e.stopPropagation();
+    if (recording) {
+      e.preventDefault();
+      if (e.key === 'Escape') setRecording(null);
+      else if (e.key === 'Backspace' || e.key === 'Delete') {
+        onRebind(recording, []);
+        setRecording(null);
+      } else {
+        const combo = comboFromEvent(e.nativeEvent);
+        if (!combo) return;
+        onRebind(recording, [combo]);
+        setRecording(null);
+      }
+      return;
+    }
+    const combo = comboFromEvent(e.nativeEvent);
+    if (e.key === 'Escape' || (combo && keymap.palette.includes(combo))) {
+      e.preventDefault();
+      onClose();
+    } else if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlight((current + step + shown.length) % Math.max(1, shown.length));
+    } else if (e.key === 'Enter' && shown[current]) {
+      e.preventDefault();
+      run(shown[current].id);
+    }
+  };
+
+  return (
+    <div style={styles.backdrop} onMouseDown={onClose}>
+      <div
+        ref={dialogRef}
+        style={styles.dialog}
+        tabIndex={-1}
+        role="dialog"
+        aria-label="Command palette"
+        onMouseDown={(e) => e.stopPropagation()}
+        onKeyDown={handleKeyDown}
+      >
+        <input
+          style={styles.search}
+          autoFocus
+          placeholder="Type a command…"
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setHighlight(0); }}
+        />
+        <ul style={styles.list}>
+          {shown.length === 0 && <li style={styles.empty}>No matching commands.</li>}
+          {shown.map((c, i) => {
+            const enabled = actions[c.id] !== undefined;
+            return (
+              <li
+                key={c.id}
+                style={{
+                  ...styles.item,
+                  ...(i === current ? styles.itemHighlight : {}),
+                  ...(enabled ? {} : styles.itemDisabled),
+                }}
+                onMouseEnter={() => setHighlight(i)}
+              >
+                <button style={styles.itemLabel} onClick={() => run(c.id)} disabled={!enabled}>
+                  {c.label}
+                  <span style={styles.group}>{c.group}</span>
+                </button>
+                {recording === c.id ? (
+                  <span style={styles.recording}>Press keys… (Esc cancels, Backspace clears)</span>
+                ) : (
+                  <>
+                    {keymap[c.id].map((k) => <kbd key={k} style={styles.key}>{formatCombo(k)}</kbd>)}
+                    <button
+                      style={styles.change}
+                      onClick={() => {
+                        setRecording(c.id);
+                        // The button is replaced by the prompt, so keep focus (and the keys) in the palette.
+                        dialogRef.current?.focus();
+                      }}
+                      title={`Choose the shortcut for ${c.label.replace(/…$/, '').toLowerCase()}`}
+                    >
+                      Change
+                    </button>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        <div style={styles.footer}>
+          <span>↑↓ to choose · Enter to run · Esc to close</span>
+          <button style={styles.change} onClick={onResetKeys}>Reset all shortcuts</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: 'fixed',
+    inset: 0,
+    display: 'flex',
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+    paddingTop: '12vh',
+    background: 'rgba(6, 5, 3, 0.6)',
+    zIndex: 20,
+  },
+  dialog: {
+    width: '480px',
+    maxHeight: '70vh',
+    display: 'flex',
+    flexDirection: 'column',
+    background: '#0d0b08',
+    border: '1px solid #3a3020',
+    borderRadius: '4px',
+    boxShadow: '0 8px 32px rgba(0,0,0,0.7)',
+    outline: 'none',
+  },
+  search: {
+    padding: '10px 14px',
+    background: '#120f0a',
+    color: '#c8b896',
+    border: 'none',
+    borderBottom: '1px solid #2a2218',
+    fontSize: '13px',
+    outline: 'none',
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: '6px',
+    overflowY: 'auto',
+    flex: 1,
+  },
+  empty: {
+    color: '#b09a6a',
+    fontSize: '12px',
+    padding: '8px 6px',
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    padding: '4px 6px',
+    borderRadius: '2px',
+  },
+  itemHighlight: {
+    background: '#1a1510',
+  },
+  itemDisabled: {
+    opacity: 0.45,
+  },
+  itemLabel: {
+    flex: 1,
+    display: 'flex',
+    alignItems: 'baseline',
+    gap: '8px',
+    padding: '2px 0',
+    background: 'none',
+    border: 'none',
+    color: '#c8b896',
+    cursor: 'pointer',
+    fontSize: '12px',
+    textAlign: 'left',
+  },
+  group: {
+    color: 'rgba(196, 162, 91, 0.6)',
+    fontSize: '10px',
+  },
+  key: {
+    padding: '1px 6px',
+    background: '#120f0a',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    color: '#c4a25b',
+    fontFamily: 'inherit',
+    fontSize: '10px',
+  },
+  recording: {
+    color: '#e8d48a',
+    fontSize: '10px',
+  },
+  change: {
+    padding: 0,
+    background: 'none',
+    border: 'none',
+    color: 'rgba(196, 162, 91, 0.75)',
+    cursor: 'pointer',
+    fontSize: '10px',
+  },
+  footer: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    padding: '8px 12px',
+    borderTop: '1px solid #2a2218',
+    color: 'rgba(196, 162, 91, 0.6)',
+    fontSize: '10px',
+  },
+};
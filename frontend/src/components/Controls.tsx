@@ -1,46 +1,192 @@
-import { useState } from 'react';
+import { useImperativeHandle, useRef, useState } from 'react';
+import { RULE_PRESETS } from '../services/rules';
+import { TOPOLOGY_KINDS, parseTopology, type EdgePolicy, type Topology } from '../services/topology';
+import type { ConnectionHealth } from '../services/connectionHealth';
+import type { EngineKind } from '../services/engine';
+import { describeRepeat, type RepeatReport } from '../services/repeatDetection';
+import { withShortcut, type ClusterCommandId, type Keymap } from '../services/shortcuts';
+import { describeVelocity, formatSpeed, heading, type ClusterShape, type Velocity } from '../services/clusterMotion';
 
 export interface Cluster {
   label: string;
+  /** Center of the cluster's bounding box. */
   x: bigint;
   y: bigint;
+  /** Bounding-box span in cells (max - min), used to zoom the cluster to fit. */
+  width: bigint;
+  height: bigint;
+  /** Shape signature and top-left corner, for following the cluster across generations. */
+  shape: ClusterShape;
+  /** Set once the cluster's shape has come back, moved or not. */
+  velocity?: Velocity | null;
 }
 
+/** Lets keyboard shortcuts move focus into the toolbar's inputs and move the speed slider. */
+export interface ControlsHandle {
+  focusJump: () => void;
+  focusGeneration: () => void;
+  focusRule: () => void;
+  /** Moves the speed slider one notch: 'faster' is a shorter delay. */
+  nudgeSpeed: (direction: 'faster' | 'slower') => void;
+}
+
+// Speed slider range and notch, in ms between generations.
+const SPEED_MIN = 50;
+const SPEED_MAX = 1000;
+const SPEED_STEP = 50;
+
+// What the size and anchor fields start with before a bounded universe is chosen.
+const DEFAULT_UNIVERSE = { width: '64', height: '64', x: '-32', y: '-32' };
+
+const HEALTH_TITLES: Record<ConnectionHealth, string> = {
+  online: 'Backend connection is healthy',
+  degraded: 'Backend is slow or only answering after retries',
+  offline: 'Backend did not answer, even after retries',
+};
+
+const HEALTH_COLORS: Record<ConnectionHealth, string> = {
+  online: '#7ab86a',
+  degraded: '#d4a03a',
+  offline: '#c8372d',
+};
+
 interface ControlsProps {
-  generation: number;
+  ref?: React.Ref<ControlsHandle>;
+  /** Shortcuts, shown in the button tooltips. */
+  keymap: Keymap;
+  generation: bigint;
   liveCellCount: number;
   isPlaying: boolean;
   speed: number;
+  rule: string;
+  /** The universe, in topology.ts notation. */
+  topology: string;
+  engineKind: EngineKind;
+  connectionHealth: ConnectionHealth;
   loading: boolean;
   error: string | null;
   clusters: Cluster[];
+  /** Set once the board repeats during stepping or playback. */
+  repeat: RepeatReport | null;
+  autoPause: boolean;
+  onAutoPauseChange: (autoPause: boolean) => void;
+  /** Whether auto-play streams generations from the server instead of requesting each one. */
+  streamPlayback: boolean;
+  onStreamPlaybackChange: (streamPlayback: boolean) => void;
   onStep: () => void;
   onSimulateN: (n: number) => void;
+  onGoToGeneration: (target: bigint) => void;
   onTogglePlay: () => void;
   onReset: () => void;
+  /** What undo/redo would revert or re-apply; null disables the button. */
+  undoLabel: string | null;
+  redoLabel: string | null;
+  onUndo: () => void;
+  onRedo: () => void;
   onSpeedChange: (speed: number) => void;
+  /** Returns false when the rule text is rejected, so the draft is kept for editing. */
+  onRuleChange: (rule: string) => boolean;
+  /** Returns false when the topology is rejected, so the fields keep their drafts. */
+  onTopologyChange: (topology: string) => boolean;
   onClearError: () => void;
   onJumpTo: (x: bigint, y: bigint) => void;
+  onFitCluster: (cluster: Cluster) => void;
 }
 
 export function Controls({
+  ref,
+  keymap,
   generation,
   liveCellCount,
   isPlaying,
   speed,
+  rule,
+  topology,
+  engineKind,
+  connectionHealth,
   loading,
   error,
   clusters,
+  repeat,
+  autoPause,
+  onAutoPauseChange,
+  streamPlayback,
+  onStreamPlaybackChange,
   onStep,
   onSimulateN,
+  onGoToGeneration,
   onTogglePlay,
   onReset,
+  undoLabel,
+  redoLabel,
+  onUndo,
+  onRedo,
   onSpeedChange,
+  onRuleChange,
+  onTopologyChange,
   onClearError,
   onJumpTo,
+  onFitCluster,
 }: ControlsProps) {
   const [jumpX, setJumpX] = useState('');
   const [jumpY, setJumpY] = useState('');
+  const [ruleDraft, setRuleDraft] = useState('');
+  const [targetGen, setTargetGen] = useState('');
+  const isPreset = RULE_PRESETS.some((p) => p.rule === rule);
+  const universe = parseTopology(topology);
+  // Size and anchor of a bounded universe, as typed; applied with Enter or a change of kind.
+  const [universeDraft, setUniverseDraft] = useState(() => universe.kind === 'plane'
+    ? DEFAULT_UNIVERSE
+    : { width: String(universe.width), height: String(universe.height), x: String(universe.x), y: String(universe.y) });
+  const jumpXRef = useRef<HTMLInputElement>(null);
+  const targetGenRef = useRef<HTMLInputElement>(null);
+  const ruleRef = useRef<HTMLInputElement>(null);
+
+  useImperativeHandle(ref, () => {
+    const focus = (input: HTMLInputElement | null) => {
+      input?.focus();
+      input?.select();
+    };
+    return {
+      focusJump: () => focus(jumpXRef.current),
+      focusGeneration: () => focus(targetGenRef.current),
+      focusRule: () => focus(ruleRef.current),
+      nudgeSpeed: (direction) => {
+        const next = speed + (direction === 'faster' ? -SPEED_STEP : SPEED_STEP);
+        onSpeedChange(Math.min(SPEED_MAX, Math.max(SPEED_MIN, next)));
+      },
+    };
+  }, [speed, onSpeedChange]);
+
+  const handleRuleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Enter' || ruleDraft.trim() === '') return;
+    if (onRuleChange(ruleDraft)) setRuleDraft('');
+  };
+
+  const applyUniverse = (kind: Topology['kind'], edge: EdgePolicy = 'clip') => {
+    if (kind === 'plane') {
+      onTopologyChange(`plane:${edge}`);
+      return;
+    }
+    const { width, height, x, y } = universeDraft;
+    onTopologyChange(`${kind}:${width.trim()}x${height.trim()}@${x.trim()},${y.trim()}`);
+  };
+
+  const handleUniverseKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') applyUniverse(universe.kind);
+  };
+
+  const universeField = (field: keyof typeof universeDraft, title: string) => (
+    <input
+      style={field === 'width' || field === 'height' ? styles.sizeInput : styles.jumpInput}
+      type="text"
+      title={`${title} — press Enter to apply`}
+      placeholder={DEFAULT_UNIVERSE[field]}
+      value={universeDraft[field]}
+      onChange={(e) => setUniverseDraft((d) => ({ ...d, [field]: e.target.value }))}
+      onKeyDown={handleUniverseKeyDown}
+    />
+  );
 
   const handleJump = () => {
     if (jumpX.trim() === '' || jumpY.trim() === '') return;
@@ -56,6 +202,18 @@ export function Controls({
     if (e.key === 'Enter') handleJump();
   };
 
+  // Only the first nine clusters have shortcuts (the digit keys).
+  const clusterTitle = (c: Cluster, i: number) => {
+    const title = `Center and fit viewport on (${c.x}, ${c.y})`
+      + (c.velocity ? ` — ${describeVelocity(c.velocity)}` : '');
+    return i < 9 ? withShortcut(title, keymap, `cluster${i + 1}` as ClusterCommandId) : title;
+  };
+
+  const handleGoToGeneration = () => {
+    if (!/^\d+$/.test(targetGen.trim())) return;
+    onGoToGeneration(BigInt(targetGen.trim()));
+  };
+
   return (
     <>
       {error && (
@@ -68,36 +226,131 @@ export function Controls({
 
         {/* Stats */}
         <div style={styles.stats}>
-          <span style={styles.stat}>Gen <strong style={styles.statValue}>{generation}</strong></span>
+          <span style={styles.stat}>Gen <strong style={styles.statValue}>{generation.toString()}</strong></span>
           <span style={styles.stat}>Cells <strong style={styles.statValue}>{liveCellCount}</strong></span>
+          <span
+            style={{ ...styles.stat, ...(engineKind === 'local' ? styles.statWarn : {}) }}
+            title={engineKind === 'local'
+              ? 'Backend unreachable — generations are computed in the browser until it recovers'
+              : 'Generations are computed by the backend'}
+          >
+            Engine <strong style={styles.statValue}>{engineKind === 'local' ? 'Local' : 'Server'}</strong>
+          </span>
+          <span
+            style={{ ...styles.stat, ...(connectionHealth !== 'online' ? styles.statWarn : {}) }}
+            title={HEALTH_TITLES[connectionHealth]}
+          >
+            <span style={{ color: HEALTH_COLORS[connectionHealth] }}>●</span> {connectionHealth}
+          </span>
+          {repeat && (
+            <span style={{ ...styles.stat, ...styles.statRepeat }} title="The board repeats from here on">
+              {describeRepeat(repeat)}
+            </span>
+          )}
         </div>
 
         <div style={styles.divider} />
 
         {/* Playback — Step and Play/Pause together */}
         <div style={styles.group}>
-          <button style={styles.btn} onClick={onStep} disabled={loading}>
+          <button
+            style={styles.btn}
+            onClick={onStep}
+            disabled={loading}
+            title={withShortcut('Advance one generation', keymap, 'step')}
+          >
             Step
           </button>
           <button
             style={{ ...styles.btn, ...(isPlaying ? styles.btnActive : styles.btnPlay) }}
             onClick={onTogglePlay}
             disabled={loading}
+            title={withShortcut(isPlaying ? 'Pause' : 'Play', keymap, 'togglePlay')}
           >
             {isPlaying ? '⏸ Pause' : '▶ Play'}
           </button>
+          <label
+            style={styles.checkbox}
+            title={withShortcut('Stop auto-play when the board first repeats', keymap, 'toggleAutoPause')}
+          >
+            <input
+              type="checkbox"
+              checked={autoPause}
+              onChange={(e) => onAutoPauseChange(e.target.checked)}
+              style={styles.checkboxInput}
+            />
+            Pause on repeat
+          </label>
+          <label
+            style={styles.checkbox}
+            title="Auto-play on one server stream of generations instead of a request per step (server engine only)"
+          >
+            <input
+              type="checkbox"
+              checked={streamPlayback}
+              onChange={(e) => onStreamPlaybackChange(e.target.checked)}
+              style={styles.checkboxInput}
+            />
+            Stream
+          </label>
+        </div>
+
+        <div style={styles.divider} />
+
+        {/* History — undo/redo cancel anything in flight, so they stay enabled while loading */}
+        <div style={styles.group}>
+          <button
+            style={styles.btn}
+            onClick={onUndo}
+            disabled={undoLabel === null}
+            title={undoLabel ? withShortcut(`Undo ${undoLabel}`, keymap, 'undo') : 'Nothing to undo'}
+          >
+            ↶ Undo
+          </button>
+          <button
+            style={styles.btn}
+            onClick={onRedo}
+            disabled={redoLabel === null}
+            title={redoLabel ? withShortcut(`Redo ${redoLabel}`, keymap, 'redo') : 'Nothing to redo'}
+          >
+            ↷ Redo
+          </button>
         </div>
 
         <div style={styles.divider} />
 
         {/* Simulation — bulk generation jumps */}
         <div style={styles.group}>
-          <button style={styles.btn} onClick={() => onSimulateN(10)} disabled={loading}>
+          <button
+            style={styles.btn}
+            onClick={() => onSimulateN(10)}
+            disabled={loading}
+            title={withShortcut('Advance 10 generations', keymap, 'simulate10')}
+          >
             +10
           </button>
-          <button style={styles.btn} onClick={() => onSimulateN(100)} disabled={loading}>
+          <button
+            style={styles.btn}
+            onClick={() => onSimulateN(100)}
+            disabled={loading}
+            title={withShortcut('Advance 100 generations', keymap, 'simulate100')}
+          >
             +100
           </button>
+          <input
+            ref={targetGenRef}
+            style={styles.genInput}
+            type="text"
+            inputMode="numeric"
+            placeholder="Go to gen"
+            title={withShortcut('Jump to any later generation (computed in the browser with HashLife)', keymap, 'focusGeneration')}
+            value={targetGen}
+            onChange={(e) => setTargetGen(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleGoToGeneration(); }}
+          />
+          <button style={styles.btn} onClick={handleGoToGeneration} disabled={loading}>
+            Go
+          </button>
         </div>
 
         <div style={styles.divider} />
@@ -107,9 +360,9 @@ export function Controls({
           <span>Fast</span>
           <input
             type="range"
-            min={50}
-            max={1000}
-            step={50}
+            min={SPEED_MIN}
+            max={SPEED_MAX}
+            step={SPEED_STEP}
             value={speed}
             title={`${speed}ms`}
             onChange={(e) => onSpeedChange(Number(e.target.value))}
@@ -118,23 +371,91 @@ export function Controls({
           <span>Slow</span>
         </div>
 
+        <div style={styles.divider} />
+
+        {/* Rule — presets plus free-form B/S (or Generations B/S/C) entry */}
+        <div style={styles.group}>
+          <select
+            style={styles.ruleSelect}
+            value={rule}
+            title="Rule (B/S notation, B/S/C for Generations)"
+            onChange={(e) => onRuleChange(e.target.value)}
+          >
+            {RULE_PRESETS.map((p) => (
+              <option key={p.rule} value={p.rule}>{p.name} — {p.rule}</option>
+            ))}
+            {!isPreset && <option value={rule}>Custom — {rule}</option>}
+          </select>
+          <input
+            ref={ruleRef}
+            style={styles.jumpInput}
+            type="text"
+            placeholder="B3/S23"
+            title={withShortcut('Custom rule, e.g. B36/S23 or B2/S345/C4 — press Enter to apply', keymap, 'focusRule')}
+            value={ruleDraft}
+            onChange={(e) => setRuleDraft(e.target.value)}
+            onKeyDown={handleRuleKeyDown}
+          />
+        </div>
+
+        <div style={styles.divider} />
+
+        {/* Universe — the 64-bit plane with an edge policy, or a sized and anchored bounded universe */}
+        <div style={styles.group}>
+          <select
+            style={styles.ruleSelect}
+            value={universe.kind}
+            title="Universe topology"
+            onChange={(e) => applyUniverse(e.target.value as Topology['kind'])}
+          >
+            {TOPOLOGY_KINDS.map((t) => (
+              <option key={t.kind} value={t.kind}>{t.name}</option>
+            ))}
+          </select>
+          {universe.kind === 'plane' ? (
+            <select
+              style={styles.ruleSelect}
+              value={universe.edge}
+              title="What happens at the 64-bit limits"
+              onChange={(e) => applyUniverse('plane', e.target.value as EdgePolicy)}
+            >
+              <option value="clip">Edges clip</option>
+              <option value="wrap">Edges wrap</option>
+            </select>
+          ) : (
+            <>
+              {universeField('width', 'Width in cells')}
+              <span style={styles.times}>×</span>
+              {universeField('height', 'Height in cells')}
+              <span style={styles.times}>@</span>
+              {universeField('x', 'Left column')}
+              {universeField('y', 'Top row')}
+            </>
+          )}
+        </div>
+
         {/* Navigation pushed to right, Reset isolated at far end */}
         <div style={styles.nav}>
           {clusters.map((c, i) => (
             <button
               key={i}
               style={{ ...styles.btn, ...styles.btnCluster }}
-              onClick={() => onJumpTo(c.x, c.y)}
-              title={`Center viewport on (${c.x}, ${c.y})`}
+              onClick={() => onFitCluster(c)}
+              title={clusterTitle(c, i)}
             >
               {c.label}
+              {c.velocity && (c.velocity.dx !== 0n || c.velocity.dy !== 0n) && (
+                <span style={styles.velocity}> · {formatSpeed(c.velocity)} {heading(c.velocity).arrow}</span>
+              )}
             </button>
           ))}
           <div style={styles.jumpGroup}>
             <input
+              ref={jumpXRef}
               style={styles.jumpInput}
               type="text"
               placeholder="X"
+              title={withShortcut('Column to jump to', keymap, 'focusJump')}
               value={jumpX}
               onChange={(e) => setJumpX(e.target.value)}
               onKeyDown={handleJumpKeyDown}
@@ -152,7 +473,11 @@ export function Controls({
             </button>
           </div>
           <div style={styles.divider} />
-          <button style={{ ...styles.btn, ...styles.btnDanger }} onClick={onReset}>
+          <button
+            style={{ ...styles.btn, ...styles.btnDanger }}
+            onClick={onReset}
+            title={withShortcut('Clear the board and go back to generation 0', keymap, 'reset')}
+          >
             Reset
           </button>
         </div>
@@ -206,6 +531,15 @@ const styles: Record<string, React.CSSProperties> = {
     letterSpacing: '0.5px',
     textTransform: 'uppercase' as const,
   },
+  statWarn: {
+    borderColor: '#5a4a20',
+    background: '#1a1408',
+  },
+  statRepeat: {
+    borderColor: '#3a5a30',
+    color: '#9ac48a',
+    textTransform: 'none' as const,
+  },
   statValue: {
     color: '#c4a25b',
     fontWeight: 700,
@@ -258,6 +592,23 @@ const styles: Record<string, React.CSSProperties> = {
     fontSize: '10px',
     letterSpacing: '0.5px',
   },
+  checkbox: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '5px',
+    color: '#b09a6a',
+    fontSize: '11px',
+    letterSpacing: '0.5px',
+    cursor: 'pointer',
+  },
+  checkboxInput: {
+    accentColor: '#c4a25b',
+    margin: 0,
+  },
+  velocity: {
+    color: '#c4a25b',
+    fontWeight: 700,
+  },
   speedControl: {
     display: 'flex',
     alignItems: 'center',
@@ -271,6 +622,14 @@ const styles: Record<string, React.CSSProperties> = {
     width: '90px',
     accentColor: '#c4a25b',
   },
+  ruleSelect: {
+    padding: '5px 8px',
+    background: '#120f0a',
+    color: '#c8b896',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    fontSize: '11px',
+  },
   nav: {
     display: 'flex',
     alignItems: 'center',
@@ -283,6 +642,28 @@ const styles: Record<string, React.CSSProperties> = {
     gap: '4px',
     alignItems: 'center',
   },
+  genInput: {
+    width: '110px',
+    padding: '5px 8px',
+    background: '#120f0a',
+    color: '#c8b896',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    fontSize: '11px',
+  },
+  sizeInput: {
+    width: '44px',
+    padding: '5px 8px',
+    background: '#120f0a',
+    color: '#c8b896',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    fontSize: '11px',
+  },
+  times: {
+    color: '#b09a6a',
+    fontSize: '11px',
+  },
   jumpInput: {
     width: '76px',
     padding: '5px 8px',
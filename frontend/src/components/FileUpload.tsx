@@ -1,13 +1,49 @@
-import { useRef, useState } from 'react';
+import { useImperativeHandle, useRef, useState } from 'react';
+import { ACCEPTED_EXTENSIONS, PATTERN_FORMATS, type PatternFormat } from '../services/patternFormats';
+import { downloadText } from '../services/download';
+import { withShortcut, type Keymap } from '../services/shortcuts';
+
+/** Lets keyboard shortcuts open the file picker and export. */
+export interface FileUploadHandle {
+  openFile: () => void;
+  exportPattern: () => void;
+}
 
 interface FileUploadProps {
+  ref?: React.Ref<FileUploadHandle>;
+  /** Shortcuts, shown in the button tooltips. */
+  keymap: Keymap;
   onLoad: (content: string) => void | Promise<void>;
-  onExport: () => Promise<string>;
+  onExport: (format: PatternFormat) => Promise<string>;
+  onCopyLink: () => void | Promise<void>;
+  libraryOpen: boolean;
+  onToggleLibrary: () => void;
+  chartOpen: boolean;
+  onToggleChart: () => void;
+  censusOpen: boolean;
+  onToggleCensus: () => void;
+  sessionsOpen: boolean;
+  onToggleSessions: () => void;
 }
 
-export function FileUpload({ onLoad, onExport }: FileUploadProps) {
+export function FileUpload({
+  ref,
+  keymap,
+  onLoad,
+  onExport,
+  onCopyLink,
+  libraryOpen,
+  onToggleLibrary,
+  chartOpen,
+  onToggleChart,
+  censusOpen,
+  onToggleCensus,
+  sessionsOpen,
+  onToggleSessions,
+}: FileUploadProps) {
   const fileRef = useRef<HTMLInputElement>(null);
   const [readError, setReadError] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<PatternFormat>('life106');
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -23,28 +59,15 @@ export function FileUpload({ onLoad, onExport }: FileUploadProps) {
   };
 
   const handleExport = async () => {
-    const content = await onExport();
+    const content = await onExport(exportFormat);
     if (!content) return;
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'game_of_life.life';
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadText(content, `game_of_life${PATTERN_FORMATS[exportFormat].extension}`);
   };
 
-  const loadSampleGlider = () => {
-    onLoad(`#Life 1.06
-0 1
-1 2
-2 0
-2 1
-2 2
--2000000000000 -2000000000000
--2000000000001 -2000000000001
--2000000000000 -2000000000001`);
-  };
+  useImperativeHandle(ref, () => ({
+    openFile: () => fileRef.current?.click(),
+    exportPattern: () => void handleExport(),
+  }));
 
   return (
     <div style={styles.container}>
@@ -52,18 +75,68 @@ export function FileUpload({ onLoad, onExport }: FileUploadProps) {
       <input
         ref={fileRef}
         type="file"
-        accept=".life,.txt"
+        accept={ACCEPTED_EXTENSIONS}
         onChange={handleFileChange}
         style={{ display: 'none' }}
       />
-      <button style={styles.btn} onClick={() => fileRef.current?.click()}>
+      <button
+        style={styles.btn}
+        onClick={() => fileRef.current?.click()}
+        title={withShortcut('Load a pattern file', keymap, 'loadFile')}
+      >
         Load File
       </button>
-      <button style={styles.btn} onClick={handleExport}>
+      <button
+        style={styles.btn}
+        onClick={handleExport}
+        title={withShortcut('Download the board in the chosen format', keymap, 'export')}
+      >
         Export
       </button>
-      <button style={styles.btn} onClick={loadSampleGlider}>
-        Load Sample
+      <select
+        style={styles.select}
+        value={exportFormat}
+        title="Export format"
+        onChange={(e) => setExportFormat(e.target.value as PatternFormat)}
+      >
+        {(Object.keys(PATTERN_FORMATS) as PatternFormat[]).map((f) => (
+          <option key={f} value={f}>{PATTERN_FORMATS[f].label}</option>
+        ))}
+      </select>
+      <button
+        style={styles.btn}
+        onClick={onCopyLink}
+        title={withShortcut('Copy a link that opens this board, rule, generation and view', keymap, 'copyLink')}
+      >
+        Copy Link
+      </button>
+      <button
+        style={{ ...styles.btn, ...(libraryOpen ? styles.btnActive : {}) }}
+        onClick={onToggleLibrary}
+        title={withShortcut('Browse built-in patterns to stamp on the grid', keymap, 'toggleLibrary')}
+      >
+        Library
+      </button>
+      <button
+        style={{ ...styles.btn, ...(chartOpen ? styles.btnActive : {}) }}
+        onClick={onToggleChart}
+        title={withShortcut('Population over time, with CSV/JSON export', keymap, 'toggleChart')}
+      >
+        Chart
+      </button>
+      <button
+        style={{ ...styles.btn, ...(censusOpen ? styles.btnActive : {}) }}
+        onClick={onToggleCensus}
+        title={withShortcut('Count the still lifes, oscillators and spaceships on the board', keymap, 'toggleCensus')}
+      >
+        Census
+      </button>
+      <button
+        style={{ ...styles.btn, ...(sessionsOpen ? styles.btnActive : {}) }}
+        onClick={onToggleSessions}
+        title={withShortcut('Save, name and reopen snapshots of the board', keymap, 'toggleSessions')}
+      >
+        Sessions
       </button>
     </div>
   );
@@ -90,6 +163,18 @@ const styles: Record<string, React.CSSProperties> = {
     letterSpacing: '1px',
     textTransform: 'uppercase' as const,
   },
+  btnActive: {
+    borderColor: '#c4a25b',
+    color: '#c4a25b',
+  },
+  select: {
+    padding: '4px 8px',
+    background: '#120f0a',
+    color: '#c8b896',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    fontSize: '11px',
+  },
   error: {
     color: '#e05050',
     fontSize: '12px',
@@ -1,20 +1,79 @@
-import { useRef, useEffect, useCallback, useState } from 'react';
-import type { Cell } from '../services/api';
-
-export interface Anchor {
-  /** Which grid cell is the reference point. */
-  cell: { x: bigint; y: bigint };
-  /** Where that cell's top-left corner appears on the canvas (pixels). */
-  pixel: { x: number; y: number };
-}
+import { useRef, useEffect, useCallback, useState, useMemo } from 'react';
+import { cellState, isAlive, type Cell } from '../services/api';
+import {
+  clearRect,
+  clipRect,
+  copyRect,
+  fillRect,
+  flipClip,
+  moveRect,
+  paintCells,
+  pasteClip,
+  placeClip,
+  rectFromCorners,
+  rotateClip,
+  transformRect,
+  type CellEdit,
+  type Clip,
+  type Rect,
+} from '../services/selection';
+import { SelectionToolbar } from './SelectionToolbar';
+import { Minimap } from './Minimap';
+import { shortcutLabel, type Keymap } from '../services/shortcuts';
+import { PLANE_TOPOLOGY, parseTopology, seamImages, type Topology } from '../services/topology';
+import {
+  DEFAULT_CELL_SIZE,
+  cellAtPixel,
+  cellsAlongLine,
+  clampCellSize,
+  fitCellSize,
+  formatZoom,
+  getViewState,
+  normalizeAnchor,
+  pinchView,
+  zoomAt,
+  type Anchor,
+  type PinchStart,
+  type CenteredView,
+  type ViewState,
+} from '../services/viewport';
 
 interface GridProps {
   cells: Cell[];
   onToggleCell: (x: bigint, y: bigint) => void;
-  centerOn?: { x: bigint; y: bigint; key: number } | null;
+  /** Applies a region edit to the latest board; returns false if it was rejected. */
+  onEditCells: (label: string, edit: (board: Map<string, Cell>) => CellEdit) => boolean;
+  /**
+   * Center the viewport on (x, y). With `width`/`height` (the span of a pattern
+   * in cells) the zoom also changes so the whole span fits.
+   */
+  centerOn?: { x: bigint; y: bigint; key: number; width?: bigint; height?: bigint } | null;
+  /**
+   * A library pattern to stamp: it follows the cursor and every click places a
+   * copy until Esc. A new `key` restarts stamping; null stops it.
+   */
+  stamp?: { clip: Clip; name: string; key: number } | null;
+  /** Called when the user stops stamping from the Grid (Esc, ✕ or Ctrl+V). */
+  onStampEnd?: () => void;
+  /** Restore a viewport, e.g. from a shared link. A new `key` restores it again. */
+  restoreView?: (CenteredView & { key: number }) | null;
+  /** Reports every viewport change. */
+  onViewChange?: (view: CenteredView) => void;
+  /**
+   * Pan a step (dx and dy are -1, 0 or 1), or zoom in or out as the zoom
+   * buttons do; sent by the keyboard shortcuts. A new `key` moves again.
+   */
+  viewStep?: ({ pan: { dx: number; dy: number } } | { zoom: 'in' | 'out' }) & { key: number } | null;
+  /** Shortcuts, shown in the zoom button tooltips. */
+  keymap?: Keymap;
+  /** Cluster bounding boxes, plotted on the minimap. */
+  clusters?: Rect[];
+  /** The universe, in topology.ts notation: where the edges are drawn and what shows across them. */
+  topology?: string;
+  /** How many states the rule's cells have (rules.ts): above 2, dying cells are drawn along a fading ramp. */
+  states?: number;
 }
 
-const CELL_SIZE = 20;
 const GRID_COLOR = '#253d58';   // clear blue-grey grid lines
 const CELL_COLOR = '#d4edff';   // near-white blue — maximum contrast on dark background
 const BG_COLOR   = '#0a1220';   // dark navy — slightly lighter so grid lines register
@@ -25,38 +84,49 @@ const BOUNDARY_MAX = 9223372036854775807n;
 const BOUNDARY_MIN = -9223372036854775808n;
 const BOUNDARY_COLOR = '#c8372d';              // Noxus red — LoL red team
 const BOUNDARY_FILL  = 'rgba(200, 55, 45, 0.12)';
-
-/** Visible viewport: canvas size, anchor, and the cell/pixel range on screen. */
-export interface ViewState {
-  w: number;
-  h: number;
-  anchor: Anchor;
-  startColOff: number;
-  endColOff: number;
-  startRowOff: number;
-  endRowOff: number;
-  startCol: bigint;
-  endCol: bigint;
-  startRow: bigint;
-  endRow: bigint;
-}
-
-/** Compute the visible cell range from canvas size and anchor. */
-export function getViewState(w: number, h: number, anchor: Anchor): ViewState {
-  const { cell: anchorCell, pixel: anchorPixel } = anchor;
-  const startColOff = Math.floor(-anchorPixel.x / CELL_SIZE) - 1;
-  const endColOff   = Math.ceil((w - anchorPixel.x) / CELL_SIZE) + 1;
-  const startRowOff = Math.floor(-anchorPixel.y / CELL_SIZE) - 1;
-  const endRowOff   = Math.ceil((h - anchorPixel.y) / CELL_SIZE) + 1;
-  return {
-    w, h, anchor,
-    startColOff, endColOff, startRowOff, endRowOff,
-    startCol: anchorCell.x + BigInt(startColOff),
-    endCol:   anchorCell.x + BigInt(endColOff),
-    startRow: anchorCell.y + BigInt(startRowOff),
-    endRow:   anchorCell.y + BigInt(endRowOff),
-  };
-}
+// Edges of a wrapping universe, and the copies of the board seen across them.
+const SEAM_COLOR         = '#4a9a8a';
+const TWISTED_SEAM_COLOR = '#9a6ac8';
+const SEAM_FILL          = 'rgba(74, 154, 138, 0.08)';
+const SEAM_GHOST_COLOR   = 'rgba(212, 237, 255, 0.3)';
+// Dying cells of a Generations rule fade from amber, in their first dying
+// state, towards the background in their last.
+const DYING_FIRST_RGB = [232, 160, 72];
+const DYING_LAST_RGB  = [52, 40, 64];
+
+// Below this many pixels per cell, grid lines and the gap between cells are dropped.
+const GRID_MIN_CELL_SIZE = 5;
+// Faintest alpha used for a density pixel, so a lone cell stays visible when zoomed out.
+const MIN_DENSITY_ALPHA = 0.35;
+const ZOOM_BUTTON_FACTOR = 2;
+
+const SELECTION_COLOR = '#c4a25b';
+const SELECTION_FILL  = 'rgba(196, 162, 91, 0.08)';
+const GHOST_COLOR     = 'rgba(232, 212, 138, 0.55)';
+const STROKE_COLOR    = 'rgba(212, 237, 255, 0.7)';
+const ERASE_COLOR     = 'rgba(200, 55, 45, 0.6)';
+// Arrow keys nudge the selection by one cell, or by this many with Shift.
+const NUDGE_FAST = 10n;
+// A pan shortcut moves the view by this fraction of the canvas.
+const PAN_STEP = 0.125;
+// A press that moves less than this many pixels is a tap; fingers wobble more than a mouse.
+const TAP_SLOP: Record<string, number> = { mouse: 3, pen: 3, touch: 10 };
+// Holding a finger still this long (ms) starts a selection.
+const LONG_PRESS_MS = 500;
+// The pen's eraser end reports this button.
+const ERASER_BUTTON = 5;
+
+/**
+ * What the pointers on the canvas are doing. A press becomes a tap, a pan or
+ * (touch, held still) a selection; a second pointer turns anything into a
+ * pinch, and nothing is edited until every pointer of that pinch is lifted.
+ */
+type Gesture =
+  | { kind: 'press' | 'pan'; pointerId: number; pointerType: string; start: { x: number; y: number }; anchor: Anchor }
+  | { kind: 'select'; pointerId: number; start: { x: bigint; y: bigint } }
+  | { kind: 'draw'; pointerId: number; erase: boolean; last: { x: number; y: number }; moved: boolean }
+  | { kind: 'pinch'; start: PinchStart }
+  | { kind: 'done' };
 
 function drawBackground(ctx: CanvasRenderingContext2D, w: number, h: number): void {
   ctx.fillStyle = BG_COLOR;
@@ -64,115 +134,240 @@ function drawBackground(ctx: CanvasRenderingContext2D, w: number, h: number): vo
 }
 
 function drawGridLines(ctx: CanvasRenderingContext2D, view: ViewState): void {
-  const { w, h, anchor } = view;
+  const { w, h, anchor, cellSize } = view;
+  if (cellSize < GRID_MIN_CELL_SIZE) return;
   const { pixel: anchorPixel } = anchor;
   ctx.strokeStyle = GRID_COLOR;
   ctx.lineWidth = 0.5;
   for (let col = view.startColOff; col <= view.endColOff; col++) {
-    const px = col * CELL_SIZE + anchorPixel.x;
+    const px = col * cellSize + anchorPixel.x;
     ctx.beginPath(); ctx.moveTo(px, 0); ctx.lineTo(px, h); ctx.stroke();
   }
   for (let row = view.startRowOff; row <= view.endRowOff; row++) {
-    const py = row * CELL_SIZE + anchorPixel.y;
+    const py = row * cellSize + anchorPixel.y;
     ctx.beginPath(); ctx.moveTo(0, py); ctx.lineTo(w, py); ctx.stroke();
   }
 }
 
-function drawCells(ctx: CanvasRenderingContext2D, view: ViewState, cells: Cell[]): void {
-  const { anchor } = view;
+function drawCells(ctx: CanvasRenderingContext2D, view: ViewState, cells: Cell[], color = CELL_COLOR): void {
+  const { anchor, cellSize } = view;
   const { cell: anchorCell, pixel: anchorPixel } = anchor;
-  ctx.fillStyle = CELL_COLOR;
+  const gap = cellSize >= GRID_MIN_CELL_SIZE ? 1 : 0;
+  ctx.fillStyle = color;
   for (const [x, y] of cells) {
     if (x < view.startCol || x > view.endCol || y < view.startRow || y > view.endRow) continue;
-    const px = Number(x - anchorCell.x) * CELL_SIZE + anchorPixel.x;
-    const py = Number(y - anchorCell.y) * CELL_SIZE + anchorPixel.y;
-    ctx.fillRect(px + 1, py + 1, CELL_SIZE - 2, CELL_SIZE - 2);
+    const px = Number(x - anchorCell.x) * cellSize + anchorPixel.x;
+    const py = Number(y - anchorCell.y) * cellSize + anchorPixel.y;
+    ctx.fillRect(px + gap, py + gap, cellSize - 2 * gap, cellSize - 2 * gap);
   }
 }
 
+/** Fill colours of the dying states 2 … states-1, in order. */
+function dyingRamp(states: number): string[] {
+  const ramp: string[] = [];
+  for (let state = 2; state < states; state++) {
+    const t = states > 3 ? (state - 2) / (states - 3) : 0;
+    const [r, g, b] = DYING_FIRST_RGB.map((c, i) => Math.round(c + (DYING_LAST_RGB[i] - c) * t));
+    ramp.push(`rgb(${r}, ${g}, ${b})`);
+  }
+  return ramp;
+}
+
+/** Dying cells grouped by state, so each colour is set once per frame; live cells separately. */
+function layerByState(cells: Cell[]): { live: Cell[]; dying: Map<number, Cell[]> } {
+  const dying = new Map<number, Cell[]>();
+  if (cells.every(isAlive)) return { live: cells, dying };
+  const live: Cell[] = [];
+  for (const cell of cells) {
+    const state = cellState(cell);
+    if (state === 1) live.push(cell);
+    else if (dying.has(state)) dying.get(state)!.push(cell);
+    else dying.set(state, [cell]);
+  }
+  return { live, dying };
+}
+
+/**
+ * Zoomed out past one pixel per cell: bin the visible cells by screen pixel and
+ * shade each pixel by how full it is. The scale is logarithmic because a pixel
+ * can cover billions of cells.
+ */
+function drawDensity(ctx: CanvasRenderingContext2D, view: ViewState, cells: Cell[], color = CELL_COLOR): void {
+  const { w, h, anchor, cellSize } = view;
+  const { cell: anchorCell, pixel: anchorPixel } = anchor;
+  const bins = new Map<number, number>();
+  for (const [x, y] of cells) {
+    if (x < view.startCol || x > view.endCol || y < view.startRow || y > view.endRow) continue;
+    const px = Math.floor(Number(x - anchorCell.x) * cellSize + anchorPixel.x);
+    const py = Math.floor(Number(y - anchorCell.y) * cellSize + anchorPixel.y);
+    if (px < 0 || px >= w || py < 0 || py >= h) continue;
+    const key = py * w + px;
+    bins.set(key, (bins.get(key) ?? 0) + 1);
+  }
+  const perPixel = Math.log1p(1 / (cellSize * cellSize));
+  ctx.fillStyle = color;
+  for (const [key, count] of bins) {
+    const density = Math.min(1, Math.log1p(count) / perPixel);
+    ctx.globalAlpha = MIN_DENSITY_ALPHA + (1 - MIN_DENSITY_ALPHA) * density;
+    ctx.fillRect(key % w, Math.floor(key / w), 1, 1);
+  }
+  ctx.globalAlpha = 1;
+}
+
+/** Screen position of a cell-grid line, clamped just outside the canvas so huge offsets stay drawable. */
+function lineToPixel(offset: bigint, cellSize: number, anchorPixel: number, size: number): number {
+  const px = Number(offset) * cellSize + anchorPixel;
+  return Math.min(size + 2, Math.max(-2, px));
+}
+
+function drawSelection(ctx: CanvasRenderingContext2D, view: ViewState, rect: Rect, dashed: boolean): void {
+  const { w, h, anchor, cellSize } = view;
+  const { cell: anchorCell, pixel: anchorPixel } = anchor;
+  if (rect.maxX < view.startCol || rect.minX > view.endCol || rect.maxY < view.startRow || rect.minY > view.endRow) return;
+  const x0 = lineToPixel(rect.minX - anchorCell.x, cellSize, anchorPixel.x, w);
+  const x1 = lineToPixel(rect.maxX + 1n - anchorCell.x, cellSize, anchorPixel.x, w);
+  const y0 = lineToPixel(rect.minY - anchorCell.y, cellSize, anchorPixel.y, h);
+  const y1 = lineToPixel(rect.maxY + 1n - anchorCell.y, cellSize, anchorPixel.y, h);
+  ctx.fillStyle = SELECTION_FILL;
+  ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
+  ctx.strokeStyle = SELECTION_COLOR;
+  ctx.lineWidth = 1.5;
+  ctx.setLineDash(dashed ? [6, 4] : []);
+  ctx.strokeRect(x0, y0, Math.max(1, x1 - x0), Math.max(1, y1 - y0));
+  ctx.setLineDash([]);
+}
+
 function drawOriginCrosshair(ctx: CanvasRenderingContext2D, view: ViewState): void {
-  const { w, h, anchor } = view;
+  const { w, h, anchor, cellSize } = view;
   const { cell: anchorCell, pixel: anchorPixel } = anchor;
   const originOffX = -anchorCell.x;
   const originOffY = -anchorCell.y;
   ctx.strokeStyle = ORIGIN_CROSSHAIR_COLOR;
   ctx.lineWidth = 1;
   if (originOffX >= BigInt(view.startColOff) && originOffX <= BigInt(view.endColOff)) {
-    const px = Number(originOffX) * CELL_SIZE + anchorPixel.x;
+    const px = Number(originOffX) * cellSize + anchorPixel.x;
     ctx.beginPath(); ctx.moveTo(px, 0); ctx.lineTo(px, h); ctx.stroke();
   }
   if (originOffY >= BigInt(view.startRowOff) && originOffY <= BigInt(view.endRowOff)) {
-    const py = Number(originOffY) * CELL_SIZE + anchorPixel.y;
+    const py = Number(originOffY) * cellSize + anchorPixel.y;
     ctx.beginPath(); ctx.moveTo(0, py); ctx.lineTo(w, py); ctx.stroke();
   }
 }
 
 /** Hard boundary walls: shade out-of-bounds and draw red line at 64-bit limits. */
-function drawBoundaryWalls(ctx: CanvasRenderingContext2D, view: ViewState): void {
-  const { w, h, anchor } = view;
+interface EdgeStyle {
+  color: string;
+  fill: string;
+  /** Seams are dashed; walls are solid. */
+  dashed: boolean;
+}
+
+// The dead border of the clipped plane and of a rectangle.
+const WALL: EdgeStyle = { color: BOUNDARY_COLOR, fill: BOUNDARY_FILL, dashed: false };
+// Edges that join up with the opposite side.
+const SEAM: EdgeStyle = { color: SEAM_COLOR, fill: SEAM_FILL, dashed: true };
+// The Klein bottle's top and bottom, which join mirrored.
+const TWISTED_SEAM: EdgeStyle = { color: TWISTED_SEAM_COLOR, fill: SEAM_FILL, dashed: true };
+
+/**
+ * Marks the edges of the universe and shades what lies past them: the 64-bit
+ * limits of the plane, or the border of a bounded universe. `columns` styles
+ * the left and right edges, `rows` the top and bottom.
+ */
+function drawUniverseEdges(
+  ctx: CanvasRenderingContext2D,
+  view: ViewState,
+  box: { minX: bigint; maxX: bigint; minY: bigint; maxY: bigint },
+  columns: EdgeStyle,
+  rows: EdgeStyle,
+): void {
+  const { w, h, anchor, cellSize } = view;
   const { cell: anchorCell, pixel: anchorPixel } = anchor;
   ctx.lineWidth = 2;
 
-  // Right wall (x > LONG_MAX)
-  if (BOUNDARY_MAX < view.startCol) {
-    ctx.fillStyle = BOUNDARY_FILL;
+  const line = (style: EdgeStyle, x0: number, y0: number, x1: number, y1: number) => {
+    ctx.strokeStyle = style.color;
+    ctx.setLineDash(style.dashed ? [6, 4] : []);
+    ctx.beginPath(); ctx.moveTo(x0, y0); ctx.lineTo(x1, y1); ctx.stroke();
+    ctx.setLineDash([]);
+  };
+  const shadeAll = (style: EdgeStyle) => {
+    ctx.fillStyle = style.fill;
     ctx.fillRect(0, 0, w, h);
-  } else if (BOUNDARY_MAX <= view.endCol) {
-    const px = (Number(BOUNDARY_MAX - anchorCell.x) + 1) * CELL_SIZE + anchorPixel.x;
-    ctx.fillStyle = BOUNDARY_FILL;
+  };
+
+  // Right edge (x > maxX)
+  if (box.maxX < view.startCol) {
+    shadeAll(columns);
+  } else if (box.maxX <= view.endCol) {
+    const px = (Number(box.maxX - anchorCell.x) + 1) * cellSize + anchorPixel.x;
+    ctx.fillStyle = columns.fill;
     ctx.fillRect(px, 0, w - px, h);
-    ctx.strokeStyle = BOUNDARY_COLOR;
-    ctx.beginPath(); ctx.moveTo(px, 0); ctx.lineTo(px, h); ctx.stroke();
+    line(columns, px, 0, px, h);
   }
 
-  // Left wall (x < LONG_MIN)
-  if (BOUNDARY_MIN > view.endCol) {
-    ctx.fillStyle = BOUNDARY_FILL;
-    ctx.fillRect(0, 0, w, h);
-  } else if (BOUNDARY_MIN >= view.startCol) {
-    const px = Number(BOUNDARY_MIN - anchorCell.x) * CELL_SIZE + anchorPixel.x;
-    ctx.fillStyle = BOUNDARY_FILL;
+  // Left edge (x < minX)
+  if (box.minX > view.endCol) {
+    shadeAll(columns);
+  } else if (box.minX >= view.startCol) {
+    const px = Number(box.minX - anchorCell.x) * cellSize + anchorPixel.x;
+    ctx.fillStyle = columns.fill;
     ctx.fillRect(0, 0, px, h);
-    ctx.strokeStyle = BOUNDARY_COLOR;
-    ctx.beginPath(); ctx.moveTo(px, 0); ctx.lineTo(px, h); ctx.stroke();
+    line(columns, px, 0, px, h);
   }
 
-  // Bottom wall (y > LONG_MAX)
-  if (BOUNDARY_MAX < view.startRow) {
-    ctx.fillStyle = BOUNDARY_FILL;
-    ctx.fillRect(0, 0, w, h);
-  } else if (BOUNDARY_MAX <= view.endRow) {
-    const py = (Number(BOUNDARY_MAX - anchorCell.y) + 1) * CELL_SIZE + anchorPixel.y;
-    ctx.fillStyle = BOUNDARY_FILL;
+  // Bottom edge (y > maxY)
+  if (box.maxY < view.startRow) {
+    shadeAll(rows);
+  } else if (box.maxY <= view.endRow) {
+    const py = (Number(box.maxY - anchorCell.y) + 1) * cellSize + anchorPixel.y;
+    ctx.fillStyle = rows.fill;
     ctx.fillRect(0, py, w, h - py);
-    ctx.strokeStyle = BOUNDARY_COLOR;
-    ctx.beginPath(); ctx.moveTo(0, py); ctx.lineTo(w, py); ctx.stroke();
+    line(rows, 0, py, w, py);
   }
 
-  // Top wall (y < LONG_MIN)
-  if (BOUNDARY_MIN > view.endRow) {
-    ctx.fillStyle = BOUNDARY_FILL;
-    ctx.fillRect(0, 0, w, h);
-  } else if (BOUNDARY_MIN >= view.startRow) {
-    const py = Number(BOUNDARY_MIN - anchorCell.y) * CELL_SIZE + anchorPixel.y;
-    ctx.fillStyle = BOUNDARY_FILL;
+  // Top edge (y < minY)
+  if (box.minY > view.endRow) {
+    shadeAll(rows);
+  } else if (box.minY >= view.startRow) {
+    const py = Number(box.minY - anchorCell.y) * cellSize + anchorPixel.y;
+    ctx.fillStyle = rows.fill;
     ctx.fillRect(0, 0, w, py);
-    ctx.strokeStyle = BOUNDARY_COLOR;
-    ctx.beginPath(); ctx.moveTo(0, py); ctx.lineTo(w, py); ctx.stroke();
+    line(rows, 0, py, w, py);
   }
 }
 
-/** Keep anchorPixel close to 0 so it never accumulates into an unsafe float. */
-export function normalizeAnchor(a: Anchor): Anchor {
-  const shiftX = Math.round(a.pixel.x / CELL_SIZE);
-  const shiftY = Math.round(a.pixel.y / CELL_SIZE);
-  return {
-    cell: { x: a.cell.x - BigInt(shiftX), y: a.cell.y - BigInt(shiftY) },
-    pixel: { x: a.pixel.x - shiftX * CELL_SIZE, y: a.pixel.y - shiftY * CELL_SIZE },
+function drawTopology(ctx: CanvasRenderingContext2D, view: ViewState, topology: Topology): void {
+  if (topology.kind === 'plane') {
+    const style = topology.edge === 'wrap' ? SEAM : WALL;
+    drawUniverseEdges(ctx, view, { minX: BOUNDARY_MIN, maxX: BOUNDARY_MAX, minY: BOUNDARY_MIN, maxY: BOUNDARY_MAX }, style, style);
+    return;
+  }
+  const box = {
+    minX: topology.x,
+    maxX: topology.x + topology.width - 1n,
+    minY: topology.y,
+    maxY: topology.y + topology.height - 1n,
   };
+  if (topology.kind === 'rect') drawUniverseEdges(ctx, view, box, WALL, WALL);
+  else drawUniverseEdges(ctx, view, box, SEAM, topology.kind === 'klein' ? TWISTED_SEAM : SEAM);
 }
 
-export function Grid({ cells, onToggleCell, centerOn }: GridProps) {
+export function Grid({
+  cells,
+  onToggleCell,
+  onEditCells,
+  centerOn,
+  stamp,
+  onStampEnd,
+  restoreView,
+  onViewChange,
+  viewStep,
+  keymap,
+  clusters = [],
+  topology = PLANE_TOPOLOGY,
+  states = 2,
+}: GridProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   // Anchor: which BigInt cell sits at which screen pixel.
@@ -180,28 +375,163 @@ export function Grid({ cells, onToggleCell, centerOn }: GridProps) {
   const [anchor, setAnchor] = useState<Anchor>({ cell: { x: 0n, y: 0n }, pixel: { x: 0, y: 0 } });
   // Ref mirrors anchor so native event listeners always see the latest value.
   const anchorRef = useRef<Anchor>(anchor);
+  // Zoom in pixels per cell; below 1 the canvas shows density instead of cells.
+  const [cellSize, setCellSize] = useState(DEFAULT_CELL_SIZE);
+  const cellSizeRef = useRef(cellSize);
 
+  // Pointer gestures: where each pointer that is down sits (canvas pixels), what they are doing,
+  // and the long-press timer. Mouse, touch and pen all arrive as pointer events.
   const [dragging, setDragging] = useState(false);
-  const draggingRef = useRef(false);
-  const dragStart = useRef({ x: 0, y: 0 });
-  const dragAnchor = useRef<Anchor>({ cell: { x: 0n, y: 0n }, pixel: { x: 0, y: 0 } });
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const gestureRef = useRef<Gesture | null>(null);
+  const longPressRef = useRef<number | null>(null);
+  // Cells a pen stroke has covered so far; committed as one edit when the pen lifts.
+  const strokeRef = useRef(new Map<string, Cell>());
+  const [stroke, setStroke] = useState<{ cells: Cell[]; erase: boolean } | null>(null);
+
+  // Region editing: the selected rectangle, the copied cells, and a clip being
+  // placed (drawn as a ghost at the hovered cell until a click commits it).
+  const [selection, setSelection] = useState<Rect | null>(null);
+  const [clipboard, setClipboard] = useState<Clip | null>(null);
+  const [paste, setPaste] = useState<Clip | null>(null);
+  const [hover, setHover] = useState<{ x: bigint; y: bigint } | null>(null);
+
+  // Canvas size as state, so the minimap's viewport box follows resizes.
+  const [canvasSize, setCanvasSize] = useState<{ w: number; h: number } | null>(null);
+
+  // Stamping reuses the paste ghost but keeps it after each placement. A new
+  // stamp prop is picked up while rendering, so the ghost appears without an
+  // extra effect pass.
+  const [stamping, setStamping] = useState(false);
+  const [stampKey, setStampKey] = useState<number | null>(null);
+  if ((stamp?.key ?? null) !== stampKey) {
+    setStampKey(stamp?.key ?? null);
+    if (stamp) {
+      setPaste(stamp.clip);
+      setSelection(null);
+      setStamping(true);
+    } else if (stamping) {
+      setPaste(null);
+      setStamping(false);
+    }
+  }
 
-  // Keep anchorRef in sync with state.
+  // Keep refs in sync with state.
   useEffect(() => { anchorRef.current = anchor; }, [anchor]);
+  useEffect(() => { cellSizeRef.current = cellSize; }, [cellSize]);
+
+  const setView = useCallback((a: Anchor, size: number) => {
+    anchorRef.current = a;
+    cellSizeRef.current = size;
+    setAnchor(a);
+    setCellSize(size);
+  }, []);
+
+  /** Zoom to `size` keeping the cell under canvas pixel (sx, sy) in place. */
+  const zoomTo = useCallback((size: number, sx: number, sy: number) => {
+    const next = clampCellSize(size);
+    setView(zoomAt(anchorRef.current, cellSizeRef.current, next, sx, sy), next);
+  }, [setView]);
+
+  const zoomTitle = (title: string, id: 'zoomIn' | 'zoomOut') => {
+    const key = keymap && shortcutLabel(keymap, id);
+    return `${title} (${key ? `${key} or ` : ''}Ctrl + wheel)`;
+  };
+
+  const zoomAtCenter = (factor: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    zoomTo(cellSizeRef.current * factor, canvas.width / 2, canvas.height / 2);
+  };
+
+  /** Center cell (x, y) on the canvas: anchorCell = target cell, anchorPixel = canvas center. */
+  const centerCell = useCallback((x: bigint, y: bigint, size: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    setView({
+      cell: { x, y },
+      pixel: { x: canvas.width / 2 - size / 2, y: canvas.height / 2 - size / 2 },
+    }, size);
+  }, [setView]);
 
   // When centerOn changes (new key), snap the viewport so the target cell is
-  // centered on the canvas. anchorCell = target cell, anchorPixel = canvas center.
+  // centered. A target with a span also zooms so the span fits.
   useEffect(() => {
     if (!centerOn) return;
     const canvas = canvasRef.current;
     if (!canvas) return;
-    const a: Anchor = {
-      cell: { x: centerOn.x, y: centerOn.y },
-      pixel: { x: canvas.width / 2, y: canvas.height / 2 },
-    };
-    anchorRef.current = a;
-    setAnchor(a);
-  }, [centerOn]);
+    const size = centerOn.width !== undefined && centerOn.height !== undefined
+      ? fitCellSize(canvas.width, canvas.height, centerOn.width, centerOn.height)
+      : cellSizeRef.current;
+    centerCell(centerOn.x, centerOn.y, size);
+  }, [centerOn, centerCell]);
+
+  useEffect(() => {
+    if (!restoreView) return;
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const size = clampCellSize(restoreView.cellSize);
+    const { cell, pixel } = restoreView.anchor;
+    setView(normalizeAnchor({
+      cell,
+      pixel: { x: pixel.x + canvas.width / 2, y: pixel.y + canvas.height / 2 },
+    }, size), size);
+  }, [restoreView, setView]);
+
+  useEffect(() => {
+    if (!viewStep) return;
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if ('zoom' in viewStep) {
+      const factor = viewStep.zoom === 'in' ? ZOOM_BUTTON_FACTOR : 1 / ZOOM_BUTTON_FACTOR;
+      zoomTo(cellSizeRef.current * factor, canvas.width / 2, canvas.height / 2);
+      return;
+    }
+    // Panning left shows what is to the left, so the cells move right.
+    const { cell, pixel } = anchorRef.current;
+    const size = cellSizeRef.current;
+    setView(normalizeAnchor({
+      cell,
+      pixel: {
+        x: pixel.x - viewStep.pan.dx * canvas.width * PAN_STEP,
+        y: pixel.y - viewStep.pan.dy * canvas.height * PAN_STEP,
+      },
+    }, size), size);
+  }, [viewStep, setView, zoomTo]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !onViewChange) return;
+    onViewChange({
+      anchor: {
+        cell: anchor.cell,
+        pixel: { x: anchor.pixel.x - canvas.width / 2, y: anchor.pixel.y - canvas.height / 2 },
+      },
+      cellSize,
+    });
+  }, [anchor, cellSize, onViewChange]);
+
+  // The cells on screen, for the minimap; clamped because a zoomed-out view reaches past the boundary.
+  const visible = useMemo((): Rect | null => {
+    if (!canvasSize) return null;
+    const view = getViewState(canvasSize.w, canvasSize.h, anchor, cellSize);
+    return rectFromCorners({ x: view.startCol, y: view.startRow }, { x: view.endCol, y: view.endRow });
+  }, [canvasSize, anchor, cellSize]);
+
+  const ghostCells = useMemo(
+    () => (paste && hover ? placeClip(paste, hover.x, hover.y) : []),
+    [paste, hover],
+  );
+
+  const universe = useMemo(() => parseTopology(topology), [topology]);
+  // Across the seams of a torus or Klein bottle: copies of the board, where they are in view.
+  const seamCells = useMemo(
+    () => (visible ? seamImages(universe, cells, visible) : []),
+    [universe, cells, visible],
+  );
+
+  const ramp = useMemo(() => dyingRamp(states), [states]);
+  const layers = useMemo(() => layerByState(cells), [cells]);
 
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
@@ -211,14 +541,30 @@ export function Grid({ cells, onToggleCell, centerOn }: GridProps) {
 
     const w = canvas.width;
     const h = canvas.height;
-    const view = getViewState(w, h, anchor);
+    const view = getViewState(w, h, anchor, cellSize);
 
     drawBackground(ctx, w, h);
     drawGridLines(ctx, view);
-    drawCells(ctx, view, cells);
+    if (cellSize >= 1) drawCells(ctx, view, seamCells, SEAM_GHOST_COLOR);
+    else drawDensity(ctx, view, seamCells, SEAM_GHOST_COLOR);
+    for (const [state, stateCells] of layers.dying) {
+      // A state past the rule's last (left by a rule with more) shows as the last.
+      const color = ramp[state - 2] ?? ramp.at(-1) ?? `rgb(${DYING_LAST_RGB.join(', ')})`;
+      if (cellSize >= 1) drawCells(ctx, view, stateCells, color);
+      else drawDensity(ctx, view, stateCells, color);
+    }
+    if (cellSize >= 1) drawCells(ctx, view, layers.live);
+    else drawDensity(ctx, view, layers.live);
+    if (stroke) drawCells(ctx, view, stroke.cells, stroke.erase ? ERASE_COLOR : STROKE_COLOR);
+    if (selection) drawSelection(ctx, view, selection, false);
+    if (paste && hover) {
+      if (cellSize >= 1) drawCells(ctx, view, ghostCells, GHOST_COLOR);
+      else drawDensity(ctx, view, ghostCells, GHOST_COLOR);
+      drawSelection(ctx, view, clipRect(paste, hover.x, hover.y), true);
+    }
     drawOriginCrosshair(ctx, view);
-    drawBoundaryWalls(ctx, view);
-  }, [cells, anchor]);
+    drawTopology(ctx, view, universe);
+  }, [layers, ramp, anchor, cellSize, selection, paste, hover, ghostCells, stroke, universe, seamCells]);
 
   useEffect(() => { draw(); }, [draw]);
 
@@ -228,6 +574,8 @@ export function Grid({ cells, onToggleCell, centerOn }: GridProps) {
     const resize = () => {
       canvas.width  = canvas.parentElement?.clientWidth  ?? 800;
       canvas.height = canvas.parentElement?.clientHeight ?? 600;
+      const { width: w, height: h } = canvas;
+      setCanvasSize((prev) => (prev?.w === w && prev.h === h ? prev : { w, h }));
       draw();
     };
     resize();
@@ -237,86 +585,339 @@ export function Grid({ cells, onToggleCell, centerOn }: GridProps) {
 
   // Native wheel listener with passive:false so we can call preventDefault(),
   // preventing the page from scrolling while the user pans over the canvas.
+  // Ctrl/Cmd + wheel zooms around the cursor; browsers also report trackpad
+  // pinch gestures as wheel events with ctrlKey set.
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const handler = (e: WheelEvent) => {
       e.preventDefault();
+      // deltaMode 1 = lines, 2 = pages; normalize to pixels.
+      const unit = e.deltaMode === 1 ? 16 : e.deltaMode === 2 ? canvas.height : 1;
+      if (e.ctrlKey || e.metaKey) {
+        const rect = canvas.getBoundingClientRect();
+        const factor = Math.exp(-e.deltaY * unit * 0.002);
+        zoomTo(cellSizeRef.current * factor, e.clientX - rect.left, e.clientY - rect.top);
+        return;
+      }
       const cur = anchorRef.current;
-      const newPixelX = cur.pixel.x - e.deltaX;
-      const newPixelY = cur.pixel.y - e.deltaY;
       // Normalize so anchorPixel stays near 0 — prevents float drift.
-      const shiftX = Math.floor(newPixelX / CELL_SIZE);
-      const shiftY = Math.floor(newPixelY / CELL_SIZE);
-      const next: Anchor = {
-        cell: { x: cur.cell.x - BigInt(shiftX), y: cur.cell.y - BigInt(shiftY) },
-        pixel: { x: newPixelX - shiftX * CELL_SIZE, y: newPixelY - shiftY * CELL_SIZE },
-      };
+      const next = normalizeAnchor({
+        cell: cur.cell,
+        pixel: { x: cur.pixel.x - e.deltaX * unit, y: cur.pixel.y - e.deltaY * unit },
+      }, cellSizeRef.current);
       anchorRef.current = next;
       setAnchor(next);
     };
     canvas.addEventListener('wheel', handler, { passive: false });
     return () => canvas.removeEventListener('wheel', handler);
+  }, [zoomTo]);
+
+  // A long press still pending when the Grid goes away must not fire.
+  useEffect(() => () => {
+    if (longPressRef.current !== null) window.clearTimeout(longPressRef.current);
   }, []);
 
-  // Window-level mouseup so panning ends correctly even when the cursor
-  // leaves the canvas mid-drag.
+  // --- Region editing ---------------------------------------------------------
+
+  const copySelection = useCallback(() => {
+    if (selection) setClipboard(copyRect(cells, selection));
+  }, [cells, selection]);
+
+  const cutSelection = useCallback(() => {
+    if (!selection) return;
+    setClipboard(copyRect(cells, selection));
+    onEditCells('cut', (board) => clearRect(board, selection, 'inside'));
+  }, [cells, selection, onEditCells]);
+
+  const endStamp = useCallback(() => {
+    if (!stamping) return;
+    setStamping(false);
+    onStampEnd?.();
+  }, [stamping, onStampEnd]);
+
+  const startPaste = useCallback(() => {
+    if (!clipboard) return;
+    setPaste(clipboard);
+    endStamp();
+  }, [clipboard, endStamp]);
+
+  const cancelRegion = useCallback(() => {
+    if (paste) {
+      setPaste(null);
+      endStamp();
+    } else {
+      setSelection(null);
+    }
+  }, [paste, endStamp]);
+
+  // Rotate/flip the ghost while pasting, otherwise the selection's contents in place.
+  const transform = useCallback((label: string, fn: (clip: Clip) => Clip) => {
+    if (paste) {
+      setPaste(fn(paste));
+      return;
+    }
+    if (!selection) return;
+    let next: Rect = selection;
+    const applied = onEditCells(label, (board) => {
+      const result = transformRect(board, selection, fn);
+      next = result.rect;
+      return result.edit;
+    });
+    if (applied) setSelection(next);
+  }, [paste, selection, onEditCells]);
+
+  const rotate = useCallback(() => transform('rotate', rotateClip), [transform]);
+  const flip = useCallback(
+    (axis: 'horizontal' | 'vertical') => transform('flip', (clip) => flipClip(clip, axis)),
+    [transform],
+  );
+
+  const nudge = useCallback((dx: bigint, dy: bigint) => {
+    if (!selection) return;
+    let next: Rect = selection;
+    const applied = onEditCells('move', (board) => {
+      const result = moveRect(board, selection, dx, dy);
+      next = result.rect;
+      return result.edit;
+    });
+    if (applied) setSelection(next);
+  }, [selection, onEditCells]);
+
+  const clearRegion = (where: 'inside' | 'outside') => {
+    if (selection) onEditCells(where === 'inside' ? 'clear' : 'clear outside', (board) => clearRect(board, selection, where));
+  };
+
+  const fillRegion = (where: 'inside' | 'outside') => {
+    if (selection) onEditCells(where === 'inside' ? 'fill' : 'fill outside', (board) => fillRect(board, selection, where));
+  };
+
+  // Selection shortcuts. Typing in an input keeps its own keys. Re-registered on
+  // every render so the handler always sees the current selection and clipboard.
+  // Listens on document so it runs before the app's shortcuts (on window), which
+  // skip any key handled here — R rotates a selection rather than resetting.
   useEffect(() => {
-    const handleWindowMouseUp = () => {
-      if (draggingRef.current) {
-        const normalized = normalizeAnchor(anchorRef.current);
-        anchorRef.current = normalized;
-        setAnchor(normalized);
-        draggingRef.current = false;
-        setDragging(false);
-      }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const mod = e.ctrlKey || e.metaKey;
+      const k = e.key.toLowerCase();
+      if (mod && k === 'c' && selection) copySelection();
+      else if (mod && k === 'x' && selection) cutSelection();
+      else if (mod && k === 'v' && clipboard) startPaste();
+      else if (mod) return;
+      else if (e.key === 'Escape' && (paste || selection)) cancelRegion();
+      else if ((e.key === 'Delete' || e.key === 'Backspace') && selection) clearRegion('inside');
+      else if (k === 'r' && (paste || selection)) rotate();
+      else if (k === 'h' && (paste || selection)) flip('horizontal');
+      else if (k === 'v' && (paste || selection)) flip('vertical');
+      else if (e.key.startsWith('Arrow') && selection) {
+        const step = e.shiftKey ? NUDGE_FAST : 1n;
+        const dx = e.key === 'ArrowLeft' ? -step : e.key === 'ArrowRight' ? step : 0n;
+        const dy = e.key === 'ArrowUp' ? -step : e.key === 'ArrowDown' ? step : 0n;
+        nudge(dx, dy);
+      } else return;
+      e.preventDefault();
     };
-    window.addEventListener('mouseup', handleWindowMouseUp);
-    return () => window.removeEventListener('mouseup', handleWindowMouseUp);
-  }, []);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  });
 
-  const handleMouseDown = (e: React.MouseEvent) => {
-    draggingRef.current = true;
-    setDragging(true);
-    dragStart.current = { x: e.clientX, y: e.clientY };
-    dragAnchor.current = anchorRef.current;
+  const pointerAt = (e: React.PointerEvent) => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return rect ? { x: e.clientX - rect.left, y: e.clientY - rect.top } : null;
   };
 
-  const handleMouseMove = (e: React.MouseEvent) => {
-    if (!draggingRef.current) return;
-    const next: Anchor = {
-      cell: dragAnchor.current.cell,
-      pixel: {
-        x: dragAnchor.current.pixel.x + (e.clientX - dragStart.current.x),
-        y: dragAnchor.current.pixel.y + (e.clientY - dragStart.current.y),
-      },
-    };
-    anchorRef.current = next;
-    setAnchor(next);
+  const cellAt = (p: { x: number; y: number }) => cellAtPixel(anchorRef.current, cellSizeRef.current, p.x, p.y);
+
+  const clearLongPress = () => {
+    if (longPressRef.current === null) return;
+    window.clearTimeout(longPressRef.current);
+    longPressRef.current = null;
   };
 
-  const handleMouseUp = (e: React.MouseEvent) => {
-    if (draggingRef.current) {
-      const dx = Math.abs(e.clientX - dragStart.current.x);
-      const dy = Math.abs(e.clientY - dragStart.current.y);
-      if (dx < 3 && dy < 3) {
-        // Treat as a click — convert screen pixel to BigInt grid coordinate.
-        const rect = canvasRef.current?.getBoundingClientRect();
-        if (rect) {
-          const cur = anchorRef.current;
-          const screenX = e.clientX - rect.left;
-          const screenY = e.clientY - rect.top;
-          const cellOffX = Math.floor((screenX - cur.pixel.x) / CELL_SIZE);
-          const cellOffY = Math.floor((screenY - cur.pixel.y) / CELL_SIZE);
-          onToggleCell(cur.cell.x + BigInt(cellOffX), cur.cell.y + BigInt(cellOffY));
-        }
+  // Normalize the anchor when a pan or pinch ends so the pixel offset stays bounded.
+  const endPan = () => {
+    const normalized = normalizeAnchor(anchorRef.current, cellSizeRef.current);
+    anchorRef.current = normalized;
+    setAnchor(normalized);
+    setDragging(false);
+  };
+
+  const addToStroke = (cellsHit: { x: bigint; y: bigint }[]) => {
+    const before = strokeRef.current.size;
+    for (const { x, y } of cellsHit) strokeRef.current.set(`${x},${y}`, [x, y]);
+    return strokeRef.current.size > before;
+  };
+
+  const endStroke = () => {
+    strokeRef.current = new Map();
+    setStroke(null);
+  };
+
+  /** A click, tap or pen tap on `cell`: place the paste or stamp, drop the selection, or toggle the cell. */
+  const tapAt = (cell: { x: bigint; y: bigint }) => {
+    if (paste && stamping) {
+      // Stamps stay armed so the same pattern can be placed again.
+      const clip = paste;
+      onEditCells(`stamp ${stamp?.name ?? 'pattern'}`, (board) => pasteClip(board, clip, cell.x, cell.y));
+    } else if (paste) {
+      // Commit the ghost; the pasted area becomes the selection so it can be nudged.
+      const clip = paste;
+      if (onEditCells('paste', (board) => pasteClip(board, clip, cell.x, cell.y))) {
+        setSelection(clipRect(clip, cell.x, cell.y));
+        setPaste(null);
+      }
+    } else if (selection) {
+      setSelection(null);
+    } else if (cellSizeRef.current >= 1) {
+      // In the density view a pixel covers many cells, so clicks do not toggle.
+      onToggleCell(cell.x, cell.y);
+    }
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    const p = pointerAt(e);
+    if (!p) return;
+    const gesture = gestureRef.current;
+    // A hand resting on the screen while a pen draws is ignored.
+    if (gesture?.kind === 'draw' && e.pointerType === 'touch') return;
+    // Capture, so the gesture ends properly even when the pointer leaves the canvas.
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const pointers = pointersRef.current;
+    pointers.set(e.pointerId, p);
+
+    if (pointers.size === 2) {
+      // A second pointer turns whatever was happening into a pinch; a half-drawn stroke is dropped.
+      clearLongPress();
+      endStroke();
+      const [a, b] = [...pointers.values()];
+      gestureRef.current = {
+        kind: 'pinch',
+        start: {
+          anchor: anchorRef.current,
+          cellSize: cellSizeRef.current,
+          distance: Math.hypot(a.x - b.x, a.y - b.y),
+          midX: (a.x + b.x) / 2,
+          midY: (a.y + b.y) / 2,
+        },
+      };
+      setDragging(true);
+      return;
+    }
+    if (pointers.size > 2 || gesture) return;
+
+    const cell = cellAt(p);
+    // Touch and pen have no hover, so the paste ghost jumps to where they land.
+    if (paste) setHover(cell);
+    if (e.pointerType === 'mouse' && e.shiftKey && !paste) {
+      // Shift + drag draws a selection instead of panning.
+      gestureRef.current = { kind: 'select', pointerId: e.pointerId, start: cell };
+      setSelection(rectFromCorners(cell, cell));
+    } else if (e.pointerType === 'pen' && !paste && cellSizeRef.current >= 1) {
+      const erase = e.button === ERASER_BUTTON;
+      gestureRef.current = { kind: 'draw', pointerId: e.pointerId, erase, last: p, moved: false };
+      strokeRef.current = new Map([[`${cell.x},${cell.y}`, [cell.x, cell.y]]]);
+      setStroke({ cells: [...strokeRef.current.values()], erase });
+    } else {
+      gestureRef.current = {
+        kind: 'press',
+        pointerId: e.pointerId,
+        pointerType: e.pointerType,
+        start: p,
+        anchor: anchorRef.current,
+      };
+      if (e.pointerType === 'touch' && !paste) {
+        const pointerId = e.pointerId;
+        longPressRef.current = window.setTimeout(() => {
+          longPressRef.current = null;
+          const current = gestureRef.current;
+          if (current?.kind !== 'press' || current.pointerId !== pointerId) return;
+          gestureRef.current = { kind: 'select', pointerId, start: cell };
+          setSelection(rectFromCorners(cell, cell));
+        }, LONG_PRESS_MS);
+      }
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const p = pointerAt(e);
+    if (!p) return;
+    const pointers = pointersRef.current;
+    if (pointers.has(e.pointerId)) pointers.set(e.pointerId, p);
+    const gesture = gestureRef.current;
+
+    if (paste && gesture?.kind !== 'pinch' && gesture?.kind !== 'done') {
+      const cell = cellAt(p);
+      if (!hover || cell.x !== hover.x || cell.y !== hover.y) setHover(cell);
+    }
+    if (!gesture || gesture.kind === 'done') return;
+
+    if (gesture.kind === 'pinch') {
+      if (pointers.size < 2) return;
+      const [a, b] = [...pointers.values()];
+      const next = pinchView(gesture.start, Math.hypot(a.x - b.x, a.y - b.y), (a.x + b.x) / 2, (a.y + b.y) / 2);
+      setView(next.anchor, next.cellSize);
+      return;
+    }
+    if (gesture.pointerId !== e.pointerId) return;
+
+    if (gesture.kind === 'select') {
+      setSelection(rectFromCorners(gesture.start, cellAt(p)));
+    } else if (gesture.kind === 'draw') {
+      const hit = cellsAlongLine(anchorRef.current, cellSizeRef.current, gesture.last.x, gesture.last.y, p.x, p.y);
+      gesture.last = p;
+      if (addToStroke(hit)) {
+        gesture.moved = true;
+        setStroke({ cells: [...strokeRef.current.values()], erase: gesture.erase });
+      }
+    } else {
+      const dx = p.x - gesture.start.x;
+      const dy = p.y - gesture.start.y;
+      if (gesture.kind === 'press') {
+        if (Math.hypot(dx, dy) < (TAP_SLOP[gesture.pointerType] ?? TAP_SLOP.mouse)) return;
+        clearLongPress();
+        gesture.kind = 'pan';
+        setDragging(true);
       }
-      // Normalize anchor at drag end so pixel stays bounded.
-      const normalized = normalizeAnchor(anchorRef.current);
-      anchorRef.current = normalized;
-      setAnchor(normalized);
-      draggingRef.current = false;
-      setDragging(false);
+      const next: Anchor = {
+        cell: gesture.anchor.cell,
+        pixel: { x: gesture.anchor.pixel.x + dx, y: gesture.anchor.pixel.y + dy },
+      };
+      anchorRef.current = next;
+      setAnchor(next);
+    }
+  };
+
+  /** Pointer lifted (`commit`) or cancelled by the browser, which drops a stroke or tap in progress. */
+  const handlePointerEnd = (e: React.PointerEvent<HTMLCanvasElement>, commit: boolean) => {
+    const pointers = pointersRef.current;
+    if (!pointers.delete(e.pointerId)) return;
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+
+    if (gesture.kind === 'pinch' || gesture.kind === 'done') {
+      if (gesture.kind === 'pinch') endPan();
+      // The fingers left behind do nothing until they are lifted too.
+      gestureRef.current = pointers.size > 0 ? { kind: 'done' } : null;
+      return;
+    }
+    if (gesture.pointerId !== e.pointerId) return;
+    clearLongPress();
+    gestureRef.current = null;
+
+    if (gesture.kind === 'pan') {
+      endPan();
+    } else if (gesture.kind === 'press' && commit) {
+      tapAt(cellAt(gesture.start));
+    } else if (gesture.kind === 'draw') {
+      const drawn = [...strokeRef.current.values()];
+      endStroke();
+      if (!commit) return;
+      // A pen tap that stayed on one cell acts like a click.
+      if (!gesture.moved) tapAt({ x: drawn[0][0], y: drawn[0][1] });
+      else onEditCells(gesture.erase ? 'erase' : 'draw', (board) => paintCells(board, drawn, gesture.erase));
     }
   };
 
@@ -324,20 +925,84 @@ export function Grid({ cells, onToggleCell, centerOn }: GridProps) {
     <div style={{ flex: 1, position: 'relative', overflow: 'hidden' }}>
       <canvas
         ref={canvasRef}
-        style={{ cursor: dragging ? 'grabbing' : 'crosshair', display: 'block' }}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
+        style={{
+          cursor: dragging ? 'grabbing' : cellSize >= 1 ? 'crosshair' : 'grab',
+          display: 'block',
+          touchAction: 'none',
+        }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={(e) => handlePointerEnd(e, true)}
+        onPointerCancel={(e) => handlePointerEnd(e, false)}
+      />
+      <SelectionToolbar
+        hasSelection={selection !== null}
+        hasClipboard={clipboard !== null}
+        pasting={paste !== null}
+        stampName={stamping ? stamp?.name : undefined}
+        onCopy={copySelection}
+        onCut={cutSelection}
+        onPaste={startPaste}
+        onRotate={rotate}
+        onFlip={flip}
+        onClear={clearRegion}
+        onFill={fillRegion}
+        onCancel={cancelRegion}
+      />
+      <Minimap
+        clusters={clusters}
+        view={visible}
+        onNavigate={(x, y) => centerCell(x, y, cellSizeRef.current)}
       />
       {cells.length === 0 && (
         <div style={emptyGridOverlayStyle} aria-live="polite">
           No cells alive — click to add cells or load a file
         </div>
       )}
+      <div style={zoomStyles.bar}>
+        <button style={zoomStyles.btn} onClick={() => zoomAtCenter(1 / ZOOM_BUTTON_FACTOR)} title={zoomTitle('Zoom out', 'zoomOut')}>
+          −
+        </button>
+        <button
+          style={{ ...zoomStyles.btn, ...zoomStyles.level }}
+          onClick={() => zoomAtCenter(DEFAULT_CELL_SIZE / cellSizeRef.current)}
+          title="Reset zoom to 1:1"
+        >
+          {formatZoom(cellSize)}
+        </button>
+        <button style={zoomStyles.btn} onClick={() => zoomAtCenter(ZOOM_BUTTON_FACTOR)} title={zoomTitle('Zoom in', 'zoomIn')}>
+          +
+        </button>
+      </div>
     </div>
   );
 }
 
+const zoomStyles: Record<string, React.CSSProperties> = {
+  bar: {
+    position: 'absolute',
+    right: 12,
+    bottom: 12,
+    display: 'flex',
+    gap: '4px',
+  },
+  btn: {
+    padding: '5px 10px',
+    background: 'rgba(26, 21, 16, 0.9)',
+    color: '#c8b896',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    cursor: 'pointer',
+    fontSize: '12px',
+    fontWeight: 600,
+  },
+  level: {
+    minWidth: '110px',
+    fontSize: '11px',
+    letterSpacing: '0.5px',
+  },
+};
+
 const emptyGridOverlayStyle: React.CSSProperties = {
   position: 'absolute',
   inset: 0,
@@ -0,0 +1,153 @@
+import { useEffect, useRef, useState } from 'react';
+import { LONG_MAX, LONG_MIN } from '../services/patternFormats';
+import { MINIMAP_SCALE_MARKS, fromMinimap, toMinimap } from '../services/minimap';
+import type { Rect } from '../services/selection';
+
+interface MinimapProps {
+  /** Bounding boxes of the clusters on the board. */
+  clusters: Rect[];
+  /** The cells the Grid currently shows, clamped to the 64-bit range. */
+  view: Rect | null;
+  /** Called with the cell to center the Grid on while the minimap is clicked or dragged. */
+  onNavigate: (x: bigint, y: bigint) => void;
+}
+
+const SIZE = 160;
+const BG_COLOR = 'rgba(10, 18, 32, 0.92)';
+const MARK_COLOR = 'rgba(37, 61, 88, 0.6)';
+const AXIS_COLOR = '#2a4a6a';
+const BOUNDARY_COLOR = '#c8372d';
+const CLUSTER_COLOR = '#e8d48a';
+const VIEW_COLOR = '#d4edff';
+// Smallest box drawn for a cluster or the viewport, in pixels, so both stay visible.
+const MIN_BOX = 3;
+
+const toPixel = (v: bigint) => ((toMinimap(v) + 1) / 2) * SIZE;
+
+function drawBox(ctx: CanvasRenderingContext2D, rect: Rect, fill: boolean): void {
+  let left = toPixel(rect.minX);
+  let top = toPixel(rect.minY);
+  let width = toPixel(rect.maxX) - left;
+  let height = toPixel(rect.maxY) - top;
+  if (width < MIN_BOX) { left -= (MIN_BOX - width) / 2; width = MIN_BOX; }
+  if (height < MIN_BOX) { top -= (MIN_BOX - height) / 2; height = MIN_BOX; }
+  if (fill) ctx.fillRect(left, top, width, height);
+  else ctx.strokeRect(left + 0.5, top + 0.5, width - 1, height - 1);
+}
+
+/**
+ * The whole 64-bit plane on a log scale (see services/minimap.ts): the red
+ * square is the 64-bit boundary, the faint squares mark 10^3, 10^6 … 10^18
+ * cells from the origin, gold boxes are clusters and the white box is the
+ * viewport. Clicking or dragging moves the viewport there at the same zoom.
+ */
+export function Minimap({ clusters, view, onNavigate }: MinimapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [open, setOpen] = useState(true);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = BG_COLOR;
+    ctx.fillRect(0, 0, SIZE, SIZE);
+
+    ctx.strokeStyle = MARK_COLOR;
+    ctx.lineWidth = 1;
+    for (const mark of MINIMAP_SCALE_MARKS) {
+      const near = toPixel(-mark);
+      ctx.strokeRect(near + 0.5, near + 0.5, toPixel(mark) - near, toPixel(mark) - near);
+    }
+    ctx.strokeStyle = AXIS_COLOR;
+    ctx.beginPath();
+    ctx.moveTo(SIZE / 2 + 0.5, 0); ctx.lineTo(SIZE / 2 + 0.5, SIZE);
+    ctx.moveTo(0, SIZE / 2 + 0.5); ctx.lineTo(SIZE, SIZE / 2 + 0.5);
+    ctx.stroke();
+
+    ctx.strokeStyle = BOUNDARY_COLOR;
+    drawBox(ctx, { minX: LONG_MIN, minY: LONG_MIN, maxX: LONG_MAX, maxY: LONG_MAX }, false);
+
+    ctx.fillStyle = CLUSTER_COLOR;
+    for (const c of clusters) drawBox(ctx, c, true);
+
+    if (view) {
+      ctx.strokeStyle = VIEW_COLOR;
+      drawBox(ctx, view, false);
+    }
+  }, [clusters, view, open]);
+
+  const navigate = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const u = ((e.clientX - rect.left) / rect.width) * 2 - 1;
+    const v = ((e.clientY - rect.top) / rect.height) * 2 - 1;
+    onNavigate(fromMinimap(u), fromMinimap(v));
+  };
+
+  if (!open) {
+    return (
+      <button style={styles.toggle} onClick={() => setOpen(true)} title="Show the map of the whole 64-bit plane">
+        Map
+      </button>
+    );
+  }
+
+  return (
+    <div style={styles.panel}>
+      <canvas
+        ref={canvasRef}
+        width={SIZE}
+        height={SIZE}
+        style={styles.canvas}
+        title="Whole 64-bit plane, log scale — click or drag to move the view"
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId);
+          navigate(e);
+        }}
+        onPointerMove={(e) => {
+          if (e.currentTarget.hasPointerCapture(e.pointerId)) navigate(e);
+        }}
+      />
+      <button style={styles.close} onClick={() => setOpen(false)} title="Hide the map">✕</button>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    position: 'absolute',
+    left: 12,
+    bottom: 12,
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    boxShadow: '0 4px 16px rgba(0,0,0,0.6)',
+  },
+  canvas: {
+    display: 'block',
+    cursor: 'crosshair',
+    touchAction: 'none',
+  },
+  close: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    padding: '0 4px',
+    background: 'none',
+    border: 'none',
+    color: '#b09a6a',
+    cursor: 'pointer',
+    fontSize: '11px',
+  },
+  toggle: {
+    position: 'absolute',
+    left: 12,
+    bottom: 12,
+    padding: '5px 10px',
+    background: 'rgba(26, 21, 16, 0.9)',
+    color: '#c8b896',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    cursor: 'pointer',
+    fontSize: '11px',
+    fontWeight: 600,
+    letterSpacing: '0.5px',
+  },
+};
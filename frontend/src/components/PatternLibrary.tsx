@@ -0,0 +1,215 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  PATTERN_CATEGORIES,
+  patternClip,
+  searchPatterns,
+  type LibraryPattern,
+  type PatternCategory,
+} from '../services/patternLibrary';
+
+interface PatternLibraryProps {
+  /** Id of the pattern currently being stamped, if any. */
+  selectedId: string | null;
+  onSelect: (pattern: LibraryPattern) => void;
+  onClose: () => void;
+}
+
+const THUMBNAIL_SIZE = 44;
+const THUMBNAIL_BG = '#0a1220';
+const THUMBNAIL_CELL = '#d4edff';
+
+/** The pattern scaled to fit a small square canvas. */
+export function PatternThumbnail({ pattern }: { pattern: LibraryPattern }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { cells, width, height } = patternClip(pattern);
+    const span = Number(width > height ? width : height);
+    const size = Math.max(1, Math.floor((THUMBNAIL_SIZE - 4) / span));
+    const offX = (THUMBNAIL_SIZE - Number(width) * size) / 2;
+    const offY = (THUMBNAIL_SIZE - Number(height) * size) / 2;
+    ctx.fillStyle = THUMBNAIL_BG;
+    ctx.fillRect(0, 0, THUMBNAIL_SIZE, THUMBNAIL_SIZE);
+    ctx.fillStyle = THUMBNAIL_CELL;
+    const gap = size >= 4 ? 1 : 0;
+    for (const [x, y] of cells) {
+      ctx.fillRect(offX + Number(x) * size, offY + Number(y) * size, size - gap, size - gap);
+    }
+  }, [pattern]);
+
+  return <canvas ref={canvasRef} width={THUMBNAIL_SIZE} height={THUMBNAIL_SIZE} style={styles.thumbnail} />;
+}
+
+export function PatternLibrary({ selectedId, onSelect, onClose }: PatternLibraryProps) {
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState<PatternCategory | null>(null);
+  const patterns = searchPatterns(query, category ?? undefined);
+
+  return (
+    <aside style={styles.panel}>
+      <div style={styles.header}>
+        <span style={styles.title}>Pattern Library</span>
+        <button style={styles.close} onClick={onClose} title="Close the library">✕</button>
+      </div>
+      <input
+        style={styles.search}
+        type="search"
+        placeholder="Search patterns…"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+      <div style={styles.categories}>
+        <button
+          style={{ ...styles.chip, ...(category === null ? styles.chipActive : {}) }}
+          onClick={() => setCategory(null)}
+        >
+          All
+        </button>
+        {PATTERN_CATEGORIES.map((c) => (
+          <button
+            key={c}
+            style={{ ...styles.chip, ...(category === c ? styles.chipActive : {}) }}
+            onClick={() => setCategory(c)}
+          >
+            {c}
+          </button>
+        ))}
+      </div>
+      <ul style={styles.list}>
+        {patterns.length === 0 && <li style={styles.empty}>No patterns match.</li>}
+        {patterns.map((p) => (
+          <li key={p.id}>
+            <button
+              style={{ ...styles.item, ...(p.id === selectedId ? styles.itemActive : {}) }}
+              onClick={() => onSelect(p)}
+              title={`Stamp ${p.name} on the grid`}
+            >
+              <PatternThumbnail pattern={p} />
+              <span style={styles.itemText}>
+                <span style={styles.itemName}>{p.name}</span>
+                <span style={styles.itemDescription}>{p.description}</span>
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div style={styles.footer}>Click a pattern, then click the grid to place it. R / H / V rotate and flip.</div>
+    </aside>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    width: '260px',
+    display: 'flex',
+    flexDirection: 'column',
+    background: '#0d0b08',
+    borderLeft: '1px solid #2a2218',
+    minHeight: 0,
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '8px 12px',
+    borderBottom: '1px solid #2a2218',
+  },
+  title: {
+    color: '#b09a6a',
+    fontSize: '11px',
+    letterSpacing: '1px',
+    textTransform: 'uppercase' as const,
+  },
+  close: {
+    background: 'none',
+    border: 'none',
+    color: '#b09a6a',
+    cursor: 'pointer',
+    fontSize: '12px',
+  },
+  search: {
+    margin: '8px 12px',
+    padding: '5px 8px',
+    background: '#120f0a',
+    color: '#c8b896',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    fontSize: '12px',
+  },
+  categories: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: '4px',
+    padding: '0 12px 8px',
+    borderBottom: '1px solid #2a2218',
+  },
+  chip: {
+    padding: '3px 8px',
+    background: '#1a1510',
+    color: '#c8b896',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    cursor: 'pointer',
+    fontSize: '10px',
+    fontWeight: 600,
+  },
+  chipActive: {
+    borderColor: '#c4a25b',
+    color: '#c4a25b',
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: '6px',
+    overflowY: 'auto',
+    flex: 1,
+  },
+  empty: {
+    color: '#b09a6a',
+    fontSize: '12px',
+    padding: '8px 6px',
+  },
+  item: {
+    width: '100%',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    padding: '5px 6px',
+    background: 'none',
+    border: '1px solid transparent',
+    borderRadius: '2px',
+    cursor: 'pointer',
+    textAlign: 'left',
+  },
+  itemActive: {
+    background: '#1a1510',
+    borderColor: '#c4a25b',
+  },
+  thumbnail: {
+    flexShrink: 0,
+    border: '1px solid #2a2218',
+  },
+  itemText: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '2px',
+  },
+  itemName: {
+    color: '#c8b896',
+    fontSize: '12px',
+    fontWeight: 600,
+  },
+  itemDescription: {
+    color: '#b09a6a',
+    fontSize: '10px',
+  },
+  footer: {
+    padding: '8px 12px',
+    borderTop: '1px solid #2a2218',
+    color: 'rgba(196, 162, 91, 0.6)',
+    fontSize: '10px',
+    lineHeight: 1.4,
+  },
+};
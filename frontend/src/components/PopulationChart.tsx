@@ -0,0 +1,269 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { populationToCsv, populationToJson, type PopulationSample } from '../services/population';
+import { downloadText } from '../services/download';
+
+interface PopulationChartProps {
+  samples: PopulationSample[];
+  /** The generation on screen; marked on the chart when it is in view (e.g. after a rewind). */
+  generation: bigint;
+  onClose: () => void;
+}
+
+const CHART_HEIGHT = 140;
+const PAD = { left: 48, right: 12, top: 10, bottom: 18 };
+const LINE_COLOR = '#c4a25b';
+const GAP_FILL = 'rgba(200, 55, 45, 0.10)';
+const AXIS_COLOR = '#2a2218';
+const LABEL_COLOR = '#b09a6a';
+const MARKER_COLOR = 'rgba(212, 237, 255, 0.5)';
+// Fewest generations the zoom narrows to.
+const MIN_SPAN = 10;
+
+/**
+ * Visible generation window, in generations after the first sample. `end` null
+ * keeps the window pinned to the newest sample so the chart follows playback.
+ */
+interface ChartView {
+  span: number | null;
+  end: number | null;
+}
+
+function visibleRange(view: ChartView, total: number): { from: number; to: number } {
+  const span = Math.min(view.span ?? total, total);
+  const to = view.end === null ? total : Math.min(view.end, total);
+  return { from: Math.max(0, to - span), to: Math.max(to, Math.max(0, to - span) + 1) };
+}
+
+export function PopulationChart({ samples, generation, onClose }: PopulationChartProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [view, setView] = useState<ChartView>({ span: null, end: null });
+  const [hover, setHover] = useState<PopulationSample | null>(null);
+
+  const first = samples[0]?.generation ?? 0n;
+  const total = samples.length > 0 ? Number(samples[samples.length - 1].generation - first) : 0;
+  const { from, to } = visibleRange(view, total);
+
+  const toX = useCallback((g: bigint, width: number) => {
+    const plotW = width - PAD.left - PAD.right;
+    return PAD.left + ((Number(g - first) - from) / (to - from)) * plotW;
+  }, [first, from, to]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = canvas.parentElement?.clientWidth ?? 600;
+    canvas.height = CHART_HEIGHT;
+    const { width, height } = canvas;
+    const plotH = height - PAD.top - PAD.bottom;
+    ctx.clearRect(0, 0, width, height);
+
+    let maxPop = 1;
+    for (const s of samples) {
+      const off = Number(s.generation - first);
+      if (off >= from && off <= to && s.population > maxPop) maxPop = s.population;
+    }
+    const toY = (p: number) => PAD.top + plotH - (p / maxPop) * plotH;
+
+    ctx.strokeStyle = AXIS_COLOR;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(PAD.left, PAD.top, width - PAD.left - PAD.right, plotH);
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(PAD.left, PAD.top, width - PAD.left - PAD.right, plotH);
+    ctx.clip();
+
+    // Jumps are shaded and the line is broken across them: those generations were never seen.
+    ctx.fillStyle = GAP_FILL;
+    for (let i = 1; i < samples.length; i++) {
+      if (!samples[i].gap) continue;
+      const x0 = toX(samples[i - 1].generation, width);
+      ctx.fillRect(x0, PAD.top, toX(samples[i].generation, width) - x0, plotH);
+    }
+
+    ctx.strokeStyle = LINE_COLOR;
+    ctx.fillStyle = LINE_COLOR;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    for (let i = 0; i < samples.length; i++) {
+      const s = samples[i];
+      const x = toX(s.generation, width);
+      const y = toY(s.population);
+      if (i === 0 || s.gap) ctx.moveTo(x, y);
+      else ctx.lineTo(x, y);
+      // A lone sample between gaps still shows as a dot.
+      if (s.gap && (i === samples.length - 1 || samples[i + 1].gap)) ctx.fillRect(x - 1, y - 1, 3, 3);
+    }
+    ctx.stroke();
+
+    const markerX = toX(generation, width);
+    ctx.strokeStyle = MARKER_COLOR;
+    ctx.setLineDash([3, 3]);
+    ctx.beginPath(); ctx.moveTo(markerX, PAD.top); ctx.lineTo(markerX, PAD.top + plotH); ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.restore();
+
+    ctx.fillStyle = LABEL_COLOR;
+    ctx.font = '10px sans-serif';
+    ctx.textAlign = 'right';
+    ctx.fillText(String(maxPop), PAD.left - 4, PAD.top + 8);
+    ctx.fillText('0', PAD.left - 4, PAD.top + plotH);
+    ctx.textAlign = 'left';
+    ctx.fillText((first + BigInt(Math.round(from))).toString(), PAD.left, height - 4);
+    ctx.textAlign = 'right';
+    ctx.fillText((first + BigInt(Math.round(to))).toString(), width - PAD.right, height - 4);
+  }, [samples, generation, first, from, to, toX]);
+
+  // Wheel zooms the generation axis around the cursor; passive:false so the page does not scroll.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handler = (e: WheelEvent) => {
+      e.preventDefault();
+      if (total <= MIN_SPAN) return;
+      const rect = canvas.getBoundingClientRect();
+      const plotW = canvas.width - PAD.left - PAD.right;
+      const f = Math.min(1, Math.max(0, (e.clientX - rect.left - PAD.left) / plotW));
+      const center = from + f * (to - from);
+      const span = Math.min(total, Math.max(MIN_SPAN, (to - from) * Math.exp(e.deltaY * 0.002)));
+      const start = Math.max(0, Math.min(total - span, center - f * span));
+      const end = start + span;
+      setView({ span: span >= total ? null : span, end: end >= total ? null : end });
+    };
+    canvas.addEventListener('wheel', handler, { passive: false });
+    return () => canvas.removeEventListener('wheel', handler);
+  }, [from, to, total]);
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || samples.length === 0) return;
+    const rect = canvas.getBoundingClientRect();
+    const plotW = canvas.width - PAD.left - PAD.right;
+    const target = from + ((e.clientX - rect.left - PAD.left) / plotW) * (to - from);
+    // Nearest sample by generation: binary search over the sorted series.
+    let lo = 0;
+    let hi = samples.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (Number(samples[mid].generation - first) < target) lo = mid + 1;
+      else hi = mid;
+    }
+    const prev = samples[Math.max(0, lo - 1)];
+    const next = samples[lo];
+    const nearest = Math.abs(Number(prev.generation - first) - target) < Math.abs(Number(next.generation - first) - target)
+      ? prev
+      : next;
+    if (nearest !== hover) setHover(nearest);
+  };
+
+  const exportSeries = (format: 'csv' | 'json') => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    if (format === 'csv') downloadText(populationToCsv(samples), `population_${stamp}.csv`, 'text/csv');
+    else downloadText(populationToJson(samples), `population_${stamp}.json`, 'application/json');
+  };
+
+  const shown = hover ?? samples.at(-1);
+
+  return (
+    <div style={styles.container}>
+      <div style={styles.header}>
+        <span style={styles.label}>Population</span>
+        {shown && (
+          <span style={styles.readout}>
+            Gen <strong style={styles.value}>{shown.generation.toString()}</strong>
+            {' · '}Cells <strong style={styles.value}>{shown.population}</strong>
+            {shown.births !== null && shown.deaths !== null
+              ? <> · Born <strong style={styles.value}>{shown.births}</strong> · Died <strong style={styles.value}>{shown.deaths}</strong></>
+              : shown.gap && <> · after a jump</>}
+          </span>
+        )}
+        <span style={styles.spacer} />
+        <button
+          style={styles.btn}
+          onClick={() => setView({ span: null, end: null })}
+          disabled={view.span === null && view.end === null}
+          title="Show every recorded generation (scroll over the chart to zoom)"
+        >
+          All
+        </button>
+        <button
+          style={styles.btn}
+          onClick={() => exportSeries('csv')}
+          disabled={samples.length === 0}
+        >
+          CSV
+        </button>
+        <button
+          style={styles.btn}
+          onClick={() => exportSeries('json')}
+          disabled={samples.length === 0}
+        >
+          JSON
+        </button>
+        <button style={styles.close} onClick={onClose} title="Hide the chart">✕</button>
+      </div>
+      <div style={styles.plot}>
+        <canvas
+          ref={canvasRef}
+          style={{ display: 'block' }}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHover(null)}
+        />
+      </div>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    padding: '6px 20px 8px',
+    background: '#0d0b08',
+    borderBottom: '1px solid #2a2218',
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+    marginBottom: '4px',
+  },
+  label: {
+    color: '#b09a6a',
+    fontSize: '11px',
+    letterSpacing: '0.5px',
+    textTransform: 'uppercase' as const,
+  },
+  readout: {
+    color: '#b09a6a',
+    fontSize: '11px',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  value: {
+    color: '#c4a25b',
+  },
+  spacer: {
+    flex: 1,
+  },
+  plot: {
+    height: `${CHART_HEIGHT}px`,
+  },
+  btn: {
+    padding: '3px 10px',
+    background: '#1a1510',
+    color: '#c8b896',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    cursor: 'pointer',
+    fontSize: '10px',
+    fontWeight: 600,
+    letterSpacing: '1px',
+    textTransform: 'uppercase' as const,
+  },
+  close: {
+    background: 'none',
+    border: 'none',
+    color: '#b09a6a',
+    cursor: 'pointer',
+    fontSize: '12px',
+  },
+};
@@ -0,0 +1,113 @@
+interface SelectionToolbarProps {
+  hasSelection: boolean;
+  hasClipboard: boolean;
+  pasting: boolean;
+  /** Name of the library pattern being stamped, if the paste ghost is a stamp. */
+  stampName?: string;
+  onCopy: () => void;
+  onCut: () => void;
+  onPaste: () => void;
+  onRotate: () => void;
+  onFlip: (axis: 'horizontal' | 'vertical') => void;
+  onClear: (where: 'inside' | 'outside') => void;
+  onFill: (where: 'inside' | 'outside') => void;
+  onCancel: () => void;
+}
+
+/** Region-editing buttons shown over the Grid while a selection, clipboard or paste is active. */
+export function SelectionToolbar({
+  hasSelection,
+  hasClipboard,
+  pasting,
+  stampName,
+  onCopy,
+  onCut,
+  onPaste,
+  onRotate,
+  onFlip,
+  onClear,
+  onFill,
+  onCancel,
+}: SelectionToolbarProps) {
+  if (!hasSelection && !hasClipboard && !pasting) {
+    return <div style={styles.hint}>Shift + drag to select</div>;
+  }
+  const canTransform = hasSelection || pasting;
+
+  return (
+    <div style={styles.bar}>
+      {pasting && (
+        <span style={styles.status}>
+          {stampName ? `Stamping ${stampName} · click to place · Esc to stop` : 'Click to paste · Esc to cancel'}
+        </span>
+      )}
+      <button style={styles.btn} onClick={onCopy} disabled={!hasSelection} title="Copy (Ctrl+C)">Copy</button>
+      <button style={styles.btn} onClick={onCut} disabled={!hasSelection} title="Cut (Ctrl+X)">Cut</button>
+      <button style={styles.btn} onClick={onPaste} disabled={!hasClipboard} title="Paste at cursor (Ctrl+V)">Paste</button>
+      <span style={styles.divider} />
+      <button style={styles.btn} onClick={onRotate} disabled={!canTransform} title="Rotate 90° clockwise (R)">⟳ 90°</button>
+      <button style={styles.btn} onClick={() => onFlip('horizontal')} disabled={!canTransform} title="Flip horizontally (H)">⇆</button>
+      <button style={styles.btn} onClick={() => onFlip('vertical')} disabled={!canTransform} title="Flip vertically (V)">⇅</button>
+      <span style={styles.divider} />
+      <button style={styles.btn} onClick={() => onClear('inside')} disabled={!hasSelection} title="Clear inside (Delete)">Clear</button>
+      <button style={styles.btn} onClick={() => onClear('outside')} disabled={!hasSelection} title="Clear everything outside the selection">Clear out</button>
+      <button style={styles.btn} onClick={() => onFill('inside')} disabled={!hasSelection} title="Fill inside">Fill</button>
+      <button
+        style={styles.btn}
+        onClick={() => onFill('outside')}
+        disabled={!hasSelection}
+        title="Fill the pattern's bounding box outside the selection"
+      >
+        Fill out
+      </button>
+      <span style={styles.divider} />
+      <button style={styles.btn} onClick={onCancel} title="Deselect / cancel paste (Esc)">✕</button>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  bar: {
+    position: 'absolute',
+    top: 10,
+    left: 10,
+    display: 'flex',
+    alignItems: 'center',
+    gap: '4px',
+    padding: '4px 6px',
+    background: 'rgba(13, 11, 8, 0.92)',
+    border: '1px solid #2a2218',
+    borderRadius: '2px',
+  },
+  hint: {
+    position: 'absolute',
+    top: 10,
+    left: 12,
+    color: 'rgba(196, 162, 91, 0.5)',
+    fontSize: '10px',
+    letterSpacing: '0.5px',
+    pointerEvents: 'none',
+  },
+  status: {
+    color: '#c4a25b',
+    fontSize: '10px',
+    letterSpacing: '0.5px',
+    marginRight: '6px',
+  },
+  btn: {
+    padding: '4px 8px',
+    background: '#1a1510',
+    color: '#c8b896',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    cursor: 'pointer',
+    fontSize: '11px',
+    fontWeight: 600,
+  },
+  divider: {
+    width: '1px',
+    height: '16px',
+    background: '#2a2218',
+    margin: '0 2px',
+  },
+};
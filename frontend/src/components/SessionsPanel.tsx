@@ -0,0 +1,249 @@
+import { useState } from 'react';
+import type { SessionInfo } from '../services/sessionDb';
+
+interface SessionsPanelProps {
+  sessions: SessionInfo[];
+  /** When the autosave was last written, in milliseconds since the epoch. */
+  lastAutosave: number | null;
+  error: string | null;
+  onSave: (name: string) => void;
+  onOpen: (session: SessionInfo) => void;
+  onRename: (sessionId: string, name: string) => void;
+  onDuplicate: (sessionId: string) => void;
+  onDelete: (sessionId: string) => void;
+  onClearError: () => void;
+  onClose: () => void;
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+}
+
+export function SessionsPanel({
+  sessions,
+  lastAutosave,
+  error,
+  onSave,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onClearError,
+  onClose,
+}: SessionsPanelProps) {
+  const [name, setName] = useState('');
+  // The session whose name is being edited, and the one waiting for a second click to delete.
+  const [editing, setEditing] = useState<{ sessionId: string; name: string } | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+
+  const save = () => {
+    onSave(name.trim() || `Session ${formatTime(Date.now())}`);
+    setName('');
+  };
+
+  const commitRename = () => {
+    if (editing && editing.name.trim()) onRename(editing.sessionId, editing.name.trim());
+    setEditing(null);
+  };
+
+  return (
+    <aside style={styles.panel}>
+      <div style={styles.header}>
+        <span style={styles.title}>Sessions</span>
+        <button style={styles.close} onClick={onClose} title="Close sessions">✕</button>
+      </div>
+      <div style={styles.saveRow}>
+        <input
+          style={styles.input}
+          placeholder="Name this board…"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') save(); }}
+        />
+        <button style={styles.btn} onClick={save} title="Save the board, generation, rule, universe, speed and view">Save</button>
+      </div>
+      {error && (
+        <div style={styles.error}>
+          <span>{error}</span>
+          <button style={styles.close} onClick={onClearError} title="Dismiss">✕</button>
+        </div>
+      )}
+      <ul style={styles.list}>
+        {sessions.length === 0 && <li style={styles.empty}>No saved sessions yet.</li>}
+        {sessions.map((s) => (
+          <li key={s.sessionId} style={styles.item}>
+            {editing?.sessionId === s.sessionId ? (
+              <input
+                style={styles.input}
+                autoFocus
+                value={editing.name}
+                onChange={(e) => setEditing({ sessionId: s.sessionId, name: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  else if (e.key === 'Escape') setEditing(null);
+                }}
+                onBlur={commitRename}
+              />
+            ) : (
+              <button style={styles.itemName} onClick={() => onOpen(s)} title="Open this session">
+                {s.name}
+              </button>
+            )}
+            <span style={styles.itemMeta}>
+              {s.cellCount.toLocaleString()} cells · gen {s.generation.toString()} · {s.rule} · {s.topology} · {formatTime(s.savedAt)}
+            </span>
+            <span style={styles.actions}>
+              <button style={styles.action} onClick={() => setEditing({ sessionId: s.sessionId, name: s.name })}>
+                Rename
+              </button>
+              <button style={styles.action} onClick={() => onDuplicate(s.sessionId)}>Duplicate</button>
+              {confirmDelete === s.sessionId ? (
+                <button
+                  style={{ ...styles.action, ...styles.danger }}
+                  onClick={() => { onDelete(s.sessionId); setConfirmDelete(null); }}
+                  onBlur={() => setConfirmDelete(null)}
+                >
+                  Really delete?
+                </button>
+              ) : (
+                <button style={styles.action} onClick={() => setConfirmDelete(s.sessionId)}>Delete</button>
+              )}
+            </span>
+          </li>
+        ))}
+      </ul>
+      <div style={styles.footer}>
+        {lastAutosave === null
+          ? 'The board is autosaved in this browser and restored when the page is reloaded.'
+          : `Autosaved ${formatTime(lastAutosave)}. The board comes back when the page is reloaded.`}
+      </div>
+    </aside>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    width: '260px',
+    display: 'flex',
+    flexDirection: 'column',
+    background: '#0d0b08',
+    borderLeft: '1px solid #2a2218',
+    minHeight: 0,
+  },
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '8px 12px',
+    borderBottom: '1px solid #2a2218',
+  },
+  title: {
+    color: '#b09a6a',
+    fontSize: '11px',
+    letterSpacing: '1px',
+    textTransform: 'uppercase' as const,
+  },
+  close: {
+    background: 'none',
+    border: 'none',
+    color: '#b09a6a',
+    cursor: 'pointer',
+    fontSize: '12px',
+  },
+  saveRow: {
+    display: 'flex',
+    gap: '6px',
+    padding: '8px 12px',
+    borderBottom: '1px solid #2a2218',
+  },
+  input: {
+    flex: 1,
+    minWidth: 0,
+    padding: '5px 8px',
+    background: '#120f0a',
+    color: '#c8b896',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    fontSize: '12px',
+  },
+  btn: {
+    padding: '4px 12px',
+    background: '#1a1510',
+    color: '#c8b896',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    cursor: 'pointer',
+    fontSize: '10px',
+    fontWeight: 600,
+    letterSpacing: '1px',
+    textTransform: 'uppercase' as const,
+  },
+  error: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: '6px',
+    margin: '8px 12px 0',
+    padding: '6px 8px',
+    background: 'rgba(200, 55, 45, 0.12)',
+    border: '1px solid rgba(200, 55, 45, 0.4)',
+    borderRadius: '2px',
+    color: '#e0a090',
+    fontSize: '11px',
+  },
+  list: {
+    listStyle: 'none',
+    margin: 0,
+    padding: '6px',
+    overflowY: 'auto',
+    flex: 1,
+  },
+  empty: {
+    color: '#b09a6a',
+    fontSize: '12px',
+    padding: '8px 6px',
+  },
+  item: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: '3px',
+    padding: '6px',
+    borderBottom: '1px solid #1a1510',
+  },
+  itemName: {
+    padding: 0,
+    background: 'none',
+    border: 'none',
+    color: '#c8b896',
+    cursor: 'pointer',
+    fontSize: '12px',
+    fontWeight: 600,
+    textAlign: 'left',
+  },
+  itemMeta: {
+    color: '#b09a6a',
+    fontSize: '10px',
+  },
+  actions: {
+    display: 'flex',
+    gap: '8px',
+  },
+  action: {
+    padding: 0,
+    background: 'none',
+    border: 'none',
+    color: 'rgba(196, 162, 91, 0.75)',
+    cursor: 'pointer',
+    fontSize: '10px',
+  },
+  danger: {
+    color: '#e0a090',
+  },
+  footer: {
+    padding: '8px 12px',
+    borderTop: '1px solid #2a2218',
+    color: 'rgba(196, 162, 91, 0.6)',
+    fontSize: '10px',
+    lineHeight: 1.4,
+  },
+};
@@ -0,0 +1,102 @@
+interface TimelineProps {
+  /** Retained generations, oldest first. */
+  generations: bigint[];
+  generation: bigint;
+  isPlaying: boolean;
+  onScrub: (generation: bigint) => void;
+  onResume: () => void;
+  onFork: () => void;
+}
+
+export function Timeline({ generations, generation, isPlaying, onScrub, onResume, onFork }: TimelineProps) {
+  if (generations.length < 2) return null;
+
+  const index = generations.indexOf(generation);
+  const last = generations.length - 1;
+  const atHead = index === last;
+
+  return (
+    <div style={styles.container}>
+      <span style={styles.label}>Timeline</span>
+      <span style={styles.bound}>{generations[0].toString()}</span>
+      <input
+        type="range"
+        min={0}
+        max={last}
+        step={1}
+        value={index < 0 ? last : index}
+        onChange={(e) => onScrub(generations[Number(e.target.value)])}
+        style={styles.slider}
+        title="Drag to rewind to a retained generation"
+      />
+      <span style={styles.bound}>{generations[last].toString()}</span>
+      <button
+        style={styles.btn}
+        onClick={() => onScrub(generations[last])}
+        disabled={atHead}
+        title="Jump to the newest retained generation"
+      >
+        Live
+      </button>
+      <button
+        style={{ ...styles.btn, ...styles.btnPlay }}
+        onClick={onResume}
+        disabled={isPlaying}
+        title="Play on from this generation"
+      >
+        ▶ Resume
+      </button>
+      <button
+        style={styles.btn}
+        onClick={onFork}
+        disabled={atHead || index < 0}
+        title="Discard the generations after this one and start a new run from here"
+      >
+        Fork
+      </button>
+    </div>
+  );
+}
+
+const styles: Record<string, React.CSSProperties> = {
+  container: {
+    padding: '6px 20px',
+    background: '#0d0b08',
+    borderBottom: '1px solid #2a2218',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '10px',
+  },
+  label: {
+    color: '#b09a6a',
+    fontSize: '11px',
+    letterSpacing: '0.5px',
+    textTransform: 'uppercase' as const,
+  },
+  bound: {
+    color: '#c4a25b',
+    fontSize: '11px',
+    fontVariantNumeric: 'tabular-nums',
+  },
+  slider: {
+    flex: 1,
+    accentColor: '#c4a25b',
+    cursor: 'pointer',
+  },
+  btn: {
+    padding: '4px 12px',
+    background: '#1a1510',
+    color: '#c8b896',
+    border: '1px solid #3a3020',
+    borderRadius: '2px',
+    cursor: 'pointer',
+    fontSize: '11px',
+    fontWeight: 600,
+    letterSpacing: '1px',
+    textTransform: 'uppercase' as const,
+  },
+  btnPlay: {
+    borderColor: '#5a4a20',
+    color: '#c4a25b',
+  },
+};
@@ -1,10 +1,85 @@
-import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo, useSyncExternalStore } from 'react';
 import * as api from '../services/api';
-import type { Cell } from '../services/api';
+import { isAlive, type Cell } from '../services/api';
+import { getConnectionHealth, subscribeConnectionHealth } from '../services/connectionHealth';
 import { logger } from '../services/logger';
+import {
+  LONG_MIN,
+  LONG_MAX,
+  PATTERN_FORMATS,
+  detectPatternFormat,
+  type ParsedPattern,
+  type PatternFormat,
+  type PatternMetadata,
+} from '../services/patternFormats';
+import { parseRle, serializeRle } from '../services/rle';
+import { parsePlaintext, serializePlaintext } from '../services/plaintext';
+import { parseLife105, serializeLife105 } from '../services/life105';
+import { CONWAY_RULE, normalizeRule, parseRule } from '../services/rules';
+import { PLANE_TOPOLOGY, normalizeTopology, parseTopology } from '../services/topology';
+import { cellsToMap, computeNextGeneration, countLiveCells } from '../services/localEngine';
+import { buildShareUrl, decodeShareHash, type SharedState } from '../services/shareLink';
+import { openPlaybackStream, type PlaybackStream, type StreamFrame } from '../services/playbackStream';
+import type { CenteredView } from '../services/viewport';
+import type { Snapshot } from '../services/sessionDb';
+import {
+  createHttpEngine,
+  createWorkerEngine,
+  isServerUnavailable,
+  type EngineKind,
+  type EngineStep,
+  type GameEngine,
+  type LocalEngine,
+} from '../services/engine';
+import {
+  applyEntry,
+  diffCellMaps,
+  diffDelta,
+  emptyHistory,
+  pushEntry,
+  redoEntry,
+  revertEntry,
+  undoEntry,
+  type History,
+  type HistoryEntry,
+} from '../services/history';
+import {
+  boardAt,
+  emptyTimeline,
+  recordFrame,
+  timelineGenerations,
+  truncateAfter,
+  type Timeline,
+} from '../services/timeline';
+import type { CellEdit } from '../services/selection';
+import {
+  emptyDetector,
+  observeGeneration,
+  type RepeatDetector,
+  type RepeatReport,
+} from '../services/repeatDetection';
+import { recordPopulation, type PopulationSample } from '../services/population';
 
-export const LONG_MIN = -9223372036854775808n;
-export const LONG_MAX = 9223372036854775807n;
+export { LONG_MIN, LONG_MAX };
+
+// While running on the local engine, probe the backend this often to switch back.
+const HEALTH_CHECK_INTERVAL_MS = 5000;
+
+// Formats parsed and serialized entirely in the browser. Life 1.06 keeps going
+// through the backend /parse and /export endpoints.
+type ClientFormat = Exclude<PatternFormat, 'life106'>;
+
+const CLIENT_PARSERS: Record<ClientFormat, (content: string) => ParsedPattern> = {
+  rle: parseRle,
+  plaintext: parsePlaintext,
+  life105: parseLife105,
+};
+
+const CLIENT_SERIALIZERS: Record<ClientFormat, (cells: Cell[], meta?: PatternMetadata) => string> = {
+  rle: serializeRle,
+  plaintext: serializePlaintext,
+  life105: serializeLife105,
+};
 
 // Validates a Life 1.06 file on the client before sending to the backend.
 // Returns an error message if any coordinate line has out-of-range or non-integer values,
@@ -29,43 +104,35 @@ export function validateLife106(content: string): string | null {
     : null;
 }
 
-// Runs Conway's rules locally for optimistic (client-side) prediction.
-// Used by stepForward to update the grid immediately before the API responds.
-function computeNextGeneration(cellMap: Map<string, Cell>): Map<string, Cell> {
-  const neighborCounts = new Map<string, { coord: Cell; count: number }>();
-
-  for (const [x, y] of cellMap.values()) {
-    for (let dx = -1n; dx <= 1n; dx++) {
-      for (let dy = -1n; dy <= 1n; dy++) {
-        if (dx === 0n && dy === 0n) continue;
-        const nx = x + dx, ny = y + dy;
-        const key = `${nx},${ny}`;
-        const entry = neighborCounts.get(key);
-        if (entry) entry.count++;
-        else neighborCounts.set(key, { coord: [nx, ny], count: 1 });
-      }
-    }
-  }
-
-  const next = new Map<string, Cell>();
-  for (const [key, { coord, count }] of neighborCounts) {
-    const alive = cellMap.has(key);
-    if (alive && (count === 2 || count === 3)) next.set(key, coord); // survival
-    else if (!alive && count === 3) next.set(key, coord);            // birth
-  }
-  return next;
-}
-
 export function useGameOfLife() {
   // Internal state: Map for O(1) lookup by "x,y" key.
   const [cellMap, setCellMap] = useState<Map<string, Cell>>(new Map());
-  const [generation, setGeneration] = useState(0);
+  // BigInt: HashLife jumps take the counter far beyond Number.MAX_SAFE_INTEGER.
+  const [generation, setGeneration] = useState(0n);
   const [isPlaying, setIsPlaying] = useState(false);
   const [speed, setSpeed] = useState(200);
+  // Canonical rule string (B/S, or B/S/C for Generations), sent with every tick/simulate and used by the local predictor.
+  const [rule, setRule] = useState(CONWAY_RULE);
+  const parsedRule = useMemo(() => parseRule(rule), [rule]);
+  // Canonical topology string (services/topology.ts): travels with the rule to every engine.
+  const [topology, setTopology] = useState(PLANE_TOPOLOGY);
+  const parsedTopology = useMemo(() => parseTopology(topology), [topology]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Which engine computes generations: the backend, or the in-browser worker after a failover.
+  const [engineKind, setEngineKind] = useState<EngineKind>('remote');
+  // How the API client's recent requests went: answered, retried or failed.
+  const connectionHealth = useSyncExternalStore(subscribeConnectionHealth, getConnectionHealth);
 
   const intervalRef = useRef<number | null>(null); // timer ID for auto-play
+  // Streamed auto-play (see services/playbackStream.ts): the open stream, the board
+  // its next frame applies to, its rule and topology, and whether it is meant to be playing.
+  const streamRef = useRef<{ stream: PlaybackStream; board: Map<string, Cell>; rule: string; topology: string; playing: boolean } | null>(null);
+  // Whether auto-play streams generations from the server instead of requesting each one.
+  const [streamPlayback, setStreamPlayback] = useState(false);
+  // Set when a stream fails; auto-play goes back to one request per step until
+  // the user turns streaming on again or the backend comes back from a failover.
+  const [streamFailed, setStreamFailed] = useState(false);
   // Sync ref guards against concurrent API calls without needing to recreate the interval.
   const loadingRef = useRef(false);
   // Ref to the latest stepForward so the interval never holds a stale closure.
@@ -73,56 +140,241 @@ export function useGameOfLife() {
   // Monotonically increasing ID. Incremented on reset/load to invalidate any
   // in-flight API call, preventing stale results from overwriting fresh state.
   const requestIdRef = useRef(0);
+  // Aborts the in-flight API call itself on reset/load, so it stops using the
+  // network and the server instead of running on unseen.
+  const abortRef = useRef<AbortController | null>(null);
+  // Ref mirrors engineKind so a failover mid-tick is seen by the very next call.
+  const engineKindRef = useRef<EngineKind>('remote');
+  // The backend engine holds a server session for the board; created on first use.
+  const remoteEngineRef = useRef<GameEngine | null>(null);
+  // The worker engine is created on first failover and kept for the hook's lifetime.
+  const localEngineRef = useRef<LocalEngine | null>(null);
+  // Undo/redo stacks live in a ref; only what the buttons show is mirrored in state.
+  const historyRef = useRef<History>(emptyHistory());
+  const [undoLabel, setUndoLabel] = useState<string | null>(null);
+  const [redoLabel, setRedoLabel] = useState<string | null>(null);
+  // Latest board and generation, for history bookkeeping in callbacks.
+  const cellMapRef = useRef(cellMap);
+  const generationRef = useRef(generation);
+  // The board before an optimistic step whose engine result has not arrived yet.
+  const pendingStepRef = useRef<{ cells: Map<string, Cell>; generation: bigint } | null>(null);
+
+  // Past generations for the timeline scrubber; the retained generation numbers are mirrored in state.
+  const timelineRef = useRef<Timeline>(emptyTimeline());
+  const [timeline, setTimeline] = useState<bigint[]>([]);
+
+  // Population, births and deaths per recorded generation, for the chart.
+  const populationRef = useRef<PopulationSample[]>([]);
+  const [population, setPopulation] = useState<PopulationSample[]>([]);
+
+  // Watches consecutive generations for a repeat; the current report is mirrored in state.
+  const repeatRef = useRef<RepeatDetector>(emptyDetector());
+  const [repeat, setRepeat] = useState<RepeatReport | null>(null);
+  // Whether auto-play stops by itself when a repeat is first detected.
+  const [autoPause, setAutoPause] = useState(false);
+  const autoPauseRef = useRef(autoPause);
+
+  useEffect(() => { cellMapRef.current = cellMap; }, [cellMap]);
+  useEffect(() => { generationRef.current = generation; }, [generation]);
+  useEffect(() => { autoPauseRef.current = autoPause; }, [autoPause]);
+  const speedRef = useRef(speed);
+  useEffect(() => { speedRef.current = speed; }, [speed]);
 
   // Derived array for API calls and Grid rendering — stable reference unless cellMap changes.
   const cells = useMemo(() => Array.from(cellMap.values()), [cellMap]);
+  // Dying cells under a Generations rule are on the board but not alive.
+  const liveCellCount = useMemo(() => countLiveCells(cellMap), [cellMap]);
 
-  const setCellsFromArray = useCallback((arr: Cell[]) => {
-    const m = new Map<string, Cell>();
-    for (const cell of arr) m.set(`${cell[0]},${cell[1]}`, cell);
-    setCellMap(m);
+  const setHistory = useCallback((h: History) => {
+    historyRef.current = h;
+    setUndoLabel(h.past.at(-1)?.label ?? null);
+    setRedoLabel(h.future.at(-1)?.label ?? null);
   }, []);
 
-  // Synchronously stop the play interval and return whether it was running.
+  // Synchronously stop the play interval (or pause the playback stream) and
+  // return whether it was running.
   const stopInterval = useCallback(() => {
+    let running = false;
     if (intervalRef.current !== null) {
       clearInterval(intervalRef.current);
       intervalRef.current = null;
-      return true;
+      running = true;
     }
-    return false;
+    const streaming = streamRef.current;
+    if (streaming?.playing) {
+      streaming.playing = false;
+      streaming.stream.pause();
+      running = true;
+    }
+    return running;
   }, []);
 
+  // Every board the user sees after an action passes through here: it becomes a
+  // timeline frame, a population sample and the next generation for repeat
+  // detection. `entry` is the action that produced it, when there is one.
+  const markFrame = useCallback((map: Map<string, Cell>, gen: bigint, entry?: HistoryEntry) => {
+    timelineRef.current = recordFrame(timelineRef.current, gen, map);
+    setTimeline(timelineGenerations(timelineRef.current));
+
+    // A single step's diff is exactly its births and deaths: the live cells it
+    // added and removed (cells that only move on a dying state are neither).
+    const step = entry && entry.toGeneration === entry.fromGeneration + 1n
+      ? { births: entry.added.filter(isAlive).length, deaths: entry.removed.filter(isAlive).length }
+      : undefined;
+    populationRef.current = recordPopulation(populationRef.current, gen, countLiveCells(map), step);
+    setPopulation(populationRef.current);
+
+    const previous = repeatRef.current.report;
+    repeatRef.current = observeGeneration(repeatRef.current, gen, map);
+    const report = repeatRef.current.report;
+    setRepeat(report);
+    if (report && report !== previous) {
+      logger.info('Repeat detected', {
+        generation: report.generation.toString(),
+        period: report.period.toString(),
+        dx: report.dx.toString(),
+        dy: report.dy.toString(),
+        population: report.population,
+      });
+      if (autoPauseRef.current && stopInterval()) {
+        setIsPlaying(false);
+        logger.info('Auto-play paused on repeat', { generation: gen.toString() });
+      }
+    }
+  }, [stopInterval]);
+
+  // Records an action in the undo history, and the board it produced in the timeline.
+  const record = useCallback((entry: HistoryEntry, board: Map<string, Cell>) => {
+    setHistory(pushEntry(historyRef.current, entry));
+    markFrame(board, entry.toGeneration, entry);
+  }, [markFrame, setHistory]);
+
+  // Shows a board from history right away, keeping the refs in step for a repeated undo.
+  const showBoard = useCallback((map: Map<string, Cell>, gen: bigint) => {
+    cellMapRef.current = map;
+    generationRef.current = gen;
+    setCellMap(map);
+    setGeneration(gen);
+  }, []);
+
+  // A cancelled optimistic step stays on screen, so it is recorded like a completed one.
+  const settlePendingStep = useCallback(() => {
+    const pending = pendingStepRef.current;
+    if (!pending) return;
+    pendingStepRef.current = null;
+    record({
+      label: 'step',
+      ...diffCellMaps(pending.cells, cellMapRef.current),
+      fromGeneration: pending.generation,
+      toGeneration: pending.generation + 1n,
+    }, cellMapRef.current);
+  }, [record]);
+
+  // Starts a request that a later reset or load can cancel.
+  const beginRequest = useCallback(() => {
+    abortRef.current = new AbortController();
+    return { myId: ++requestIdRef.current, signal: abortRef.current.signal };
+  }, []);
+
+  // Invalidates and aborts any in-flight request, and frees the loading guard
+  // so the caller can proceed.
+  const cancelInFlight = useCallback(() => {
+    requestIdRef.current++;
+    abortRef.current?.abort();
+    abortRef.current = null;
+    loadingRef.current = false;
+  }, []);
+
+  const switchEngine = useCallback((kind: EngineKind) => {
+    engineKindRef.current = kind;
+    setEngineKind(kind);
+    if (kind === 'remote') setStreamFailed(false);
+  }, []);
+
+  // Runs an engine operation on the backend, failing over to the local worker
+  // engine when the backend is unreachable. Rejected requests (4xx) still throw.
+  const runOnEngine = useCallback(async (
+    operation: string,
+    call: (engine: GameEngine) => Promise<EngineStep>,
+  ): Promise<EngineStep> => {
+    if (engineKindRef.current === 'remote') {
+      try {
+        remoteEngineRef.current ??= createHttpEngine();
+        return await call(remoteEngineRef.current);
+      } catch (e) {
+        if (!isServerUnavailable(e)) throw e;
+        const msg = e instanceof Error ? e.message : String(e);
+        logger.warn('Backend unavailable, failing over to local engine', { operation, error: msg });
+        switchEngine('local');
+      }
+    }
+    localEngineRef.current ??= createWorkerEngine();
+    return call(localEngineRef.current);
+  }, [switchEngine]);
+
+  // Dispose the worker and the server sessions when the hook unmounts.
+  useEffect(() => () => {
+    localEngineRef.current?.dispose();
+    remoteEngineRef.current?.dispose();
+    streamRef.current?.stream.close();
+  }, []);
+
+  // While on the local engine, keep probing the backend and switch back once it answers.
+  useEffect(() => {
+    if (engineKind !== 'local') return;
+    const id = window.setInterval(async () => {
+      if (engineKindRef.current === 'local' && await api.ping()) {
+        logger.info('Backend healthy again, switching back to server engine');
+        switchEngine('remote');
+      }
+    }, HEALTH_CHECK_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [engineKind, switchEngine]);
+
   const stepForward = useCallback(async () => {
     if (cellMap.size === 0) return;
     if (loadingRef.current) return;
 
-    // Optimistically apply Conway's rules locally so the grid updates immediately,
-    // before the authoritative API response arrives.
+    // Optimistically apply the active rule and topology locally so the grid updates
+    // immediately, before the authoritative API response arrives.
     const snapshotMap = cellMap;
-    setCellMap(computeNextGeneration(cellMap));
-    setGeneration((g) => g + 1);
+    const snapshotGeneration = generationRef.current;
+    pendingStepRef.current = { cells: snapshotMap, generation: snapshotGeneration };
+    setCellMap(computeNextGeneration(cellMap, parsedRule, parsedTopology));
+    setGeneration((g) => g + 1n);
 
     loadingRef.current = true;
     setLoading(true);
     setError(null);
-    const myId = ++requestIdRef.current;
+    const { myId, signal } = beginRequest();
     try {
-      const result = await api.tick(Array.from(snapshotMap.values()));
+      const result = await runOnEngine('tick', (engine) => engine.advance(snapshotMap, 1, rule, topology, signal));
       if (myId !== requestIdRef.current) return; // cancelled by reset or load
-      logger.debug('Tick completed', { inputCells: snapshotMap.size, outputCells: result.cells.length }, result.correlationId);
-      // Reconcile: overwrite the optimistic state with the authoritative server result.
-      setCellsFromArray(result.cells);
+      logger.debug('Tick completed', {
+        inputCells: snapshotMap.size,
+        outputCells: result.board.size,
+        births: result.births.length,
+        deaths: result.deaths.length,
+      }, result.correlationId);
+      // Reconcile: overwrite the optimistic state with the authoritative engine result.
+      setCellMap(result.board);
+      pendingStepRef.current = null;
+      record({
+        label: 'step',
+        added: result.births,
+        removed: result.deaths,
+        fromGeneration: snapshotGeneration,
+        toGeneration: snapshotGeneration + 1n,
+      }, result.board);
     } catch (e) {
       if (myId !== requestIdRef.current) return;
       const msg = e instanceof Error ? e.message : String(e);
       logger.error('Tick failed', { error: msg, cellCount: snapshotMap.size });
       // Roll back the optimistic update.
+      pendingStepRef.current = null;
       setCellMap(snapshotMap);
-      setGeneration((g) => g - 1);
-      setError(
-        `Step failed: ${msg}. Auto-play has been stopped; try Reset or Load File if the backend was restarted.`
-      );
+      setGeneration((g) => g - 1n);
+      setError(`Step failed: ${msg}. Auto-play has been stopped.`);
       // Stop auto-play so we don't keep hammering a backend that is down.
       stopInterval();
       setIsPlaying(false);
@@ -132,48 +384,185 @@ export function useGameOfLife() {
         setLoading(false);
       }
     }
-  }, [cellMap, setCellsFromArray, stopInterval]);
+  }, [cellMap, rule, parsedRule, topology, parsedTopology, beginRequest, runOnEngine, record, stopInterval]);
 
   useEffect(() => {
     stepForwardRef.current = stepForward;
   }, [stepForward]);
 
   const simulateN = useCallback(async (n: number) => {
+    if (cellMap.size === 0) return;
+    if (loadingRef.current) return;
+    loadingRef.current = true;
+    setLoading(true);
+    setError(null);
+    const { myId, signal } = beginRequest();
+    logger.info('Simulate requested', { generations: n, inputCells: cellMap.size, rule, topology });
+    try {
+      const result = await runOnEngine('simulate', (engine) => engine.advance(cellMap, n, rule, topology, signal));
+      if (myId !== requestIdRef.current) return;
+      logger.info('Simulate completed', { generations: n, inputCells: cellMap.size, outputCells: result.board.size }, result.correlationId);
+      record({
+        label: 'simulate',
+        added: result.births,
+        removed: result.deaths,
+        fromGeneration: generationRef.current,
+        toGeneration: generationRef.current + BigInt(n),
+      }, result.board);
+      setCellMap(result.board);
+      setGeneration((g) => g + BigInt(n));
+    } catch (e) {
+      if (myId !== requestIdRef.current) return;
+      const msg = e instanceof Error ? e.message : String(e);
+      logger.error('Simulate failed', { error: msg, generations: n, cellCount: cellMap.size });
+      setError(`Simulate failed: ${msg}. Try again.`);
+    } finally {
+      if (myId === requestIdRef.current) {
+        loadingRef.current = false;
+        setLoading(false);
+      }
+    }
+  }, [cellMap, rule, topology, beginRequest, runOnEngine, record]);
+
+  // Jumps straight to `target` with HashLife in the worker: no per-request generation
+  // cap and no backend round-trip, so long-running patterns can reach 10^9 and beyond.
+  // Outside the clipped plane the worker steps instead (see MAX_STEPPED_JUMP).
+  const goToGeneration = useCallback(async (target: bigint) => {
     if (cells.length === 0) return;
     if (loadingRef.current) return;
+    const delta = target - generation;
+    if (delta <= 0n) {
+      setError(`Go to generation failed: ${target} is not after the current generation ${generation}.`);
+      return;
+    }
     loadingRef.current = true;
     setLoading(true);
     setError(null);
-    const myId = ++requestIdRef.current;
-    logger.info('Simulate requested', { generations: n, inputCells: cells.length });
+    // A reset or load cancels the jump; the worker running it is terminated.
+    const { myId, signal } = beginRequest();
+    // BigInt is not JSON-serializable, so generation numbers are logged as strings.
+    logger.info('Go to generation requested', { from: generation.toString(), to: target.toString(), inputCells: cells.length, rule, topology });
     try {
-      const result = await api.simulate(cells, n);
+      localEngineRef.current ??= createWorkerEngine();
+      const result = await localEngineRef.current.jump(cells, delta, rule, topology, signal);
       if (myId !== requestIdRef.current) return;
-      logger.info('Simulate completed', { generations: n, inputCells: cells.length, outputCells: result.cells.length }, result.correlationId);
-      setCellsFromArray(result.cells);
-      setGeneration((g) => g + n);
+      logger.info('Go to generation completed', { to: target.toString(), inputCells: cells.length, outputCells: result.cells.length });
+      const resultMap = cellsToMap(result.cells);
+      record({
+        label: 'go to generation',
+        ...diffCellMaps(cellMapRef.current, resultMap),
+        fromGeneration: generationRef.current,
+        toGeneration: target,
+      }, resultMap);
+      setCellMap(resultMap);
+      setGeneration(target);
     } catch (e) {
       if (myId !== requestIdRef.current) return;
       const msg = e instanceof Error ? e.message : String(e);
-      logger.error('Simulate failed', { error: msg, generations: n, cellCount: cells.length });
-      setError(
-        `Simulate failed: ${msg}. Try again or Reset if the backend was restarted.`
-      );
+      logger.error('Go to generation failed', { error: msg, to: target.toString(), cellCount: cells.length });
+      setError(`Go to generation failed: ${msg}`);
     } finally {
       if (myId === requestIdRef.current) {
         loadingRef.current = false;
         setLoading(false);
       }
     }
-  }, [cells, setCellsFromArray]);
+  }, [cells, generation, rule, topology, beginRequest, record]);
 
   const togglePlay = useCallback(() => {
     setIsPlaying((p) => !p);
   }, []);
 
+  // Streaming only runs on the backend; the local engine and a failed stream play step by step.
+  const streaming = streamPlayback && engineKind === 'remote' && !streamFailed;
+
+  // Opens a stream from the board on screen, or resumes the paused one if it
+  // still continues from there under the same rule and topology.
+  const playStream = useCallback(() => {
+    const current = streamRef.current;
+    if (current && current.board === cellMapRef.current && current.rule === rule && current.topology === topology) {
+      current.playing = true;
+      current.stream.resume();
+      current.stream.setSpeed(speedRef.current);
+      return;
+    }
+    current?.stream.close();
+
+    const board = cellMapRef.current;
+    const applyFrames = (frames: StreamFrame[]) => {
+      if (streamRef.current !== entry) return;
+      // The board changed under the stream (an edit while playing): start over from it.
+      if (cellMapRef.current !== entry.board) {
+        entry.stream.close();
+        streamRef.current = null;
+        if (entry.playing) playStreamRef.current();
+        return;
+      }
+      const startedPlaying = entry.playing;
+      let next = entry.board;
+      let gen = generationRef.current;
+      let applied = 0;
+      for (const frame of frames) {
+        // Auto-pause on a repeat stops right there, like it does between steps.
+        if (startedPlaying && !entry.playing) break;
+        const step: HistoryEntry = { label: 'step', ...diffDelta(next, frame.births, frame.deaths), fromGeneration: gen, toGeneration: gen + 1n };
+        next = applyEntry(next, step);
+        gen += 1n;
+        record(step, next);
+        applied++;
+      }
+      showBoard(next, gen);
+      entry.board = next;
+      // Frames past the pause were dropped, so the server is ahead of the board.
+      if (applied < frames.length) {
+        entry.stream.close();
+        streamRef.current = null;
+      }
+    };
+    const stream = openPlaybackStream({
+      cells: Array.from(board.values()),
+      rule,
+      topology,
+      intervalMs: speedRef.current,
+      onFrames: applyFrames,
+      onError: (e) => {
+        if (streamRef.current !== entry) return;
+        streamRef.current = null;
+        logger.warn('Playback stream failed, playing step by step', { error: e.message });
+        setStreamFailed(true);
+      },
+    });
+    const entry = { stream, board, rule, topology, playing: true };
+    streamRef.current = entry;
+    logger.info('Playback stream opened', { inputCells: board.size, rule, topology, intervalMs: speedRef.current });
+  }, [rule, topology, record, showBoard]);
+
+  // Lets a stream restart itself with the latest playStream.
+  const playStreamRef = useRef(playStream);
+  useEffect(() => { playStreamRef.current = playStream; }, [playStream]);
+
+  // Streamed auto-play: resumes or opens a stream on play (and on a rule or topology change),
+  // pauses it when play stops. Speed changes go to the open stream as they are.
+  useEffect(() => {
+    if (!isPlaying || !streaming) return;
+    playStream();
+    return () => { stopInterval(); };
+  }, [isPlaying, streaming, playStream, stopInterval]);
+
+  useEffect(() => {
+    streamRef.current?.stream.setSpeed(speed);
+  }, [speed]);
+
+  // A paused stream is of no use once streaming is off.
+  useEffect(() => {
+    if (streaming) return;
+    streamRef.current?.stream.close();
+    streamRef.current = null;
+  }, [streaming]);
+
   // Interval only restarts when isPlaying or speed changes — NOT on every tick.
   useEffect(() => {
-    if (isPlaying) {
+    if (isPlaying && !streaming) {
       intervalRef.current = window.setInterval(() => {
         stepForwardRef.current();
       }, speed);
@@ -184,40 +573,83 @@ export function useGameOfLife() {
     return () => {
       if (intervalRef.current) clearInterval(intervalRef.current);
     };
-  }, [isPlaying, speed]);
+  }, [isPlaying, speed, streaming]);
 
   const reset = useCallback(() => {
     logger.info('Grid reset');
     // Synchronously kill the interval — don't wait for the next render cycle
     stopInterval();
-    // Invalidate any in-flight request so its result is discarded on arrival
-    requestIdRef.current++;
-    loadingRef.current = false;
+    // Abort any in-flight request; a result already on its way is discarded on arrival
+    cancelInFlight();
+    settlePendingStep();
+    record({
+      label: 'reset',
+      added: [],
+      removed: Array.from(cellMapRef.current.values()),
+      fromGeneration: generationRef.current,
+      toGeneration: 0n,
+    }, new Map());
     setIsPlaying(false);
     setCellMap(new Map());
-    setGeneration(0);
+    setGeneration(0n);
     setError(null);
     setLoading(false);
-  }, [stopInterval]);
+  }, [cancelInFlight, record, settlePendingStep, stopInterval]);
 
   // O(1) toggle: Map lookup instead of O(n) array scan
   //Looks up the coordinate in the Map — if it exists, remove it; if not, add it.
   const toggleCell = useCallback((x: bigint, y: bigint) => {
     if (x < LONG_MIN || x > LONG_MAX || y < LONG_MIN || y > LONG_MAX) return;
     const key = `${x},${y}`;
-    setCellMap((prev) => {
-      const next = new Map(prev);
-      if (next.has(key)) next.delete(key);
-      else next.set(key, [x, y]);
-      return next;
-    });
-  }, []);
+    const next = new Map(cellMapRef.current);
+    const cell: Cell = [x, y];
+    const wasAlive = next.has(key);
+    if (wasAlive) next.delete(key);
+    else next.set(key, cell);
+    cellMapRef.current = next;
+    setCellMap(next);
+    record({
+      label: 'toggle',
+      added: wasAlive ? [] : [cell],
+      removed: wasAlive ? [cell] : [],
+      fromGeneration: generationRef.current,
+      toGeneration: generationRef.current,
+    }, next);
+  }, [record]);
+
+  // Region edits from the Grid selection tools. `edit` runs against the latest
+  // board, and an edit it rejects (e.g. a fill that is too large) is reported
+  // like any other error. Returns whether the edit was applied.
+  const editCells = useCallback((label: string, edit: (board: Map<string, Cell>) => CellEdit): boolean => {
+    try {
+      const { added, removed } = edit(cellMapRef.current);
+      const entry: HistoryEntry = {
+        label,
+        added,
+        removed,
+        fromGeneration: generationRef.current,
+        toGeneration: generationRef.current,
+      };
+      const next = applyEntry(cellMapRef.current, entry);
+      logger.debug('Cells edited', { action: label, added: added.length, removed: removed.length });
+      cellMapRef.current = next;
+      setCellMap(next);
+      record(entry, next);
+      setError(null);
+      return true;
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      logger.warn('Edit rejected', { action: label, reason: msg });
+      setError(`Edit failed: ${msg}`);
+      return false;
+    }
+  }, [record]);
 
   const loadLife106 = useCallback(async (content: string): Promise<boolean> => {
     // Cancel any in-flight tick/simulate so their results don't overwrite the new load.
-    // Also reset loadingRef so this load can proceed even if a previous call was mid-flight.
-    requestIdRef.current++;
-    loadingRef.current = false;
+    // This also frees loadingRef so the load can proceed even if a previous call was mid-flight.
+    cancelInFlight();
+    settlePendingStep();
     // Stop any running play before loading new content.
     stopInterval();
     setIsPlaying(false);
@@ -232,14 +664,21 @@ export function useGameOfLife() {
     loadingRef.current = true;
     setLoading(true);
     setError(null);
-    const myId = ++requestIdRef.current;
+    const { myId, signal } = beginRequest();
     logger.info('Loading Life106 file', { contentLength: content.length });
     try {
-      const result = await api.parseLife106(content);
+      const result = await api.parseLife106(content, { signal });
       if (myId !== requestIdRef.current) return false;
       logger.info('Life106 file loaded', { cellCount: result.cells.length }, result.correlationId);
-      setCellsFromArray(result.cells);
-      setGeneration(0);
+      const loaded = cellsToMap(result.cells);
+      record({
+        label: 'load',
+        ...diffCellMaps(cellMapRef.current, loaded),
+        fromGeneration: generationRef.current,
+        toGeneration: 0n,
+      }, loaded);
+      setCellMap(loaded);
+      setGeneration(0n);
       return true;
     } catch (e) {
       if (myId !== requestIdRef.current) return false;
@@ -253,22 +692,284 @@ export function useGameOfLife() {
         setLoading(false);
       }
     }
-  }, [setCellsFromArray, stopInterval]);
+  }, [beginRequest, cancelInFlight, record, settlePendingStep, stopInterval]);
 
-  const exportCells = useCallback(async (): Promise<string> => {
+  // Detects the file format and loads it: Life 1.06 through the backend,
+  // everything else with the matching client-side parser.
+  const loadPattern = useCallback(async (content: string): Promise<boolean> => {
+    const format = detectPatternFormat(content);
+    if (format === 'life106') return loadLife106(content);
+
+    // Same cancellation as loadLife106: in-flight results must not overwrite the new pattern.
+    cancelInFlight();
+    setLoading(false);
+    settlePendingStep();
+    stopInterval();
+    setIsPlaying(false);
+
+    try {
+      const pattern = CLIENT_PARSERS[format](content);
+      logger.info('Pattern file loaded', { format, cellCount: pattern.cells.length, rule: pattern.rule, name: pattern.name });
+      setError(null);
+      // Run the pattern under the rule it was written for, when the file names one we support.
+      let nextRule = rule;
+      if (pattern.rule) {
+        try {
+          nextRule = normalizeRule(pattern.rule);
+        } catch (e) {
+          const msg = e instanceof Error ? e.message : String(e);
+          logger.warn('Pattern rule not supported', { rule: pattern.rule, reason: msg });
+          setError(`Pattern loaded, but its rule is not supported: ${msg} Keeping ${rule}.`);
+        }
+      }
+      const loaded = cellsToMap(pattern.cells);
+      record({
+        label: 'load',
+        ...diffCellMaps(cellMapRef.current, loaded),
+        fromGeneration: generationRef.current,
+        toGeneration: 0n,
+        ...(nextRule !== rule && { fromRule: rule, toRule: nextRule }),
+      }, loaded);
+      setCellMap(loaded);
+      setGeneration(0n);
+      setRule(nextRule);
+      return true;
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      logger.warn('Pattern file rejected by client validation', { format, reason: msg });
+      setError(`Load failed: ${msg}`);
+      return false;
+    }
+  }, [cancelInFlight, loadLife106, record, rule, settlePendingStep, stopInterval]);
+
+  const exportCells = useCallback(async (format: PatternFormat = 'life106'): Promise<string> => {
     setError(null);
-    logger.info('Exporting cells', { cellCount: cells.length });
+    logger.info('Exporting cells', { format, cellCount: cells.length });
     try {
-      const output = await api.exportLife106(cells);
-      logger.info('Export completed', { cellCount: cells.length, outputLength: output.length });
+      // RLE writes dying cells as extra states; the other formats only know alive and dead.
+      if (parsedRule.states > 2 && format !== 'rle') {
+        throw new Error(`${PATTERN_FORMATS[format].label} has no cell states, so it cannot hold a board under the ${parsedRule.states}-state rule ${rule}. Export as RLE instead.`);
+      }
+      const output = format === 'life106'
+        ? await api.exportLife106(cells)
+        : CLIENT_SERIALIZERS[format](cells, { rule });
+      logger.info('Export completed', { format, cellCount: cells.length, outputLength: output.length });
       return output;
     } catch (e) {
       const msg = e instanceof Error ? e.message : String(e);
-      logger.error('Export failed', { error: msg, cellCount: cells.length });
+      logger.error('Export failed', { error: msg, format, cellCount: cells.length });
       setError(`Export failed: ${msg}`);
       return '';
     }
-  }, [cells]);
+  }, [cells, rule, parsedRule]);
+
+  // A link to the current board, rule and generation, plus `view` when given.
+  // Returns null (with the reason in `error`) when the board is too big for a link.
+  const shareLink = useCallback(async (view: CenteredView | null): Promise<string | null> => {
+    setError(null);
+    try {
+      const { origin, pathname, search } = window.location;
+      const url = await buildShareUrl({ cells, rule, topology, generation, view }, `${origin}${pathname}${search}`);
+      logger.info('Share link created', { cellCount: cells.length, length: url.length });
+      return url;
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      logger.warn('Share link failed', { error: msg, cellCount: cells.length });
+      setError(`Copy link failed: ${msg}`);
+      return null;
+    }
+  }, [cells, rule, topology, generation]);
+
+  // Replaces the board like loading a file, but at a given generation, rule and
+  // universe: a shared link or a saved session. One undo step.
+  const openBoard = useCallback((label: string, boardCells: Cell[], gen: bigint, nextRule: string, nextTopology: string) => {
+    cancelInFlight();
+    setLoading(false);
+    settlePendingStep();
+    stopInterval();
+    setIsPlaying(false);
+    const loaded = cellsToMap(boardCells);
+    record({
+      label,
+      ...diffCellMaps(cellMapRef.current, loaded),
+      fromGeneration: generationRef.current,
+      toGeneration: gen,
+      ...(nextRule !== rule && { fromRule: rule, toRule: nextRule }),
+      ...(nextTopology !== topology && { fromTopology: topology, toTopology: nextTopology }),
+    }, loaded);
+    setCellMap(loaded);
+    setGeneration(gen);
+    setRule(nextRule);
+    setTopology(nextTopology);
+  }, [cancelInFlight, record, rule, topology, settlePendingStep, stopInterval]);
+
+  // Opens a shared link's hash. Returns the shared state so the caller can
+  // restore its viewport, or null when the hash is not a link or is damaged.
+  const openLink = useCallback(async (hash: string): Promise<SharedState | null> => {
+    let shared: SharedState | null;
+    try {
+      shared = await decodeShareHash(hash);
+      if (!shared) return null;
+      shared.rule = normalizeRule(shared.rule);
+      shared.topology = normalizeTopology(shared.topology);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      logger.warn('Share link rejected', { error: msg, length: hash.length });
+      setError(`Could not open link: ${msg}`);
+      return null;
+    }
+    logger.info('Share link opened', {
+      cellCount: shared.cells.length,
+      rule: shared.rule,
+      topology: shared.topology,
+      generation: shared.generation.toString(),
+    });
+    setError(null);
+    openBoard('open link', shared.cells, shared.generation, shared.rule, shared.topology);
+    return shared;
+  }, [openBoard]);
+
+  // Brings back a saved session (or the autosave): board, generation, rule, universe and speed.
+  const restoreSession = useCallback((snapshot: Snapshot, label: string) => {
+    setError(null);
+    let nextRule = rule;
+    try {
+      nextRule = normalizeRule(snapshot.rule);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      setError(`Session restored, but its rule is not supported: ${msg} Keeping ${rule}.`);
+    }
+    let nextTopology = topology;
+    try {
+      nextTopology = normalizeTopology(snapshot.topology);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      setError(`Session restored, but its universe is not supported: ${msg} Keeping ${topology}.`);
+    }
+    logger.info('Session restored', {
+      label,
+      cellCount: snapshot.cells.length,
+      rule: nextRule,
+      topology: nextTopology,
+      generation: snapshot.generation.toString(),
+    });
+    openBoard(label, snapshot.cells, snapshot.generation, nextRule, nextTopology);
+    setSpeed(snapshot.speed);
+  }, [openBoard, rule, topology]);
+
+  // Accepts any B/S spelling ("b36/s23", "23/36"), stores the canonical form.
+  const changeRule = useCallback((text: string): boolean => {
+    try {
+      const normalized = normalizeRule(text);
+      logger.info('Rule changed', { rule: normalized });
+      setRule(normalized);
+      // Earlier generations ran under the old rule, so detection starts over from this board.
+      repeatRef.current = observeGeneration(emptyDetector(), generationRef.current, cellMapRef.current);
+      setRepeat(null);
+      setError(null);
+      return true;
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      setError(`Invalid rule: ${msg}`);
+      return false;
+    }
+  }, []);
+
+  // Accepts any spelling parseTopology reads ("plane", "TORUS:8x8@0,0"), stores the canonical form.
+  const changeTopology = useCallback((text: string): boolean => {
+    try {
+      const normalized = normalizeTopology(text);
+      logger.info('Topology changed', { topology: normalized });
+      setTopology(normalized);
+      // Like a rule change: earlier generations ran in another universe.
+      repeatRef.current = observeGeneration(emptyDetector(), generationRef.current, cellMapRef.current);
+      setRepeat(null);
+      setError(null);
+      return true;
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      setError(`Invalid topology: ${msg}`);
+      return false;
+    }
+  }, []);
+
+  // Undo, redo and scrubbing cancel whatever is running, like reset: play stops
+  // and in-flight results are dropped.
+  const cancelRunning = useCallback(() => {
+    stopInterval();
+    setIsPlaying(false);
+    cancelInFlight();
+    setLoading(false);
+    setError(null);
+  }, [cancelInFlight, stopInterval]);
+
+  const undo = useCallback(() => {
+    const pending = pendingStepRef.current;
+    if (!pending && historyRef.current.past.length === 0) return;
+    cancelRunning();
+    // An optimistic step still in flight is the newest change: undoing it is a rollback.
+    if (pending) {
+      pendingStepRef.current = null;
+      logger.info('Undo', { action: 'step' });
+      showBoard(pending.cells, pending.generation);
+      markFrame(pending.cells, pending.generation);
+      return;
+    }
+    const step = undoEntry(historyRef.current);
+    if (!step) return;
+    logger.info('Undo', { action: step.entry.label, cells: step.entry.added.length + step.entry.removed.length });
+    setHistory(step.history);
+    const board = revertEntry(cellMapRef.current, step.entry);
+    showBoard(board, step.entry.fromGeneration);
+    markFrame(board, step.entry.fromGeneration);
+    if (step.entry.fromRule !== undefined) setRule(step.entry.fromRule);
+    if (step.entry.fromTopology !== undefined) setTopology(step.entry.fromTopology);
+  }, [cancelRunning, markFrame, setHistory, showBoard]);
+
+  const redo = useCallback(() => {
+    if (pendingStepRef.current || historyRef.current.future.length === 0) return;
+    cancelRunning();
+    const step = redoEntry(historyRef.current);
+    if (!step) return;
+    logger.info('Redo', { action: step.entry.label, cells: step.entry.added.length + step.entry.removed.length });
+    setHistory(step.history);
+    const board = applyEntry(cellMapRef.current, step.entry);
+    showBoard(board, step.entry.toGeneration);
+    markFrame(board, step.entry.toGeneration, step.entry);
+    if (step.entry.toRule !== undefined) setRule(step.entry.toRule);
+    if (step.entry.toTopology !== undefined) setTopology(step.entry.toTopology);
+  }, [cancelRunning, markFrame, setHistory, showBoard]);
+
+  // Shows a retained generation. Later frames are kept, so the scrubber can be
+  // dragged forward again; stepping or editing from here forks a new run.
+  const scrubTo = useCallback((target: bigint) => {
+    if (target === generationRef.current && !pendingStepRef.current) return;
+    cancelRunning();
+    settlePendingStep();
+    const board = boardAt(timelineRef.current, target);
+    if (!board) return;
+    // One undo entry for a whole drag of the scrubber.
+    setHistory(pushEntry(historyRef.current, {
+      label: 'rewind',
+      ...diffCellMaps(cellMapRef.current, board),
+      fromGeneration: generationRef.current,
+      toGeneration: target,
+    }, true));
+    showBoard(board, target);
+  }, [cancelRunning, setHistory, settlePendingStep, showBoard]);
+
+  // Discards the retained generations after the current one, starting a new run from here.
+  const forkTimeline = useCallback(() => {
+    timelineRef.current = truncateAfter(timelineRef.current, generationRef.current);
+    setTimeline(timelineGenerations(timelineRef.current));
+    logger.info('Timeline forked', { generation: generationRef.current.toString() });
+  }, []);
+
+  // Turning streaming on also gives a stream that failed another chance.
+  const changeStreamPlayback = useCallback((on: boolean) => {
+    setStreamPlayback(on);
+    if (on) setStreamFailed(false);
+  }, []);
 
   const clearError = useCallback(() => setError(null), []);
 
@@ -277,17 +978,44 @@ export function useGameOfLife() {
     generation,
     isPlaying,
     speed,
+    rule,
+    // Cell states of the rule: 2 for Life-like rules, more for Generations.
+    states: parsedRule.states,
+    topology,
+    engineKind,
+    connectionHealth,
     loading,
     error,
-    liveCellCount: cellMap.size,
+    liveCellCount,
+    undoLabel,
+    redoLabel,
     stepForward,
     simulateN,
+    goToGeneration,
     togglePlay,
     reset,
     toggleCell,
+    editCells,
     setSpeed,
+    changeRule,
+    changeTopology,
     loadLife106,
+    loadPattern,
     exportCells,
+    shareLink,
+    openLink,
+    restoreSession,
+    undo,
+    redo,
+    timeline,
+    population,
+    repeat,
+    autoPause,
+    setAutoPause,
+    streamPlayback,
+    changeStreamPlayback,
+    scrubTo,
+    forkTimeline,
     clearError,
   };
 }
@@ -0,0 +1,212 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import type { Cell } from '../services/api';
+import { logger } from '../services/logger';
+import { AUTOSAVE_ID, type SessionInfo, type Snapshot } from '../services/sessionDb';
+import { createSessionStore, type SessionStore } from '../services/sessionStore';
+import type { CenteredView } from '../services/viewport';
+
+// Autosave writes at most this often (ms); each write takes the newest board.
+const AUTOSAVE_INTERVAL = 2000;
+
+interface SessionsOptions {
+  cells: Cell[];
+  generation: bigint;
+  rule: string;
+  topology: string;
+  speed: number;
+  /** The Grid's current viewport; read whenever a snapshot is taken. */
+  viewRef: React.RefObject<CenteredView | null>;
+  restoreSession: (snapshot: Snapshot, label: string) => void;
+  /** Called with the viewport of a restored session. */
+  onRestoreView: (view: CenteredView) => void;
+  /** False when the page opened on a shared link, which wins over the autosave. */
+  restoreAutosave: boolean;
+}
+
+/**
+ * Autosave and named sessions, stored in IndexedDB by a worker. The autosave
+ * is restored once on load and rewritten while the board, generation, rule,
+ * universe or speed change, and whenever the tab is hidden (so the viewport is kept too).
+ */
+export function useSessions(options: SessionsOptions) {
+  const storeRef = useRef<SessionStore | null>(null);
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [lastAutosave, setLastAutosave] = useState<number | null>(null);
+  // Autosave stays off until the saved board is back, so the empty startup board cannot overwrite it.
+  const [ready, setReady] = useState(false);
+
+  // Latest options for the store callbacks, which outlive the render that created them.
+  const optionsRef = useRef(options);
+  useEffect(() => { optionsRef.current = options; });
+
+  const snapshot = useCallback((): Snapshot => {
+    const { cells, generation, rule, topology, speed, viewRef } = optionsRef.current;
+    return { cells, generation, rule, topology, speed, view: viewRef.current };
+  }, []);
+
+  const fail = useCallback((action: string, e: unknown) => {
+    const msg = e instanceof Error ? e.message : String(e);
+    logger.warn('Session storage failed', { action, error: msg });
+    setError(`${action} failed: ${msg}`);
+  }, []);
+
+  const restore = useCallback((saved: Snapshot, label: string) => {
+    optionsRef.current.restoreSession(saved, label);
+    if (saved.view) optionsRef.current.onRestoreView(saved.view);
+  }, []);
+
+  useEffect(() => {
+    const store = createSessionStore();
+    storeRef.current = store;
+    let cancelled = false;
+    const start = async () => {
+      try {
+        if (optionsRef.current.restoreAutosave) {
+          const saved = await store.load(AUTOSAVE_ID);
+          if (cancelled) return;
+          if (saved && (saved.cells.length > 0 || saved.generation > 0n)) restore(saved, 'restore autosave');
+        }
+        const list = await store.list();
+        if (!cancelled) setSessions(list);
+      } catch (e) {
+        if (!cancelled) fail('Loading saved sessions', e);
+      } finally {
+        if (!cancelled) setReady(true);
+      }
+    };
+    void start();
+    return () => {
+      cancelled = true;
+      store.dispose();
+      storeRef.current = null;
+    };
+  }, [fail, restore]);
+
+  // One write at a time: changes while a write is waiting are picked up by it,
+  // changes while one is running schedule another.
+  const autosaveRef = useRef<{ timer: number | null; running: boolean; dirty: boolean }>(
+    { timer: null, running: false, dirty: false },
+  );
+
+  const writeAutosave = useCallback(async () => {
+    const state = autosaveRef.current;
+    const store = storeRef.current;
+    if (state.timer !== null) window.clearTimeout(state.timer);
+    state.timer = null;
+    if (!store || state.running) {
+      state.dirty = true;
+      return;
+    }
+    state.running = true;
+    state.dirty = false;
+    try {
+      await store.save('Autosave', snapshot(), AUTOSAVE_ID);
+      setLastAutosave(Date.now());
+    } catch (e) {
+      fail('Autosave', e);
+    } finally {
+      state.running = false;
+      if (state.dirty) state.timer = window.setTimeout(() => void writeAutosave(), AUTOSAVE_INTERVAL);
+    }
+  }, [fail, snapshot]);
+
+  const { cells, generation, rule, topology, speed } = options;
+  useEffect(() => {
+    if (!ready) return;
+    const state = autosaveRef.current;
+    if (state.running) state.dirty = true;
+    else if (state.timer === null) state.timer = window.setTimeout(() => void writeAutosave(), AUTOSAVE_INTERVAL);
+  }, [ready, cells, generation, rule, topology, speed, writeAutosave]);
+
+  // Hiding the tab (switching away, closing, reloading) writes straight away.
+  useEffect(() => {
+    if (!ready) return;
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') void writeAutosave();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [ready, writeAutosave]);
+
+  useEffect(() => () => {
+    const { timer } = autosaveRef.current;
+    if (timer !== null) window.clearTimeout(timer);
+  }, []);
+
+  const saveAs = useCallback(async (name: string) => {
+    const store = storeRef.current;
+    if (!store) return;
+    try {
+      const info = await store.save(name, snapshot());
+      logger.info('Session saved', { name, cellCount: info.cellCount });
+      setSessions((prev) => [info, ...prev]);
+      setError(null);
+    } catch (e) {
+      fail('Save', e);
+    }
+  }, [fail, snapshot]);
+
+  const open = useCallback(async (info: SessionInfo) => {
+    const store = storeRef.current;
+    if (!store) return;
+    try {
+      const saved = await store.load(info.sessionId);
+      if (!saved) throw new Error('That session no longer exists.');
+      restore(saved, `open ${info.name}`);
+      setError(null);
+    } catch (e) {
+      fail('Open', e);
+    }
+  }, [fail, restore]);
+
+  const rename = useCallback(async (sessionId: string, name: string) => {
+    const store = storeRef.current;
+    if (!store) return;
+    try {
+      const info = await store.rename(sessionId, name);
+      setSessions((prev) => prev.map((s) => (s.sessionId === sessionId ? info : s)));
+      setError(null);
+    } catch (e) {
+      fail('Rename', e);
+    }
+  }, [fail]);
+
+  const duplicate = useCallback(async (sessionId: string) => {
+    const store = storeRef.current;
+    if (!store) return;
+    try {
+      const copy = await store.duplicate(sessionId);
+      setSessions((prev) => [copy, ...prev]);
+      setError(null);
+    } catch (e) {
+      fail('Duplicate', e);
+    }
+  }, [fail]);
+
+  const remove = useCallback(async (sessionId: string) => {
+    const store = storeRef.current;
+    if (!store) return;
+    try {
+      await store.remove(sessionId);
+      setSessions((prev) => prev.filter((s) => s.sessionId !== sessionId));
+      setError(null);
+    } catch (e) {
+      fail('Delete', e);
+    }
+  }, [fail]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    sessions,
+    error,
+    lastAutosave,
+    saveAs,
+    open,
+    rename,
+    duplicate,
+    remove,
+    clearError,
+  };
+}
@@ -0,0 +1,65 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  DEFAULT_KEYMAP,
+  bindKeys,
+  comboFromEvent,
+  commandForCombo,
+  loadKeymap,
+  saveKeymap,
+  type CommandId,
+  type Keymap,
+} from '../services/shortcuts';
+
+/** What each command does right now; a missing entry means it is unavailable. */
+export type CommandActions = Partial<Record<CommandId, () => void>>;
+
+/**
+ * Runs `actions` from the keyboard, with the keymap saved in localStorage.
+ *
+ * Typing in an input, select or text area keeps its own keys, and a key the
+ * Grid already handled (selection shortcuts) is not run again. The Grid listens
+ * on document, which sees the key before this listener on window does.
+ */
+export function useShortcuts(actions: CommandActions) {
+  const [keymap, setKeymap] = useState<Keymap>(() => loadKeymap());
+
+  // Latest actions and keymap for the listener, which is registered once.
+  const latestRef = useRef({ actions, keymap });
+  useEffect(() => { latestRef.current = { actions, keymap }; });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA'
+        || target.tagName === 'SELECT' || target.isContentEditable)) return;
+      const combo = comboFromEvent(e);
+      if (!combo) return;
+      const { actions, keymap } = latestRef.current;
+      const command = commandForCombo(keymap, combo);
+      const action = command && actions[command.id];
+      if (!action) return;
+      e.preventDefault();
+      if (e.repeat && !command.repeats) return;
+      // Otherwise Space or Enter would also press the button that has focus.
+      if (target?.tagName === 'BUTTON') target.blur();
+      action();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const update = useCallback((next: Keymap) => {
+    setKeymap(next);
+    saveKeymap(next);
+  }, []);
+
+  /** Binds `keys` to `id` alone; an empty list unbinds it. */
+  const rebind = useCallback((id: CommandId, keys: string[]) => {
+    update(bindKeys(latestRef.current.keymap, id, keys));
+  }, [update]);
+
+  const resetKeymap = useCallback(() => update(DEFAULT_KEYMAP), [update]);
+
+  return { keymap, rebind, resetKeymap };
+}
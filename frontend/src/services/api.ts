@@ -1,9 +1,24 @@
+import { reportConnection } from './connectionHealth';
 import { sessionId } from './logger';
+import { MAX_PATTERN_CELLS } from './patternFormats';
+import { CONWAY_RULE, isMultiStateRule } from './rules';
+import { PLANE_TOPOLOGY } from './topology';
 
 const API_BASE = import.meta.env.VITE_API_BASE ?? 'http://localhost:5290/api/v1/game';
 
 // Public cell type used throughout the app — BigInt for full 64-bit precision.
-export type Cell = [bigint, bigint];
+// A live cell has no state; under a Generations rule a dying cell carries its
+// state (2 and up, see services/rules.ts). Dead cells are not stored at all.
+export type Cell = [x: bigint, y: bigint, state?: number];
+
+export const ALIVE = 1;
+
+/** 1 for a live cell, 2 and up for a dying one. */
+export function cellState(cell: Cell): number {
+  return cell[2] ?? ALIVE;
+}
+
+export const isAlive = (cell: Cell) => cellState(cell) === ALIVE;
 
 export interface SimulationResponse {
   cells: Cell[];
@@ -12,22 +27,39 @@ export interface SimulationResponse {
 }
 
 // What the server actually sends: coordinates as strings so that 64-bit long
-// values survive JSON transport without IEEE-754 double precision loss.
+// values survive JSON transport without IEEE-754 double precision loss. A dying
+// cell has its state as a third string.
+type RawCell = [string, string] | [string, string, string];
+
 interface RawSimulationResponse {
-  cells: [string, string][];
+  cells: RawCell[];
   generationsComputed: number;
   liveCellCount: number;
 }
 
-export function parseCells(raw: [string, string][]): Cell[] {
-  return raw.map(([x, y]) => [BigInt(x), BigInt(y)]);
+export function parseCells(raw: RawCell[]): Cell[] {
+  return raw.map(([x, y, state]) => {
+    const n = state === undefined ? ALIVE : Number(state);
+    return n === ALIVE ? [BigInt(x), BigInt(y)] : [BigInt(x), BigInt(y), n];
+  });
+}
+
+/** Thrown for non-2xx responses; `status` lets callers tell bad requests from outages. */
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
 }
 
 /** Reads the response body on error so the server's message is not lost. */
 async function throwIfNotOk(res: Response): Promise<void> {
   if (!res.ok) {
     const body = await res.text().catch(() => '');
-    throw new Error(`API error ${res.status}${body ? `: ${body}` : ''}`);
+    throw new ApiError(res.status, `API error ${res.status}${body ? `: ${body}` : ''}`);
   }
 }
 
@@ -37,9 +69,127 @@ async function toSimulationResponse(res: Response): Promise<SimulationResponse>
   return { ...data, cells: parseCells(data.cells) };
 }
 
-// Serialise BigInt cells to string pairs for the request body.
-export function serializeCells(cells: Cell[]): [string, string][] {
-  return cells.map(([x, y]) => [x.toString(), y.toString()]);
+// The binary routes send only the cells; the caller knows how far it asked to go.
+async function toBinarySimulationResponse(res: Response, generationsComputed: number): Promise<SimulationResponse> {
+  await throwIfNotOk(res);
+  const cells = decodeCells(new Uint8Array(await res.arrayBuffer()));
+  return { cells, generationsComputed, liveCellCount: cells.length };
+}
+
+// Serialise BigInt cells to string pairs (triples for dying cells) for the request body.
+export function serializeCells(cells: Cell[]): RawCell[] {
+  return cells.map(([x, y, state]) => (state === undefined || state === ALIVE
+    ? [x.toString(), y.toString()]
+    : [x.toString(), y.toString(), state.toString()]));
+}
+
+/**
+ * Compact binary cell encoding, the alternative to string pairs in JSON. Must
+ * match BinaryCellCodec on the server: the cell count, then each cell sorted by
+ * x, then y, as zigzagged differences from the previous cell (from 0, 0), all
+ * as unsigned LEB128 varints. Differences wrap modulo 2^64, so every cell of a
+ * dense pattern costs about two bytes wherever it sits on the plane. It has no
+ * cell states, so Generations boards always go as JSON.
+ */
+export const CELLS_MEDIA_TYPE = 'application/x-life-cells';
+
+// Varints up to this value are written and read with plain numbers, which is
+// almost every delta on a real board and much faster than BigInt.
+const SAFE_VARINT = BigInt(Number.MAX_SAFE_INTEGER);
+
+const zigzag = (v: bigint) => (v < 0n ? -v * 2n - 1n : v * 2n);
+const unzigzag = (v: bigint) => (v % 2n === 0n ? v / 2n : -(v + 1n) / 2n);
+
+interface ByteWriter {
+  bytes: Uint8Array<ArrayBuffer>;
+  length: number;
+}
+
+function writeVarint(w: ByteWriter, v: bigint): void {
+  // Ten bytes are enough for any 64-bit value.
+  if (w.length + 10 > w.bytes.length) {
+    const grown = new Uint8Array(w.bytes.length * 2 + 10);
+    grown.set(w.bytes);
+    w.bytes = grown;
+  }
+  if (v <= SAFE_VARINT) {
+    let n = Number(v);
+    while (n >= 0x80) {
+      w.bytes[w.length++] = (n % 0x80) | 0x80;
+      n = Math.floor(n / 0x80);
+    }
+    w.bytes[w.length++] = n;
+    return;
+  }
+  while (v >= 0x80n) {
+    w.bytes[w.length++] = Number(v & 0x7fn) | 0x80;
+    v >>= 7n;
+  }
+  w.bytes[w.length++] = Number(v);
+}
+
+export function encodeCells(cells: Cell[]): Uint8Array<ArrayBuffer> {
+  // Safe comparisons — no subtraction, avoids overflow for large BigInt coordinates.
+  const sorted = [...cells].sort(([ax, ay], [bx, by]) =>
+    (ax < bx ? -1 : ax > bx ? 1 : ay < by ? -1 : ay > by ? 1 : 0));
+  const w: ByteWriter = { bytes: new Uint8Array(sorted.length * 2 + 16), length: 0 };
+  writeVarint(w, BigInt(sorted.length));
+  let px = 0n;
+  let py = 0n;
+  for (const [x, y] of sorted) {
+    writeVarint(w, zigzag(BigInt.asIntN(64, x - px)));
+    writeVarint(w, zigzag(BigInt.asIntN(64, y - py)));
+    px = x;
+    py = y;
+  }
+  return w.bytes.slice(0, w.length);
+}
+
+interface ByteReader {
+  bytes: Uint8Array;
+  pos: number;
+}
+
+function readVarint(r: ByteReader): bigint {
+  let n = 0;
+  let scale = 1;
+  // Seven bytes (49 bits) still fit a number exactly.
+  for (let i = 0; i < 7; i++) {
+    if (r.pos >= r.bytes.length) throw new Error('Cell data is truncated.');
+    const b = r.bytes[r.pos++];
+    n += (b & 0x7f) * scale;
+    if (b < 0x80) return BigInt(n);
+    scale *= 0x80;
+  }
+  let v = BigInt(n);
+  for (let shift = 49n; shift < 70n; shift += 7n) {
+    if (r.pos >= r.bytes.length) throw new Error('Cell data is truncated.');
+    const b = r.bytes[r.pos++];
+    v |= BigInt(b & 0x7f) << shift;
+    if (b < 0x80) {
+      if (v >> 64n !== 0n) break;
+      return v;
+    }
+  }
+  throw new Error('Cell data is damaged: a number is longer than 64 bits.');
+}
+
+export function decodeCells(bytes: Uint8Array): Cell[] {
+  const r: ByteReader = { bytes, pos: 0 };
+  const count = readVarint(r);
+  if (count > BigInt(MAX_PATTERN_CELLS)) {
+    throw new Error(`Cell data holds ${count} cells, more than the ${MAX_PATTERN_CELLS} a pattern may have.`);
+  }
+  const cells: Cell[] = new Array(Number(count));
+  let x = 0n;
+  let y = 0n;
+  for (let i = 0; i < cells.length; i++) {
+    x = BigInt.asIntN(64, x + unzigzag(readVarint(r)));
+    y = BigInt.asIntN(64, y + unzigzag(readVarint(r)));
+    cells[i] = [x, y];
+  }
+  if (r.pos !== bytes.length) throw new Error('Cell data is damaged: unexpected bytes after the last cell.');
+  return cells;
 }
 
 /**
@@ -55,44 +205,342 @@ function makeHeaders(correlationId: string): Record<string, string> {
   };
 }
 
-export async function tick(cells: Cell[]): Promise<SimulationResponse & { correlationId: string }> {
+export interface RequestOptions {
+  /** Aborts the request, including any retries still to come. */
+  signal?: AbortSignal;
+  /** Limit for each attempt, in ms; every call has its own default. */
+  timeoutMs?: number;
+  /** Retries after the first attempt. Idempotent calls default to MAX_RETRIES, the others to none. */
+  retries?: number;
+}
+
+// Per-attempt time limits. Uploading, parsing or exporting a whole board may
+// take far longer than advancing one.
+const STEP_TIMEOUT_MS = 15_000;
+const BOARD_TIMEOUT_MS = 60_000;
+const PING_TIMEOUT_MS = 3_000;
+
+export const MAX_RETRIES = 2;
+const RETRY_BASE_MS = 300;
+const RETRY_MAX_MS = 5_000;
+
+/**
+ * The server's answer when its session memory has no room for a board. The
+ * server is fine, so this is neither retried nor taken for an outage.
+ */
+export const SESSION_MEMORY_FULL = 507;
+
+// Worth another try: the server is overloaded, restarting or behind a failing proxy.
+const isRetryableStatus = (status: number) => status === 429 || (status >= 500 && status !== SESSION_MEMORY_FULL);
+
+/**
+ * Wait before retry number `retry` (1, 2, …): "full jitter" — anywhere from 0 up
+ * to an exponentially growing cap — so clients that failed together do not all
+ * come back at the same moment.
+ */
+export function backoffDelay(retry: number, random: () => number = Math.random): number {
+  return random() * Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** retry);
+}
+
+/** Whether `e` is the rejection of a request cancelled through its signal. */
+export function isAbortError(e: unknown): boolean {
+  return e instanceof DOMException && e.name === 'AbortError';
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * fetch with a time limit per attempt and retries with backoff. Resolves with
+ * the last response, whatever its status, and reports every outcome to the
+ * connection health. A cancelled request rejects with an AbortError and
+ * reports nothing: it says nothing about the connection.
+ */
+async function send(url: string, init: RequestInit, options: RequestOptions, defaults: { timeoutMs: number; retries: number }): Promise<Response> {
+  const { signal, timeoutMs = defaults.timeoutMs, retries = defaults.retries } = options;
+  for (let attempt = 1; ; attempt++) {
+    const started = Date.now();
+    const timeout = AbortSignal.timeout(timeoutMs);
+    try {
+      const res = await fetch(url, { ...init, signal: signal ? AbortSignal.any([signal, timeout]) : timeout });
+      if (!isRetryableStatus(res.status)) {
+        reportConnection({ type: 'answered', attempts: attempt, elapsedMs: Date.now() - started });
+        return res;
+      }
+      if (attempt > retries) {
+        reportConnection({ type: 'failed' });
+        return res;
+      }
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      if (attempt > retries) {
+        reportConnection({ type: 'failed' });
+        if (timeout.aborted) throw new Error(`No answer from the server within ${timeoutMs / 1000} s.`);
+        throw e;
+      }
+    }
+    reportConnection({ type: 'attemptFailed' });
+    await sleep(backoffDelay(attempt), signal);
+  }
+}
+
+// Each endpoint has a ".../binary" twin that takes and returns cells in the
+// compact encoding, with its other parameters in the query string. They are
+// tried first; a server without them (an older backend) answers one of these,
+// and the rest of the session then sticks to JSON.
+const NO_BINARY_ROUTE = new Set([404, 405, 415]);
+let binaryTransport = true;
+
+// The binary encoding has no states: a board with dying cells, or a Generations
+// rule that would give it some, goes as JSON.
+const fitsBinary = (cells: Cell[], rule = CONWAY_RULE) => !isMultiStateRule(rule) && cells.every(isAlive);
+
+/** Resolves null, without throwing, when the server has no binary route or `body` is null. */
+async function postBinary(
+  path: string,
+  correlationId: string,
+  body: BodyInit | null,
+  options: RequestOptions,
+  defaults: { timeoutMs: number; retries: number },
+  contentType = CELLS_MEDIA_TYPE,
+): Promise<Response | null> {
+  if (!binaryTransport || body === null) return null;
+  const headers = { ...makeHeaders(correlationId), 'Content-Type': contentType };
+  const res = await send(`${API_BASE}/${path}`, { method: 'POST', headers, body }, options, defaults);
+  if (!NO_BINARY_ROUTE.has(res.status)) return res;
+  binaryTransport = false;
+  return null;
+}
+
+// `rule` is B/S notation (e.g. "B3/S23", "B2/S/C3") and `topology` the universe in topology.ts
+// notation (e.g. "torus:64x64@0,0"); the backend rejects either when it cannot parse it.
+// Advancing a board has no side effects on the server, so failed attempts are retried.
+const STEP_DEFAULTS = { timeoutMs: STEP_TIMEOUT_MS, retries: MAX_RETRIES };
+const BOARD_DEFAULTS = { timeoutMs: BOARD_TIMEOUT_MS, retries: MAX_RETRIES };
+
+export async function tick(
+  cells: Cell[],
+  rule: string,
+  topology: string,
+  options: RequestOptions = {},
+): Promise<SimulationResponse & { correlationId: string }> {
   const correlationId = crypto.randomUUID();
-  const res = await fetch(`${API_BASE}/tick`, {
+  const body = fitsBinary(cells, rule) ? encodeCells(cells) : null;
+  const binary = await postBinary(`tick/binary?${new URLSearchParams({ rule, topology })}`, correlationId, body, options, STEP_DEFAULTS);
+  if (binary) return { ...(await toBinarySimulationResponse(binary, 1)), correlationId };
+  const res = await send(`${API_BASE}/tick`, {
     method: 'POST',
     headers: makeHeaders(correlationId),
-    body: JSON.stringify({ cells: serializeCells(cells) }),
-  });
+    body: JSON.stringify({ cells: serializeCells(cells), rule, topology }),
+  }, options, STEP_DEFAULTS);
   return { ...(await toSimulationResponse(res)), correlationId };
 }
 
-export async function simulate(cells: Cell[], generations: number): Promise<SimulationResponse & { correlationId: string }> {
+export async function simulate(
+  cells: Cell[],
+  generations: number,
+  rule: string,
+  topology: string,
+  options: RequestOptions = {},
+): Promise<SimulationResponse & { correlationId: string }> {
   const correlationId = crypto.randomUUID();
-  const res = await fetch(`${API_BASE}/simulate`, {
+  const query = new URLSearchParams({ generations: String(generations), rule, topology });
+  const body = fitsBinary(cells, rule) ? encodeCells(cells) : null;
+  const binary = await postBinary(`simulate/binary?${query}`, correlationId, body, options, STEP_DEFAULTS);
+  if (binary) return { ...(await toBinarySimulationResponse(binary, generations)), correlationId };
+  const res = await send(`${API_BASE}/simulate`, {
     method: 'POST',
     headers: makeHeaders(correlationId),
-    body: JSON.stringify({ cells: serializeCells(cells), generations }),
-  });
+    body: JSON.stringify({ cells: serializeCells(cells), generations, rule, topology }),
+  }, options, STEP_DEFAULTS);
   return { ...(await toSimulationResponse(res)), correlationId };
 }
 
-export async function parseLife106(content: string): Promise<SimulationResponse & { correlationId: string }> {
+export async function parseLife106(content: string, options: RequestOptions = {}): Promise<SimulationResponse & { correlationId: string }> {
   const correlationId = crypto.randomUUID();
-  const res = await fetch(`${API_BASE}/parse`, {
+  // The file goes up as JSON either way; only the parsed cells come back binary.
+  const binary = await postBinary('parse/binary', correlationId, JSON.stringify({ content }), options, BOARD_DEFAULTS, 'application/json');
+  if (binary) return { ...(await toBinarySimulationResponse(binary, 0)), correlationId };
+  const res = await send(`${API_BASE}/parse`, {
     method: 'POST',
     headers: makeHeaders(correlationId),
     body: JSON.stringify({ content }),
-  });
+  }, options, BOARD_DEFAULTS);
   return { ...(await toSimulationResponse(res)), correlationId };
 }
 
-export async function exportLife106(cells: Cell[]): Promise<string> {
+// Life 1.06 has no cell states; the server answers 400 to a board with dying cells.
+export async function exportLife106(cells: Cell[], options: RequestOptions = {}): Promise<string> {
   const correlationId = crypto.randomUUID();
-  const res = await fetch(`${API_BASE}/export`, {
+  const body = fitsBinary(cells) ? encodeCells(cells) : null;
+  const res = await postBinary('export/binary', correlationId, body, options, BOARD_DEFAULTS) ?? await send(`${API_BASE}/export`, {
     method: 'POST',
     headers: makeHeaders(correlationId),
     body: JSON.stringify({ cells: serializeCells(cells) }),
-  });
+  }, options, BOARD_DEFAULTS);
   await throwIfNotOk(res);
   // Server returns Content-Type: text/plain — no JSON wrapping
   return res.text();
 }
+
+export interface SessionDelta {
+  /** Cells that took a new state: born, or (under a Generations rule) a step closer to death. */
+  births: Cell[];
+  /** Cells that are gone. */
+  deaths: Cell[];
+  /** Generations the session has advanced since it was created. */
+  generation: number;
+  liveCellCount: number;
+}
+
+interface RawSessionDelta {
+  births: RawCell[];
+  deaths: RawCell[];
+  generation: number;
+  liveCellCount: number;
+}
+
+/**
+ * Uploads a board to be held on the server; advance it with advanceSession.
+ * Sessions expire after a while idle and do not survive a server restart.
+ * Fails with SESSION_MEMORY_FULL when the server has no room for the board.
+ */
+// Creating and advancing sessions change server state, so they are not retried
+// here; the HTTP engine recovers from a lost session itself.
+const SESSION_CREATE_DEFAULTS = { timeoutMs: BOARD_TIMEOUT_MS, retries: 0 };
+const SESSION_STEP_DEFAULTS = { timeoutMs: STEP_TIMEOUT_MS, retries: 0 };
+
+export async function createSession(
+  cells: Cell[],
+  rule: string,
+  topology: string,
+  options: RequestOptions = {},
+): Promise<{ sessionId: string; correlationId: string }> {
+  const correlationId = crypto.randomUUID();
+  const query = new URLSearchParams({ rule, topology });
+  const body = fitsBinary(cells, rule) ? encodeCells(cells) : null;
+  const res = await postBinary(`sessions/binary?${query}`, correlationId, body, options, SESSION_CREATE_DEFAULTS) ?? await send(`${API_BASE}/sessions`, {
+    method: 'POST',
+    headers: makeHeaders(correlationId),
+    body: JSON.stringify({ cells: serializeCells(cells), rule, topology }),
+  }, options, SESSION_CREATE_DEFAULTS);
+  await throwIfNotOk(res);
+  const data: { sessionId: string } = await res.json();
+  return { sessionId: data.sessionId, correlationId };
+}
+
+/**
+ * Advances a session from `fromGeneration` and returns only what changed. Fails
+ * with 404 when the server no longer has the session, with 409 when it is not
+ * at `fromGeneration` (an earlier reply was lost), and with SESSION_MEMORY_FULL
+ * when the advanced board would not fit; the session then stays where it was.
+ */
+export async function advanceSession(
+  sessionId: string,
+  fromGeneration: number,
+  generations: number,
+  options: RequestOptions = {},
+): Promise<SessionDelta & { correlationId: string }> {
+  const correlationId = crypto.randomUUID();
+  const res = await send(`${API_BASE}/sessions/${encodeURIComponent(sessionId)}/advance`, {
+    method: 'POST',
+    headers: makeHeaders(correlationId),
+    body: JSON.stringify({ fromGeneration, generations }),
+  }, options, SESSION_STEP_DEFAULTS);
+  await throwIfNotOk(res);
+  const data: RawSessionDelta = await res.json();
+  return { ...data, births: parseCells(data.births), deaths: parseCells(data.deaths), correlationId };
+}
+
+export async function deleteSession(sessionId: string, options: RequestOptions = {}): Promise<void> {
+  const res = await send(`${API_BASE}/sessions/${encodeURIComponent(sessionId)}`, {
+    method: 'DELETE',
+    headers: makeHeaders(crypto.randomUUID()),
+  }, options, { timeoutMs: STEP_TIMEOUT_MS, retries: MAX_RETRIES });
+  await throwIfNotOk(res);
+}
+
+// ── Streamed playback ───────────────────────────────────────────────────────
+// GET sessions/{id}/stream pushes one frame per generation as Server-Sent
+// Events; POSTs to the same path steer it. services/playbackStream.ts drives both.
+
+export type StreamControl =
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'speed'; intervalMs: number }
+  /** The newest session generation rendered; the server stays at most 16 frames ahead of it. */
+  | { type: 'ack'; generation: number };
+
+/**
+ * Opens the playback stream of a session and resolves once the server has
+ * accepted it; the caller reads the event stream from the response body.
+ * There is no time limit: the stream lasts until `signal` aborts it.
+ */
+export async function openSessionStream(
+  sessionId: string,
+  intervalMs: number,
+  paused: boolean,
+  signal: AbortSignal,
+): Promise<Response> {
+  const correlationId = crypto.randomUUID();
+  const query = new URLSearchParams({ intervalMs: String(intervalMs), paused: String(paused) });
+  const started = Date.now();
+  let res: Response;
+  try {
+    res = await fetch(`${API_BASE}/sessions/${encodeURIComponent(sessionId)}/stream?${query}`, {
+      headers: { ...makeHeaders(correlationId), Accept: 'text/event-stream' },
+      signal,
+    });
+  } catch (e) {
+    if (!signal.aborted) reportConnection({ type: 'failed' });
+    throw e;
+  }
+  reportConnection({ type: 'answered', attempts: 1, elapsedMs: Date.now() - started });
+  await throwIfNotOk(res);
+  return res;
+}
+
+/** Every control message can safely be repeated, so failed attempts are retried. */
+export async function controlSessionStream(sessionId: string, control: StreamControl, options: RequestOptions = {}): Promise<void> {
+  const res = await send(`${API_BASE}/sessions/${encodeURIComponent(sessionId)}/stream`, {
+    method: 'POST',
+    headers: makeHeaders(crypto.randomUUID()),
+    body: JSON.stringify(control),
+  }, options, STEP_DEFAULTS);
+  await throwIfNotOk(res);
+}
+
+/** The data of a "frame" event: one generation's births and deaths, like an advance by one. */
+export function parseStreamFrame(data: string): SessionDelta {
+  const raw: RawSessionDelta = JSON.parse(data);
+  return { ...raw, births: parseCells(raw.births), deaths: parseCells(raw.deaths) };
+}
+
+/**
+ * Cheap liveness probe: an empty tick exercises the whole game pipeline
+ * without transferring cells. Resolves true when the backend answers 2xx.
+ */
+export async function ping(): Promise<boolean> {
+  try {
+    // One short attempt: the next probe is the retry.
+    await tick([], CONWAY_RULE, PLANE_TOPOLOGY, { timeoutMs: PING_TIMEOUT_MS, retries: 0 });
+    return true;
+  } catch {
+    return false;
+  }
+}
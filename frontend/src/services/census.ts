@@ -0,0 +1,248 @@
+import type { Cell } from './api';
+import { cellsToMap, computeNextGeneration } from './localEngine';
+import { boundingBox } from './patternFormats';
+import { PATTERN_LIBRARY, patternClip, type LibraryPattern, type PatternCategory } from './patternLibrary';
+import { parseRule, type LifeRule } from './rules';
+import { flipClip, rotateClip, type Clip, type Rect } from './selection';
+
+/**
+ * Object census: splits the board into connected objects and names each one
+ * that matches a still life, oscillator or spaceship from the pattern library,
+ * in any phase, rotation or reflection.
+ *
+ * Two cells belong to the same object when at most `gap` empty cells separate
+ * them in every direction, so gap 0 is plain 8-neighbour connectivity. Some
+ * oscillator phases fall apart at gap 0 (a toad is two separate halves every
+ * other generation), which is why the census defaults to gap 1.
+ */
+
+export const DEFAULT_CENSUS_GAP = 1n;
+
+// Library categories the census looks for; the rest are not stable objects.
+const CENSUS_CATEGORIES: PatternCategory[] = ['Still lifes', 'Oscillators', 'Spaceships'];
+
+// Longest period looked for when collecting an object's phases.
+const MAX_PERIOD = 64;
+
+export interface CensusEntry {
+  /** Library pattern id, or null for objects that matched nothing. */
+  id: string | null;
+  name: string;
+  category: PatternCategory | null;
+  /** Bounding box of every instance, in reading order (top to bottom, then left to right). */
+  instances: Rect[];
+}
+
+interface Bucket {
+  cells: Cell[];
+  minX: bigint;
+  maxX: bigint;
+  minY: bigint;
+  maxY: bigint;
+}
+
+// BigInt division truncates toward zero; buckets need floor division so -1 and 0 land in different ones.
+function floorDiv(a: bigint, b: bigint): bigint {
+  const q = a / b;
+  return a < 0n && q * b !== a ? q - 1n : q;
+}
+
+// Whether any cell of `a` is within `reach` (Chebyshev distance) of a cell of `b`,
+// the bucket diagonally below it: to the right when `side` is 1n, to the left when
+// -1n. Every cell of `b` lies beyond every cell of `a` both across and down, so a
+// cell of `a` is close enough exactly when some cell of `b` is at most `reach`
+// further across and at most `reach` further down. With `b` sorted by how far
+// across it is and the least y seen so far, each cell of `a` takes one binary search.
+function touchesDiagonally(a: Bucket, b: Bucket, reach: bigint, side: bigint): boolean {
+  if (b.minX - a.maxX > reach || a.minX - b.maxX > reach || b.minY - a.maxY > reach) return false;
+  const across = b.cells.map(([x, y]) => [x * side, y] as const).sort(([p], [q]) => (p < q ? -1 : p > q ? 1 : 0));
+  const leastY: bigint[] = [];
+  for (const [, y] of across) leastY.push(leastY.length > 0 && leastY[leastY.length - 1] < y ? leastY[leastY.length - 1] : y);
+  return a.cells.some(([x, y]) => {
+    const limit = x * side + reach;
+    let lo = 0;
+    let hi = across.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (across[mid][0] <= limit) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo > 0 && leastY[lo - 1] <= y + reach;
+  });
+}
+
+/**
+ * Groups cells into connected components: cells at most `gap` empty cells
+ * apart, in any of the 8 directions, are connected. Components come out in
+ * the order of their first cell in `cells`.
+ *
+ * The plane is cut into square buckets `gap + 1` cells wide. Every cell in a
+ * bucket is connected to every other, so buckets are unioned rather than
+ * cells, and only the 8 neighbouring buckets of each need checking.
+ */
+export function connectedComponents(cells: Cell[], gap: bigint): Cell[][] {
+  const reach = gap + 1n;
+  const buckets = new Map<string, Bucket>();
+  const bucketOf: string[] = [];
+  for (const cell of cells) {
+    const [x, y] = cell;
+    const key = `${floorDiv(x, reach)},${floorDiv(y, reach)}`;
+    bucketOf.push(key);
+    const bucket = buckets.get(key);
+    if (!bucket) {
+      buckets.set(key, { cells: [cell], minX: x, maxX: x, minY: y, maxY: y });
+      continue;
+    }
+    bucket.cells.push(cell);
+    if (x < bucket.minX) bucket.minX = x;
+    if (x > bucket.maxX) bucket.maxX = x;
+    if (y < bucket.minY) bucket.minY = y;
+    if (y > bucket.maxY) bucket.maxY = y;
+  }
+
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    let root = key;
+    while (parent.has(root)) root = parent.get(root)!;
+    // Path compression keeps later finds short.
+    while (key !== root) {
+      const next = parent.get(key)!;
+      parent.set(key, root);
+      key = next;
+    }
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent.set(rb, ra);
+  };
+
+  for (const [key, bucket] of buckets) {
+    const [bx, by] = key.split(',').map(BigInt);
+    // Side by side, any two cells are already close enough across the row
+    // (or column), so only the facing edges matter.
+    const east = buckets.get(`${bx + 1n},${by}`);
+    if (east && east.minX - bucket.maxX <= reach) union(key, `${bx + 1n},${by}`);
+    const south = buckets.get(`${bx},${by + 1n}`);
+    if (south && south.minY - bucket.maxY <= reach) union(key, `${bx},${by + 1n}`);
+    for (const dx of [-1n, 1n]) {
+      const diagonalKey = `${bx + dx},${by + 1n}`;
+      const diagonal = buckets.get(diagonalKey);
+      // Buckets already joined some other way need no look at their cells.
+      if (diagonal && find(key) !== find(diagonalKey) && touchesDiagonally(bucket, diagonal, reach, dx)) {
+        union(key, diagonalKey);
+      }
+    }
+  }
+
+  const components = new Map<string, Cell[]>();
+  cells.forEach((cell, i) => {
+    const root = find(bucketOf[i]);
+    const component = components.get(root);
+    if (component) component.push(cell);
+    else components.set(root, [cell]);
+  });
+  return [...components.values()];
+}
+
+/** Cells relative to their bounding box, sorted: equal for the same shape wherever it sits. */
+function shapeKey(cells: Cell[]): string {
+  const { minX, minY } = boundingBox(cells);
+  return cells.map(([x, y]) => `${x - minX},${y - minY}`).sort().join(';');
+}
+
+/** The 4 rotations of a clip and their mirror images. */
+function orientations(clip: Clip): Clip[] {
+  const out: Clip[] = [];
+  let current = clip;
+  for (let i = 0; i < 4; i++) {
+    out.push(current, flipClip(current, 'horizontal'));
+    current = rotateClip(current);
+  }
+  return out;
+}
+
+/**
+ * Every phase of an object under `rule`, or null when it does not come back to
+ * its starting shape (possibly moved) within MAX_PERIOD generations.
+ */
+function phases(cells: Cell[], rule: LifeRule): Cell[][] | null {
+  const start = shapeKey(cells);
+  const out = [cells];
+  let board = cellsToMap(cells);
+  for (let i = 0; i < MAX_PERIOD; i++) {
+    board = computeNextGeneration(board, rule);
+    if (board.size === 0) return null;
+    const next = [...board.values()];
+    if (shapeKey(next) === start) return out;
+    out.push(next);
+  }
+  return null;
+}
+
+interface ObjectTable {
+  shapes: Map<string, LibraryPattern>;
+  /** Largest population of any known shape; bigger components are skipped without hashing. */
+  maxCells: number;
+}
+
+const tables = new Map<string, ObjectTable>();
+
+/** Shape → library object for every phase and orientation that is one component at `gap`, built once per rule and gap. */
+function objectTable(rule: string, gap: bigint): ObjectTable {
+  const cacheKey = `${rule}|${gap}`;
+  let table = tables.get(cacheKey);
+  if (table) return table;
+  const parsed = parseRule(rule);
+  table = { shapes: new Map(), maxCells: 0 };
+  for (const pattern of PATTERN_LIBRARY) {
+    if (!CENSUS_CATEGORIES.includes(pattern.category)) continue;
+    // Under other rules most of these are not objects at all; only the ones that still cycle are listed.
+    for (const phase of phases(patternClip(pattern).cells, parsed) ?? []) {
+      if (connectedComponents(phase, gap).length !== 1) continue;
+      const { minX, maxX, minY, maxY } = boundingBox(phase);
+      const clip = {
+        cells: phase.map(([x, y]) => [x - minX, y - minY] as Cell),
+        width: maxX - minX + 1n,
+        height: maxY - minY + 1n,
+      };
+      for (const o of orientations(clip)) {
+        const key = shapeKey(o.cells);
+        if (!table.shapes.has(key)) table.shapes.set(key, pattern);
+      }
+      if (phase.length > table.maxCells) table.maxCells = phase.length;
+    }
+  }
+  tables.set(cacheKey, table);
+  return table;
+}
+
+/**
+ * Counts the objects on the board under `rule` (B/S notation). Entries are
+ * sorted by count, most common first; objects that match nothing are grouped
+ * into one "Unidentified" entry at the end.
+ */
+export function takeCensus(cells: Cell[], rule: string, gap: bigint = DEFAULT_CENSUS_GAP): CensusEntry[] {
+  const table = objectTable(rule, gap);
+  const entries = new Map<string | null, CensusEntry>();
+  for (const component of connectedComponents(cells, gap)) {
+    const pattern = component.length <= table.maxCells ? table.shapes.get(shapeKey(component)) : undefined;
+    const id = pattern?.id ?? null;
+    let entry = entries.get(id);
+    if (!entry) {
+      entry = { id, name: pattern?.name ?? 'Unidentified', category: pattern?.category ?? null, instances: [] };
+      entries.set(id, entry);
+    }
+    entry.instances.push(boundingBox(component));
+  }
+
+  const byPosition = (a: Rect, b: Rect) =>
+    a.minY < b.minY ? -1 : a.minY > b.minY ? 1 : a.minX < b.minX ? -1 : a.minX > b.minX ? 1 : 0;
+  const list = [...entries.values()];
+  for (const entry of list) entry.instances.sort(byPosition);
+  return list.sort((a, b) =>
+    (a.id === null ? 1 : 0) - (b.id === null ? 1 : 0)
+    || b.instances.length - a.instances.length
+    || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,131 @@
+/**
+ * Follows clusters across generations to tell what each one is doing. A
+ * cluster is identified by its shape (see boardSignature); when a shape seen at
+ * an earlier generation turns up again shifted by (dx, dy), the cluster is
+ * moving at that displacement per generation gap — or standing still for (0, 0).
+ *
+ * Generations may be skipped (+100, Go to generation): the displacement over a
+ * longer gap still gives the right speed. Going back in generations (an undo,
+ * a rewind, a reset) forgets everything seen so far.
+ */
+
+/** Where a cluster's shape sits in one generation. */
+export interface ClusterShape {
+  signature: string;
+  minX: bigint;
+  minY: bigint;
+}
+
+/** Displacement of a cluster over `period` generations. */
+export interface Velocity {
+  dx: bigint;
+  dy: bigint;
+  period: bigint;
+}
+
+interface Sighting {
+  generation: bigint;
+  minX: bigint;
+  minY: bigint;
+}
+
+export interface MotionTracker {
+  lastGeneration: bigint | null;
+  /** Signature → recent sightings, oldest first. Least recently seen signatures come first. */
+  sightings: Map<string, Sighting[]>;
+}
+
+// Sightings kept per shape, and shapes kept overall.
+export const MAX_SIGHTINGS_PER_SHAPE = 8;
+export const MAX_TRACKED_SHAPES = 256;
+
+export function emptyMotionTracker(): MotionTracker {
+  return { lastGeneration: null, sightings: new Map() };
+}
+
+function abs(v: bigint): bigint {
+  return v < 0n ? -v : v;
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+  while (b !== 0n) [a, b] = [b, a % b];
+  return a;
+}
+
+/**
+ * Records the clusters of the board at `generation` and returns each one's
+ * velocity, or null while its shape has not come back yet. Recording the same
+ * generation again (an edit, or the engine confirming an optimistic step)
+ * replaces what was recorded for it.
+ */
+export function trackClusters(
+  tracker: MotionTracker,
+  generation: bigint,
+  shapes: ClusterShape[],
+): { tracker: MotionTracker; velocities: (Velocity | null)[] } {
+  const rewound = tracker.lastGeneration !== null && generation < tracker.lastGeneration;
+  const sightings = new Map<string, Sighting[]>();
+  if (!rewound) {
+    for (const [signature, list] of tracker.sightings) {
+      const kept = list.filter((s) => s.generation !== generation);
+      if (kept.length > 0) sightings.set(signature, kept);
+    }
+  }
+
+  const velocities = shapes.map(({ signature, minX, minY }) => {
+    let best: Velocity | null = null;
+    let bestDistance = 0n;
+    for (const s of sightings.get(signature) ?? []) {
+      const period = generation - s.generation;
+      const dx = minX - s.minX;
+      const dy = minY - s.minY;
+      const distance = abs(dx) > abs(dy) ? abs(dx) : abs(dy);
+      // Nothing travels faster than one cell per generation, so a farther copy is a different object.
+      if (distance > period) continue;
+      // Prefer the most recent sighting, then the nearest.
+      if (!best || period < best.period || (period === best.period && distance < bestDistance)) {
+        best = { dx, dy, period };
+        bestDistance = distance;
+      }
+    }
+    return best;
+  });
+
+  for (const { signature, minX, minY } of shapes) {
+    const list = sightings.get(signature) ?? [];
+    sightings.delete(signature);
+    sightings.set(signature, [...list, { generation, minX, minY }].slice(-MAX_SIGHTINGS_PER_SHAPE));
+  }
+  while (sightings.size > MAX_TRACKED_SHAPES) sightings.delete(sightings.keys().next().value as string);
+
+  return { tracker: { lastGeneration: generation, sightings }, velocities };
+}
+
+/** Speed as a reduced fraction of c, e.g. "c/4", "2c/5", "c". */
+export function formatSpeed(v: Velocity): string {
+  const distance = abs(v.dx) > abs(v.dy) ? abs(v.dx) : abs(v.dy);
+  if (distance === 0n) return '0';
+  const d = gcd(distance, v.period);
+  const num = distance / d;
+  const den = v.period / d;
+  return `${num === 1n ? '' : num}c${den === 1n ? '' : `/${den}`}`;
+}
+
+const ARROWS: Record<string, string> = {
+  N: '↑', NE: '↗', E: '→', SE: '↘', S: '↓', SW: '↙', W: '←', NW: '↖',
+};
+
+/** Compass direction of travel (y grows downward, so north is -y) and an arrow for it. */
+export function heading(v: Velocity): { direction: string; arrow: string; kind: 'orthogonal' | 'diagonal' | 'oblique' } {
+  const direction = (v.dy < 0n ? 'N' : v.dy > 0n ? 'S' : '') + (v.dx > 0n ? 'E' : v.dx < 0n ? 'W' : '');
+  const kind = v.dx === 0n || v.dy === 0n ? 'orthogonal' : abs(v.dx) === abs(v.dy) ? 'diagonal' : 'oblique';
+  return { direction, arrow: ARROWS[direction] ?? '', kind };
+}
+
+/** e.g. "c/4 diagonal heading SE", or "stationary" for a still life or oscillator. */
+export function describeVelocity(v: Velocity): string {
+  if (v.dx === 0n && v.dy === 0n) return 'stationary';
+  const { direction, kind } = heading(v);
+  const gap = v.period === 1n ? 'generation' : `${v.period} generations`;
+  return `${formatSpeed(v)} ${kind} heading ${direction}, moving (${v.dx}, ${v.dy}) every ${gap}`;
+}
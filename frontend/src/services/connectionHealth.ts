@@ -0,0 +1,57 @@
+/**
+ * Connection health as the API client sees it, for the status indicator in
+ * Controls. Every request reports how it went, and a small state machine turns
+ * those reports into one of three states:
+ *
+ *   online   — the last request answered first time, and quickly.
+ *   degraded — requests get through, but only after retries or slowly.
+ *   offline  — a request failed even after its retries.
+ *
+ * Coming back from offline goes through degraded: one good answer is not yet
+ * a working connection.
+ */
+
+export type ConnectionHealth = 'online' | 'degraded' | 'offline';
+
+export type HealthEvent =
+  /** The server answered (any status but 5xx/429). `attempts` counts the first try. */
+  | { type: 'answered'; attempts: number; elapsedMs: number }
+  /** One attempt failed and will be retried. */
+  | { type: 'attemptFailed' }
+  /** The request gave up: no answer, or still 5xx/429 after its retries. */
+  | { type: 'failed' };
+
+// An answer slower than this counts as a degraded connection.
+export const SLOW_RESPONSE_MS = 3000;
+
+export function nextHealth(state: ConnectionHealth, event: HealthEvent): ConnectionHealth {
+  switch (event.type) {
+    case 'answered':
+      if (event.attempts > 1 || event.elapsedMs > SLOW_RESPONSE_MS) return 'degraded';
+      return state === 'offline' ? 'degraded' : 'online';
+    case 'attemptFailed':
+      return state === 'offline' ? 'offline' : 'degraded';
+    case 'failed':
+      return 'offline';
+  }
+}
+
+let health: ConnectionHealth = 'online';
+const listeners = new Set<() => void>();
+
+export function getConnectionHealth(): ConnectionHealth {
+  return health;
+}
+
+/** Calls `listener` whenever the health changes; returns the unsubscribe function. */
+export function subscribeConnectionHealth(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+export function reportConnection(event: HealthEvent): void {
+  const next = nextHealth(health, event);
+  if (next === health) return;
+  health = next;
+  for (const listener of listeners) listener();
+}
@@ -0,0 +1,10 @@
+/** Saves `content` as a file through a temporary object URL. */
+export function downloadText(content: string, filename: string, type = 'text/plain'): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
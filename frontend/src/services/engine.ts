@@ -0,0 +1,232 @@
+import * as api from './api';
+import { ApiError, SESSION_MEMORY_FULL, isAbortError, type Cell } from './api';
+import { diffCellMaps, diffDelta } from './history';
+import { cellsToMap, type EngineRequest, type EngineResponse } from './localEngine';
+import { logger } from './logger';
+
+/**
+ * Engine abstraction behind useGameOfLife. The hook talks to the backend through
+ * `httpEngine` and fails over to a Web Worker engine when the server is unreachable.
+ */
+export type EngineKind = 'remote' | 'local';
+
+export interface EngineResult {
+  cells: Cell[];
+  /** Set by the HTTP engine so log lines can be matched with backend traces. */
+  correlationId?: string;
+}
+
+/**
+ * A board advanced by an engine, with the cells born and the cells that died on
+ * the way. Under a Generations rule a cell that only changed state is in both:
+ * in `births` as it is now, in `deaths` as it was.
+ */
+export interface EngineStep {
+  board: Map<string, Cell>;
+  births: Cell[];
+  deaths: Cell[];
+  /** Set by the HTTP engine so log lines can be matched with backend traces. */
+  correlationId?: string;
+}
+
+export interface GameEngine {
+  readonly kind: EngineKind;
+  /**
+   * Advances `board` by `generations` (1–1000) under `rule` in `topology`. `board` itself
+   * is left as it is. Aborting `signal` cancels the server requests; the local engine
+   * finishes regardless.
+   */
+  advance(board: Map<string, Cell>, generations: number, rule: string, topology: string, signal?: AbortSignal): Promise<EngineStep>;
+  /** Releases background resources (the worker, the server session); the engine must not be used afterwards. */
+  dispose(): void;
+}
+
+/** The in-browser engine can also jump arbitrarily far ahead with HashLife. */
+export interface LocalEngine extends GameEngine {
+  /** Aborting `signal` stops the jump where it is and rejects with the abort reason. */
+  jump(cells: Cell[], generations: bigint, rule: string, topology: string, signal?: AbortSignal): Promise<EngineResult>;
+}
+
+function patchBoard(board: Map<string, Cell>, births: Cell[], deaths: Cell[]): Map<string, Cell> {
+  const next = new Map(board);
+  for (const [x, y] of deaths) next.delete(`${x},${y}`);
+  for (const cell of births) next.set(`${cell[0]},${cell[1]}`, cell);
+  return next;
+}
+
+// 404: the server restarted or expired the session. 409: the session moved on
+// without us (a reply was lost). Either way a new session picks up from our board.
+const isLostSession = (e: unknown) => e instanceof ApiError && (e.status === 404 || e.status === 409);
+
+const isSessionMemoryFull = (e: unknown) => e instanceof ApiError && e.status === SESSION_MEMORY_FULL;
+
+/**
+ * Backend engine on a server-held session: the board is uploaded once, and each
+ * advance downloads only births and deaths. The session follows the board by
+ * identity — handing in any board other than the one this engine last returned
+ * (after an edit, a load, an undo) or another rule or topology starts a new session, and so
+ * does finding the session gone, so a server restart needs nothing from the user.
+ *
+ * When the server's session memory has no room for a board, that board and the
+ * ones advanced from it go through the stateless /simulate route instead; the
+ * next board from elsewhere tries a session again.
+ */
+export function createHttpEngine(): GameEngine {
+  let session: { id: string; board: Map<string, Cell>; rule: string; topology: string; generation: number } | null = null;
+  // The board last advanced without a session.
+  let stateless: Map<string, Cell> | null = null;
+
+  const close = () => {
+    if (!session) return;
+    const { id } = session;
+    session = null;
+    // Best effort: an abandoned session also expires on the server by itself.
+    api.deleteSession(id).catch(() => {});
+  };
+
+  const advanceStateless = async (board: Map<string, Cell>, generations: number, rule: string, topology: string, signal?: AbortSignal): Promise<EngineStep> => {
+    const result = await api.simulate(Array.from(board.values()), generations, rule, topology, { signal });
+    const next = cellsToMap(result.cells);
+    stateless = next;
+    const { added, removed } = diffCellMaps(board, next);
+    return { board: next, births: added, deaths: removed, correlationId: result.correlationId };
+  };
+
+  const fallBack = (e: unknown, board: Map<string, Cell>, generations: number, rule: string, topology: string, signal?: AbortSignal) => {
+    logger.info('Server session memory is full, advancing without a session', { cellCount: board.size, error: e instanceof Error ? e.message : String(e) });
+    close();
+    return advanceStateless(board, generations, rule, topology, signal);
+  };
+
+  return {
+    kind: 'remote',
+    async advance(board, generations, rule, topology, signal) {
+      if (board === stateless) return advanceStateless(board, generations, rule, topology, signal);
+      stateless = null;
+      for (let attempt = 0; ; attempt++) {
+        if (!session || session.board !== board || session.rule !== rule || session.topology !== topology) {
+          close();
+          try {
+            const { sessionId } = await api.createSession(Array.from(board.values()), rule, topology, { signal });
+            session = { id: sessionId, board, rule, topology, generation: 0 };
+          } catch (e) {
+            if (!isSessionMemoryFull(e)) throw e;
+            return fallBack(e, board, generations, rule, topology, signal);
+          }
+        }
+        const current = session;
+        try {
+          const delta = await api.advanceSession(current.id, current.generation, generations, { signal });
+          const next = patchBoard(board, delta.births, delta.deaths);
+          // Unless a newer board took over the session while this request was out.
+          if (session === current) session = { ...current, board: next, generation: delta.generation };
+          const { added, removed } = diffDelta(board, delta.births, delta.deaths);
+          return { board: next, births: added, deaths: removed, correlationId: delta.correlationId };
+        } catch (e) {
+          // The board outgrew the room left, so the session is of no more use.
+          if (isSessionMemoryFull(e)) return fallBack(e, board, generations, rule, topology, signal);
+          if (attempt > 0 || !isLostSession(e)) throw e;
+          logger.info('Simulation session lost, creating a new one', { error: e instanceof Error ? e.message : String(e) });
+          if (session === current) session = null;
+        }
+      }
+    },
+    dispose: close,
+  };
+}
+
+/**
+ * Whether an engine error means the backend is down (network failure, timeout,
+ * 5xx, rate limiting) rather than a request it rejected, one we cancelled or a
+ * full session memory — only the former fails over.
+ */
+export function isServerUnavailable(e: unknown): boolean {
+  if (isAbortError(e)) return false;
+  if (!(e instanceof ApiError)) return true;
+  return (e.status >= 500 && e.status !== SESSION_MEMORY_FULL) || e.status === 429;
+}
+
+// Distributive Omit keeps each request variant's own `generations` type.
+type Unsent<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+interface WorkerChannel {
+  send(request: Unsent<EngineRequest>): Promise<EngineResult>;
+  /** Stops the worker; whatever it was still working on rejects with `reason`. */
+  terminate(reason: unknown): void;
+}
+
+/** A workers/lifeWorker.ts instance; requests are matched to replies by id. */
+function openLifeWorker(): WorkerChannel {
+  const worker = new Worker(new URL('../workers/lifeWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (r: EngineResult) => void; reject: (e: unknown) => void }>();
+  let nextId = 0;
+
+  worker.onmessage = (e: MessageEvent<EngineResponse>) => {
+    const entry = pending.get(e.data.id);
+    if (!entry) return;
+    pending.delete(e.data.id);
+    if ('error' in e.data) entry.reject(new Error(e.data.error));
+    else entry.resolve({ cells: e.data.cells });
+  };
+
+  worker.onerror = (e) => {
+    // A crashed worker cannot answer anything still in flight.
+    for (const entry of pending.values()) entry.reject(new Error(`Local engine failed: ${e.message}`));
+    pending.clear();
+  };
+
+  return {
+    send: (request) =>
+      new Promise<EngineResult>((resolve, reject) => {
+        const id = ++nextId;
+        pending.set(id, { resolve, reject });
+        worker.postMessage({ ...request, id });
+      }),
+    terminate: (reason) => {
+      worker.terminate();
+      for (const entry of pending.values()) entry.reject(reason);
+      pending.clear();
+    },
+  };
+}
+
+/**
+ * Local engine on Web Workers. Jumps run on a worker of their own: one can take
+ * a long time, and the only way to stop it is to terminate its worker, which
+ * must not take the step worker's requests with it.
+ */
+export function createWorkerEngine(): LocalEngine {
+  const stepper = openLifeWorker();
+  let jumper: WorkerChannel | null = null;
+
+  return {
+    kind: 'local',
+    advance: async (board, generations, rule, topology) => {
+      const result = await stepper.send({ type: 'simulate', cells: Array.from(board.values()), generations, rule, topology });
+      const next = cellsToMap(result.cells);
+      const { added, removed } = diffCellMaps(board, next);
+      return { board: next, births: added, deaths: removed };
+    },
+    jump: async (cells, generations, rule, topology, signal) => {
+      signal?.throwIfAborted();
+      const channel = jumper ??= openLifeWorker();
+      const cancel = () => {
+        // The next jump starts a fresh worker (and a fresh HashLife memo).
+        if (jumper === channel) jumper = null;
+        channel.terminate(signal?.reason);
+      };
+      signal?.addEventListener('abort', cancel, { once: true });
+      try {
+        return await channel.send({ type: 'jump', cells, generations, rule, topology });
+      } finally {
+        signal?.removeEventListener('abort', cancel);
+      }
+    },
+    dispose: () => {
+      const reason = new Error('Local engine was disposed.');
+      stepper.terminate(reason);
+      jumper?.terminate(reason);
+      jumper = null;
+    },
+  };
+}
@@ -0,0 +1,353 @@
+import type { Cell } from './api';
+import { LONG_MIN, LONG_MAX, MAX_PATTERN_CELLS, boundingBox } from './patternFormats';
+import { nextState, type LifeRule } from './rules';
+
+/**
+ * HashLife: the pattern is stored as a canonical (hash-consed) quadtree, and the
+ * result of advancing each node is memoised, so repetitive patterns can jump
+ * 2^k generations in roughly O(k) node evaluations. Positions are BigInt, so
+ * the quadtree can cover the whole 64-bit plane and beyond.
+ *
+ * Like the step-by-step engines, HashLife treats the 64-bit limits as a hard
+ * wall: nothing is born outside them. Nodes wholly inside the plane advance
+ * through the shared memo; a node the wall cuts through is advanced by
+ * `clippedSuccessor`, which clears the cells outside after every generation.
+ */
+
+interface Node {
+  readonly id: number;
+  /** The node covers a 2^level × 2^level square; level 0 is a single cell. */
+  readonly level: number;
+  readonly population: number;
+  readonly nw: Node | null;
+  readonly ne: Node | null;
+  readonly sw: Node | null;
+  readonly se: Node | null;
+  /** Memoised successors, keyed by log2 of the number of generations advanced. */
+  results?: Map<number, Node>;
+}
+
+interface Universe {
+  rule: LifeRule;
+  table: Map<string, Node>;
+  nextId: number;
+  dead: Node;
+  alive: Node;
+  empties: Node[];
+}
+
+// Above this many canonical nodes the universe is discarded before the next jump,
+// which bounds memory at the cost of recomputing memoised results. A single jump
+// that needs more fails with a NodeLimitError.
+const MAX_NODES = 1_000_000;
+
+class NodeLimitError extends Error {
+  constructor() {
+    super(`The jump needs more than ${MAX_NODES} quadtree nodes; try fewer generations or a smaller pattern.`);
+    this.name = 'NodeLimitError';
+  }
+}
+
+let universe: Universe | null = null;
+
+function getUniverse(rule: LifeRule): Universe {
+  if (
+    universe &&
+    universe.rule.birth === rule.birth &&
+    universe.rule.survival === rule.survival &&
+    universe.table.size < MAX_NODES
+  ) {
+    return universe;
+  }
+  const dead: Node = { id: 0, level: 0, population: 0, nw: null, ne: null, sw: null, se: null };
+  const alive: Node = { id: 1, level: 0, population: 1, nw: null, ne: null, sw: null, se: null };
+  universe = { rule, table: new Map(), nextId: 2, dead, alive, empties: [dead] };
+  return universe;
+}
+
+function join(u: Universe, nw: Node, ne: Node, sw: Node, se: Node): Node {
+  const key = `${nw.id},${ne.id},${sw.id},${se.id}`;
+  let node = u.table.get(key);
+  if (!node) {
+    if (u.table.size >= MAX_NODES) throw new NodeLimitError();
+    node = {
+      id: u.nextId++,
+      level: nw.level + 1,
+      population: nw.population + ne.population + sw.population + se.population,
+      nw, ne, sw, se,
+    };
+    u.table.set(key, node);
+  }
+  return node;
+}
+
+function empty(u: Universe, level: number): Node {
+  for (let l = u.empties.length; l <= level; l++) {
+    const e = u.empties[l - 1];
+    u.empties.push(join(u, e, e, e, e));
+  }
+  return u.empties[level];
+}
+
+// Non-leaf accessors — every node above level 0 has all four children.
+function nw(n: Node): Node { return n.nw as Node; }
+function ne(n: Node): Node { return n.ne as Node; }
+function sw(n: Node): Node { return n.sw as Node; }
+function se(n: Node): Node { return n.se as Node; }
+
+/** The level-(k-1) square at the centre of a level-k node. */
+function centre(u: Universe, n: Node): Node {
+  return join(u, se(nw(n)), sw(ne(n)), ne(sw(n)), nw(se(n)));
+}
+
+/** Base case: the centre 2×2 of a 4×4 node, one generation later. */
+function baseStep(u: Universe, n: Node): Node {
+  const grid: number[][] = [[], [], [], []];
+  const quads: [Node, number, number][] = [[nw(n), 0, 0], [ne(n), 2, 0], [sw(n), 0, 2], [se(n), 2, 2]];
+  for (const [q, qx, qy] of quads) {
+    grid[qy][qx] = nw(q).population;
+    grid[qy][qx + 1] = ne(q).population;
+    grid[qy + 1][qx] = sw(q).population;
+    grid[qy + 1][qx + 1] = se(q).population;
+  }
+  const cell = (x: number, y: number): Node => {
+    let count = 0;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (dx !== 0 || dy !== 0) count += grid[y + dy][x + dx];
+      }
+    }
+    return nextState(u.rule, grid[y][x] === 1, count) ? u.alive : u.dead;
+  };
+  return join(u, cell(1, 1), cell(2, 1), cell(1, 2), cell(2, 2));
+}
+
+/**
+ * The centre level-(k-1) square of a level-k node, advanced 2^j generations
+ * (0 ≤ j ≤ k-2). With j = k-2 both halves of the recursion advance
+ * ("superspeed"); smaller j takes the first half without advancing.
+ */
+function successor(u: Universe, n: Node, j: number): Node {
+  if (n.population === 0) return empty(u, n.level - 1);
+  const cached = n.results?.get(j);
+  if (cached) return cached;
+
+  let result: Node;
+  if (n.level === 2) {
+    result = baseStep(u, n);
+  } else {
+    const fast = j === n.level - 2;
+    const g = [
+      [nw(nw(n)), ne(nw(n)), nw(ne(n)), ne(ne(n))],
+      [sw(nw(n)), se(nw(n)), sw(ne(n)), se(ne(n))],
+      [nw(sw(n)), ne(sw(n)), nw(se(n)), ne(se(n))],
+      [sw(sw(n)), se(sw(n)), sw(se(n)), se(se(n))],
+    ];
+    const r: Node[][] = [[], [], []];
+    for (let i = 0; i < 3; i++) {
+      for (let c = 0; c < 3; c++) {
+        const combo = join(u, g[i][c], g[i][c + 1], g[i + 1][c], g[i + 1][c + 1]);
+        r[i][c] = fast ? successor(u, combo, j - 1) : centre(u, combo);
+      }
+    }
+    const step = fast ? j - 1 : j;
+    const quad = (i: number, c: number) =>
+      successor(u, join(u, r[i][c], r[i][c + 1], r[i + 1][c], r[i + 1][c + 1]), step);
+    result = join(u, quad(0, 0), quad(0, 1), quad(1, 0), quad(1, 1));
+  }
+
+  (n.results ??= new Map()).set(j, result);
+  return result;
+}
+
+// Where the wall cuts a node: how many of its columns lie left of LONG_MIN and
+// right of LONG_MAX, and the same for its rows.
+function wallKey(n: Node, j: number, x: bigint, y: bigint): string | null {
+  const size = 1n << BigInt(n.level);
+  const cut = (lo: bigint): [bigint, bigint] => {
+    const before = LONG_MIN - lo;
+    const after = lo + size - 1n - LONG_MAX;
+    return [before < 0n ? 0n : before > size ? size : before, after < 0n ? 0n : after > size ? size : after];
+  };
+  const [left, right] = cut(x);
+  const [top, bottom] = cut(y);
+  if (left === 0n && right === 0n && top === 0n && bottom === 0n) return null;
+  return `${n.id}/${j}/${left},${right},${top},${bottom}`;
+}
+
+/**
+ * `successor` for the node at (x, y), with the cells outside the 64-bit plane
+ * cleared after every generation. Below the wall's nodes the shared memo takes
+ * over again; the wall's own are memoised in `memo` by where the wall cuts
+ * them, which repeats all along it.
+ */
+function clippedSuccessor(u: Universe, n: Node, j: number, x: bigint, y: bigint, memo: Map<string, Node>): Node {
+  if (n.population === 0) return empty(u, n.level - 1);
+  const key = wallKey(n, j, x, y);
+  if (key === null) return successor(u, n, j);
+  const cached = memo.get(key);
+  if (cached) return cached;
+
+  let result: Node;
+  if (n.level === 2) {
+    const step = baseStep(u, n);
+    const inPlane = (cx: bigint, cy: bigint) => cx >= LONG_MIN && cx <= LONG_MAX && cy >= LONG_MIN && cy <= LONG_MAX;
+    const keep = (c: Node, cx: bigint, cy: bigint) => (inPlane(cx, cy) ? c : u.dead);
+    result = join(
+      u,
+      keep(nw(step), x + 1n, y + 1n),
+      keep(ne(step), x + 2n, y + 1n),
+      keep(sw(step), x + 1n, y + 2n),
+      keep(se(step), x + 2n, y + 2n),
+    );
+  } else {
+    // The same recursion as successor, with the position of every part.
+    const fast = j === n.level - 2;
+    const q = 1n << BigInt(n.level - 2);
+    const half = q / 2n;
+    const g = [
+      [nw(nw(n)), ne(nw(n)), nw(ne(n)), ne(ne(n))],
+      [sw(nw(n)), se(nw(n)), sw(ne(n)), se(ne(n))],
+      [nw(sw(n)), ne(sw(n)), nw(se(n)), ne(se(n))],
+      [sw(sw(n)), se(sw(n)), sw(se(n)), se(se(n))],
+    ];
+    const r: Node[][] = [[], [], []];
+    for (let i = 0; i < 3; i++) {
+      for (let c = 0; c < 3; c++) {
+        const combo = join(u, g[i][c], g[i][c + 1], g[i + 1][c], g[i + 1][c + 1]);
+        const cx = x + BigInt(c) * q;
+        const cy = y + BigInt(i) * q;
+        r[i][c] = fast ? clippedSuccessor(u, combo, j - 1, cx, cy, memo) : centre(u, combo);
+      }
+    }
+    const step = fast ? j - 1 : j;
+    const quad = (i: number, c: number) => clippedSuccessor(
+      u,
+      join(u, r[i][c], r[i][c + 1], r[i + 1][c], r[i + 1][c + 1]),
+      step,
+      x + half + BigInt(c) * q,
+      y + half + BigInt(i) * q,
+      memo,
+    );
+    result = join(u, quad(0, 0), quad(0, 1), quad(1, 0), quad(1, 1));
+  }
+
+  memo.set(key, result);
+  return result;
+}
+
+/** Wraps the root in a ring of empty space, doubling its size around the same centre. */
+function expand(u: Universe, root: Node): Node {
+  const e = empty(u, root.level - 1);
+  return join(
+    u,
+    join(u, e, e, e, nw(root)),
+    join(u, e, e, ne(root), e),
+    join(u, e, sw(root), e, e),
+    join(u, se(root), e, e, e),
+  );
+}
+
+/** Whether every live cell lies in the centre level-(k-1) square. */
+function fitsInCentre(root: Node): boolean {
+  return nw(root).population === se(nw(root)).population
+    && ne(root).population === sw(ne(root)).population
+    && sw(root).population === ne(sw(root)).population
+    && se(root).population === nw(se(root)).population;
+}
+
+function build(u: Universe, cells: Cell[], level: number, x0: bigint, y0: bigint): Node {
+  if (cells.length === 0) return empty(u, level);
+  if (level === 0) return u.alive;
+  const half = 1n << BigInt(level - 1);
+  const quads: Cell[][] = [[], [], [], []];
+  for (const cell of cells) {
+    const right = cell[0] >= x0 + half ? 1 : 0;
+    const bottom = cell[1] >= y0 + half ? 2 : 0;
+    quads[right + bottom].push(cell);
+  }
+  return join(
+    u,
+    build(u, quads[0], level - 1, x0, y0),
+    build(u, quads[1], level - 1, x0 + half, y0),
+    build(u, quads[2], level - 1, x0, y0 + half),
+    build(u, quads[3], level - 1, x0 + half, y0 + half),
+  );
+}
+
+function collect(node: Node, x: bigint, y: bigint, out: Cell[]): void {
+  if (node.population === 0) return;
+  if (node.level === 0) {
+    out.push([x, y]);
+    return;
+  }
+  const half = 1n << BigInt(node.level - 1);
+  collect(nw(node), x, y, out);
+  collect(ne(node), x + half, y, out);
+  collect(sw(node), x, y + half, out);
+  collect(se(node), x + half, y + half, out);
+}
+
+/**
+ * Advances `cells` by `generations` under `rule` with HashLife. The jump is split
+ * into power-of-two steps (one per set bit of `generations`), each run at superspeed.
+ * Throws if the resulting pattern has more cells than the app can hold, or if the
+ * jump needs more quadtree nodes than MAX_NODES.
+ */
+export function hashLifeAdvance(cells: Cell[], generations: bigint, rule: LifeRule): Cell[] {
+  if (generations < 0n) throw new Error('Generations must not be negative.');
+  if (cells.length === 0 || generations === 0n) return cells;
+
+  const u = getUniverse(rule);
+  const reused = u.table.size > 0;
+  try {
+    return advance(u, cells, generations);
+  } catch (e) {
+    if (!reused || !(e instanceof NodeLimitError)) throw e;
+    // Earlier jumps' nodes filled the table; try again with this jump's alone.
+    universe = null;
+    return advance(getUniverse(rule), cells, generations);
+  }
+}
+
+function advance(u: Universe, cells: Cell[], generations: bigint): Cell[] {
+  const { minX, maxX, minY, maxY } = boundingBox(cells);
+  const size = (maxX - minX > maxY - minY ? maxX - minX : maxY - minY) + 1n;
+  let level = 3;
+  while ((1n << BigInt(level)) < size) level++;
+
+  let root = build(u, cells, level, minX, minY);
+  let originX = minX;
+  let originY = minY;
+  const wallMemo = new Map<string, Node>();
+
+  for (let j = 0; generations >> BigInt(j) > 0n; j++) {
+    if (((generations >> BigInt(j)) & 1n) === 0n) continue;
+    // Grow until the pattern sits in the centre with a margin of at least 2^j cells
+    // on every side, so nothing it can reach in 2^j generations falls outside.
+    while (root.level < j + 3 || !fitsInCentre(root)) {
+      const shift = 1n << BigInt(root.level - 1);
+      root = expand(u, root);
+      originX -= shift;
+      originY -= shift;
+    }
+    const shift = 1n << BigInt(root.level - 1);
+    root = expand(u, root);
+    originX -= shift;
+    originY -= shift;
+
+    const quarter = 1n << BigInt(root.level - 2);
+    root = clippedSuccessor(u, root, j, originX, originY, wallMemo);
+    originX += quarter;
+    originY += quarter;
+  }
+
+  if (root.population > MAX_PATTERN_CELLS) {
+    throw new Error(
+      `The pattern grows to ${root.population} cells, more than the ${MAX_PATTERN_CELLS} that can be displayed.`,
+    );
+  }
+  const out: Cell[] = [];
+  collect(root, originX, originY, out);
+  return out;
+}
@@ -0,0 +1,170 @@
+import { cellState, type Cell } from './api';
+
+/**
+ * Undo/redo history for the board. Each entry stores only the cells an action
+ * added and removed, not the whole board, so stepping a pattern near the
+ * 1,000,000-cell limit costs a few thousand cells per entry rather than a million.
+ */
+
+export interface HistoryEntry {
+  /** What the action was, for button tooltips ("Undo step"). */
+  label: string;
+  /**
+   * Cells as they are after the action and were before it. A cell that only
+   * changed state (a dying cell under a Generations rule) is in both.
+   */
+  added: Cell[];
+  removed: Cell[];
+  fromGeneration: bigint;
+  toGeneration: bigint;
+  /** Set when the action also changed the rule (e.g. a pattern file naming its rule). */
+  fromRule?: string;
+  toRule?: string;
+  /** Set when the action also changed the universe (e.g. opening a link to a torus board). */
+  fromTopology?: string;
+  toTopology?: string;
+}
+
+export interface History {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  /** Cells stored across all entries, past and future. */
+  size: number;
+}
+
+export const MAX_HISTORY_ENTRIES = 500;
+// Oldest entries are dropped beyond this many stored cells. The newest entry is
+// always kept, so even loading over a full board can be undone.
+export const MAX_HISTORY_CELLS = 2_000_000;
+
+export function emptyHistory(): History {
+  return { past: [], future: [], size: 0 };
+}
+
+function entrySize(entry: HistoryEntry): number {
+  return entry.added.length + entry.removed.length;
+}
+
+const sameCell = (a: Cell | undefined, b: Cell | undefined) =>
+  a === b || (a !== undefined && b !== undefined && cellState(a) === cellState(b));
+
+/** Cells in `after` but not as they were in `before`, and in `before` but not as they are in `after`. */
+export function diffCellMaps(
+  before: Map<string, Cell>,
+  after: Map<string, Cell>,
+): { added: Cell[]; removed: Cell[] } {
+  const added: Cell[] = [];
+  const removed: Cell[] = [];
+  for (const [key, cell] of after) if (!sameCell(before.get(key), cell)) added.push(cell);
+  for (const [key, cell] of before) if (!sameCell(after.get(key), cell)) removed.push(cell);
+  return { added, removed };
+}
+
+/**
+ * The added and removed cells of a step reported as births (cells that took a
+ * new state) and deaths (cells that are gone), as server sessions report them:
+ * what `board` had at each of those cells is what the step removed.
+ */
+export function diffDelta(board: Map<string, Cell>, births: Cell[], deaths: Cell[]): { added: Cell[]; removed: Cell[] } {
+  const removed: Cell[] = [];
+  for (const [x, y] of [...deaths, ...births]) {
+    const before = board.get(`${x},${y}`);
+    if (before) removed.push(before);
+  }
+  return { added: births, removed };
+}
+
+function patch(map: Map<string, Cell>, add: Cell[], remove: Cell[]): Map<string, Cell> {
+  const next = new Map(map);
+  for (const [x, y] of remove) next.delete(`${x},${y}`);
+  for (const cell of add) next.set(`${cell[0]},${cell[1]}`, cell);
+  return next;
+}
+
+/** Re-applies an entry to the board it was recorded from. */
+export function applyEntry(map: Map<string, Cell>, entry: HistoryEntry): Map<string, Cell> {
+  return patch(map, entry.added, entry.removed);
+}
+
+/** Undoes an entry on the board it produced. */
+export function revertEntry(map: Map<string, Cell>, entry: HistoryEntry): Map<string, Cell> {
+  return patch(map, entry.removed, entry.added);
+}
+
+function byKey(cells: Cell[]): Map<string, Cell> {
+  return new Map(cells.map((c) => [`${c[0]},${c[1]}`, c]));
+}
+
+/** One entry with the net effect of `first` followed by `second`. */
+export function mergeEntries(first: HistoryEntry, second: HistoryEntry): HistoryEntry {
+  const firstAdded = byKey(first.added);
+  const firstRemoved = byKey(first.removed);
+  const secondAdded = byKey(second.added);
+  const secondRemoved = byKey(second.removed);
+  const added: Cell[] = [];
+  const removed: Cell[] = [];
+  for (const key of new Set([...firstAdded.keys(), ...firstRemoved.keys(), ...secondAdded.keys(), ...secondRemoved.keys()])) {
+    // What the cell was before `first` and is after `second`; undefined when empty.
+    const before = firstRemoved.get(key) ?? (firstAdded.has(key) ? undefined : secondRemoved.get(key));
+    const after = secondAdded.get(key) ?? (secondRemoved.has(key) ? undefined : firstAdded.get(key));
+    if (sameCell(before, after)) continue;
+    if (after) added.push(after);
+    if (before) removed.push(before);
+  }
+  return {
+    label: second.label,
+    added,
+    removed,
+    fromGeneration: first.fromGeneration,
+    toGeneration: second.toGeneration,
+    fromRule: first.fromRule ?? second.fromRule,
+    toRule: second.toRule ?? first.toRule,
+    fromTopology: first.fromTopology ?? second.fromTopology,
+    toTopology: second.toTopology ?? first.toTopology,
+  };
+}
+
+/**
+ * Records a new action: clears the redo stack and evicts the oldest entries
+ * beyond the entry and cell limits. Actions that changed nothing are skipped.
+ * With `coalesce`, an entry with the same label as the newest one is merged
+ * into it, so dragging the timeline scrubber is undone in one go.
+ */
+export function pushEntry(history: History, entry: HistoryEntry, coalesce = false): History {
+  const top = history.past.at(-1);
+  if (coalesce && top && top.label === entry.label) {
+    return pushEntry({ ...history, past: history.past.slice(0, -1) }, mergeEntries(top, entry));
+  }
+  if (entrySize(entry) === 0 && entry.fromGeneration === entry.toGeneration
+      && entry.fromRule === entry.toRule && entry.fromTopology === entry.toTopology) {
+    return history;
+  }
+  const past = [...history.past, entry];
+  let size = past.reduce((sum, e) => sum + entrySize(e), 0);
+  let drop = 0;
+  while (past.length - drop > 1 && (past.length - drop > MAX_HISTORY_ENTRIES || size > MAX_HISTORY_CELLS)) {
+    size -= entrySize(past[drop]);
+    drop++;
+  }
+  return { past: past.slice(drop), future: [], size };
+}
+
+/** Moves the newest entry to the redo stack; null when there is nothing to undo. */
+export function undoEntry(history: History): { history: History; entry: HistoryEntry } | null {
+  const entry = history.past.at(-1);
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, entry], size: history.size },
+    entry,
+  };
+}
+
+/** Moves the most recently undone entry back; null when there is nothing to redo. */
+export function redoEntry(history: History): { history: History; entry: HistoryEntry } | null {
+  const entry = history.future.at(-1);
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(0, -1), size: history.size },
+    entry,
+  };
+}
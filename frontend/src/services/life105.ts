@@ -0,0 +1,129 @@
+import type { Cell } from './api';
+import {
+  MAX_PATTERN_CELLS,
+  assertInLongRange,
+  boundingBox,
+  renderRows,
+  type ParsedPattern,
+  type PatternMetadata,
+} from './patternFormats';
+
+/**
+ * Life 1.05 pattern format: "*"/"." blocks, each placed by a "#P x y" line
+ * giving the block's top-left cell.
+ *
+ *   #Life 1.05
+ *   #D A comment
+ *   #N
+ *   #P -1 -1
+ *   .*.
+ *   ..*
+ *   ***
+ *
+ * Block offsets are BigInt, so blocks placed near ±2^63 load and export exactly.
+ */
+
+const HEADER = '#Life 1.05';
+// Exported blocks are cut on an aligned grid of this many cells per side, which
+// keeps every line well under the format's 80-character limit and never draws
+// the empty space between distant blocks.
+const BLOCK_SIZE = 32n;
+
+// Life 1.05 writes rules as "#R survival/birth"; the rest of the app uses B/S notation.
+function fromSurvivalBirth(text: string): string | undefined {
+  const match = /^(\d*)\/(\d*)$/.exec(text.trim());
+  return match ? `B${match[2]}/S${match[1]}` : undefined;
+}
+
+function toSurvivalBirth(rule: string): string | undefined {
+  const match = /^B(\d*)\/S(\d*)$/i.exec(rule.trim());
+  return match ? `${match[2]}/${match[1]}` : undefined;
+}
+
+/** Parses Life 1.05 text into cells. Throws an Error describing the first problem found. */
+export function parseLife105(content: string): ParsedPattern {
+  const comments: string[] = [];
+  const cells: Cell[] = [];
+  let rule: string | undefined;
+  let blockX = 0n;
+  let blockY = 0n;
+  let row = 0n;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    if (line.startsWith('#')) {
+      const tag = line.charAt(1);
+      const text = line.slice(2).trim();
+      if (tag === 'D' || tag === 'C') comments.push(text);
+      else if (tag === 'N') rule = 'B3/S23';
+      else if (tag === 'R') rule = fromSurvivalBirth(text) ?? text;
+      else if (tag === 'P') {
+        const match = /^(-?\d+)\s+(-?\d+)$/.exec(text);
+        if (!match) throw new Error(`Invalid block position "${line}".`);
+        blockX = BigInt(match[1]);
+        blockY = BigInt(match[2]);
+        row = 0n;
+      }
+      continue;
+    }
+
+    for (let col = 0; col < line.length; col++) {
+      const ch = line[col];
+      if (ch === '.') continue;
+      if (ch !== '*') throw new Error(`Unexpected character "${ch}" in Life 1.05 block.`);
+      if (cells.length >= MAX_PATTERN_CELLS) {
+        throw new Error(`Pattern exceeds the maximum of ${MAX_PATTERN_CELLS} cells.`);
+      }
+      const x = blockX + BigInt(col);
+      const y = blockY + row;
+      assertInLongRange(x, y);
+      cells.push([x, y]);
+    }
+    row++;
+  }
+
+  return { cells, rule, comments };
+}
+
+// Floor division — BigInt "/" truncates toward zero, which would merge the
+// blocks on either side of 0 into one.
+function floorDiv(a: bigint, b: bigint): bigint {
+  const q = a / b;
+  return a % b !== 0n && (a < 0n) !== (b < 0n) ? q - 1n : q;
+}
+
+/** Serializes cells to Life 1.05, one "#P" block per occupied 32×32 tile. */
+export function serializeLife105(cells: Cell[], meta: PatternMetadata = {}): string {
+  const lines: string[] = [HEADER];
+  if (meta.name) lines.push(`#D Name: ${meta.name}`);
+  if (meta.author) lines.push(`#D Author: ${meta.author}`);
+  for (const c of meta.comments ?? []) lines.push(`#D ${c}`);
+  const rule = meta.rule ?? 'B3/S23';
+  const survivalBirth = toSurvivalBirth(rule);
+  lines.push(survivalBirth === '23/3' ? '#N' : `#R ${survivalBirth ?? rule}`);
+
+  const tiles = new Map<string, { tx: bigint; ty: bigint; cells: Cell[] }>();
+  for (const cell of cells) {
+    const tx = floorDiv(cell[0], BLOCK_SIZE);
+    const ty = floorDiv(cell[1], BLOCK_SIZE);
+    const key = `${tx},${ty}`;
+    const tile = tiles.get(key);
+    if (tile) tile.cells.push(cell);
+    else tiles.set(key, { tx, ty, cells: [cell] });
+  }
+
+  // Row-major tile order makes the output deterministic.
+  const ordered = [...tiles.values()].sort((a, b) =>
+    a.ty < b.ty ? -1 : a.ty > b.ty ? 1 : a.tx < b.tx ? -1 : a.tx > b.tx ? 1 : 0);
+
+  for (const tile of ordered) {
+    const { minX, maxX, minY, maxY } = boundingBox(tile.cells);
+    lines.push(`#P ${minX} ${minY}`);
+    lines.push(...renderRows(
+      tile.cells, minX, minY, Number(maxX - minX + 1n), Number(maxY - minY + 1n), '*', '.',
+    ).map((r) => r || '.'));
+  }
+  return lines.join('\n') + '\n';
+}
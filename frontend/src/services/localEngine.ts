@@ -0,0 +1,125 @@
+import { cellState, isAlive, type Cell } from './api';
+import { nextCellState, parseRule, type LifeRule } from './rules';
+import { PLANE_TOPOLOGY, inUniverse, neighborOf, normalizeTopology, parseTopology, type Topology } from './topology';
+import { hashLifeAdvance } from './hashlife';
+
+/**
+ * In-browser Game of Life engine. Pure functions only, so the same code runs
+ * on the main thread (optimistic prediction) and in workers/lifeWorker.ts
+ * (the local engine the hook fails over to when the backend is unreachable).
+ */
+
+/** Keys cells by "x,y" — the same Map shape useGameOfLife keeps its state in. */
+export function cellsToMap(cells: Cell[]): Map<string, Cell> {
+  const m = new Map<string, Cell>();
+  for (const cell of cells) m.set(`${cell[0]},${cell[1]}`, cell);
+  return m;
+}
+
+/** Live cells on a board; the rest of its cells are dying under a Generations rule. */
+export function countLiveCells(cellMap: Map<string, Cell>): number {
+  let count = 0;
+  for (const cell of cellMap.values()) if (isAlive(cell)) count++;
+  return count;
+}
+
+const CLIPPED_PLANE = parseTopology(PLANE_TOPOLOGY);
+
+// Runs a Life-like or Generations rule for one generation in `topology` (the
+// clipped 64-bit plane by default). Used on the main thread by stepForward for
+// optimistic prediction, and inside the Web Worker by the local engine.
+export function computeNextGeneration(
+  cellMap: Map<string, Cell>,
+  rule: LifeRule,
+  topology: Topology = CLIPPED_PLANE,
+): Map<string, Cell> {
+  const neighborCounts = new Map<string, { coord: Cell; count: number }>();
+
+  for (const cell of cellMap.values()) {
+    const [x, y] = cell;
+    // Only live cells are neighbours. Cells outside a bounded universe are dead, so they count for nothing.
+    if (!isAlive(cell) || !inUniverse(topology, x, y)) continue;
+    for (let dx = -1n; dx <= 1n; dx++) {
+      for (let dy = -1n; dy <= 1n; dy++) {
+        if (dx === 0n && dy === 0n) continue;
+        const neighbor = neighborOf(topology, x, y, dx, dy);
+        if (!neighbor) continue;
+        const [nx, ny] = neighbor;
+        const key = `${nx},${ny}`;
+        const entry = neighborCounts.get(key);
+        if (entry) entry.count++;
+        else neighborCounts.set(key, { coord: [nx, ny], count: 1 });
+      }
+    }
+  }
+
+  const next = new Map<string, Cell>();
+  // Births: only an empty cell can be born, so a dying cell blocks one.
+  for (const [key, { coord, count }] of neighborCounts) {
+    if (!cellMap.has(key) && nextCellState(rule, 0, count) !== 0) next.set(key, coord);
+  }
+  // Live cells survive or start dying; dying cells move on a state, or are gone.
+  for (const [key, cell] of cellMap) {
+    const [x, y] = cell;
+    if (!inUniverse(topology, x, y)) continue;
+    const state = cellState(cell);
+    const after = nextCellState(rule, state, neighborCounts.get(key)?.count ?? 0);
+    if (after === state) next.set(key, cell);
+    else if (after === 1) next.set(key, [x, y]);
+    else if (after !== 0) next.set(key, [x, y, after]);
+  }
+  return next;
+}
+
+/** Advances `cells` by `generations` under `rule` (rules.ts notation) in `topology` (topology.ts notation). */
+export function simulateLocally(cells: Cell[], generations: number, rule: string, topology = PLANE_TOPOLOGY): Cell[] {
+  const parsed = parseRule(rule);
+  const universe = parseTopology(topology);
+  let current = cellsToMap(cells);
+  for (let i = 0; i < generations && current.size > 0; i++) {
+    current = computeNextGeneration(current, parsed, universe);
+  }
+  return Array.from(current.values());
+}
+
+// HashLife only knows two-state rules on the clipped plane. Under a Generations
+// rule or in any other universe a jump is stepped generation by generation
+// instead, up to this many generations.
+export const MAX_STEPPED_JUMP = 10_000n;
+
+/**
+ * Message sent to the worker. BigInt cells survive structured cloning as-is.
+ * "simulate" steps generation by generation; "jump" uses HashLife for huge counts.
+ */
+export type EngineRequest =
+  | { id: number; type: 'simulate'; cells: Cell[]; generations: number; rule: string; topology: string }
+  | { id: number; type: 'jump'; cells: Cell[]; generations: bigint; rule: string; topology: string };
+
+function jumpLocally(cells: Cell[], generations: bigint, rule: string, topology: string): Cell[] {
+  const parsed = parseRule(rule);
+  if (parsed.states === 2 && normalizeTopology(topology) === PLANE_TOPOLOGY) {
+    // Cells left dying by an earlier Generations rule are no one's neighbour and gone in a generation.
+    return hashLifeAdvance(cells.filter(isAlive), generations, parsed);
+  }
+  if (generations > MAX_STEPPED_JUMP) {
+    const where = parsed.states > 2 ? `Under ${rule}` : `In ${topology}`;
+    throw new Error(`${where} a jump is stepped one generation at a time, so it is limited to ${MAX_STEPPED_JUMP} generations.`);
+  }
+  return simulateLocally(cells, Number(generations), rule, topology);
+}
+
+export type EngineResponse =
+  | { id: number; cells: Cell[] }
+  | { id: number; error: string };
+
+/** Worker-side handler, kept here so it can be tested without a Worker. */
+export function handleEngineRequest(req: EngineRequest): EngineResponse {
+  try {
+    const cells = req.type === 'jump'
+      ? jumpLocally(req.cells, req.generations, req.rule, req.topology)
+      : simulateLocally(req.cells, req.generations, req.rule, req.topology);
+    return { id: req.id, cells };
+  } catch (e) {
+    return { id: req.id, error: e instanceof Error ? e.message : String(e) };
+  }
+}
@@ -0,0 +1,31 @@
+import { LONG_MAX, LONG_MIN } from './patternFormats';
+
+/**
+ * Minimap projection: the whole 64-bit plane on one small square.
+ *
+ * A linear map of ±2^63 would put every pattern anyone draws on the centre
+ * pixel, so positions use a signed log scale around the origin instead:
+ * distance from the centre grows with the number of binary digits in the
+ * coordinate. A glider at the origin and one two trillion cells away land far
+ * apart, while the 64-bit boundary still fits inside the square.
+ */
+
+// log2 of just over 2^63, so the boundary sits a little inside the edge.
+const LOG_EXTENT = 64;
+
+/** Where a coordinate lands on the minimap, from -1 (left/top edge) to 1. */
+export function toMinimap(v: bigint): number {
+  const magnitude = Math.log2(1 + Math.abs(Number(v)));
+  return (v < 0n ? -magnitude : magnitude) / LOG_EXTENT;
+}
+
+/** The coordinate at minimap position `u` (-1 to 1), clamped to the 64-bit range. */
+export function fromMinimap(u: number): bigint {
+  const clamped = Math.max(-1, Math.min(1, u));
+  const magnitude = BigInt(Math.round(2 ** (Math.abs(clamped) * LOG_EXTENT) - 1));
+  const v = clamped < 0 ? -magnitude : magnitude;
+  return v < LONG_MIN ? LONG_MIN : v > LONG_MAX ? LONG_MAX : v;
+}
+
+/** Distances from the origin (10^3, 10^6 … 10^18) marked on the minimap to show the scale. */
+export const MINIMAP_SCALE_MARKS: bigint[] = [3n, 6n, 9n, 12n, 15n, 18n].map((e) => 10n ** e);
@@ -0,0 +1,115 @@
+import type { Cell } from './api';
+
+// 64-bit coordinate limits — match C# long.MinValue / long.MaxValue on the backend.
+export const LONG_MIN = -9223372036854775808n;
+export const LONG_MAX = 9223372036854775807n;
+
+// Same cap the backend enforces per request (GameController.MaxCells).
+export const MAX_PATTERN_CELLS = 1_000_000;
+
+export type PatternFormat = 'life106' | 'rle' | 'plaintext' | 'life105';
+
+/** Result of parsing a pattern file on the client. */
+export interface ParsedPattern {
+  cells: Cell[];
+  /** Rule string from the file header (e.g. "B3/S23"), if the format carries one. */
+  rule?: string;
+  /** Pattern name (#N in RLE), if present. */
+  name?: string;
+  /** Pattern author (#O in RLE), if present. */
+  author?: string;
+  /** Free-form comment lines, without their comment prefix. */
+  comments: string[];
+}
+
+/** Optional metadata written alongside the cells when serializing. */
+export interface PatternMetadata {
+  rule?: string;
+  name?: string;
+  author?: string;
+  comments?: string[];
+}
+
+export const PATTERN_FORMATS: Record<PatternFormat, { label: string; extension: string }> = {
+  life106: { label: 'Life 1.06', extension: '.life' },
+  rle:     { label: 'RLE',       extension: '.rle' },
+  plaintext: { label: 'Plaintext', extension: '.cells' },
+  life105: { label: 'Life 1.05', extension: '.lif' },
+};
+
+/** Extensions accepted by the file picker, e.g. ".life,.rle,.txt". */
+export const ACCEPTED_EXTENSIONS = [
+  ...new Set([...Object.values(PATTERN_FORMATS).map((f) => f.extension), '.txt']),
+].join(',');
+
+/**
+ * Guesses the format of a pattern file from its content.
+ * An explicit "#Life 1.06" / "#Life 1.05" header wins; an RLE "x = .." header line
+ * (or a Golly "#CXRLE" line) selects RLE; "!" comments or rows of "."/"O" select
+ * plaintext. Anything else falls back to Life 1.06, which keeps the previous
+ * behaviour for headerless coordinate lists.
+ */
+export function detectPatternFormat(content: string): PatternFormat {
+  // "#P x y" is a Life 1.05 block offset, but XLife-style RLE uses it too,
+  // so it only decides the format once the first pattern line has been seen.
+  let sawBlockOffset = false;
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (/^#Life\s+1\.06/i.test(line)) return 'life106';
+    if (/^#Life\s+1\.05/i.test(line)) return 'life105';
+    if (/^#CXRLE/i.test(line)) return 'rle';
+    if (/^#P\s/.test(line)) sawBlockOffset = true;
+    if (line.startsWith('!')) return 'plaintext';
+    if (line.startsWith('#')) continue;
+    // First non-comment line decides: RLE files always start with the size header.
+    if (/^x\s*=/i.test(line)) return 'rle';
+    if (sawBlockOffset) return 'life105';
+    return /^[.Oo*]+$/.test(line) ? 'plaintext' : 'life106';
+  }
+  return 'life106';
+}
+
+/** Throws if a parsed coordinate falls outside the 64-bit plane. */
+export function assertInLongRange(x: bigint, y: bigint): void {
+  if (x < LONG_MIN || x > LONG_MAX || y < LONG_MIN || y > LONG_MAX) {
+    throw new Error(`Cell (${x}, ${y}) is outside the 64-bit coordinate range.`);
+  }
+}
+
+/** Bounding box of a non-empty cell list, computed with BigInt so ±2^63 stays exact. */
+export function boundingBox(cells: Cell[]): { minX: bigint; maxX: bigint; minY: bigint; maxY: bigint } {
+  let [minX, minY] = cells[0];
+  let [maxX, maxY] = cells[0];
+  for (const [x, y] of cells) {
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    if (y > maxY) maxY = y;
+  }
+  return { minX, maxX, minY, maxY };
+}
+
+/**
+ * Renders the cells inside a box as text rows, one character per cell, with
+ * trailing dead cells trimmed. Callers must bound the box size first — this
+ * allocates width × height characters.
+ */
+export function renderRows(
+  cells: Cell[], minX: bigint, minY: bigint, width: number, height: number, live: string, dead: string,
+): string[] {
+  const rows: string[][] = Array.from({ length: height }, () => []);
+  for (const [x, y] of cells) {
+    const col = Number(x - minX);
+    const row = Number(y - minY);
+    if (col < 0 || col >= width || row < 0 || row >= height) continue;
+    rows[row][col] = live;
+  }
+  return rows.map((r) => Array.from(r, (c) => c ?? dead).join(''));
+}
+
+/** Sorts cells row-major (by y, then x) without BigInt subtraction. */
+export function sortRowMajor(cells: Cell[]): Cell[] {
+  return [...cells].sort((a, b) =>
+    a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0);
+}
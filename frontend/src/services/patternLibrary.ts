@@ -0,0 +1,115 @@
+import type { Cell } from './api';
+import { boundingBox } from './patternFormats';
+import { parseRle } from './rle';
+import type { Clip } from './selection';
+
+/**
+ * Built-in pattern catalog for the library panel. Patterns are stored as RLE
+ * bodies (the part after the "x = ..." header) and parsed on first use.
+ * All of them run under Conway's Life (B3/S23).
+ */
+
+export type PatternCategory =
+  | 'Still lifes'
+  | 'Oscillators'
+  | 'Spaceships'
+  | 'Guns'
+  | 'Methuselahs'
+  | 'Puffers';
+
+export const PATTERN_CATEGORIES: PatternCategory[] = [
+  'Still lifes',
+  'Oscillators',
+  'Spaceships',
+  'Guns',
+  'Methuselahs',
+  'Puffers',
+];
+
+export interface LibraryPattern {
+  id: string;
+  name: string;
+  category: PatternCategory;
+  description: string;
+  rle: string;
+}
+
+export const PATTERN_LIBRARY: LibraryPattern[] = [
+  // Still lifes
+  { id: 'block', name: 'Block', category: 'Still lifes', description: 'The most common still life.', rle: '2o$2o!' },
+  { id: 'beehive', name: 'Beehive', category: 'Still lifes', description: 'Six cells; the second most common still life.', rle: 'b2o$o2bo$b2o!' },
+  { id: 'loaf', name: 'Loaf', category: 'Still lifes', description: 'Seven-cell still life.', rle: 'b2o$o2bo$bobo$2bo!' },
+  { id: 'boat', name: 'Boat', category: 'Still lifes', description: 'The only five-cell still life.', rle: '2o$obo$bo!' },
+  { id: 'tub', name: 'Tub', category: 'Still lifes', description: 'Four cells around an empty centre.', rle: 'bo$obo$bo!' },
+  { id: 'ship', name: 'Ship', category: 'Still lifes', description: 'Six-cell still life.', rle: '2o$obo$b2o!' },
+  { id: 'pond', name: 'Pond', category: 'Still lifes', description: 'Eight-cell still life.', rle: 'b2o$o2bo$o2bo$b2o!' },
+  { id: 'eater-1', name: 'Eater 1', category: 'Still lifes', description: 'Eats gliders and other objects that hit it.', rle: '2o$obo$2bo$2b2o!' },
+
+  // Oscillators
+  { id: 'blinker', name: 'Blinker', category: 'Oscillators', description: 'Period 2; the smallest oscillator.', rle: '3o!' },
+  { id: 'toad', name: 'Toad', category: 'Oscillators', description: 'Period 2.', rle: 'b3o$3o!' },
+  { id: 'beacon', name: 'Beacon', category: 'Oscillators', description: 'Period 2.', rle: '2o$2o$2b2o$2b2o!' },
+  {
+    id: 'pulsar', name: 'Pulsar', category: 'Oscillators', description: 'Period 3.',
+    rle: '2b3o3b3o2$o4bobo4bo$o4bobo4bo$o4bobo4bo$2b3o3b3o2$2b3o3b3o$o4bobo4bo$o4bobo4bo$o4bobo4bo2$2b3o3b3o!',
+  },
+  { id: 'pentadecathlon', name: 'Pentadecathlon', category: 'Oscillators', description: 'Period 15.', rle: '2bo4bo$2ob4ob2o$2bo4bo!' },
+  {
+    id: 'kok-galaxy', name: "Kok's galaxy", category: 'Oscillators', description: 'Period 8.',
+    rle: '6ob2o$6ob2o$7b2o$2o5b2o$2o5b2o$2o5b2o$2o$2ob6o$2ob6o!',
+  },
+
+  // Spaceships
+  { id: 'glider', name: 'Glider', category: 'Spaceships', description: 'Moves diagonally at c/4.', rle: 'bo$2bo$3o!' },
+  { id: 'lwss', name: 'Lightweight spaceship', category: 'Spaceships', description: 'Moves orthogonally at c/2.', rle: 'bo2bo$o$o3bo$4o!' },
+  { id: 'mwss', name: 'Middleweight spaceship', category: 'Spaceships', description: 'Moves orthogonally at c/2.', rle: '3bo$bo3bo$o$o4bo$5o!' },
+  { id: 'hwss', name: 'Heavyweight spaceship', category: 'Spaceships', description: 'Moves orthogonally at c/2.', rle: '3b2o$bo4bo$o$o5bo$6o!' },
+
+  // Guns
+  {
+    id: 'gosper-gun', name: 'Gosper glider gun', category: 'Guns', description: 'Fires a glider every 30 generations.',
+    rle: '24bo$22bobo$12b2o6b2o12b2o$11bo3bo4b2o12b2o$2o8bo5bo3b2o$2o8bo3bob2o4bobo$10bo5bo7bo$11bo3bo$12b2o!',
+  },
+  {
+    id: 'simkin-gun', name: 'Simkin glider gun', category: 'Guns', description: 'Fires a glider every 120 generations.',
+    rle: '2o5b2o$2o5b2o2$4b2o$4b2o5$22b2ob2o$21bo5bo$21bo6bo2b2o$21b3o3bo3b2o$26bo4$20b2o$20bo$21b3o$23bo!',
+  },
+
+  // Methuselahs
+  { id: 'r-pentomino', name: 'R-pentomino', category: 'Methuselahs', description: 'Stabilizes after 1103 generations.', rle: 'b2o$2o$bo!' },
+  { id: 'diehard', name: 'Diehard', category: 'Methuselahs', description: 'Vanishes after 130 generations.', rle: '6bo$2o$bo3b3o!' },
+  { id: 'acorn', name: 'Acorn', category: 'Methuselahs', description: 'Seven cells that run for 5206 generations.', rle: 'bo$3bo$2o2b3o!' },
+  { id: 'thunderbird', name: 'Thunderbird', category: 'Methuselahs', description: 'Stabilizes after 243 generations.', rle: '3o2$bo$bo$bo!' },
+
+  // Puffers
+  {
+    id: 'puffer-train', name: 'Puffer train', category: 'Puffers', description: 'Moves at c/2 leaving a trail of debris.',
+    rle: '3bo$4bo$o3bo$b4o4$o$b2o$2bo$2bo$bo3$3bo$4bo$o3bo$b4o!',
+  },
+];
+
+const clips = new Map<string, Clip>();
+
+/** The pattern's cells with their bounding box's top-left at (0, 0), parsed once and cached. */
+export function patternClip(pattern: LibraryPattern): Clip {
+  let clip = clips.get(pattern.id);
+  if (!clip) {
+    const { cells } = parseRle(`x = 0, y = 0\n${pattern.rle}`);
+    const { minX, maxX, minY, maxY } = boundingBox(cells);
+    clip = {
+      cells: cells.map(([x, y]) => [x - minX, y - minY] as Cell),
+      width: maxX - minX + 1n,
+      height: maxY - minY + 1n,
+    };
+    clips.set(pattern.id, clip);
+  }
+  return clip;
+}
+
+/** Patterns whose name or description contains `query` (case-insensitive), optionally in one category. */
+export function searchPatterns(query: string, category?: PatternCategory): LibraryPattern[] {
+  const q = query.trim().toLowerCase();
+  return PATTERN_LIBRARY.filter((p) =>
+    (!category || p.category === category)
+    && (!q || p.name.toLowerCase().includes(q) || p.description.toLowerCase().includes(q)));
+}
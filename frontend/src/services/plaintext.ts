@@ -0,0 +1,89 @@
+import type { Cell } from './api';
+import {
+  MAX_PATTERN_CELLS,
+  boundingBox,
+  renderRows,
+  type ParsedPattern,
+  type PatternMetadata,
+} from './patternFormats';
+
+/**
+ * Plaintext (.cells) pattern format, as used by the LifeWiki pattern catalog.
+ *
+ *   !Name: Glider
+ *   !A comment
+ *   .O.
+ *   ..O
+ *   OOO
+ *
+ * The format has no position field: patterns load with their top-left cell at (0, 0).
+ */
+
+// Plaintext spends one character per cell of the bounding box, so exporting a
+// pattern spread across the 64-bit plane would produce an unbounded file.
+const MAX_PLAINTEXT_AREA = 4_000_000n;
+
+const EMPTY_PATTERN_COMMENT = '!Empty pattern';
+
+/**
+ * Parses plaintext into cells. "O" (and the common "*" variant) are alive, "." is dead;
+ * rows may be shorter than the pattern width. Throws an Error on unexpected characters.
+ */
+export function parsePlaintext(content: string): ParsedPattern {
+  const comments: string[] = [];
+  const cells: Cell[] = [];
+  let name: string | undefined;
+  let row = 0n;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\r$/, '');
+    if (line.startsWith('!')) {
+      const text = line.slice(1).trim();
+      const nameMatch = /^Name:\s*(.*)$/i.exec(text);
+      if (nameMatch) name = nameMatch[1];
+      else comments.push(text);
+      continue;
+    }
+
+    const body = line.trimEnd();
+    for (let col = 0; col < body.length; col++) {
+      const ch = body[col];
+      if (ch === '.') continue;
+      if (ch !== 'O' && ch !== 'o' && ch !== '*') {
+        throw new Error(`Unexpected character "${ch}" on plaintext row ${row + 1n}.`);
+      }
+      if (cells.length >= MAX_PATTERN_CELLS) {
+        throw new Error(`Pattern exceeds the maximum of ${MAX_PATTERN_CELLS} cells.`);
+      }
+      cells.push([BigInt(col), row]);
+    }
+    row++;
+  }
+
+  return { cells, name, comments };
+}
+
+/** Serializes cells to plaintext. Throws if the bounding box is too large to draw. */
+export function serializePlaintext(cells: Cell[], meta: PatternMetadata = {}): string {
+  const lines: string[] = [];
+  if (meta.name) lines.push(`!Name: ${meta.name}`);
+  if (meta.author) lines.push(`!Author: ${meta.author}`);
+  for (const c of meta.comments ?? []) lines.push(`!${c}`);
+  if (cells.length === 0) {
+    // An empty board still gets a line, so the export is a file rather than nothing.
+    if (lines.length === 0) lines.push(EMPTY_PATTERN_COMMENT);
+    return lines.join('\n') + '\n';
+  }
+
+  const { minX, maxX, minY, maxY } = boundingBox(cells);
+  const width = maxX - minX + 1n;
+  const height = maxY - minY + 1n;
+  if (width * height > MAX_PLAINTEXT_AREA) {
+    throw new Error(
+      `Pattern is too large for plaintext (${width} × ${height} cells); use RLE or Life 1.06 instead.`,
+    );
+  }
+
+  lines.push(...renderRows(cells, minX, minY, Number(width), Number(height), 'O', '.'));
+  return lines.join('\n') + '\n';
+}
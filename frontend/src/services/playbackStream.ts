@@ -0,0 +1,198 @@
+import * as api from './api';
+import { isAbortError, type Cell, type SessionDelta, type StreamControl } from './api';
+
+/**
+ * Streamed playback: the board is uploaded as a server session once, and the
+ * server then pushes one frame (the births and deaths of one generation) per
+ * interval over Server-Sent Events until the stream is closed. Pause, resume
+ * and speed changes go back as control messages on the same session.
+ *
+ * Flow control: frames are queued as they arrive and handed over together once
+ * per render, so a slow renderer sees fewer, bigger batches instead of a
+ * backlog. Rendered frames are acknowledged every ACK_EVERY generations, and
+ * the server sends no more than 16 frames past the last acknowledgement — a
+ * client that falls further behind holds the stream back instead of buffering.
+ */
+
+export type StreamFrame = SessionDelta;
+
+// Acknowledge every so many rendered frames: half the server's window, so a
+// client that keeps up never makes the server wait, at a few requests a second.
+export const ACK_EVERY = 8;
+
+export interface PlaybackStreamOptions {
+  cells: Cell[];
+  rule: string;
+  /** The universe, in topology.ts notation. */
+  topology: string;
+  intervalMs: number;
+  /** Frames received since the last call, oldest first; called at most once per render. */
+  onFrames: (frames: StreamFrame[]) => void;
+  /** Called once when the stream fails or the server ends it; never after close(). */
+  onError: (error: Error) => void;
+  /** Runs `render` before the next paint. Defaults to requestAnimationFrame. */
+  scheduleRender?: (render: () => void) => void;
+}
+
+export interface PlaybackStream {
+  pause(): void;
+  resume(): void;
+  setSpeed(intervalMs: number): void;
+  /** Stops the stream and deletes its session. Frames still queued are dropped. */
+  close(): void;
+}
+
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Splits the text received so far into complete events; `rest` is the start of
+ * an event still arriving. Comment lines (keep-alives) are skipped.
+ */
+export function parseEventStream(text: string): { events: ServerSentEvent[]; rest: string } {
+  const blocks = text.replace(/\r\n?/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events: ServerSentEvent[] = [];
+  for (const block of blocks) {
+    let event = 'message';
+    const data: string[] = [];
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+    if (data.length > 0) events.push({ event, data: data.join('\n') });
+  }
+  return { events, rest };
+}
+
+const defaultScheduleRender = (render: () => void) => {
+  if (typeof requestAnimationFrame === 'function') requestAnimationFrame(render);
+  else setTimeout(render, 0);
+};
+
+export function openPlaybackStream(options: PlaybackStreamOptions): PlaybackStream {
+  const { onFrames, onError, scheduleRender = defaultScheduleRender } = options;
+  const controller = new AbortController();
+  const { signal } = controller;
+
+  let sessionId: string | null = null;
+  let connected = false;
+  let closed = false;
+  // What the caller asked for, and what the server was last told.
+  let paused = false;
+  let intervalMs = options.intervalMs;
+  let serverPaused = paused;
+  let serverIntervalMs = intervalMs;
+
+  let queue: StreamFrame[] = [];
+  let renderScheduled = false;
+  let rendered = 0;
+  let acknowledged = 0;
+  let acking = false;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    controller.abort();
+    queue = [];
+    // Best effort: an abandoned session also expires on the server by itself.
+    if (sessionId) api.deleteSession(sessionId).catch(() => {});
+  };
+
+  const fail = (e: unknown) => {
+    if (closed || isAbortError(e)) return;
+    close();
+    onError(e instanceof Error ? e : new Error(String(e)));
+  };
+
+  const control = (message: StreamControl) => {
+    if (sessionId) api.controlSessionStream(sessionId, message, { signal }).catch(fail);
+  };
+
+  // Until the stream is open, changes only update what it will be opened with.
+  const sync = () => {
+    if (!connected || closed) return;
+    if (intervalMs !== serverIntervalMs) {
+      serverIntervalMs = intervalMs;
+      control({ type: 'speed', intervalMs });
+    }
+    if (paused !== serverPaused) {
+      serverPaused = paused;
+      control({ type: paused ? 'pause' : 'resume' });
+    }
+  };
+
+  // One acknowledgement in flight at a time; the next one carries the newest generation.
+  const acknowledge = () => {
+    if (acking || !sessionId || closed || rendered - acknowledged < ACK_EVERY) return;
+    acking = true;
+    const generation = rendered;
+    api.controlSessionStream(sessionId, { type: 'ack', generation }, { signal }).then(() => {
+      acknowledged = generation;
+      acking = false;
+      acknowledge();
+    }, fail);
+  };
+
+  const render = () => {
+    renderScheduled = false;
+    if (closed || queue.length === 0) return;
+    const frames = queue;
+    queue = [];
+    onFrames(frames);
+    rendered = frames[frames.length - 1].generation;
+    acknowledge();
+  };
+
+  const receive = (frame: StreamFrame) => {
+    queue.push(frame);
+    if (renderScheduled) return;
+    renderScheduled = true;
+    scheduleRender(render);
+  };
+
+  const run = async () => {
+    const created = await api.createSession(options.cells, options.rule, options.topology, { signal });
+    sessionId = created.sessionId;
+    serverPaused = paused;
+    serverIntervalMs = intervalMs;
+    const res = await api.openSessionStream(sessionId, intervalMs, paused, signal);
+    connected = true;
+    sync();
+
+    if (!res.body) throw new Error('The playback stream has no body.');
+    const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const { events, rest } = parseEventStream(buffered + value);
+      buffered = rest;
+      for (const event of events) {
+        if (event.event === 'frame') receive(api.parseStreamFrame(event.data));
+        else if (event.event === 'end') throw new Error('The server ended the playback stream: its session expired or outgrew the session memory.');
+      }
+    }
+    throw new Error('The playback stream closed unexpectedly.');
+  };
+
+  run().catch(fail);
+
+  return {
+    pause: () => {
+      paused = true;
+      sync();
+    },
+    resume: () => {
+      paused = false;
+      sync();
+    },
+    setSpeed: (ms) => {
+      intervalMs = ms;
+      sync();
+    },
+    close,
+  };
+}
@@ -0,0 +1,64 @@
+/**
+ * Population history for the chart: one sample per recorded generation, with
+ * the births and deaths of the step into it. Jumps of more than one generation
+ * (+10/+100, Go to generation) are recorded as a gap — the generations in
+ * between were never seen, so nothing is interpolated for them.
+ */
+
+export interface PopulationSample {
+  generation: bigint;
+  population: number;
+  /** Cells born and died on the single step into this generation; null after a jump or load. */
+  births: number | null;
+  deaths: number | null;
+  /** True when the previous sample is not the previous generation. */
+  gap: boolean;
+}
+
+export const MAX_POPULATION_SAMPLES = 100_000;
+
+/**
+ * Records the population at `generation`. As in the timeline, recording a
+ * generation at or before the newest sample forks the series there. Recording
+ * the newest generation again (an edit) updates its population only, so the
+ * births and deaths still describe the step that led to it.
+ */
+export function recordPopulation(
+  samples: PopulationSample[],
+  generation: bigint,
+  population: number,
+  step?: { births: number; deaths: number },
+): PopulationSample[] {
+  let n = samples.length;
+  while (n > 0 && samples[n - 1].generation > generation) n--;
+  const kept = samples.slice(0, n);
+  const last = kept.at(-1);
+  if (last && last.generation === generation) {
+    kept[n - 1] = {
+      ...last,
+      population,
+      births: step?.births ?? last.births,
+      deaths: step?.deaths ?? last.deaths,
+    };
+    return kept;
+  }
+  kept.push({
+    generation,
+    population,
+    births: step?.births ?? null,
+    deaths: step?.deaths ?? null,
+    gap: last !== undefined && generation !== last.generation + 1n,
+  });
+  return kept.length > MAX_POPULATION_SAMPLES ? kept.slice(kept.length - MAX_POPULATION_SAMPLES) : kept;
+}
+
+/** CSV with a header row; unknown births/deaths are left empty. */
+export function populationToCsv(samples: PopulationSample[]): string {
+  const rows = samples.map((s) => [s.generation, s.population, s.births ?? '', s.deaths ?? '', s.gap].join(','));
+  return ['generation,population,births,deaths,gap', ...rows].join('\n') + '\n';
+}
+
+/** JSON array of samples. Generations are strings, since they can exceed what a JSON number holds exactly. */
+export function populationToJson(samples: PopulationSample[]): string {
+  return JSON.stringify(samples.map((s) => ({ ...s, generation: s.generation.toString() })), null, 2);
+}
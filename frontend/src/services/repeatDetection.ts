@@ -0,0 +1,132 @@
+import type { Cell } from './api';
+import { countLiveCells } from './localEngine';
+
+/**
+ * Spots when playback settles: every generation's cell set is hashed after
+ * moving its bounding box to the origin, so a board that comes back — in place
+ * or shifted, like a glider — is caught the first time it repeats.
+ *
+ * Only consecutive generations are compared. An edit, a jump of several
+ * generations, an undo or a rule change breaks the run and starts it over, since
+ * the period can no longer be read off the generation numbers.
+ */
+
+export interface RepeatReport {
+  /** First generation of the cycle. */
+  generation: bigint;
+  period: bigint;
+  /** How far the board moves each period; (0, 0) for still lifes and oscillators. */
+  dx: bigint;
+  dy: bigint;
+  /** Live cells, like the population chart; dying cells of a Generations rule are left out. */
+  population: number;
+}
+
+interface Seen {
+  generation: bigint;
+  minX: bigint;
+  minY: bigint;
+}
+
+export interface RepeatDetector {
+  /** Signature → where it was seen, oldest first. */
+  seen: Map<string, Seen>;
+  lastGeneration: bigint | null;
+  report: RepeatReport | null;
+}
+
+// Longest period (in generations) that can be detected.
+export const MAX_TRACKED_GENERATIONS = 4096;
+
+export function emptyDetector(): RepeatDetector {
+  return { seen: new Map(), lastGeneration: null, report: null };
+}
+
+// 32-bit FNV-1a of a string.
+function fnv1a(text: string, seed: number): number {
+  let h = seed;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Order-independent hash of a shape: population, bounding-box size and two
+ * 32-bit sums of per-cell hashes, with cells taken relative to the top-left of
+ * the bounding box. Also returns that corner, to measure translation.
+ */
+export function boardSignature(cells: Map<string, Cell> | Cell[]): { signature: string; minX: bigint; minY: bigint } {
+  const values = () => (cells instanceof Map ? cells.values() : cells);
+  const size = cells instanceof Map ? cells.size : cells.length;
+  if (size === 0) return { signature: 'empty', minX: 0n, minY: 0n };
+  const [[firstX, firstY]] = values();
+  let left = firstX;
+  let top = firstY;
+  for (const [x, y] of values()) {
+    if (x < left) left = x;
+    if (y < top) top = y;
+  }
+  let right = left;
+  let bottom = top;
+  let a = 0;
+  let b = 0;
+  for (const [x, y, state] of values()) {
+    if (x > right) right = x;
+    if (y > bottom) bottom = y;
+    // A dying cell hashes with its state, so the board repeats only when every state does.
+    const text = state === undefined ? `${x - left},${y - top}` : `${x - left},${y - top}:${state}`;
+    a = (a + fnv1a(text, 0x811c9dc5)) >>> 0;
+    b = (b + Math.imul(fnv1a(text, 0x01000193), 0x9e3779b1)) >>> 0;
+  }
+  return {
+    signature: `${size}:${right - left}x${bottom - top}:${a.toString(16)}:${b.toString(16)}`,
+    minX: left,
+    minY: top,
+  };
+}
+
+/**
+ * Adds the board at `generation`. Returns the detector with `report` set once the
+ * board matches one seen earlier in the same run; the report then stays until the
+ * run is broken.
+ */
+export function observeGeneration(
+  detector: RepeatDetector,
+  generation: bigint,
+  board: Map<string, Cell>,
+): RepeatDetector {
+  const continues = detector.lastGeneration !== null && generation === detector.lastGeneration + 1n;
+  if (continues && detector.report) return { ...detector, lastGeneration: generation };
+
+  const seen = continues ? new Map(detector.seen) : new Map<string, Seen>();
+  const { signature, minX, minY } = boardSignature(board);
+  const earlier = seen.get(signature);
+  if (earlier) {
+    return {
+      seen: new Map(),
+      lastGeneration: generation,
+      report: {
+        generation: earlier.generation,
+        period: generation - earlier.generation,
+        dx: minX - earlier.minX,
+        dy: minY - earlier.minY,
+        population: countLiveCells(board),
+      },
+    };
+  }
+  seen.set(signature, { generation, minX, minY });
+  if (seen.size > MAX_TRACKED_GENERATIONS) seen.delete(seen.keys().next().value as string);
+  return { seen, lastGeneration: generation, report: null };
+}
+
+/** One-line summary, e.g. "Stabilized at generation 130 with period 2". */
+export function describeRepeat(report: RepeatReport): string {
+  if (report.population === 0) return `Died out at generation ${report.generation}`;
+  if (report.dx !== 0n || report.dy !== 0n) {
+    return `Moving: repeats from generation ${report.generation} every ${report.period} `
+      + `generation${report.period === 1n ? '' : 's'}, shifted by (${report.dx}, ${report.dy})`;
+  }
+  return `Stabilized at generation ${report.generation} with period ${report.period}`;
+}
@@ -0,0 +1,242 @@
+import { cellState, type Cell } from './api';
+import {
+  MAX_PATTERN_CELLS,
+  assertInLongRange,
+  boundingBox,
+  sortRowMajor,
+  type ParsedPattern,
+  type PatternMetadata,
+} from './patternFormats';
+
+/**
+ * Run Length Encoded (RLE) pattern format, as used by LifeWiki and Golly.
+ *
+ *   #N Glider
+ *   #C A comment
+ *   x = 3, y = 3, rule = B3/S23
+ *   bob$2bo$3o!
+ *
+ * Run counts are parsed as BigInt, so a pattern spread across the 64-bit plane
+ * (e.g. "2000000000000b") round-trips without ever materialising the gap.
+ *
+ * Boards with dying cells (Generations rules) use Golly's multi-state tags:
+ * "." is dead, "A" alive, "B" … "X" states 2 to 24, and "pA" … "yO" the states
+ * above, 24 to a prefix letter.
+ */
+
+const DEFAULT_RULE = 'B3/S23';
+// Body lines are wrapped at this width, matching what Golly writes.
+const MAX_LINE_LENGTH = 70;
+// Multi-state tags: 24 letters, and prefixes for each further 24 states.
+const STATE_LETTERS = 24;
+const FIRST_PREFIX = 'p'.charCodeAt(0);
+const LAST_PREFIX = 'y'.charCodeAt(0);
+
+function parseHeader(line: string): { rule?: string } {
+  const fields = new Map<string, string>();
+  for (const part of line.split(',')) {
+    const eq = part.indexOf('=');
+    if (eq < 0) continue;
+    fields.set(part.slice(0, eq).trim().toLowerCase(), part.slice(eq + 1).trim());
+  }
+  for (const key of ['x', 'y']) {
+    const value = fields.get(key);
+    if (value === undefined || !/^\d+$/.test(value)) {
+      throw new Error(`RLE header has a missing or invalid "${key}" value.`);
+    }
+  }
+  const rule = fields.get('rule');
+  return { rule: rule || undefined };
+}
+
+function parseOffset(text: string): [bigint, bigint] | null {
+  const match = /^(-?\d+)[\s,]+(-?\d+)/.exec(text.trim());
+  return match ? [BigInt(match[1]), BigInt(match[2])] : null;
+}
+
+/**
+ * Parses RLE text into cells. y grows downwards, the same orientation the Grid draws.
+ * Supports #N/#O/#C comments, a "#CXRLE Pos=x,y" or "#P x y" top-left offset, the
+ * optional "rule =" header field, runs that span line breaks and "!" termination.
+ * Throws an Error describing the first problem found.
+ */
+export function parseRle(content: string): ParsedPattern {
+  const comments: string[] = [];
+  let name: string | undefined;
+  let author: string | undefined;
+  let rule: string | undefined;
+  let offsetX = 0n;
+  let offsetY = 0n;
+  let headerSeen = false;
+  let body = '';
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    // Some writers put #C or #N lines after the header, or even among the body lines.
+    if (line.startsWith('#')) {
+      const tag = line.charAt(1);
+      const text = line.slice(2).trim();
+      if (tag === 'N') name = text;
+      else if (tag === 'O') author = text;
+      else if (tag === 'r') rule = text;
+      else if (tag === 'P' || tag === 'R') {
+        const offset = parseOffset(text);
+        if (offset) [offsetX, offsetY] = offset;
+      } else if (tag === 'C' || tag === 'c') {
+        const pos = /^XRLE\b.*\bPos\s*=\s*(-?\d+)\s*,\s*(-?\d+)/i.exec(text);
+        if (pos) [offsetX, offsetY] = [BigInt(pos[1]), BigInt(pos[2])];
+        else if (!/^XRLE\b/i.test(text)) comments.push(text);
+      }
+      continue;
+    }
+
+    if (!headerSeen) {
+      if (!/^x\s*=/i.test(line)) {
+        throw new Error('RLE header line ("x = .., y = ..") is missing.');
+      }
+      const header = parseHeader(line);
+      if (header.rule) rule = header.rule;
+      headerSeen = true;
+      continue;
+    }
+
+    const end = line.indexOf('!');
+    if (end >= 0) {
+      body += line.slice(0, end + 1);
+      break;
+    }
+    body += line;
+  }
+
+  if (!headerSeen) throw new Error('RLE header line ("x = .., y = ..") is missing.');
+
+  const cells: Cell[] = [];
+  let x = 0n;
+  let y = 0n;
+  let run = '';
+  // The prefix letter of a multi-state tag read so far, as its number of 24s.
+  let prefix = 0;
+
+  for (const ch of body) {
+    if (ch >= '0' && ch <= '9') {
+      run += ch;
+      continue;
+    }
+    if (/\s/.test(ch)) continue;
+    const code = ch.charCodeAt(0);
+    if (!prefix && code >= FIRST_PREFIX && code <= LAST_PREFIX) {
+      prefix = code - FIRST_PREFIX + 1;
+      continue;
+    }
+
+    const count = run ? BigInt(run) : 1n;
+    run = '';
+    if (prefix && !(ch >= 'A' && ch <= 'X')) {
+      throw new Error(`Unexpected character "${ch}" after a state prefix in RLE body.`);
+    }
+
+    if (ch === '!') break;
+    if (ch === 'b' || ch === '.') {
+      x += count;
+    } else if (ch === '$') {
+      y += count;
+      x = 0n;
+    } else if (/[a-zA-Z]/.test(ch)) {
+      // "o" and "A" are the live state, "B" … "X" (after an optional prefix) dying
+      // states; any other letter is a tag of some other multi-state rule, treated as alive.
+      const state = ch >= 'A' && ch <= 'X' ? prefix * STATE_LETTERS + code - 'A'.charCodeAt(0) + 1 : 1;
+      prefix = 0;
+      if (count > BigInt(MAX_PATTERN_CELLS - cells.length)) {
+        throw new Error(`Pattern exceeds the maximum of ${MAX_PATTERN_CELLS} cells.`);
+      }
+      for (let k = 0n; k < count; k++) {
+        const cx = offsetX + x + k;
+        const cy = offsetY + y;
+        assertInLongRange(cx, cy);
+        cells.push(state === 1 ? [cx, cy] : [cx, cy, state]);
+      }
+      x += count;
+    } else {
+      throw new Error(`Unexpected character "${ch}" in RLE body.`);
+    }
+  }
+
+  return { cells, rule, name, author, comments };
+}
+
+function runToken(count: bigint, tag: string): string {
+  return count === 1n ? tag : `${count}${tag}`;
+}
+
+// "A" for state 1, "B" for 2, …, "X" for 24, then "pA" for 25 and so on.
+function stateTag(state: number): string {
+  const prefix = Math.floor((state - 1) / STATE_LETTERS);
+  const letter = String.fromCharCode('A'.charCodeAt(0) + (state - 1) % STATE_LETTERS);
+  return prefix === 0 ? letter : String.fromCharCode(FIRST_PREFIX + prefix - 1) + letter;
+}
+
+/**
+ * Serializes cells to RLE. The top-left corner is written as a Golly-style
+ * "#CXRLE Pos=x,y" line so the absolute 64-bit position survives a round-trip.
+ * When any cell is dying, every cell is written with a multi-state tag.
+ */
+export function serializeRle(cells: Cell[], meta: PatternMetadata = {}): string {
+  const lines: string[] = [];
+  const rule = meta.rule ?? DEFAULT_RULE;
+
+  if (cells.length === 0) {
+    if (meta.name) lines.push(`#N ${meta.name}`);
+    if (meta.author) lines.push(`#O ${meta.author}`);
+    for (const c of meta.comments ?? []) lines.push(`#C ${c}`);
+    lines.push(`x = 0, y = 0, rule = ${rule}`, '!');
+    return lines.join('\n') + '\n';
+  }
+
+  const { minX, maxX, minY, maxY } = boundingBox(cells);
+  lines.push(`#CXRLE Pos=${minX},${minY}`);
+  if (meta.name) lines.push(`#N ${meta.name}`);
+  if (meta.author) lines.push(`#O ${meta.author}`);
+  for (const c of meta.comments ?? []) lines.push(`#C ${c}`);
+  lines.push(`x = ${maxX - minX + 1n}, y = ${maxY - minY + 1n}, rule = ${rule}`);
+
+  const multiState = cells.some((c) => cellState(c) !== 1);
+  const tokens: string[] = [];
+  const sorted = sortRowMajor(cells);
+  let row = 0n;
+  let col = 0n;
+  for (let i = 0; i < sorted.length; i++) {
+    const [cx, cy] = sorted[i];
+    const state = cellState(sorted[i]);
+    const ry = cy - minY;
+    const rx = cx - minX;
+    if (ry > row) {
+      tokens.push(runToken(ry - row, '$'));
+      row = ry;
+      col = 0n;
+    }
+    if (rx > col) tokens.push(runToken(rx - col, multiState ? '.' : 'b'));
+    let length = 1n;
+    while (i + 1 < sorted.length && sorted[i + 1][1] === cy && sorted[i + 1][0] === cx + length
+      && cellState(sorted[i + 1]) === state) {
+      length++;
+      i++;
+    }
+    tokens.push(runToken(length, multiState ? stateTag(state) : 'o'));
+    col = rx + length;
+  }
+  tokens.push('!');
+
+  // Wrap without ever splitting a token, so every run count stays next to its tag.
+  let current = '';
+  for (const token of tokens) {
+    if (current.length + token.length > MAX_LINE_LENGTH) {
+      lines.push(current);
+      current = '';
+    }
+    current += token;
+  }
+  lines.push(current);
+  return lines.join('\n') + '\n';
+}
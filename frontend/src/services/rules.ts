@@ -0,0 +1,122 @@
+/**
+ * Life-like cellular automaton rules in B/S notation ("B3/S23" is Conway's Life),
+ * and their multi-state "Generations" extension ("B2/S/C3" is Brian's Brain).
+ *
+ * Birth and survival are bitmasks indexed by live-neighbour count: bit n of
+ * `birth` set means a dead cell with n live neighbours is born. The backend
+ * parses the same notation (GameOfLife.Engine LifeRule), so the optimistic
+ * local prediction and the server always run the same rule.
+ *
+ * Under a Generations rule with C states, a live cell (state 1) that does not
+ * survive starts to die instead of vanishing: it moves through states 2 … C-1,
+ * one per generation, and is gone after the last. Dying cells are not live
+ * neighbours and cannot be born again until they are gone. C = 2 is an
+ * ordinary Life-like rule.
+ */
+export interface LifeRule {
+  birth: number;
+  survival: number;
+  /** Number of cell states, dead included: 2 for Life-like rules, up to 256 for Generations. */
+  states: number;
+}
+
+export const CONWAY_RULE = 'B3/S23';
+
+export const RULE_PRESETS: { name: string; rule: string }[] = [
+  { name: 'Conway\'s Life',       rule: 'B3/S23' },
+  { name: 'HighLife',             rule: 'B36/S23' },
+  { name: 'Day & Night',          rule: 'B3678/S34678' },
+  { name: 'Seeds',                rule: 'B2/S' },
+  { name: 'Life without Death',   rule: 'B3/S012345678' },
+  { name: 'Morley',               rule: 'B368/S245' },
+  { name: '2x2',                  rule: 'B36/S125' },
+  { name: 'Replicator',           rule: 'B1357/S1357' },
+  { name: 'Maze',                 rule: 'B3/S12345' },
+  { name: 'Diamoeba',             rule: 'B35678/S5678' },
+  { name: 'Brian\'s Brain',        rule: 'B2/S/C3' },
+  { name: 'Star Wars',            rule: 'B2/S345/C4' },
+  { name: 'Frogs',                rule: 'B34/S12/C3' },
+];
+
+export const MAX_STATES = 256;
+
+function toMask(digits: string): number {
+  let mask = 0;
+  for (const d of digits) mask |= 1 << Number(d);
+  return mask;
+}
+
+function toDigits(mask: number): string {
+  let digits = '';
+  for (let n = 0; n <= 8; n++) if (mask & (1 << n)) digits += n;
+  return digits;
+}
+
+/**
+ * Parses "B3/S23", "S23/B3" or the older survival/birth form "23/3", each
+ * optionally followed by a state count for Generations: "B2/S345/C4",
+ * "S345/B2/C4" or "345/2/4". Throws on anything else, on a state count outside
+ * 2 … 256, and on B0 rules: a birth on zero neighbours would fill the whole
+ * unbounded plane in a single generation.
+ */
+export function parseRule(text: string): LifeRule {
+  const trimmed = text.trim();
+  let birth: string | undefined;
+  let survival: string | undefined;
+  let states: string | undefined;
+
+  const bs = /^B([0-8]*)\/S([0-8]*)(?:\/C(\d+))?$/i.exec(trimmed);
+  const sb = /^S([0-8]*)\/B([0-8]*)(?:\/C(\d+))?$/i.exec(trimmed);
+  const legacy = /^([0-8]*)\/([0-8]*)(?:\/(\d+))?$/.exec(trimmed);
+  if (bs) [, birth, survival, states] = bs;
+  else if (sb) [, survival, birth, states] = sb;
+  else if (legacy) [, survival, birth, states] = legacy;
+
+  if (birth === undefined || survival === undefined) {
+    throw new Error(`"${trimmed}" is not a rule in B/S notation (e.g. B3/S23, or B2/S/C3 for Generations).`);
+  }
+  if (birth.includes('0')) {
+    throw new Error(`"${trimmed}" has B0, which is not supported on an unbounded grid.`);
+  }
+  const count = states === undefined ? 2 : Number(states);
+  if (count < 2 || count > MAX_STATES) {
+    throw new Error(`"${trimmed}" has ${states} states; a Generations rule has 2 to ${MAX_STATES}.`);
+  }
+  return { birth: toMask(birth), survival: toMask(survival), states: count };
+}
+
+/** Canonical "B.../S..." string with digits in ascending order, and "/C..." for Generations. */
+export function formatRule(rule: LifeRule): string {
+  const bs = `B${toDigits(rule.birth)}/S${toDigits(rule.survival)}`;
+  return rule.states > 2 ? `${bs}/C${rule.states}` : bs;
+}
+
+/** Parses and re-formats a rule string; throws like parseRule. */
+export function normalizeRule(text: string): string {
+  return formatRule(parseRule(text));
+}
+
+/** Whether a cell is alive in the next generation under `rule`. */
+export function nextState(rule: LifeRule, alive: boolean, neighbors: number): boolean {
+  return ((alive ? rule.survival : rule.birth) & (1 << neighbors)) !== 0;
+}
+
+/**
+ * The state of a cell in the next generation: 1 is alive, 2 and up are dying
+ * and 0 is dead. `state` is the cell's state now; a state the rule does not
+ * have (left over from a rule with more) counts as its last.
+ */
+export function nextCellState(rule: LifeRule, state: number, neighbors: number): number {
+  if (state === 0) return nextState(rule, false, neighbors) ? 1 : 0;
+  if (state === 1 && nextState(rule, true, neighbors)) return 1;
+  return state + 1 < rule.states ? state + 1 : 0;
+}
+
+/** Whether `text` is a valid Generations rule with more than two states; false for anything else. */
+export function isMultiStateRule(text: string): boolean {
+  try {
+    return parseRule(text).states > 2;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,216 @@
+import type { Cell } from './api';
+import { LONG_MIN, LONG_MAX, MAX_PATTERN_CELLS } from './patternFormats';
+
+/**
+ * Region editing for the Grid: rectangular selections, a clipboard of cells,
+ * and the rotate/flip/move/clear/fill operations on them.
+ *
+ * Everything is BigInt, and every operation keeps cells inside the 64-bit
+ * range: selections are clamped to it, pasted cells beyond it are dropped, and
+ * moves or rotations that would push cells past it are rejected.
+ */
+
+/** Inclusive cell rectangle. */
+export interface Rect {
+  minX: bigint;
+  minY: bigint;
+  maxX: bigint;
+  maxY: bigint;
+}
+
+/** Copied cells as offsets from the top-left of a width × height box. */
+export interface Clip {
+  cells: Cell[];
+  width: bigint;
+  height: bigint;
+}
+
+/** Cells an edit turns on and off. Only real changes are listed, so the edit can be undone exactly. */
+export interface CellEdit {
+  added: Cell[];
+  removed: Cell[];
+}
+
+function key(cell: Cell): string {
+  return `${cell[0]},${cell[1]}`;
+}
+
+function clampLong(v: bigint): bigint {
+  return v < LONG_MIN ? LONG_MIN : v > LONG_MAX ? LONG_MAX : v;
+}
+
+function inLongRange(x: bigint, y: bigint): boolean {
+  return x >= LONG_MIN && x <= LONG_MAX && y >= LONG_MIN && y <= LONG_MAX;
+}
+
+/** The rectangle spanned by two corner cells, clamped to the 64-bit range. */
+export function rectFromCorners(a: { x: bigint; y: bigint }, b: { x: bigint; y: bigint }): Rect {
+  return {
+    minX: clampLong(a.x < b.x ? a.x : b.x),
+    minY: clampLong(a.y < b.y ? a.y : b.y),
+    maxX: clampLong(a.x > b.x ? a.x : b.x),
+    maxY: clampLong(a.y > b.y ? a.y : b.y),
+  };
+}
+
+export function inRect(rect: Rect, x: bigint, y: bigint): boolean {
+  return x >= rect.minX && x <= rect.maxX && y >= rect.minY && y <= rect.maxY;
+}
+
+/** Net effect of removing `remove` and then adding `add` on `board`. */
+function netEdit(board: Map<string, Cell>, remove: Iterable<Cell>, add: Iterable<Cell>): CellEdit {
+  const adding = new Map<string, Cell>();
+  for (const cell of add) adding.set(key(cell), cell);
+  const removing = new Map<string, Cell>();
+  for (const cell of remove) {
+    const k = key(cell);
+    if (board.has(k) && !adding.has(k)) removing.set(k, cell);
+  }
+  const added = [...adding].filter(([k]) => !board.has(k)).map(([, cell]) => cell);
+  return { added, removed: [...removing.values()] };
+}
+
+function cellsInRect(cells: Iterable<Cell>, rect: Rect): Cell[] {
+  const out: Cell[] = [];
+  for (const cell of cells) if (inRect(rect, cell[0], cell[1])) out.push(cell);
+  return out;
+}
+
+/** Copies the live cells inside `rect`. */
+export function copyRect(cells: Iterable<Cell>, rect: Rect): Clip {
+  return {
+    cells: cellsInRect(cells, rect).map(([x, y]) => [x - rect.minX, y - rect.minY] as Cell),
+    width: rect.maxX - rect.minX + 1n,
+    height: rect.maxY - rect.minY + 1n,
+  };
+}
+
+/** Rotates a clip 90° clockwise. */
+export function rotateClip(clip: Clip): Clip {
+  return {
+    cells: clip.cells.map(([x, y]) => [clip.height - 1n - y, x] as Cell),
+    width: clip.height,
+    height: clip.width,
+  };
+}
+
+/** Mirrors a clip left-right ('horizontal') or top-bottom ('vertical'). */
+export function flipClip(clip: Clip, axis: 'horizontal' | 'vertical'): Clip {
+  return {
+    ...clip,
+    cells: clip.cells.map(([x, y]) => (axis === 'horizontal'
+      ? [clip.width - 1n - x, y]
+      : [x, clip.height - 1n - y]) as Cell),
+  };
+}
+
+/** Absolute cells of `clip` with its top-left at (x, y); cells past the 64-bit limits are dropped. */
+export function placeClip(clip: Clip, x: bigint, y: bigint): Cell[] {
+  const out: Cell[] = [];
+  for (const [dx, dy] of clip.cells) {
+    if (inLongRange(x + dx, y + dy)) out.push([x + dx, y + dy]);
+  }
+  return out;
+}
+
+/** The rectangle `clip` covers with its top-left at (x, y), clamped to the 64-bit range. */
+export function clipRect(clip: Clip, x: bigint, y: bigint): Rect {
+  return rectFromCorners({ x, y }, { x: x + clip.width - 1n, y: y + clip.height - 1n });
+}
+
+/** Pastes `clip` with its top-left at (x, y), on top of what is already there. */
+export function pasteClip(board: Map<string, Cell>, clip: Clip, x: bigint, y: bigint): CellEdit {
+  return netEdit(board, [], placeClip(clip, x, y));
+}
+
+/** Turns `cells` on, or off with `erase`, e.g. along a pen stroke. Cells past the 64-bit limits are dropped. */
+export function paintCells(board: Map<string, Cell>, cells: Cell[], erase: boolean): CellEdit {
+  const inRange = cells.filter(([x, y]) => inLongRange(x, y));
+  return erase ? netEdit(board, inRange, []) : netEdit(board, [], inRange);
+}
+
+/** Kills every live cell inside (or outside) `rect`. */
+export function clearRect(board: Map<string, Cell>, rect: Rect, where: 'inside' | 'outside'): CellEdit {
+  const removed: Cell[] = [];
+  for (const cell of board.values()) {
+    if (inRect(rect, cell[0], cell[1]) === (where === 'inside')) removed.push(cell);
+  }
+  return { added: [], removed };
+}
+
+function assertFillable(area: bigint): void {
+  if (area > BigInt(MAX_PATTERN_CELLS)) {
+    throw new Error(`Filling ${area} cells would exceed the maximum of ${MAX_PATTERN_CELLS} cells.`);
+  }
+}
+
+function fillCells(rect: Rect, skip: Rect | null): Cell[] {
+  const out: Cell[] = [];
+  for (let y = rect.minY; y <= rect.maxY; y++) {
+    for (let x = rect.minX; x <= rect.maxX; x++) {
+      if (!skip || !inRect(skip, x, y)) out.push([x, y]);
+    }
+  }
+  return out;
+}
+
+/**
+ * Brings every cell inside `rect` to life, or — for 'outside', since the plane
+ * itself is unbounded — every cell of the pattern's bounding box around it that
+ * is not in `rect`. Throws if that is more cells than the app can hold.
+ */
+export function fillRect(board: Map<string, Cell>, rect: Rect, where: 'inside' | 'outside'): CellEdit {
+  if (where === 'inside') {
+    assertFillable((rect.maxX - rect.minX + 1n) * (rect.maxY - rect.minY + 1n));
+    return netEdit(board, [], fillCells(rect, null));
+  }
+  const bounds = { ...rect };
+  for (const [x, y] of board.values()) {
+    if (x < bounds.minX) bounds.minX = x;
+    if (x > bounds.maxX) bounds.maxX = x;
+    if (y < bounds.minY) bounds.minY = y;
+    if (y > bounds.maxY) bounds.maxY = y;
+  }
+  const area = (bounds.maxX - bounds.minX + 1n) * (bounds.maxY - bounds.minY + 1n)
+    - (rect.maxX - rect.minX + 1n) * (rect.maxY - rect.minY + 1n);
+  assertFillable(area);
+  return netEdit(board, [], fillCells(bounds, rect));
+}
+
+/**
+ * Replaces the contents of `rect` with `transform` of them, anchored at the
+ * same top-left corner. Returns the edit and the rectangle the result covers.
+ * Throws if the result would cross the 64-bit limits.
+ */
+export function transformRect(
+  board: Map<string, Cell>,
+  rect: Rect,
+  transform: (clip: Clip) => Clip,
+): { edit: CellEdit; rect: Rect } {
+  const clip = transform(copyRect(board.values(), rect));
+  const maxX = rect.minX + clip.width - 1n;
+  const maxY = rect.minY + clip.height - 1n;
+  if (!inLongRange(maxX, maxY)) throw new Error('The result would cross the 64-bit grid boundary.');
+  return {
+    edit: netEdit(board, cellsInRect(board.values(), rect), placeClip(clip, rect.minX, rect.minY)),
+    rect: { minX: rect.minX, minY: rect.minY, maxX, maxY },
+  };
+}
+
+/** Moves the contents of `rect` by (dx, dy). Throws if they would cross the 64-bit limits. */
+export function moveRect(
+  board: Map<string, Cell>,
+  rect: Rect,
+  dx: bigint,
+  dy: bigint,
+): { edit: CellEdit; rect: Rect } {
+  const moved = { minX: rect.minX + dx, minY: rect.minY + dy, maxX: rect.maxX + dx, maxY: rect.maxY + dy };
+  if (!inLongRange(moved.minX, moved.minY) || !inLongRange(moved.maxX, moved.maxY)) {
+    throw new Error('The selection cannot move past the 64-bit grid boundary.');
+  }
+  const inside = cellsInRect(board.values(), rect);
+  return {
+    edit: netEdit(board, inside, inside.map(([x, y]) => [x + dx, y + dy] as Cell)),
+    rect: moved,
+  };
+}
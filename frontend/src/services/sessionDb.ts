@@ -0,0 +1,214 @@
+import type { Cell } from './api';
+import { PLANE_TOPOLOGY } from './topology';
+import type { CenteredView } from './viewport';
+
+/**
+ * Saved sessions in IndexedDB. The database is only touched from
+ * workers/sessionWorker.ts; services/sessionStore.ts is the main-thread side.
+ *
+ * Boards travel and are stored packed into a BigInt64Array (16 bytes per
+ * cell). Packing a million cells takes tens of milliseconds and the buffer is
+ * transferred to the worker without a copy, whereas posting the cell array
+ * itself would stall the page for over a second while it is cloned.
+ *
+ * Two object stores: "sessions" holds the small metadata records that the
+ * panel lists, "boards" holds each session's packed cells under the same id.
+ */
+
+/** Everything needed to bring a board back as it was. */
+export interface Snapshot {
+  cells: Cell[];
+  generation: bigint;
+  rule: string;
+  topology: string;
+  speed: number;
+  view: CenteredView | null;
+}
+
+/** A snapshot as the worker handles it, with the cells packed by packCells. */
+export interface PackedSnapshot extends Omit<Snapshot, 'cells'> {
+  board: ArrayBuffer;
+}
+
+/** What the sessions panel lists: a snapshot without its cells. */
+export interface SessionInfo extends Omit<Snapshot, 'cells'> {
+  sessionId: string;
+  name: string;
+  /** Milliseconds since the epoch. */
+  savedAt: number;
+  cellCount: number;
+}
+
+/** The session the app writes on its own and restores on load; never listed. */
+export const AUTOSAVE_ID = 'autosave';
+
+export type SessionRequest =
+  // Without a sessionId, a new session is created.
+  | { id: number; type: 'save'; sessionId?: string; name: string; snapshot: PackedSnapshot }
+  | { id: number; type: 'load'; sessionId: string }
+  | { id: number; type: 'list' }
+  | { id: number; type: 'rename'; sessionId: string; name: string }
+  | { id: number; type: 'duplicate'; sessionId: string }
+  | { id: number; type: 'delete'; sessionId: string };
+
+export type SessionResponse =
+  | { id: number; result: SessionInfo | SessionInfo[] | PackedSnapshot | null }
+  | { id: number; error: string };
+
+const DB_NAME = 'game-of-life';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions';
+const BOARDS = 'boards';
+
+/** Cells as interleaved x, y in a BigInt64Array — every 64-bit coordinate fits exactly. */
+export function packCells(cells: Cell[]): ArrayBuffer {
+  const packed = new BigInt64Array(cells.length * 2);
+  cells.forEach(([x, y], i) => {
+    packed[i * 2] = x;
+    packed[i * 2 + 1] = y;
+  });
+  return packed.buffer;
+}
+
+export function unpackCells(buffer: ArrayBuffer): Cell[] {
+  const packed = new BigInt64Array(buffer);
+  const cells: Cell[] = new Array(packed.length / 2);
+  for (let i = 0; i < cells.length; i++) cells[i] = [packed[i * 2], packed[i * 2 + 1]];
+  return cells;
+}
+
+/** "Name (copy)", or "Name (copy 2)" and so on when that is taken too. */
+export function copyName(name: string, taken: string[]): string {
+  const base = name.replace(/ \(copy(?: \d+)?\)$/, '');
+  const names = new Set(taken);
+  if (!names.has(`${base} (copy)`)) return `${base} (copy)`;
+  let n = 2;
+  while (names.has(`${base} (copy ${n})`)) n++;
+  return `${base} (copy ${n})`;
+}
+
+// Unique enough for one browser profile, and unlike crypto.randomUUID it also
+// works on plain-HTTP pages.
+function newSessionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function promised<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+function completed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+export function openSessionDb(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(SESSIONS)) db.createObjectStore(SESSIONS, { keyPath: 'sessionId' });
+    if (!db.objectStoreNames.contains(BOARDS)) db.createObjectStore(BOARDS);
+  };
+  return promised(request);
+}
+
+// Sessions saved before universes existed have no topology; they ran on the plane.
+function withTopology(info: SessionInfo): SessionInfo {
+  return info.topology === undefined ? { ...info, topology: PLANE_TOPOLOGY } : info;
+}
+
+async function save(db: IDBDatabase, sessionId: string, name: string, snapshot: PackedSnapshot): Promise<SessionInfo> {
+  const { board, ...rest } = snapshot;
+  const info: SessionInfo = { ...rest, sessionId, name, savedAt: Date.now(), cellCount: board.byteLength / 16 };
+  const tx = db.transaction([SESSIONS, BOARDS], 'readwrite');
+  tx.objectStore(SESSIONS).put(info);
+  tx.objectStore(BOARDS).put(board, sessionId);
+  await completed(tx);
+  return info;
+}
+
+async function load(db: IDBDatabase, sessionId: string): Promise<PackedSnapshot | null> {
+  const tx = db.transaction([SESSIONS, BOARDS], 'readonly');
+  const [info, board] = await Promise.all([
+    promised(tx.objectStore(SESSIONS).get(sessionId) as IDBRequest<SessionInfo | undefined>),
+    promised(tx.objectStore(BOARDS).get(sessionId) as IDBRequest<ArrayBuffer | undefined>),
+  ]);
+  if (!info || !board) return null;
+  const { generation, rule, topology, speed, view } = withTopology(info);
+  return { board, generation, rule, topology, speed, view };
+}
+
+async function list(db: IDBDatabase): Promise<SessionInfo[]> {
+  const tx = db.transaction(SESSIONS, 'readonly');
+  const all = await promised(tx.objectStore(SESSIONS).getAll() as IDBRequest<SessionInfo[]>);
+  return all.filter((s) => s.sessionId !== AUTOSAVE_ID).map(withTopology).sort((a, b) => b.savedAt - a.savedAt);
+}
+
+async function rename(db: IDBDatabase, sessionId: string, name: string): Promise<SessionInfo> {
+  const tx = db.transaction(SESSIONS, 'readwrite');
+  const store = tx.objectStore(SESSIONS);
+  const info = await promised(store.get(sessionId) as IDBRequest<SessionInfo | undefined>);
+  if (!info) throw new Error('That session no longer exists.');
+  const renamed = { ...info, name };
+  store.put(renamed);
+  await completed(tx);
+  return renamed;
+}
+
+async function duplicate(db: IDBDatabase, sessionId: string): Promise<SessionInfo> {
+  const tx = db.transaction([SESSIONS, BOARDS], 'readwrite');
+  const sessions = tx.objectStore(SESSIONS);
+  const boards = tx.objectStore(BOARDS);
+  const [info, board, all] = await Promise.all([
+    promised(sessions.get(sessionId) as IDBRequest<SessionInfo | undefined>),
+    promised(boards.get(sessionId) as IDBRequest<ArrayBuffer | undefined>),
+    promised(sessions.getAll() as IDBRequest<SessionInfo[]>),
+  ]);
+  if (!info || !board) throw new Error('That session no longer exists.');
+  const copy: SessionInfo = {
+    ...info,
+    sessionId: newSessionId(),
+    name: copyName(info.name, all.map((s) => s.name)),
+    savedAt: Date.now(),
+  };
+  sessions.put(copy);
+  boards.put(board, copy.sessionId);
+  await completed(tx);
+  return copy;
+}
+
+async function remove(db: IDBDatabase, sessionId: string): Promise<null> {
+  const tx = db.transaction([SESSIONS, BOARDS], 'readwrite');
+  tx.objectStore(SESSIONS).delete(sessionId);
+  tx.objectStore(BOARDS).delete(sessionId);
+  await completed(tx);
+  return null;
+}
+
+/** Runs one request against the database; failures come back as `error` rather than throwing. */
+export async function handleSessionRequest(db: IDBDatabase, req: SessionRequest): Promise<SessionResponse> {
+  try {
+    switch (req.type) {
+      case 'save':
+        return { id: req.id, result: await save(db, req.sessionId ?? newSessionId(), req.name, req.snapshot) };
+      case 'load':
+        return { id: req.id, result: await load(db, req.sessionId) };
+      case 'list':
+        return { id: req.id, result: await list(db) };
+      case 'rename':
+        return { id: req.id, result: await rename(db, req.sessionId, req.name) };
+      case 'duplicate':
+        return { id: req.id, result: await duplicate(db, req.sessionId) };
+      case 'delete':
+        return { id: req.id, result: await remove(db, req.sessionId) };
+    }
+  } catch (e) {
+    return { id: req.id, error: e instanceof Error ? e.message : String(e) };
+  }
+}
@@ -0,0 +1,79 @@
+import { isAlive } from './api';
+import {
+  packCells,
+  unpackCells,
+  type PackedSnapshot,
+  type SessionInfo,
+  type SessionRequest,
+  type SessionResponse,
+  type Snapshot,
+} from './sessionDb';
+
+/**
+ * Main-thread side of the saved sessions: every call is a message to
+ * workers/sessionWorker.ts, which owns the IndexedDB database.
+ */
+export interface SessionStore {
+  /** Saves over `sessionId`, or as a new session when it is omitted. */
+  save(name: string, snapshot: Snapshot, sessionId?: string): Promise<SessionInfo>;
+  /** The saved snapshot, or null when there is none under that id. */
+  load(sessionId: string): Promise<Snapshot | null>;
+  /** Named sessions, most recently saved first. */
+  list(): Promise<SessionInfo[]>;
+  rename(sessionId: string, name: string): Promise<SessionInfo>;
+  duplicate(sessionId: string): Promise<SessionInfo>;
+  remove(sessionId: string): Promise<void>;
+  /** Stops the worker; the store must not be used afterwards. */
+  dispose(): void;
+}
+
+/** Session store backed by workers/sessionWorker.ts; requests are matched to replies by id. */
+export function createSessionStore(): SessionStore {
+  const worker = new Worker(new URL('../workers/sessionWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (r: unknown) => void; reject: (e: Error) => void }>();
+  let nextId = 0;
+
+  worker.onmessage = (e: MessageEvent<SessionResponse>) => {
+    const entry = pending.get(e.data.id);
+    if (!entry) return;
+    pending.delete(e.data.id);
+    if ('error' in e.data) entry.reject(new Error(e.data.error));
+    else entry.resolve(e.data.result);
+  };
+
+  worker.onerror = (e) => {
+    for (const entry of pending.values()) entry.reject(new Error(`Session storage failed: ${e.message}`));
+    pending.clear();
+  };
+
+  type Unsent<T> = T extends unknown ? Omit<T, 'id'> : never;
+  const send = <T>(request: Unsent<SessionRequest>, transfer: Transferable[] = []) =>
+    new Promise<T>((resolve, reject) => {
+      const id = ++nextId;
+      pending.set(id, { resolve: resolve as (r: unknown) => void, reject });
+      worker.postMessage({ ...request, id }, transfer);
+    });
+
+  return {
+    save: (name, { cells, ...rest }, sessionId) => {
+      // Like links, saved boards hold live cells only; dying cells are left out.
+      const board = packCells(cells.filter(isAlive));
+      return send<SessionInfo>({ type: 'save', name, snapshot: { ...rest, board }, sessionId }, [board]);
+    },
+    load: async (sessionId) => {
+      const packed = await send<PackedSnapshot | null>({ type: 'load', sessionId });
+      if (!packed) return null;
+      const { board, ...rest } = packed;
+      return { ...rest, cells: unpackCells(board) };
+    },
+    list: () => send<SessionInfo[]>({ type: 'list' }),
+    rename: (sessionId, name) => send<SessionInfo>({ type: 'rename', sessionId, name }),
+    duplicate: (sessionId) => send<SessionInfo>({ type: 'duplicate', sessionId }),
+    remove: (sessionId) => send<null>({ type: 'delete', sessionId }).then(() => undefined),
+    dispose: () => {
+      worker.terminate();
+      for (const entry of pending.values()) entry.reject(new Error('Session storage was disposed.'));
+      pending.clear();
+    },
+  };
+}
@@ -0,0 +1,220 @@
+import { isAlive, type Cell } from './api';
+import { LONG_MAX, LONG_MIN, MAX_PATTERN_CELLS } from './patternFormats';
+import { PLANE_TOPOLOGY } from './topology';
+import type { CenteredView } from './viewport';
+
+/**
+ * Shareable links: the board, rule, universe, generation and viewport packed
+ * into the URL hash as "#life=<data>".
+ *
+ * The data is binary, deflated and base64url-encoded. Cells are sorted by row
+ * and stored as BigInt varint deltas from the previous cell, so a pattern
+ * costs about the same wherever it sits on the 64-bit plane.
+ */
+
+export interface SharedState {
+  cells: Cell[];
+  rule: string;
+  topology: string;
+  generation: bigint;
+  view: CenteredView | null;
+}
+
+const HASH_PREFIX = 'life=';
+// Version 2 added the topology; version 1 links predate universes and open on the plane.
+const FORMAT_VERSION = 2;
+const PLANE_ONLY_VERSION = 1;
+
+// Longest link handed out. Browsers take far more, but chat apps and mail
+// clients start cutting links around this length.
+export const MAX_LINK_LENGTH = 8000;
+
+function zigzag(v: bigint): bigint {
+  return v < 0n ? -v * 2n - 1n : v * 2n;
+}
+
+function unzigzag(v: bigint): bigint {
+  return v % 2n === 0n ? v / 2n : -(v + 1n) / 2n;
+}
+
+function writeVarint(out: number[], v: bigint): void {
+  while (v >= 0x80n) {
+    out.push(Number(v & 0x7fn) | 0x80);
+    v >>= 7n;
+  }
+  out.push(Number(v));
+}
+
+function writeFloat(out: number[], v: number): void {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, v);
+  for (let i = 0; i < 8; i++) out.push(view.getUint8(i));
+}
+
+function writeText(out: number[], v: string): void {
+  const encoded = new TextEncoder().encode(v);
+  writeVarint(out, BigInt(encoded.length));
+  out.push(...encoded);
+}
+
+interface Reader {
+  bytes: Uint8Array;
+  pos: number;
+}
+
+function readByte(r: Reader): number {
+  if (r.pos >= r.bytes.length) throw new Error('Link is incomplete — it may have been cut off when it was copied.');
+  return r.bytes[r.pos++];
+}
+
+function readVarint(r: Reader): bigint {
+  let v = 0n;
+  let shift = 0n;
+  for (;;) {
+    const b = readByte(r);
+    v |= BigInt(b & 0x7f) << shift;
+    if (b < 0x80) return v;
+    shift += 7n;
+    // Nothing in a link needs more than 66 bits (a zigzagged delta across the whole plane).
+    if (shift > 70n) throw new Error('Link data is damaged.');
+  }
+}
+
+function readFloat(r: Reader): number {
+  const view = new DataView(new ArrayBuffer(8));
+  for (let i = 0; i < 8; i++) view.setUint8(i, readByte(r));
+  return view.getFloat64(0);
+}
+
+function readText(r: Reader): string {
+  const length = Number(readVarint(r));
+  const out = new Uint8Array(length);
+  for (let i = 0; i < length; i++) out[i] = readByte(r);
+  return new TextDecoder().decode(out);
+}
+
+async function pipe(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> {
+  const response = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  // Chunked: String.fromCharCode with one argument per byte overflows the stack on big inputs.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) throw new Error('Link data is damaged.');
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/** The hash (without "#") for `state`. */
+export async function encodeShareHash(state: SharedState): Promise<string> {
+  const out: number[] = [FORMAT_VERSION];
+  writeVarint(out, state.generation);
+  writeText(out, state.rule);
+  writeText(out, state.topology);
+  if (state.view) {
+    out.push(1);
+    writeVarint(out, zigzag(state.view.anchor.cell.x));
+    writeVarint(out, zigzag(state.view.anchor.cell.y));
+    writeFloat(out, state.view.anchor.pixel.x);
+    writeFloat(out, state.view.anchor.pixel.y);
+    writeFloat(out, state.view.cellSize);
+  } else {
+    out.push(0);
+  }
+  // Links hold live cells only: the dying cells of a Generations board are left out.
+  // Safe comparisons — no subtraction, avoids overflow for large BigInt coordinates.
+  const sorted = state.cells.filter(isAlive).sort(([ax, ay], [bx, by]) =>
+    (ay < by ? -1 : ay > by ? 1 : ax < bx ? -1 : ax > bx ? 1 : 0));
+  writeVarint(out, BigInt(sorted.length));
+  let px = 0n;
+  let py = 0n;
+  for (const [x, y] of sorted) {
+    writeVarint(out, zigzag(x - px));
+    writeVarint(out, zigzag(y - py));
+    px = x;
+    py = y;
+  }
+  return HASH_PREFIX + toBase64Url(await pipe(Uint8Array.from(out), new CompressionStream('deflate-raw')));
+}
+
+/** Whether a location hash (with or without "#") is a share link. */
+export function isShareHash(hash: string): boolean {
+  return (hash.startsWith('#') ? hash.slice(1) : hash).startsWith(HASH_PREFIX);
+}
+
+/**
+ * The state in a hash (with or without "#"), or null when the hash is not a
+ * share link. Throws when it is one but cannot be read.
+ */
+export async function decodeShareHash(hash: string): Promise<SharedState | null> {
+  if (!isShareHash(hash)) return null;
+  const text = hash.startsWith('#') ? hash.slice(1) : hash;
+
+  let bytes: Uint8Array;
+  try {
+    bytes = await pipe(fromBase64Url(text.slice(HASH_PREFIX.length)), new DecompressionStream('deflate-raw'));
+  } catch {
+    throw new Error('Link data is damaged — it may have been cut off when it was copied.');
+  }
+
+  const r: Reader = { bytes, pos: 0 };
+  const version = readByte(r);
+  if (version !== FORMAT_VERSION && version !== PLANE_ONLY_VERSION) {
+    throw new Error(`Link format ${version} is not supported by this version of the app.`);
+  }
+  const generation = readVarint(r);
+  const rule = readText(r);
+  const topology = version === PLANE_ONLY_VERSION ? PLANE_TOPOLOGY : readText(r);
+  let view: CenteredView | null = null;
+  if (readByte(r) === 1) {
+    const x = unzigzag(readVarint(r));
+    const y = unzigzag(readVarint(r));
+    const pixel = { x: readFloat(r), y: readFloat(r) };
+    const cellSize = readFloat(r);
+    if (!Number.isFinite(pixel.x) || !Number.isFinite(pixel.y) || !(cellSize > 0)) {
+      throw new Error('Link data is damaged.');
+    }
+    view = { anchor: { cell: { x, y }, pixel }, cellSize };
+  }
+
+  const count = readVarint(r);
+  if (count > BigInt(MAX_PATTERN_CELLS)) {
+    throw new Error(`Link holds ${count} cells, more than the ${MAX_PATTERN_CELLS} a pattern may have.`);
+  }
+  const cells: Cell[] = [];
+  let x = 0n;
+  let y = 0n;
+  for (let i = 0n; i < count; i++) {
+    x += unzigzag(readVarint(r));
+    y += unzigzag(readVarint(r));
+    if (x < LONG_MIN || x > LONG_MAX || y < LONG_MIN || y > LONG_MAX) {
+      throw new Error('Link data is damaged: a cell lies outside the 64-bit grid.');
+    }
+    cells.push([x, y]);
+  }
+  if (r.pos !== bytes.length) throw new Error('Link data is damaged.');
+  return { cells, rule, topology, generation, view };
+}
+
+/**
+ * The full link for `state` on the page at `base` (origin and path). Throws
+ * with a message to show the user when the pattern is too big for a link.
+ */
+export async function buildShareUrl(state: SharedState, base: string): Promise<string> {
+  const url = `${base}#${await encodeShareHash(state)}`;
+  if (url.length > MAX_LINK_LENGTH) {
+    throw new Error(
+      `This pattern is too large to share as a link (${url.length.toLocaleString('en-US')} characters; `
+      + `links are limited to ${MAX_LINK_LENGTH.toLocaleString('en-US')}). Use Export to share it as a file instead.`,
+    );
+  }
+  return url;
+}
@@ -0,0 +1,200 @@
+/**
+ * Keyboard shortcuts: every toolbar action as a command with remappable keys.
+ *
+ * A key combo is written as its modifiers and key joined by "+", e.g. "Mod+K",
+ * "Shift+ArrowLeft", "N" or "Space". "Mod" is Ctrl, or Cmd on macOS. Letters
+ * are upper case; other single characters ("+", "[", "1") are taken as typed,
+ * so Shift is part of the character rather than a modifier.
+ */
+
+export type ClusterCommandId = `cluster${1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9}`;
+
+export type CommandId =
+  | 'palette'
+  | 'togglePlay'
+  | 'step'
+  | 'simulate10'
+  | 'simulate100'
+  | 'focusGeneration'
+  | 'toggleAutoPause'
+  | 'faster'
+  | 'slower'
+  | 'undo'
+  | 'redo'
+  | 'focusRule'
+  | 'panLeft'
+  | 'panRight'
+  | 'panUp'
+  | 'panDown'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'focusJump'
+  | ClusterCommandId
+  | 'reset'
+  | 'loadFile'
+  | 'export'
+  | 'copyLink'
+  | 'toggleLibrary'
+  | 'toggleChart'
+  | 'toggleCensus'
+  | 'toggleSessions';
+
+export interface Command {
+  id: CommandId;
+  label: string;
+  group: 'Playback' | 'History' | 'View' | 'Board' | 'Files and panels';
+  /** Default key combos; the first is the one shown in tooltips. */
+  keys: string[];
+  /** Runs again while the key is held down; other commands run once per press. */
+  repeats?: boolean;
+}
+
+const CLUSTER_COMMANDS: Command[] = ([1, 2, 3, 4, 5, 6, 7, 8, 9] as const).map((n) => ({
+  id: `cluster${n}`,
+  label: `Fit cluster ${n}`,
+  group: 'View',
+  keys: [String(n)],
+}));
+
+/** Every command, in the order the command palette lists them. */
+export const COMMANDS: Command[] = [
+  { id: 'palette', label: 'Command palette', group: 'View', keys: ['Mod+K'] },
+  { id: 'togglePlay', label: 'Play / pause', group: 'Playback', keys: ['Space'] },
+  { id: 'step', label: 'Step one generation', group: 'Playback', keys: ['N'], repeats: true },
+  { id: 'simulate10', label: 'Advance 10 generations', group: 'Playback', keys: [] },
+  { id: 'simulate100', label: 'Advance 100 generations', group: 'Playback', keys: [] },
+  { id: 'focusGeneration', label: 'Go to generation…', group: 'Playback', keys: [] },
+  { id: 'toggleAutoPause', label: 'Pause on repeat on / off', group: 'Playback', keys: [] },
+  { id: 'faster', label: 'Play faster', group: 'Playback', keys: [], repeats: true },
+  { id: 'slower', label: 'Play slower', group: 'Playback', keys: [], repeats: true },
+  { id: 'undo', label: 'Undo', group: 'History', keys: ['Mod+Z'], repeats: true },
+  { id: 'redo', label: 'Redo', group: 'History', keys: ['Mod+Shift+Z'], repeats: true },
+  { id: 'focusRule', label: 'Enter a custom rule…', group: 'Board', keys: [] },
+  { id: 'panLeft', label: 'Pan left', group: 'View', keys: ['ArrowLeft'], repeats: true },
+  { id: 'panRight', label: 'Pan right', group: 'View', keys: ['ArrowRight'], repeats: true },
+  { id: 'panUp', label: 'Pan up', group: 'View', keys: ['ArrowUp'], repeats: true },
+  { id: 'panDown', label: 'Pan down', group: 'View', keys: ['ArrowDown'], repeats: true },
+  { id: 'zoomIn', label: 'Zoom in', group: 'View', keys: ['+', '='], repeats: true },
+  { id: 'zoomOut', label: 'Zoom out', group: 'View', keys: ['-'], repeats: true },
+  { id: 'focusJump', label: 'Jump to X, Y…', group: 'View', keys: ['G'] },
+  ...CLUSTER_COMMANDS,
+  { id: 'reset', label: 'Reset the board', group: 'Board', keys: ['R'] },
+  { id: 'loadFile', label: 'Load a pattern file…', group: 'Files and panels', keys: [] },
+  { id: 'export', label: 'Export the pattern', group: 'Files and panels', keys: [] },
+  { id: 'copyLink', label: 'Copy a link to this board', group: 'Files and panels', keys: [] },
+  { id: 'toggleLibrary', label: 'Pattern library', group: 'Files and panels', keys: [] },
+  { id: 'toggleChart', label: 'Population chart', group: 'Files and panels', keys: [] },
+  { id: 'toggleCensus', label: 'Object census', group: 'Files and panels', keys: [] },
+  { id: 'toggleSessions', label: 'Saved sessions', group: 'Files and panels', keys: [] },
+];
+
+/** The key combos bound to each command. */
+export type Keymap = Record<CommandId, string[]>;
+
+export const DEFAULT_KEYMAP: Keymap = Object.fromEntries(COMMANDS.map((c) => [c.id, c.keys])) as Keymap;
+
+const STORAGE_KEY = 'game-of-life.shortcuts';
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Shift', 'Alt', 'AltGraph', 'CapsLock', 'OS']);
+
+/** The combo a key press makes, or null for a bare modifier press. */
+export function comboFromEvent(
+  e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>,
+): string | null {
+  if (MODIFIER_KEYS.has(e.key) || e.key === 'Dead' || e.key === 'Unidentified') return null;
+  const printable = e.key.length === 1 && e.key !== ' ';
+  const letter = printable && e.key.toLowerCase() !== e.key.toUpperCase();
+  const key = e.key === ' ' ? 'Space' : letter ? e.key.toUpperCase() : e.key;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push('Mod');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey && (!printable || letter)) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+}
+
+const KEY_NAMES: Record<string, string> = {
+  Mod: 'Ctrl',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+};
+
+/** A combo as shown to the user, e.g. "Ctrl+Shift+Z" or "←". */
+export function formatCombo(combo: string): string {
+  // Split on "+" separators only, so a bare "+" key or "Mod++" stays intact.
+  return combo.split(/\+(?!$)/).map((part) => KEY_NAMES[part] ?? part).join('+');
+}
+
+export function commandForCombo(keymap: Keymap, combo: string): Command | null {
+  return COMMANDS.find((c) => keymap[c.id].includes(combo)) ?? null;
+}
+
+/**
+ * Binds `keys` to `id`, replacing its old keys. A combo can only run one
+ * command, so each of `keys` is taken away from whichever command had it.
+ */
+export function bindKeys(keymap: Keymap, id: CommandId, keys: string[]): Keymap {
+  const next = { ...keymap };
+  for (const c of COMMANDS) {
+    if (c.id !== id && next[c.id].some((k) => keys.includes(k))) {
+      next[c.id] = next[c.id].filter((k) => !keys.includes(k));
+    }
+  }
+  next[id] = [...new Set(keys)];
+  return next;
+}
+
+/** The first key bound to `id`, formatted, or null when it has none. */
+export function shortcutLabel(keymap: Keymap, id: CommandId): string | null {
+  const [first] = keymap[id];
+  return first === undefined ? null : formatCombo(first);
+}
+
+/** A tooltip with the command's shortcut appended, e.g. "Step (N)". */
+export function withShortcut(title: string, keymap: Keymap, id: CommandId): string {
+  const label = shortcutLabel(keymap, id);
+  return label ? `${title} (${label})` : title;
+}
+
+// localStorage throws when it is disabled (some privacy modes, sandboxed frames).
+function defaultStorage(): Storage | null {
+  try {
+    return window.localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The saved keymap: the defaults with the user's changes applied on top.
+ * Unknown commands and malformed entries in storage are ignored, so a keymap
+ * saved by an older or newer version still loads.
+ */
+export function loadKeymap(storage: Pick<Storage, 'getItem'> | null = defaultStorage()): Keymap {
+  let keymap = DEFAULT_KEYMAP;
+  try {
+    const saved: unknown = JSON.parse(storage?.getItem(STORAGE_KEY) ?? 'null');
+    if (!saved || typeof saved !== 'object') return keymap;
+    for (const c of COMMANDS) {
+      const keys = (saved as Record<string, unknown>)[c.id];
+      if (Array.isArray(keys) && keys.every((k) => typeof k === 'string')) keymap = bindKeys(keymap, c.id, keys);
+    }
+  } catch {
+    // Unreadable storage — fall back to the defaults.
+  }
+  return keymap;
+}
+
+/** Stores the commands whose keys differ from the defaults. */
+export function saveKeymap(keymap: Keymap, storage: Pick<Storage, 'setItem'> | null = defaultStorage()): void {
+  const changed = COMMANDS
+    .filter((c) => keymap[c.id].join('\n') !== c.keys.join('\n'))
+    .map((c) => [c.id, keymap[c.id]]);
+  try {
+    storage?.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(changed)));
+  } catch {
+    // Storage full or disabled — the keymap lasts until the page is closed.
+  }
+}
@@ -0,0 +1,113 @@
+import type { Cell } from './api';
+import { diffCellMaps } from './history';
+
+/**
+ * Bounded ring of past generations for the timeline scrubber. Every
+ * KEYFRAME_INTERVAL-th frame holds the full board; the frames in between hold
+ * only the births and deaths since the previous frame. Beyond the limits the
+ * oldest keyframe is dropped together with its deltas, so the ring always
+ * starts at a keyframe.
+ *
+ * Frames are in increasing generation order but need not be consecutive: a
+ * +100 simulate or a HashLife jump records one frame for the whole jump.
+ */
+
+interface Frame {
+  generation: bigint;
+  /** The full board, on keyframes only. */
+  cells?: Cell[];
+  births: Cell[];
+  deaths: Cell[];
+}
+
+export interface Timeline {
+  frames: Frame[];
+  /** The board at the newest frame, which the next delta is computed against. */
+  head: Map<string, Cell> | null;
+  /** Cells stored across all frames. */
+  size: number;
+}
+
+export const KEYFRAME_INTERVAL = 32;
+export const MAX_TIMELINE_FRAMES = 1000;
+export const MAX_TIMELINE_CELLS = 4_000_000;
+
+export function emptyTimeline(): Timeline {
+  return { frames: [], head: null, size: 0 };
+}
+
+function frameSize(frame: Frame): number {
+  return (frame.cells?.length ?? 0) + frame.births.length + frame.deaths.length;
+}
+
+/** The retained generations, oldest first. */
+export function timelineGenerations(timeline: Timeline): bigint[] {
+  return timeline.frames.map((f) => f.generation);
+}
+
+function boardAtIndex(frames: Frame[], index: number): Map<string, Cell> {
+  let k = index;
+  while (!frames[k].cells) k--;
+  const board = new Map<string, Cell>();
+  for (const cell of frames[k].cells ?? []) board.set(`${cell[0]},${cell[1]}`, cell);
+  for (let i = k + 1; i <= index; i++) {
+    for (const [x, y] of frames[i].deaths) board.delete(`${x},${y}`);
+    for (const cell of frames[i].births) board.set(`${cell[0]},${cell[1]}`, cell);
+  }
+  return board;
+}
+
+/** The board at a retained generation, or null if it is not retained. */
+export function boardAt(timeline: Timeline, generation: bigint): Map<string, Cell> | null {
+  const index = timeline.frames.findIndex((f) => f.generation === generation);
+  if (index < 0) return null;
+  if (index === timeline.frames.length - 1 && timeline.head) return timeline.head;
+  return boardAtIndex(timeline.frames, index);
+}
+
+/** Drops the frames after `generation`, so the next frame recorded continues a new run from there. */
+export function truncateAfter(timeline: Timeline, generation: bigint): Timeline {
+  let n = timeline.frames.length;
+  while (n > 0 && timeline.frames[n - 1].generation > generation) n--;
+  if (n === timeline.frames.length) return timeline;
+  const frames = timeline.frames.slice(0, n);
+  return {
+    frames,
+    head: n > 0 ? boardAtIndex(frames, n - 1) : null,
+    size: frames.reduce((sum, f) => sum + frameSize(f), 0),
+  };
+}
+
+/**
+ * Records the board at `generation`. Recording a generation at or before the
+ * newest frame (an edit, an undo, or stepping on after a rewind) forks the
+ * run: the frames from that generation on are replaced.
+ */
+export function recordFrame(timeline: Timeline, generation: bigint, board: Map<string, Cell>): Timeline {
+  const last = timeline.frames.at(-1);
+  const base = last && last.generation >= generation ? truncateAfter(timeline, generation - 1n) : timeline;
+  const frames = [...base.frames];
+
+  let sinceKeyframe = 0;
+  while (sinceKeyframe < frames.length && !frames[frames.length - 1 - sinceKeyframe].cells) sinceKeyframe++;
+
+  let frame: Frame | null = null;
+  if (base.head && sinceKeyframe < KEYFRAME_INTERVAL - 1) {
+    const { added, removed } = diffCellMaps(base.head, board);
+    // A delta bigger than the board itself (a load, say) is stored as a keyframe instead.
+    if (added.length + removed.length < board.size) frame = { generation, births: added, deaths: removed };
+  }
+  frame ??= { generation, cells: Array.from(board.values()), births: [], deaths: [] };
+  frames.push(frame);
+
+  let size = base.size + frameSize(frame);
+  let drop = 0;
+  while (frames.length - drop > MAX_TIMELINE_FRAMES || size > MAX_TIMELINE_CELLS) {
+    let next = drop + 1;
+    while (next < frames.length && !frames[next].cells) next++;
+    if (next >= frames.length) break; // always keep the newest keyframe group
+    for (let i = drop; i < next; i++) size -= frameSize(frames[i]);
+    drop = next;
+  }
+  return { frames: frames.slice(drop), head: board, size };
+}
@@ -0,0 +1,146 @@
+import type { Cell } from './api';
+import { LONG_MIN, LONG_MAX } from './patternFormats';
+
+/**
+ * The shape of the universe a board lives in, written as a short string that
+ * travels with the rule to every tick, simulate and session:
+ *
+ *   plane:clip             the whole 64-bit plane; nothing crosses its limits (the default)
+ *   plane:wrap             the whole 64-bit plane; leaving one limit enters at the other
+ *   rect:WxH@X,Y           a W×H rectangle with its top-left cell at (X, Y); outside is dead
+ *   torus:WxH@X,Y          the same rectangle with opposite edges joined
+ *   klein:WxH@X,Y          a torus whose top and bottom edges join mirrored left to right
+ *
+ * Cells outside a bounded universe are dead: they count as no one's neighbour
+ * and are gone after the next generation. The backend parses the same notation
+ * (GameOfLife.Engine Topology), so the optimistic local prediction, the server
+ * and the Grid always agree on where the edges are.
+ */
+
+export type EdgePolicy = 'clip' | 'wrap';
+export type BoundedKind = 'rect' | 'torus' | 'klein';
+
+export type Topology =
+  | { kind: 'plane'; edge: EdgePolicy }
+  | { kind: BoundedKind; x: bigint; y: bigint; width: bigint; height: bigint };
+
+export const PLANE_TOPOLOGY = 'plane:clip';
+
+export const TOPOLOGY_KINDS: { kind: Topology['kind']; name: string }[] = [
+  { kind: 'plane', name: '64-bit plane' },
+  { kind: 'rect',  name: 'Rectangle' },
+  { kind: 'torus', name: 'Torus' },
+  { kind: 'klein', name: 'Klein bottle' },
+];
+
+// Below three cells across, a wrapped neighbourhood would reach the same cell twice.
+const MIN_WRAPPED_SIZE = 3n;
+
+/**
+ * Parses the notation above; a bare "plane" means plane:clip. Throws on
+ * anything else, and on a universe that does not fit in the 64-bit plane.
+ */
+export function parseTopology(text: string): Topology {
+  const trimmed = text.trim().toLowerCase();
+  const plane = /^plane(?::(clip|wrap))?$/.exec(trimmed);
+  if (plane) return { kind: 'plane', edge: (plane[1] ?? 'clip') as EdgePolicy };
+
+  const bounded = /^(rect|torus|klein):(\d+)x(\d+)@(-?\d+),(-?\d+)$/.exec(trimmed);
+  if (!bounded) {
+    throw new Error(`"${text.trim()}" is not a topology (e.g. plane:clip, torus:64x64@0,0).`);
+  }
+  const kind = bounded[1] as BoundedKind;
+  const [width, height, x, y] = bounded.slice(2).map(BigInt);
+  const min = kind === 'rect' ? 1n : MIN_WRAPPED_SIZE;
+  if (width < min || height < min) {
+    throw new Error(`A ${kind} needs a width and height of at least ${min}.`);
+  }
+  if (x < LONG_MIN || y < LONG_MIN || x + width - 1n > LONG_MAX || y + height - 1n > LONG_MAX) {
+    throw new Error(`"${text.trim()}" reaches past the 64-bit plane.`);
+  }
+  return { kind, x, y, width, height };
+}
+
+/** Canonical string form, as parseTopology reads it back. */
+export function formatTopology(topology: Topology): string {
+  if (topology.kind === 'plane') return `plane:${topology.edge}`;
+  const { kind, x, y, width, height } = topology;
+  return `${kind}:${width}x${height}@${x},${y}`;
+}
+
+/** Parses and re-formats a topology string; throws like parseTopology. */
+export function normalizeTopology(text: string): string {
+  return formatTopology(parseTopology(text));
+}
+
+/** Whether (x, y) is a cell of the universe; every cell of the 64-bit plane is one of the plane's. */
+export function inUniverse(topology: Topology, x: bigint, y: bigint): boolean {
+  if (topology.kind === 'plane') return true;
+  return x >= topology.x && x < topology.x + topology.width
+      && y >= topology.y && y < topology.y + topology.height;
+}
+
+/**
+ * The cell one step of (dx, dy) away from (x, y), which must be in the
+ * universe; null when the step leaves it through a dead or clipped edge.
+ * Mirrors Topology.GetNeighbors on the backend.
+ */
+export function neighborOf(topology: Topology, x: bigint, y: bigint, dx: bigint, dy: bigint): Cell | null {
+  if (topology.kind === 'plane') {
+    const nx = x + dx, ny = y + dy;
+    if (topology.edge === 'wrap') return [BigInt.asIntN(64, nx), BigInt.asIntN(64, ny)];
+    // Hard wall at the 64-bit limits — same as Cell.GetNeighbors on the backend.
+    if (nx < LONG_MIN || nx > LONG_MAX || ny < LONG_MIN || ny > LONG_MAX) return null;
+    return [nx, ny];
+  }
+
+  const { kind, width, height } = topology;
+  let u = x - topology.x + dx;
+  let v = y - topology.y + dy;
+  const crossesX = u < 0n || u >= width;
+  const crossesY = v < 0n || v >= height;
+  if (kind === 'rect') {
+    if (crossesX || crossesY) return null;
+  } else {
+    if (crossesY) {
+      v = v < 0n ? height - 1n : 0n;
+      // The Klein bottle's twist: over the top or bottom edge, left and right swap.
+      if (kind === 'klein') u = width - 1n - u;
+    }
+    if (u < 0n) u = width - 1n;
+    else if (u >= width) u = 0n;
+  }
+  return [topology.x + u, topology.y + v];
+}
+
+/**
+ * Where copies of `cells` show up in the eight tiles around a torus or Klein
+ * bottle, limited to the cells inside `view`, so the Grid can draw what lies
+ * across each seam. Empty for the plane and the rectangle.
+ */
+export function seamImages(
+  topology: Topology,
+  cells: Cell[],
+  view: { minX: bigint; maxX: bigint; minY: bigint; maxY: bigint },
+): Cell[] {
+  if (topology.kind !== 'torus' && topology.kind !== 'klein') return [];
+  const { kind, x: left, y: top, width, height } = topology;
+  const images: Cell[] = [];
+  for (let ty = -1n; ty <= 1n; ty++) {
+    for (let tx = -1n; tx <= 1n; tx++) {
+      if (tx === 0n && ty === 0n) continue;
+      const tileLeft = left + tx * width, tileTop = top + ty * height;
+      if (tileLeft > view.maxX || tileLeft + width <= view.minX) continue;
+      if (tileTop > view.maxY || tileTop + height <= view.minY) continue;
+      // A tile above or below a Klein bottle is the universe mirrored left to right.
+      const mirrored = kind === 'klein' && ty !== 0n;
+      for (const [x, y] of cells) {
+        if (!inUniverse(topology, x, y)) continue;
+        const u = mirrored ? width - 1n - (x - left) : x - left;
+        const ix = tileLeft + u, iy = tileTop + (y - top);
+        if (ix >= view.minX && ix <= view.maxX && iy >= view.minY && iy <= view.maxY) images.push([ix, iy]);
+      }
+    }
+  }
+  return images;
+}
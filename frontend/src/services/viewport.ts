@@ -0,0 +1,184 @@
+/**
+ * Viewport geometry for the Grid canvas: which BigInt cell sits at which pixel,
+ * and how many pixels a cell covers.
+ *
+ * The zoom factor `cellSize` is in pixels per cell and ranges from many pixels
+ * per cell down to a tiny fraction of a pixel (many cells per pixel). Cell
+ * positions stay BigInt-exact: only offsets from the anchor are converted to
+ * floating point, and those are bounded by what is on screen.
+ */
+
+export interface Anchor {
+  /** Which grid cell is the reference point. */
+  cell: { x: bigint; y: bigint };
+  /** Where that cell's top-left corner appears on the canvas (pixels). */
+  pixel: { x: number; y: number };
+}
+
+/**
+ * A viewport that does not depend on the canvas size: the anchor's pixel is
+ * measured from the canvas centre, so the same cell is centred on any screen.
+ * Used for shared links and saved sessions.
+ */
+export interface CenteredView {
+  anchor: Anchor;
+  cellSize: number;
+}
+
+/** Pixels per cell at 1:1 zoom. */
+export const DEFAULT_CELL_SIZE = 20;
+export const MAX_CELL_SIZE = 64;
+// Small enough that the whole 2^64-cell plane fits in a few pixels.
+export const MIN_CELL_SIZE = 2 ** -60;
+
+/** Visible viewport: canvas size, anchor, zoom, and the cell/pixel range on screen. */
+export interface ViewState {
+  w: number;
+  h: number;
+  anchor: Anchor;
+  cellSize: number;
+  startColOff: number;
+  endColOff: number;
+  startRowOff: number;
+  endRowOff: number;
+  startCol: bigint;
+  endCol: bigint;
+  startRow: bigint;
+  endRow: bigint;
+}
+
+export function clampCellSize(cellSize: number): number {
+  return Math.min(MAX_CELL_SIZE, Math.max(MIN_CELL_SIZE, cellSize));
+}
+
+/** Compute the visible cell range from canvas size, anchor and zoom. */
+export function getViewState(w: number, h: number, anchor: Anchor, cellSize = DEFAULT_CELL_SIZE): ViewState {
+  const { cell: anchorCell, pixel: anchorPixel } = anchor;
+  const startColOff = Math.floor(-anchorPixel.x / cellSize) - 1;
+  const endColOff   = Math.ceil((w - anchorPixel.x) / cellSize) + 1;
+  const startRowOff = Math.floor(-anchorPixel.y / cellSize) - 1;
+  const endRowOff   = Math.ceil((h - anchorPixel.y) / cellSize) + 1;
+  return {
+    w, h, anchor, cellSize,
+    startColOff, endColOff, startRowOff, endRowOff,
+    startCol: anchorCell.x + BigInt(startColOff),
+    endCol:   anchorCell.x + BigInt(endColOff),
+    startRow: anchorCell.y + BigInt(startRowOff),
+    endRow:   anchorCell.y + BigInt(endRowOff),
+  };
+}
+
+/** Keep anchorPixel close to 0 so it never accumulates into an unsafe float. */
+export function normalizeAnchor(a: Anchor, cellSize = DEFAULT_CELL_SIZE): Anchor {
+  const shiftX = Math.round(a.pixel.x / cellSize);
+  const shiftY = Math.round(a.pixel.y / cellSize);
+  return {
+    cell: { x: a.cell.x - BigInt(shiftX), y: a.cell.y - BigInt(shiftY) },
+    pixel: { x: a.pixel.x - shiftX * cellSize, y: a.pixel.y - shiftY * cellSize },
+  };
+}
+
+/** The cell under canvas pixel (sx, sy). */
+export function cellAtPixel(anchor: Anchor, cellSize: number, sx: number, sy: number): { x: bigint; y: bigint } {
+  return {
+    x: anchor.cell.x + BigInt(Math.floor((sx - anchor.pixel.x) / cellSize)),
+    y: anchor.cell.y + BigInt(Math.floor((sy - anchor.pixel.y) / cellSize)),
+  };
+}
+
+/**
+ * Re-anchors the view for a new zoom so the point under canvas pixel (sx, sy)
+ * stays where it is — the anchor moves to the cell under that pixel, which
+ * keeps the float offsets small at any zoom.
+ */
+export function zoomAt(anchor: Anchor, cellSize: number, nextCellSize: number, sx: number, sy: number): Anchor {
+  const offX = (sx - anchor.pixel.x) / cellSize;
+  const offY = (sy - anchor.pixel.y) / cellSize;
+  const cellX = Math.floor(offX);
+  const cellY = Math.floor(offY);
+  return normalizeAnchor({
+    cell: { x: anchor.cell.x + BigInt(cellX), y: anchor.cell.y + BigInt(cellY) },
+    pixel: { x: sx - (offX - cellX) * nextCellSize, y: sy - (offY - cellY) * nextCellSize },
+  }, nextCellSize);
+}
+
+/** Where a two-finger pinch started: the view then, and the fingers' spread and midpoint on the canvas. */
+export interface PinchStart {
+  anchor: Anchor;
+  cellSize: number;
+  distance: number;
+  midX: number;
+  midY: number;
+}
+
+/**
+ * The view during a pinch: zoomed by how far the fingers have spread since
+ * `start`, around the starting midpoint, and panned with the midpoint.
+ */
+export function pinchView(
+  start: PinchStart,
+  distance: number,
+  midX: number,
+  midY: number,
+): { anchor: Anchor; cellSize: number } {
+  const cellSize = clampCellSize(start.cellSize * (distance / Math.max(1, start.distance)));
+  const zoomed = zoomAt(start.anchor, start.cellSize, cellSize, start.midX, start.midY);
+  return {
+    anchor: normalizeAnchor({
+      cell: zoomed.cell,
+      pixel: { x: zoomed.pixel.x + midX - start.midX, y: zoomed.pixel.y + midY - start.midY },
+    }, cellSize),
+    cellSize,
+  };
+}
+
+/**
+ * Cells under the line from canvas pixel (x0, y0) to (x1, y1), in order and
+ * without repeats. Sampled every half cell, so a fast pen stroke leaves no gaps.
+ */
+export function cellsAlongLine(
+  anchor: Anchor,
+  cellSize: number,
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+): { x: bigint; y: bigint }[] {
+  const steps = Math.max(1, Math.ceil(Math.hypot(x1 - x0, y1 - y0) / Math.max(0.5, cellSize / 2)));
+  const out: { x: bigint; y: bigint }[] = [];
+  const seen = new Set<string>();
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const cell = cellAtPixel(anchor, cellSize, x0 + (x1 - x0) * t, y0 + (y1 - y0) * t);
+    const key = `${cell.x},${cell.y}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(cell);
+  }
+  return out;
+}
+
+// Space left around a fitted pattern, in pixels.
+const FIT_MARGIN = 40;
+
+/**
+ * Zoom at which a `width` × `height` cell span fits the canvas. Never zooms in
+ * past 1:1, so fitting a small pattern does not blow it up.
+ */
+export function fitCellSize(w: number, h: number, width: bigint, height: bigint): number {
+  const availW = Math.max(1, w - 2 * FIT_MARGIN);
+  const availH = Math.max(1, h - 2 * FIT_MARGIN);
+  return clampCellSize(Math.min(
+    DEFAULT_CELL_SIZE,
+    availW / Number(width + 1n),
+    availH / Number(height + 1n),
+  ));
+}
+
+/** Human-readable zoom, e.g. "20 px/cell" or "1 px : 4.2e+6 cells". */
+export function formatZoom(cellSize: number): string {
+  if (cellSize >= 1) return `${Math.round(cellSize * 10) / 10} px/cell`;
+  const perPixel = 1 / cellSize;
+  const text = perPixel < 1e4 ? String(Math.round(perPixel)) : perPixel.toExponential(1);
+  return `1 px : ${text} cells`;
+}
@@ -0,0 +1,6 @@
+import { handleEngineRequest, type EngineRequest } from '../services/localEngine';
+
+// Runs the local engine off the main thread so large simulate calls never block rendering.
+self.onmessage = (e: MessageEvent<EngineRequest>) => {
+  self.postMessage(handleEngineRequest(e.data));
+};
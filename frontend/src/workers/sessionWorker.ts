@@ -0,0 +1,17 @@
+import { handleSessionRequest, openSessionDb, type SessionRequest } from '../services/sessionDb';
+
+// Keeps IndexedDB work off the main thread so saving a huge board never stalls rendering.
+const db = openSessionDb();
+
+self.onmessage = async (e: MessageEvent<SessionRequest>) => {
+  try {
+    const response = await handleSessionRequest(await db, e.data);
+    // A loaded board goes back without a copy, like it came in.
+    const result = 'result' in response ? response.result : null;
+    const transfer = result && 'board' in result ? [result.board] : [];
+    self.postMessage(response, { transfer });
+  } catch (err) {
+    // The database itself could not be opened (private browsing, storage disabled).
+    self.postMessage({ id: e.data.id, error: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -6,5 +6,7 @@ export default defineConfig({
   plugins: [react()],
   test: {
     environment: 'node',
+    // Serves the session and playback-stream routes for playbackStream.test.ts.
+    globalSetup: ['./scripts/playbackStandIn.ts'],
   },
 })
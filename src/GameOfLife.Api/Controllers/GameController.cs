@@ -1,5 +1,9 @@
+using System.Diagnostics;
+using System.Diagnostics.CodeAnalysis;
+using System.Text.Json;
 using Asp.Versioning;
 using GameOfLife.Api.Dtos;
+using GameOfLife.Api.Services;
 using GameOfLife.Engine.Models;
 using GameOfLife.Engine.Services;
 using Microsoft.AspNetCore.Mvc;
@@ -15,12 +19,27 @@ public class GameController : ControllerBase
 {
     private const int MaxCells = 1_000_000;
 
+    // Worst case for MaxCells cells in the binary encoding (ten bytes per coordinate).
+    private const long MaxBinaryBodyBytes = 10 + MaxCells * 20L;
+
+    // Streamed playback: allowed time between frames, how many frames may go out
+    // before the client acknowledges rendering them, and how often an idle
+    // stream sends a comment so proxies keep it open.
+    private const int MinStreamIntervalMs = 10;
+    private const int MaxStreamIntervalMs = 10_000;
+    private const int MaxUnacknowledgedFrames = 16;
+    private static readonly TimeSpan StreamKeepAlive = TimeSpan.FromSeconds(15);
+
+    private static readonly JsonSerializerOptions StreamJsonOptions = new(JsonSerializerDefaults.Web);
+
     private readonly IGameEngine _engine;
+    private readonly ISimulationSessionStore _sessions;
     private readonly ILogger<GameController> _logger;
 
-    public GameController(IGameEngine engine, ILogger<GameController> logger)
+    public GameController(IGameEngine engine, ISimulationSessionStore sessions, ILogger<GameController> logger)
     {
         _engine = engine;
+        _sessions = sessions;
         _logger = logger;
     }
 
@@ -36,14 +55,26 @@ public class GameController : ControllerBase
             return BadRequest($"Cell count {request.Cells.Length} exceeds maximum of {MaxCells}.");
         }
 
+        if (!TryParseRule(request.Rule, out var rule, out var ruleError))
+        {
+            _logger.LogWarning("Tick rejected: {Error}", ruleError);
+            return BadRequest(ruleError);
+        }
+
+        if (!TryParseTopology(request.Topology, out var topology, out var topologyError))
+        {
+            _logger.LogWarning("Tick rejected: {Error}", topologyError);
+            return BadRequest(topologyError);
+        }
+
         if (!TryConvertToCells(request.Cells, out var cells, out var error))
         {
             _logger.LogWarning("Tick rejected: invalid cell data — {Error}", error);
             return BadRequest(error);
         }
 
-        var result = _engine.Tick(cells);
-        _logger.LogInformation("Tick completed: {InputCellCount} → {OutputCellCount} cells", request.Cells.Length, result.Count);
+        var result = _engine.Tick(cells, rule, topology);
+        _logger.LogInformation("Tick completed: {InputCellCount} → {OutputCellCount} cells under {Rule} in {Topology}", request.Cells.Length, result.Count, rule, topology);
         return Ok(CreateResponse(result, 1));
     }
 
@@ -65,14 +96,26 @@ public class GameController : ControllerBase
             return BadRequest($"Cell count {request.Cells.Length} exceeds maximum of {MaxCells}.");
         }
 
+        if (!TryParseRule(request.Rule, out var rule, out var ruleError))
+        {
+            _logger.LogWarning("Simulate rejected: {Error}", ruleError);
+            return BadRequest(ruleError);
+        }
+
+        if (!TryParseTopology(request.Topology, out var topology, out var topologyError))
+        {
+            _logger.LogWarning("Simulate rejected: {Error}", topologyError);
+            return BadRequest(topologyError);
+        }
+
         if (!TryConvertToCells(request.Cells, out var cells, out var error))
         {
             _logger.LogWarning("Simulate rejected: invalid cell data — {Error}", error);
             return BadRequest(error);
         }
 
-        var result = _engine.Simulate(cells, request.Generations);
-        _logger.LogInformation("Simulate completed: {InputCellCount} → {OutputCellCount} cells after {Generations} generations", request.Cells.Length, result.Count, request.Generations);
+        var result = _engine.Simulate(cells, request.Generations, rule, topology);
+        _logger.LogInformation("Simulate completed: {InputCellCount} → {OutputCellCount} cells after {Generations} generations under {Rule} in {Topology}", request.Cells.Length, result.Count, request.Generations, rule, topology);
         return Ok(CreateResponse(result, request.Generations));
     }
 
@@ -118,20 +161,475 @@ public class GameController : ControllerBase
             return BadRequest(error);
         }
 
-        var output = Life106Parser.Serialize(cells);
+        if (cells.Values.Any(state => state != LifeRule.Alive))
+        {
+            _logger.LogWarning("Export rejected: board has dying cells");
+            return BadRequest("Life 1.06 has no cell states, so it cannot hold the dying cells of a Generations rule. Export the board as RLE instead.");
+        }
+
+        var output = Life106Parser.Serialize(cells.Keys.ToHashSet());
         _logger.LogInformation("Export completed: {CellCount} cells serialized", cells.Count);
         return Content(output, "text/plain");
     }
 
-    private static bool TryConvertToCells(string[][] raw, out HashSet<Cell> cells, out string? error)
+    // ── Binary transport ────────────────────────────────────────────────────
+    // The same operations with cells in BinaryCellCodec's compact encoding
+    // (application/x-life-cells) instead of JSON string pairs, both in the
+    // request body and in the response. Other parameters go in the query string.
+
+    [HttpPost("tick/binary")]
+    [RequestSizeLimit(MaxBinaryBodyBytes)]
+    public async Task<IActionResult> TickBinary([FromQuery] string? rule, [FromQuery] string? topology)
+    {
+        if (!TryParseRule(rule, out var lifeRule, out var ruleError))
+        {
+            _logger.LogWarning("Binary tick rejected: {Error}", ruleError);
+            return BadRequest(ruleError);
+        }
+
+        if (lifeRule.IsGenerations)
+        {
+            _logger.LogWarning("Binary tick rejected: {Rule} has dying states", lifeRule);
+            return BadRequest(GenerationsOverBinaryError(lifeRule));
+        }
+
+        if (!TryParseTopology(topology, out var universe, out var topologyError))
+        {
+            _logger.LogWarning("Binary tick rejected: {Error}", topologyError);
+            return BadRequest(topologyError);
+        }
+
+        var (cells, error) = await ReadBinaryCellsAsync();
+        if (cells is null)
+        {
+            _logger.LogWarning("Binary tick rejected: invalid cell data — {Error}", error);
+            return BadRequest(error);
+        }
+
+        _logger.LogInformation("Binary tick requested with {InputCellCount} cells", cells.Count);
+        var result = _engine.Tick(cells, lifeRule, universe);
+        _logger.LogInformation("Binary tick completed: {InputCellCount} → {OutputCellCount} cells under {Rule} in {Topology}", cells.Count, result.Count, lifeRule, universe);
+        return BinaryCells(result);
+    }
+
+    [HttpPost("simulate/binary")]
+    [RequestSizeLimit(MaxBinaryBodyBytes)]
+    public async Task<IActionResult> SimulateBinary([FromQuery] int generations, [FromQuery] string? rule, [FromQuery] string? topology)
+    {
+        if (generations < 1 || generations > 1000)
+        {
+            _logger.LogWarning("Binary simulate rejected: {Generations} is out of allowed range [1,1000]", generations);
+            return BadRequest("Generations must be between 1 and 1000.");
+        }
+
+        if (!TryParseRule(rule, out var lifeRule, out var ruleError))
+        {
+            _logger.LogWarning("Binary simulate rejected: {Error}", ruleError);
+            return BadRequest(ruleError);
+        }
+
+        if (lifeRule.IsGenerations)
+        {
+            _logger.LogWarning("Binary simulate rejected: {Rule} has dying states", lifeRule);
+            return BadRequest(GenerationsOverBinaryError(lifeRule));
+        }
+
+        if (!TryParseTopology(topology, out var universe, out var topologyError))
+        {
+            _logger.LogWarning("Binary simulate rejected: {Error}", topologyError);
+            return BadRequest(topologyError);
+        }
+
+        var (cells, error) = await ReadBinaryCellsAsync();
+        if (cells is null)
+        {
+            _logger.LogWarning("Binary simulate rejected: invalid cell data — {Error}", error);
+            return BadRequest(error);
+        }
+
+        _logger.LogInformation("Binary simulate requested: {InputCellCount} cells × {Generations} generations", cells.Count, generations);
+        var result = _engine.Simulate(cells, generations, lifeRule, universe);
+        _logger.LogInformation("Binary simulate completed: {InputCellCount} → {OutputCellCount} cells after {Generations} generations under {Rule} in {Topology}", cells.Count, result.Count, generations, lifeRule, universe);
+        return BinaryCells(result);
+    }
+
+    [HttpPost("parse/binary")]
+    [RequestSizeLimit(12_000_000)]
+    public IActionResult ParseBinary([FromBody] ParseRequest request)
+    {
+        _logger.LogInformation("Binary parse requested: {ContentLength} chars", request.Content?.Length ?? 0);
+
+        var (cells, invalidLines) = Life106Parser.Parse(request.Content ?? string.Empty);
+
+        if (invalidLines > 0)
+        {
+            _logger.LogWarning("Binary parse rejected: {InvalidLines} line(s) with invalid or out-of-range coordinates", invalidLines);
+            return BadRequest($"File contains {invalidLines} line(s) with invalid or out-of-range coordinates.");
+        }
+
+        if (cells.Count > MaxCells)
+        {
+            _logger.LogWarning("Binary parse rejected: {ParsedCellCount} exceeds MaxCells {MaxCells}", cells.Count, MaxCells);
+            return BadRequest($"Parsed cell count {cells.Count} exceeds maximum of {MaxCells}.");
+        }
+
+        _logger.LogInformation("Binary parse completed: {ParsedCellCount} cells loaded", cells.Count);
+        return BinaryCells(cells);
+    }
+
+    [HttpPost("export/binary")]
+    [RequestSizeLimit(MaxBinaryBodyBytes)]
+    public async Task<IActionResult> ExportBinary()
+    {
+        var (cells, error) = await ReadBinaryCellsAsync();
+        if (cells is null)
+        {
+            _logger.LogWarning("Binary export rejected: invalid cell data — {Error}", error);
+            return BadRequest(error);
+        }
+
+        var output = Life106Parser.Serialize(cells);
+        _logger.LogInformation("Binary export completed: {CellCount} cells serialized", cells.Count);
+        return Content(output, "text/plain");
+    }
+
+    // ── Sessions ────────────────────────────────────────────────────────────
+    // The board stays on the server: it is uploaded once, and each advance
+    // answers with only the cells born and the cells that died.
+
+    [HttpPost("sessions")]
+    [RequestSizeLimit(50_000_000)]
+    public ActionResult<CreateSessionResponse> CreateSession([FromBody] CreateSessionRequest request)
     {
-        cells = new HashSet<Cell>();
+        _logger.LogInformation("Session requested with {InputCellCount} cells", request.Cells.Length);
+
+        if (request.Cells.Length > MaxCells)
+        {
+            _logger.LogWarning("Session rejected: {InputCellCount} exceeds MaxCells {MaxCells}", request.Cells.Length, MaxCells);
+            return BadRequest($"Cell count {request.Cells.Length} exceeds maximum of {MaxCells}.");
+        }
+
+        if (!TryParseRule(request.Rule, out var rule, out var ruleError))
+        {
+            _logger.LogWarning("Session rejected: {Error}", ruleError);
+            return BadRequest(ruleError);
+        }
+
+        if (!TryParseTopology(request.Topology, out var topology, out var topologyError))
+        {
+            _logger.LogWarning("Session rejected: {Error}", topologyError);
+            return BadRequest(topologyError);
+        }
+
+        if (!TryConvertToCells(request.Cells, out var cells, out var error))
+        {
+            _logger.LogWarning("Session rejected: invalid cell data — {Error}", error);
+            return BadRequest(error);
+        }
+
+        return OpenSession(cells, rule, topology);
+    }
+
+    [HttpPost("sessions/binary")]
+    [RequestSizeLimit(MaxBinaryBodyBytes)]
+    public async Task<ActionResult<CreateSessionResponse>> CreateSessionBinary([FromQuery] string? rule, [FromQuery] string? topology)
+    {
+        if (!TryParseRule(rule, out var lifeRule, out var ruleError))
+        {
+            _logger.LogWarning("Binary session rejected: {Error}", ruleError);
+            return BadRequest(ruleError);
+        }
+
+        if (lifeRule.IsGenerations)
+        {
+            _logger.LogWarning("Binary session rejected: {Rule} has dying states", lifeRule);
+            return BadRequest(GenerationsOverBinaryError(lifeRule));
+        }
+
+        if (!TryParseTopology(topology, out var universe, out var topologyError))
+        {
+            _logger.LogWarning("Binary session rejected: {Error}", topologyError);
+            return BadRequest(topologyError);
+        }
+
+        var (cells, error) = await ReadBinaryCellsAsync();
+        if (cells is null)
+        {
+            _logger.LogWarning("Binary session rejected: invalid cell data — {Error}", error);
+            return BadRequest(error);
+        }
+
+        return OpenSession(cells.ToDictionary(cell => cell, _ => LifeRule.Alive), lifeRule, universe);
+    }
+
+    [HttpPost("sessions/{id:guid}/advance")]
+    public ActionResult<SessionDeltaResponse> AdvanceSession(Guid id, [FromBody] AdvanceSessionRequest request)
+    {
+        if (request.Generations < 1 || request.Generations > 1000)
+        {
+            _logger.LogWarning("Session advance rejected: {Generations} is out of allowed range [1,1000]", request.Generations);
+            return BadRequest("Generations must be between 1 and 1000.");
+        }
+
+        if (!_sessions.TryGet(id, out var session))
+        {
+            _logger.LogWarning("Session advance rejected: session {SessionId} not found", id);
+            return NotFound($"Session {id} does not exist or has expired.");
+        }
+
+        SessionDeltaResponse? response;
+        lock (session.SyncRoot)
+        {
+            if (session.Generation != request.FromGeneration)
+            {
+                _logger.LogWarning("Session advance rejected: session {SessionId} is at generation {Generation}, not {FromGeneration}", id, session.Generation, request.FromGeneration);
+                return Conflict($"Session {id} is at generation {session.Generation}, not {request.FromGeneration}.");
+            }
+
+            if (!TryAdvance(session, request.Generations, out response, out var error))
+            {
+                _logger.LogWarning("Session advance failed: session {SessionId} — {Error}", id, error);
+                return StatusCode(StatusCodes.Status507InsufficientStorage, error);
+            }
+        }
+
+        _logger.LogInformation("Session {SessionId} advanced {Generations} generation(s) to {Generation}: {Births} births, {Deaths} deaths, {OutputCellCount} cells", id, request.Generations, response.Generation, response.Births.Length, response.Deaths.Length, response.LiveCellCount);
+        return Ok(response);
+    }
+
+    // ── Streamed playback ───────────────────────────────────────────────────
+    // One Server-Sent Events stream per session pushes a frame (the births and
+    // deaths of one generation) every intervalMs. The client steers it with
+    // POSTs to the same path: pause, resume, speed, and acks of rendered frames.
+    // No more than MaxUnacknowledgedFrames go out ahead of the last ack, so a
+    // client that cannot keep up slows the stream down instead of queueing frames.
+
+    [HttpGet("sessions/{id:guid}/stream")]
+    public async Task<IActionResult> StreamSession(Guid id, [FromQuery] int intervalMs = 100, [FromQuery] bool paused = false)
+    {
+        if (intervalMs < MinStreamIntervalMs || intervalMs > MaxStreamIntervalMs)
+        {
+            _logger.LogWarning("Session stream rejected: interval {IntervalMs} ms is out of allowed range [{Min},{Max}]", intervalMs, MinStreamIntervalMs, MaxStreamIntervalMs);
+            return BadRequest($"Interval must be between {MinStreamIntervalMs} and {MaxStreamIntervalMs} ms.");
+        }
+
+        if (!_sessions.TryGet(id, out var session))
+        {
+            _logger.LogWarning("Session stream rejected: session {SessionId} not found", id);
+            return NotFound($"Session {id} does not exist or has expired.");
+        }
+
+        SessionPlayback playback;
+        lock (session.SyncRoot)
+        {
+            if (session.Playback is not null)
+            {
+                _logger.LogWarning("Session stream rejected: session {SessionId} is already streaming", id);
+                return Conflict($"Session {id} is already streaming.");
+            }
+            playback = new SessionPlayback(intervalMs, paused, session.Generation);
+            session.Playback = playback;
+        }
+
+        _logger.LogInformation("Session {SessionId} stream opened at {IntervalMs} ms per generation", id, intervalMs);
+        var ct = HttpContext.RequestAborted;
+        var frames = 0;
+        try
+        {
+            Response.ContentType = "text/event-stream";
+            Response.Headers.CacheControl = "no-cache";
+            Response.Headers["X-Accel-Buffering"] = "no";
+            await Response.Body.FlushAsync(ct);
+
+            var lastFrame = Stopwatch.GetTimestamp();
+            while (true)
+            {
+                if (playback.Paused || session.Generation - playback.AcknowledgedGeneration >= MaxUnacknowledgedFrames)
+                {
+                    if (!await playback.WaitForChangeAsync(StreamKeepAlive, ct))
+                        await WriteStreamAsync(": keep-alive\n\n", ct);
+                    continue;
+                }
+
+                var due = TimeSpan.FromMilliseconds(playback.IntervalMs) - Stopwatch.GetElapsedTime(lastFrame);
+                if (due > TimeSpan.Zero)
+                {
+                    // Wakes early for a pause or a speed change.
+                    await playback.WaitForChangeAsync(due, ct);
+                    continue;
+                }
+
+                // Looking the session up also keeps it from expiring while it streams.
+                if (!_sessions.TryGet(id, out _))
+                {
+                    await WriteStreamAsync("event: end\ndata: {}\n\n", ct);
+                    break;
+                }
+
+                bool advanced;
+                SessionDeltaResponse? frame;
+                string? error;
+                lock (session.SyncRoot)
+                    advanced = TryAdvance(session, 1, out frame, out error);
+                if (!advanced)
+                {
+                    _logger.LogWarning("Session {SessionId} stream ended: {Error}", id, error);
+                    await WriteStreamAsync("event: end\ndata: {}\n\n", ct);
+                    break;
+                }
+                lastFrame = Stopwatch.GetTimestamp();
+
+                await WriteStreamAsync($"event: frame\ndata: {JsonSerializer.Serialize(frame, StreamJsonOptions)}\n\n", ct);
+                frames++;
+            }
+        }
+        catch (OperationCanceledException) when (ct.IsCancellationRequested)
+        {
+            // The client closed the stream.
+        }
+        finally
+        {
+            lock (session.SyncRoot)
+            {
+                if (session.Playback == playback)
+                    session.Playback = null;
+            }
+            _logger.LogInformation("Session {SessionId} stream closed after {Frames} frame(s) at generation {Generation}", id, frames, session.Generation);
+        }
+
+        return new EmptyResult();
+    }
+
+    [HttpPost("sessions/{id:guid}/stream")]
+    public IActionResult ControlSessionStream(Guid id, [FromBody] StreamControlRequest request)
+    {
+        if (!_sessions.TryGet(id, out var session))
+        {
+            _logger.LogWarning("Stream control rejected: session {SessionId} not found", id);
+            return NotFound($"Session {id} does not exist or has expired.");
+        }
+
+        var playback = session.Playback;
+        if (playback is null)
+        {
+            _logger.LogWarning("Stream control rejected: session {SessionId} has no open stream", id);
+            return Conflict($"Session {id} has no open stream.");
+        }
+
+        switch (request.Type)
+        {
+            case "pause":
+                playback.Pause();
+                break;
+            case "resume":
+                playback.Resume();
+                break;
+            case "speed" when request.IntervalMs is >= MinStreamIntervalMs and <= MaxStreamIntervalMs:
+                playback.SetInterval(request.IntervalMs.Value);
+                break;
+            case "speed":
+                return BadRequest($"Interval must be between {MinStreamIntervalMs} and {MaxStreamIntervalMs} ms.");
+            case "ack" when request.Generation is { } generation:
+                playback.Acknowledge(generation);
+                break;
+            case "ack":
+                return BadRequest("An ack needs the generation rendered.");
+            default:
+                _logger.LogWarning("Stream control rejected: unknown type {Type}", request.Type);
+                return BadRequest($"Unknown control type '{request.Type}'; expected pause, resume, speed or ack.");
+        }
+
+        // Acks arrive several times a second; only the changes of state are worth a line.
+        if (request.Type != "ack")
+            _logger.LogInformation("Session {SessionId} stream {Control} (interval {IntervalMs} ms)", id, request.Type, playback.IntervalMs);
+        return NoContent();
+    }
+
+    [HttpDelete("sessions/{id:guid}")]
+    public IActionResult DeleteSession(Guid id)
+    {
+        if (!_sessions.Remove(id))
+            return NotFound($"Session {id} does not exist or has expired.");
+
+        _logger.LogInformation("Session {SessionId} deleted", id);
+        return NoContent();
+    }
+
+    private ActionResult<CreateSessionResponse> OpenSession(Dictionary<Cell, int> cells, LifeRule rule, Topology topology)
+    {
+        if (!_sessions.TryCreate(cells, rule, topology, out var session))
+        {
+            _logger.LogWarning("Session rejected: {CellCount} cells do not fit in session memory", cells.Count);
+            return StatusCode(StatusCodes.Status507InsufficientStorage, SessionMemoryFullError(cells.Count));
+        }
+        _logger.LogInformation("Session {SessionId} created: {CellCount} cells under {Rule} in {Topology}", session.Id, cells.Count, rule, topology);
+        return Ok(new CreateSessionResponse { SessionId = session.Id, LiveCellCount = CountAlive(cells) });
+    }
+
+    private static string SessionMemoryFullError(int cellCount) =>
+        $"The server's session memory is full and cannot hold a board of {cellCount} cells; try again later or use /tick and /simulate.";
+
+    // Runs under session.SyncRoot. Fails, leaving the session as it was, when
+    // the advanced board does not fit in session memory.
+    private bool TryAdvance(SimulationSession session, int generations, [NotNullWhen(true)] out SessionDeltaResponse? delta, out string? error)
+    {
+        var before = session.Cells;
+        var after = _engine.Simulate(before, generations, session.Rule, session.Topology);
+        if (!_sessions.TryUpdate(session, after, session.Generation + generations))
+        {
+            delta = null;
+            error = SessionMemoryFullError(after.Count);
+            return false;
+        }
+
+        // A cell moving into a dying state is reported like a birth, with its new state.
+        delta = new SessionDeltaResponse
+        {
+            Births = ToStringCells(after.Where(c => !before.TryGetValue(c.Key, out var state) || state != c.Value)),
+            Deaths = ToStringPairs(before.Keys.Where(c => !after.ContainsKey(c))),
+            Generation = session.Generation,
+            LiveCellCount = CountAlive(after)
+        };
+        error = null;
+        return true;
+    }
+
+    private async Task WriteStreamAsync(string text, CancellationToken ct)
+    {
+        await Response.WriteAsync(text, ct);
+        await Response.Body.FlushAsync(ct);
+    }
+
+    // The body is buffered whole: RequestSizeLimit caps it, and decoding needs random access anyway.
+    private async Task<(HashSet<Cell>? Cells, string? Error)> ReadBinaryCellsAsync()
+    {
+        if (Request.ContentType is not { } contentType || !contentType.StartsWith(BinaryCellCodec.MediaType, StringComparison.OrdinalIgnoreCase))
+            return (null, $"Content-Type must be {BinaryCellCodec.MediaType}.");
+
+        using var buffer = new MemoryStream();
+        await Request.Body.CopyToAsync(buffer, HttpContext.RequestAborted);
+
+        if (!BinaryCellCodec.TryDecode(buffer.GetBuffer().AsSpan(0, (int)buffer.Length), MaxCells, out var cells, out var error))
+            return (null, error);
+        return (cells, null);
+    }
+
+    private FileContentResult BinaryCells(HashSet<Cell> cells) =>
+        File(BinaryCellCodec.Encode(cells), BinaryCellCodec.MediaType);
+
+    private static string GenerationsOverBinaryError(LifeRule rule) =>
+        $"Rule '{rule}' has dying states, which the binary encoding cannot carry; send Generations boards as JSON.";
+
+    // Each entry is [x, y] for a live cell or [x, y, state] for a dying one (state 2 and up).
+    private static bool TryConvertToCells(string[][] raw, out Dictionary<Cell, int> cells, out string? error)
+    {
+        cells = new Dictionary<Cell, int>();
         for (int i = 0; i < raw.Length; i++)
         {
             var pair = raw[i];
-            if (pair.Length != 2)
+            if (pair.Length is not (2 or 3))
             {
-                error = $"Cell at index {i} must have exactly 2 coordinates, got {pair.Length}.";
+                error = $"Cell at index {i} must have 2 coordinates and an optional state, got {pair.Length} values.";
                 return false;
             }
             if (!long.TryParse(pair[0], out var x) || !long.TryParse(pair[1], out var y))
@@ -139,7 +637,49 @@ public class GameController : ControllerBase
                 error = $"Cell at index {i} has a non-integer coordinate.";
                 return false;
             }
-            cells.Add(new Cell(x, y));
+            var state = LifeRule.Alive;
+            if (pair.Length == 3 && (!int.TryParse(pair[2], out state) || state < LifeRule.Alive || state >= LifeRule.MaxStates))
+            {
+                error = $"Cell at index {i} has a state outside 1 to {LifeRule.MaxStates - 1}.";
+                return false;
+            }
+            cells[new Cell(x, y)] = state;
+        }
+        error = null;
+        return true;
+    }
+
+    // A missing rule means Conway's Life, so clients that predate rule support keep working.
+    private static bool TryParseRule(string? raw, out LifeRule rule, out string? error)
+    {
+        if (raw is null)
+        {
+            rule = LifeRule.Conway;
+            error = null;
+            return true;
+        }
+        if (!LifeRule.TryParse(raw, out rule))
+        {
+            error = $"Rule '{raw}' is not a supported B/S rule (e.g. B3/S23, or B2/S/C3 for Generations with 2 to {LifeRule.MaxStates} states; B0 rules are not allowed).";
+            return false;
+        }
+        error = null;
+        return true;
+    }
+
+    // A missing topology means the clipped 64-bit plane, the only universe there used to be.
+    private static bool TryParseTopology(string? raw, out Topology topology, out string? error)
+    {
+        if (raw is null)
+        {
+            topology = Topology.Plane;
+            error = null;
+            return true;
+        }
+        if (!Topology.TryParse(raw, out topology))
+        {
+            error = $"Topology '{raw}' is not supported (e.g. plane:clip, plane:wrap, torus:64x64@0,0; a torus or Klein bottle needs at least 3×3 cells, and the universe must fit in the 64-bit plane).";
+            return false;
         }
         error = null;
         return true;
@@ -151,10 +691,31 @@ public class GameController : ControllerBase
         {
             // Coordinates are serialized as strings so 64-bit longs survive JSON transport
             // without silent precision loss in JavaScript's IEEE-754 double.
-            Cells = cells.OrderBy(c => c.X).ThenBy(c => c.Y)
-                         .Select(c => new[] { c.X.ToString(), c.Y.ToString() }).ToArray(),
+            Cells = ToStringPairs(cells.OrderBy(c => c.X).ThenBy(c => c.Y)),
             GenerationsComputed = generationsComputed,
             LiveCellCount = cells.Count
         };
     }
+
+    private static SimulationResponse CreateResponse(Dictionary<Cell, int> cells, int generationsComputed)
+    {
+        return new SimulationResponse
+        {
+            Cells = ToStringCells(cells.OrderBy(c => c.Key.X).ThenBy(c => c.Key.Y)),
+            GenerationsComputed = generationsComputed,
+            LiveCellCount = CountAlive(cells)
+        };
+    }
+
+    private static int CountAlive(Dictionary<Cell, int> cells) =>
+        cells.Values.Count(state => state == LifeRule.Alive);
+
+    private static string[][] ToStringPairs(IEnumerable<Cell> cells) =>
+        cells.Select(c => new[] { c.X.ToString(), c.Y.ToString() }).ToArray();
+
+    // Live cells stay [x, y] pairs; only dying cells carry their state.
+    private static string[][] ToStringCells(IEnumerable<KeyValuePair<Cell, int>> cells) =>
+        cells.Select(c => c.Value == LifeRule.Alive
+            ? new[] { c.Key.X.ToString(), c.Key.Y.ToString() }
+            : new[] { c.Key.X.ToString(), c.Key.Y.ToString(), c.Value.ToString() }).ToArray();
 }
\ No newline at end of file
@@ -0,0 +1,15 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace GameOfLife.Api.Dtos;
+
+public class AdvanceSessionRequest
+{
+    /// <summary>
+    /// The session generation the client's board is at. A session that is elsewhere
+    /// (a reply was lost on the way) answers 409 so the client can start over.
+    /// </summary>
+    public long FromGeneration { get; set; }
+
+    [Range(1, 1000)]
+    public int Generations { get; set; } = 1;
+}
@@ -0,0 +1,7 @@
+namespace GameOfLife.Api.Dtos;
+
+public class CreateSessionResponse
+{
+    public Guid SessionId { get; set; }
+    public int LiveCellCount { get; set; }
+}
@@ -0,0 +1,17 @@
+namespace GameOfLife.Api.Dtos;
+
+public class SessionDeltaResponse
+{
+    /// <summary>
+    /// Cells whose state changed in the advance and that are still on the board, like
+    /// <see cref="SimulationResponse.Cells"/>: [x, y] for a cell born, [x, y, state] for
+    /// one that moved into a dying state of a Generations rule.
+    /// </summary>
+    public required string[][] Births { get; set; }
+    /// <summary>Cells on the board before the advance but gone now, as [x, y] string pairs.</summary>
+    public required string[][] Deaths { get; set; }
+    /// <summary>The session generation after the advance.</summary>
+    public long Generation { get; set; }
+    /// <summary>Cells alive after the advance; dying cells do not count.</summary>
+    public int LiveCellCount { get; set; }
+}
@@ -4,10 +4,19 @@ namespace GameOfLife.Api.Dtos;
 
 public class SimulationRequest
 {
+    /// <summary>Cells as [x, y] string pairs; a dying cell of a Generations rule is [x, y, state] with state 2 and up.</summary>
     [Required]
     [MaxLength(1_000_000)]
     public required string[][] Cells { get; set; }
 
+    /// <summary>Life-like rule in B/S notation (e.g. "B36/S23"), or a Generations rule in B/S/C notation (e.g. "B2/S/C3"). Defaults to Conway's Life when omitted.</summary>
+    [MaxLength(32)]
+    public string? Rule { get; set; }
+
+    /// <summary>Universe in topology notation (e.g. "torus:64x64@0,0"). Defaults to the clipped 64-bit plane when omitted.</summary>
+    [MaxLength(96)]
+    public string? Topology { get; set; }
+
     [Range(1, 1000)]
     public int Generations { get; set; } = 1;
 }
\ No newline at end of file
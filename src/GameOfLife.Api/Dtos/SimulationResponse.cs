@@ -2,9 +2,13 @@ namespace GameOfLife.Api.Dtos;
 
 public class SimulationResponse
 {
-    /// <summary>Each cell is a two-element string array [x, y] so that 64-bit long coordinates survive JSON transport without precision loss.</summary>
+    /// <summary>
+    /// Each cell is a two-element string array [x, y] so that 64-bit long coordinates survive JSON
+    /// transport without precision loss; a dying cell of a Generations rule adds its state, [x, y, state].
+    /// </summary>
     public required string[][] Cells { get; set; }
     /// <summary>Number of generations computed in this request (not the absolute simulation generation).</summary>
     public int GenerationsComputed { get; set; }
+    /// <summary>Cells alive on the board; dying cells do not count.</summary>
     public int LiveCellCount { get; set; }
 }
\ No newline at end of file
@@ -0,0 +1,14 @@
+namespace GameOfLife.Api.Dtos;
+
+/// <summary>A control message for the stream open on a session.</summary>
+public class StreamControlRequest
+{
+    /// <summary>"pause", "resume", "speed" (with <see cref="IntervalMs"/>) or "ack" (with <see cref="Generation"/>).</summary>
+    public string Type { get; set; } = string.Empty;
+
+    /// <summary>For "speed": the new time between frames.</summary>
+    public int? IntervalMs { get; set; }
+
+    /// <summary>For "ack": the newest session generation the client has rendered.</summary>
+    public long? Generation { get; set; }
+}
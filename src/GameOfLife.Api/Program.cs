@@ -3,6 +3,7 @@ using Asp.Versioning;
 using Asp.Versioning.ApiExplorer;
 using GameOfLife.Api;
 using GameOfLife.Api.Middleware;
+using GameOfLife.Api.Services;
 using GameOfLife.Engine.Services;
 using Microsoft.Extensions.Options;
 using Serilog;
@@ -89,10 +90,13 @@ try
     builder.Services.AddSwaggerGen();
 
     builder.Services.AddScoped<IGameEngine, GameEngine>();
+    // Server-held boards for /sessions; they live in memory and are lost on restart.
+    builder.Services.AddSingleton<ISimulationSessionStore, SimulationSessionStore>();
 
     // ── Rate Limiting ────────────────────────────────────────────────────────
     // Fixed-window per client IP. Two policies:
     //   "game" — 300 req/min covers max-speed auto-play at 200 ms intervals (5 req/s).
+    //            Streamed playback is one long request plus an ack every few frames.
     //   "log"  — 60 req/min; frontend logs should never be that frequent.
     // Returns 429 Too Many Requests when the limit is hit.
     builder.Services.AddRateLimiter(options =>
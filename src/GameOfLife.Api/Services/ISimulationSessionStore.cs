@@ -0,0 +1,17 @@
+using System.Diagnostics.CodeAnalysis;
+using GameOfLife.Engine.Models;
+
+namespace GameOfLife.Api.Services;
+
+public interface ISimulationSessionStore
+{
+    /// <summary>Stores a new session; fails when its board does not fit in the cells left for sessions.</summary>
+    bool TryCreate(Dictionary<Cell, int> cells, LifeRule rule, Topology topology, [NotNullWhen(true)] out SimulationSession? session);
+    bool TryGet(Guid id, [NotNullWhen(true)] out SimulationSession? session);
+    /// <summary>
+    /// Moves the session to a new board and generation, keeping its size and idle timeout current.
+    /// Returns false, and leaves the session as it was, when the new board does not fit.
+    /// </summary>
+    bool TryUpdate(SimulationSession session, Dictionary<Cell, int> cells, long generation);
+    bool Remove(Guid id);
+}
@@ -0,0 +1,58 @@
+namespace GameOfLife.Api.Services;
+
+/// <summary>
+/// Playback state of the stream open on a session. The stream loop reads it and
+/// waits on it; the client's control messages change it and wake the loop.
+/// </summary>
+public sealed class SessionPlayback(int intervalMs, bool paused, long acknowledgedGeneration)
+{
+    private readonly object _gate = new();
+    private TaskCompletionSource _changed = NewSignal();
+
+    /// <summary>Time between frames, one generation each.</summary>
+    public int IntervalMs { get; private set; } = intervalMs;
+    public bool Paused { get; private set; } = paused;
+    /// <summary>The newest session generation the client reports as rendered.</summary>
+    public long AcknowledgedGeneration { get; private set; } = acknowledgedGeneration;
+
+    public void Pause() => Update(() => Paused = true);
+
+    public void Resume() => Update(() => Paused = false);
+
+    public void SetInterval(int intervalMs) => Update(() => IntervalMs = intervalMs);
+
+    // Acknowledgements may arrive out of order; only the newest counts.
+    public void Acknowledge(long generation) =>
+        Update(() => AcknowledgedGeneration = Math.Max(AcknowledgedGeneration, generation));
+
+    /// <summary>
+    /// Waits for the next change, at most <paramref name="timeout"/>. Returns
+    /// whether something changed; throws once <paramref name="ct"/> is cancelled.
+    /// </summary>
+    public async Task<bool> WaitForChangeAsync(TimeSpan timeout, CancellationToken ct)
+    {
+        Task changed;
+        lock (_gate)
+            changed = _changed.Task;
+
+        using var delayCts = CancellationTokenSource.CreateLinkedTokenSource(ct);
+        var first = await Task.WhenAny(changed, Task.Delay(timeout, delayCts.Token));
+        delayCts.Cancel();
+        ct.ThrowIfCancellationRequested();
+        return first == changed;
+    }
+
+    private void Update(Action change)
+    {
+        TaskCompletionSource changed;
+        lock (_gate)
+        {
+            change();
+            changed = _changed;
+            _changed = NewSignal();
+        }
+        changed.TrySetResult();
+    }
+
+    private static TaskCompletionSource NewSignal() => new(TaskCreationOptions.RunContinuationsAsynchronously);
+}
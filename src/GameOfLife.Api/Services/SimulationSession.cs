@@ -0,0 +1,25 @@
+using GameOfLife.Engine.Models;
+
+namespace GameOfLife.Api.Services;
+
+/// <summary>
+/// A board held on the server between requests, so a client can advance it
+/// and download only the births and deaths instead of the whole board.
+/// </summary>
+public sealed class SimulationSession(Guid id, Dictionary<Cell, int> cells, LifeRule rule, Topology topology)
+{
+    public Guid Id { get; } = id;
+    public LifeRule Rule { get; } = rule;
+    public Topology Topology { get; } = topology;
+    /// <summary>The state of each cell on the board: 1 alive, 2 and up dying under a Generations rule.</summary>
+    public Dictionary<Cell, int> Cells { get; set; } = cells;
+
+    /// <summary>Generations advanced since the session was created (not the client's generation counter).</summary>
+    public long Generation { get; set; }
+
+    /// <summary>Advances of one session run one at a time.</summary>
+    public object SyncRoot { get; } = new();
+
+    /// <summary>The stream open on the session, if any; set and cleared under <see cref="SyncRoot"/>.</summary>
+    public SessionPlayback? Playback { get; set; }
+}
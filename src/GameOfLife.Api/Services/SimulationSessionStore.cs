@@ -0,0 +1,104 @@
+using System.Diagnostics.CodeAnalysis;
+using GameOfLife.Engine.Models;
+using Microsoft.Extensions.Caching.Memory;
+
+namespace GameOfLife.Api.Services;
+
+/// <summary>
+/// In-memory session store. Sessions are dropped after sitting idle, and the
+/// cells held across all sessions are capped so abandoned boards cannot use up
+/// the server's memory; a client that finds its session gone creates a new one.
+/// Sessions do not survive a restart of the API.
+/// </summary>
+public sealed class SimulationSessionStore : ISimulationSessionStore, IDisposable
+{
+    public static readonly TimeSpan IdleTimeout = TimeSpan.FromMinutes(10);
+
+    // Twenty boards at the 1,000,000-cell limit.
+    public const long MaxTotalCells = 20_000_000;
+
+    // The cap is kept here rather than with the cache's SizeLimit: over its limit
+    // the cache drops the entry being stored and compacts away other sessions,
+    // where a board that does not fit should just be refused.
+    private readonly MemoryCache _cache = new(new MemoryCacheOptions());
+    private readonly long _maxTotalCells;
+    private readonly object _sizeLock = new();
+    private readonly Dictionary<Guid, long> _sizes = [];
+    private long _totalCells;
+
+    public SimulationSessionStore() : this(MaxTotalCells)
+    {
+    }
+
+    public SimulationSessionStore(long maxTotalCells)
+    {
+        _maxTotalCells = maxTotalCells;
+    }
+
+    public bool TryCreate(Dictionary<Cell, int> cells, LifeRule rule, Topology topology, [NotNullWhen(true)] out SimulationSession? session)
+    {
+        var created = new SimulationSession(Guid.NewGuid(), cells, rule, topology);
+        session = TryStore(created, cells.Count) ? created : null;
+        return session is not null;
+    }
+
+    public bool TryGet(Guid id, [NotNullWhen(true)] out SimulationSession? session) =>
+        _cache.TryGetValue(id, out session);
+
+    public bool TryUpdate(SimulationSession session, Dictionary<Cell, int> cells, long generation)
+    {
+        if (!TryStore(session, cells.Count))
+            return false;
+        session.Cells = cells;
+        session.Generation = generation;
+        return true;
+    }
+
+    public bool Remove(Guid id)
+    {
+        lock (_sizeLock)
+        {
+            if (!_cache.TryGetValue(id, out _))
+                return false;
+            _cache.Remove(id);
+            if (_sizes.Remove(id, out var size))
+                _totalCells -= size;
+            return true;
+        }
+    }
+
+    private bool TryStore(SimulationSession session, int cellCount)
+    {
+        // Empty boards still count, so the cap also limits the number of sessions.
+        var size = cellCount + 1L;
+        lock (_sizeLock)
+        {
+            var total = _totalCells - _sizes.GetValueOrDefault(session.Id) + size;
+            if (total > _maxTotalCells)
+                return false;
+
+            _totalCells = total;
+            _sizes[session.Id] = size;
+            var options = new MemoryCacheEntryOptions { SlidingExpiration = IdleTimeout };
+            options.RegisterPostEvictionCallback(OnEvicted);
+            _cache.Set(session.Id, session, options);
+            return true;
+        }
+    }
+
+    private void OnEvicted(object key, object? value, EvictionReason reason, object? state)
+    {
+        var id = (Guid)key;
+        lock (_sizeLock)
+        {
+            // Set replacing the entry, or storing the session again after it
+            // expired, leaves it counted under its new size.
+            if (_cache.TryGetValue(id, out _))
+                return;
+            if (_sizes.Remove(id, out var size))
+                _totalCells -= size;
+        }
+    }
+
+    public void Dispose() => _cache.Dispose();
+}
@@ -0,0 +1,110 @@
+using System.Text;
+using System.Text.RegularExpressions;
+
+namespace GameOfLife.Engine.Models;
+
+/// <summary>
+/// A Life-like cellular automaton rule in B/S notation (e.g. "B3/S23" for Conway's Life),
+/// or a multi-state "Generations" rule in B/S/C notation (e.g. "B2/S/C3" for Brian's Brain).
+/// Birth and survival are 9-bit masks indexed by live-neighbour count: bit n of
+/// <see cref="BirthMask"/> set means a dead cell with n live neighbours is born.
+/// The frontend parses the same notation (services/rules.ts), so its optimistic
+/// prediction and the server always run the same rule.
+/// </summary>
+/// <remarks>
+/// Under a Generations rule with <see cref="States"/> C, a live cell (state 1)
+/// that does not survive moves through the dying states 2 … C-1, one per
+/// generation, and is then gone. Dying cells are not live neighbours, and a
+/// cell cannot be born until it is gone. C = 2 is an ordinary Life-like rule.
+/// </remarks>
+public readonly record struct LifeRule(int BirthMask, int SurvivalMask, int States = 2)
+{
+    public const int Alive = 1;
+    public const int MaxStates = 256;
+
+    public static readonly LifeRule Conway = new(1 << 3, (1 << 2) | (1 << 3));
+
+    private static readonly Regex BirthSurvival = new(@"^B([0-8]*)/S([0-8]*)(?:/C(\d+))?$", RegexOptions.IgnoreCase);
+    private static readonly Regex SurvivalBirth = new(@"^S([0-8]*)/B([0-8]*)(?:/C(\d+))?$", RegexOptions.IgnoreCase);
+    private static readonly Regex Legacy = new(@"^([0-8]*)/([0-8]*)(?:/(\d+))?$");
+
+    /// <summary>Whether the rule has dying states, i.e. more than alive and dead.</summary>
+    public bool IsGenerations => States > 2;
+
+    public bool NextState(bool alive, int neighbors) =>
+        ((alive ? SurvivalMask : BirthMask) & (1 << neighbors)) != 0;
+
+    /// <summary>
+    /// The state of a cell in the next generation: 0 dead, 1 alive, 2 and up dying.
+    /// A state the rule does not have (left over from a rule with more) counts as its last.
+    /// </summary>
+    public int NextCellState(int state, int neighbors)
+    {
+        if (state == 0)
+            return NextState(alive: false, neighbors) ? Alive : 0;
+        if (state == Alive && NextState(alive: true, neighbors))
+            return Alive;
+        return state + 1 < States ? state + 1 : 0;
+    }
+
+    /// <summary>
+    /// Parses "B3/S23", "S23/B3" or the older survival/birth form "23/3", each
+    /// optionally followed by a Generations state count: "B2/S345/C4", "S345/B2/C4"
+    /// or "345/2/4". Counts outside 2 … 256 are rejected, and so are B0 rules:
+    /// a birth on zero neighbours would fill the whole unbounded plane in a single generation.
+    /// </summary>
+    public static bool TryParse(string? text, out LifeRule rule)
+    {
+        rule = Conway;
+        if (string.IsNullOrWhiteSpace(text))
+            return false;
+
+        var trimmed = text.Trim();
+        string birth, survival;
+
+        Match match;
+        if ((match = BirthSurvival.Match(trimmed)).Success)
+            (birth, survival) = (match.Groups[1].Value, match.Groups[2].Value);
+        else if ((match = SurvivalBirth.Match(trimmed)).Success)
+            (survival, birth) = (match.Groups[1].Value, match.Groups[2].Value);
+        else if ((match = Legacy.Match(trimmed)).Success)
+            (survival, birth) = (match.Groups[1].Value, match.Groups[2].Value);
+        else
+            return false;
+
+        if (birth.Contains('0'))
+            return false;
+
+        var states = 2;
+        if (match.Groups[3].Success &&
+            (!int.TryParse(match.Groups[3].Value, out states) || states < 2 || states > MaxStates))
+            return false;
+
+        rule = new LifeRule(ToMask(birth), ToMask(survival), states);
+        return true;
+    }
+
+    /// <summary>Canonical "B.../S..." form with digits in ascending order, and "/C..." for Generations.</summary>
+    public override string ToString() => IsGenerations
+        ? $"B{ToDigits(BirthMask)}/S{ToDigits(SurvivalMask)}/C{States}"
+        : $"B{ToDigits(BirthMask)}/S{ToDigits(SurvivalMask)}";
+
+    private static int ToMask(string digits)
+    {
+        int mask = 0;
+        foreach (var d in digits)
+            mask |= 1 << (d - '0');
+        return mask;
+    }
+
+    private static string ToDigits(int mask)
+    {
+        var sb = new StringBuilder();
+        for (int n = 0; n <= 8; n++)
+        {
+            if ((mask & (1 << n)) != 0)
+                sb.Append(n);
+        }
+        return sb.ToString();
+    }
+}
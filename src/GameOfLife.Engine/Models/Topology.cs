@@ -0,0 +1,145 @@
+using System.Globalization;
+using System.Text.RegularExpressions;
+
+namespace GameOfLife.Engine.Models;
+
+public enum TopologyKind
+{
+    /// <summary>The whole 64-bit plane; <see cref="Topology.Edge"/> says what happens at its limits.</summary>
+    Plane,
+    /// <summary>A bounded rectangle; everything outside it is dead.</summary>
+    Rect,
+    /// <summary>A rectangle whose opposite edges are joined.</summary>
+    Torus,
+    /// <summary>A torus whose top and bottom edges are joined mirrored left to right.</summary>
+    Klein
+}
+
+public enum EdgePolicy
+{
+    /// <summary>Nothing crosses the 64-bit limits — a hard wall, no wraparound.</summary>
+    Clip,
+    /// <summary>Leaving one 64-bit limit enters at the other.</summary>
+    Wrap
+}
+
+/// <summary>
+/// The universe a board lives in, written "plane:clip", "plane:wrap", or
+/// "rect|torus|klein:WxH@X,Y" for a W×H universe whose top-left cell is (X, Y).
+/// Cells outside a bounded universe are dead: they are no one's neighbour and do
+/// not survive the next generation. The frontend parses the same notation
+/// (services/topology.ts), so its optimistic prediction and the server always
+/// step in the same universe.
+/// </summary>
+public readonly record struct Topology(TopologyKind Kind, EdgePolicy Edge, long X, long Y, long Width, long Height)
+{
+    public static readonly Topology Plane = new(TopologyKind.Plane, EdgePolicy.Clip, 0, 0, 0, 0);
+
+    // Below three cells across, a wrapped neighbourhood would reach the same cell twice.
+    private const long MinWrappedSize = 3;
+
+    private static readonly (int Dx, int Dy)[] Offsets =
+    {
+        (-1, -1), (-1, 0), (-1, 1),
+        ( 0, -1),          ( 0, 1),
+        ( 1, -1), ( 1, 0), ( 1, 1)
+    };
+
+    private static readonly Regex PlanePattern = new(@"^plane(?::(clip|wrap))?$", RegexOptions.IgnoreCase);
+    private static readonly Regex BoundedPattern = new(@"^(rect|torus|klein):(\d+)x(\d+)@(-?\d+),(-?\d+)$", RegexOptions.IgnoreCase);
+
+    /// <summary>Whether the cell belongs to the universe; every cell of the 64-bit plane belongs to the plane.</summary>
+    public bool Contains(Cell cell) =>
+        Kind == TopologyKind.Plane ||
+        (cell.X >= X && cell.X <= X + (Width - 1) && cell.Y >= Y && cell.Y <= Y + (Height - 1));
+
+    /// <summary>
+    /// The neighbours of a cell of the universe. A neighbour appears once per
+    /// offset that reaches it, and not at all past a dead or clipped edge.
+    /// </summary>
+    public IEnumerable<Cell> GetNeighbors(Cell cell)
+    {
+        if (Kind == TopologyKind.Plane && Edge == EdgePolicy.Clip)
+            return cell.GetNeighbors();
+        return WrappedNeighbors(cell);
+    }
+
+    private IEnumerable<Cell> WrappedNeighbors(Cell cell)
+    {
+        foreach (var (dx, dy) in Offsets)
+        {
+            if (Neighbor(cell, dx, dy) is { } neighbor)
+                yield return neighbor;
+        }
+    }
+
+    private Cell? Neighbor(Cell cell, int dx, int dy)
+    {
+        if (Kind == TopologyKind.Plane)
+            return new Cell(unchecked(cell.X + dx), unchecked(cell.Y + dy));
+
+        // Offsets within the universe: 0 ≤ u < Width before the step, so no overflow.
+        long u = cell.X - X + dx;
+        long v = cell.Y - Y + dy;
+        bool crossesX = u < 0 || u >= Width;
+        bool crossesY = v < 0 || v >= Height;
+        if (Kind == TopologyKind.Rect)
+            return crossesX || crossesY ? null : new Cell(X + u, Y + v);
+
+        if (crossesY)
+        {
+            v = v < 0 ? Height - 1 : 0;
+            // The Klein bottle's twist: over the top or bottom edge, left and right swap.
+            if (Kind == TopologyKind.Klein)
+                u = Width - 1 - u;
+        }
+        if (u < 0) u = Width - 1;
+        else if (u >= Width) u = 0;
+        return new Cell(X + u, Y + v);
+    }
+
+    /// <summary>
+    /// Parses the notation above; a bare "plane" means plane:clip. Fails on
+    /// anything else, on a torus or Klein bottle under 3 cells across, and on a
+    /// universe that reaches past the 64-bit plane.
+    /// </summary>
+    public static bool TryParse(string? text, out Topology topology)
+    {
+        topology = Plane;
+        if (string.IsNullOrWhiteSpace(text))
+            return false;
+
+        var trimmed = text.Trim();
+        Match match;
+        if ((match = PlanePattern.Match(trimmed)).Success)
+        {
+            var wrap = match.Groups[1].Value.Equals("wrap", StringComparison.OrdinalIgnoreCase);
+            topology = Plane with { Edge = wrap ? EdgePolicy.Wrap : EdgePolicy.Clip };
+            return true;
+        }
+
+        if (!(match = BoundedPattern.Match(trimmed)).Success)
+            return false;
+
+        var kind = Enum.Parse<TopologyKind>(match.Groups[1].Value, ignoreCase: true);
+        if (!long.TryParse(match.Groups[2].Value, NumberStyles.None, CultureInfo.InvariantCulture, out var width) ||
+            !long.TryParse(match.Groups[3].Value, NumberStyles.None, CultureInfo.InvariantCulture, out var height) ||
+            !long.TryParse(match.Groups[4].Value, NumberStyles.AllowLeadingSign, CultureInfo.InvariantCulture, out var x) ||
+            !long.TryParse(match.Groups[5].Value, NumberStyles.AllowLeadingSign, CultureInfo.InvariantCulture, out var y))
+            return false;
+
+        var min = kind == TopologyKind.Rect ? 1 : MinWrappedSize;
+        if (width < min || height < min)
+            return false;
+        if (x > long.MaxValue - (width - 1) || y > long.MaxValue - (height - 1))
+            return false;
+
+        topology = new Topology(kind, EdgePolicy.Clip, x, y, width, height);
+        return true;
+    }
+
+    /// <summary>Canonical form, as <see cref="TryParse"/> reads it back.</summary>
+    public override string ToString() => Kind == TopologyKind.Plane
+        ? $"plane:{Edge.ToString().ToLowerInvariant()}"
+        : $"{Kind.ToString().ToLowerInvariant()}:{Width}x{Height}@{X},{Y}";
+}
@@ -5,14 +5,29 @@ namespace GameOfLife.Engine.Services;
 public class GameEngine : IGameEngine
 {
     /// <summary>
-    /// Advances the simulation by one generation.
+    /// Advances the simulation by one generation under Conway's rules (B3/S23).
+    /// </summary>
+    public HashSet<Cell> Tick(HashSet<Cell> aliveCells) => Tick(aliveCells, LifeRule.Conway);
+
+    /// <summary>
+    /// Advances the simulation by one generation under a Life-like rule on the
+    /// clipped 64-bit plane.
+    /// </summary>
+    public HashSet<Cell> Tick(HashSet<Cell> aliveCells, LifeRule rule) => Tick(aliveCells, rule, Topology.Plane);
+
+    /// <summary>
+    /// Advances the simulation by one generation under a Life-like rule in a given universe.
     /// Uses a neighbor-counting approach: for every alive cell, increment
-    /// the count of all its neighbors in a dictionary. Then apply the rules:
-    /// - Alive cell with 2 or 3 neighbors survives
-    /// - Dead cell with exactly 3 neighbors becomes alive
+    /// the count of all its neighbors in a dictionary. Then apply the rule:
+    /// - Alive cell survives when its neighbor count is in the S list
+    /// - Dead cell becomes alive when its neighbor count is in the B list
+    /// Cells outside a bounded universe are dead, so they count for nothing.
+    /// A set of live cells has no dying states, so Generations rules need the
+    /// dictionary overload.
     /// </summary>
-    public HashSet<Cell> Tick(HashSet<Cell> aliveCells)
+    public HashSet<Cell> Tick(HashSet<Cell> aliveCells, LifeRule rule, Topology topology)
     {
+        RequireTwoStates(rule);
         if (aliveCells.Count == 0)
             return new HashSet<Cell>();
 
@@ -20,7 +35,9 @@ public class GameEngine : IGameEngine
 
         foreach (var cell in aliveCells)
         {
-            foreach (var neighbor in cell.GetNeighbors())
+            if (!topology.Contains(cell))
+                continue;
+            foreach (var neighbor in topology.GetNeighbors(cell))
             {
                 if (neighborCounts.TryGetValue(neighbor, out var count))
                     neighborCounts[neighbor] = count + 1;
@@ -33,22 +50,98 @@ public class GameEngine : IGameEngine
 
         foreach (var (cell, count) in neighborCounts)
         {
-            if (count == 3 || (count == 2 && aliveCells.Contains(cell)))
+            if (rule.NextState(aliveCells.Contains(cell), count))
             {
                 nextGeneration.Add(cell);
             }
         }
 
+        // Isolated live cells never appear in neighborCounts; they only survive under S0 rules.
+        if (rule.NextState(alive: true, neighbors: 0))
+        {
+            foreach (var cell in aliveCells)
+            {
+                if (!neighborCounts.ContainsKey(cell) && topology.Contains(cell))
+                    nextGeneration.Add(cell);
+            }
+        }
+
         return nextGeneration;
     }
 
-    public HashSet<Cell> Simulate(HashSet<Cell> aliveCells, int generations)
+    public HashSet<Cell> Simulate(HashSet<Cell> aliveCells, int generations) =>
+        Simulate(aliveCells, generations, LifeRule.Conway);
+
+    public HashSet<Cell> Simulate(HashSet<Cell> aliveCells, int generations, LifeRule rule) =>
+        Simulate(aliveCells, generations, rule, Topology.Plane);
+
+    public HashSet<Cell> Simulate(HashSet<Cell> aliveCells, int generations, LifeRule rule, Topology topology)
     {
+        RequireTwoStates(rule);
         var current = aliveCells;
         for (int i = 0; i < generations; i++)
         {
-            current = Tick(current);
+            current = Tick(current, rule, topology);
+        }
+        return current;
+    }
+
+    /// <summary>
+    /// Advances a board of cell states by one generation: 1 is alive, 2 and up
+    /// are the dying states of a Generations rule. Only live cells count as
+    /// neighbours, only empty cells can be born, and every other cell moves on
+    /// by <see cref="LifeRule.NextCellState"/>. Under a two-state rule this is
+    /// the same step as the set overload.
+    /// </summary>
+    public Dictionary<Cell, int> Tick(IReadOnlyDictionary<Cell, int> cells, LifeRule rule, Topology topology)
+    {
+        var neighborCounts = new Dictionary<Cell, int>();
+
+        foreach (var (cell, state) in cells)
+        {
+            if (state != LifeRule.Alive || !topology.Contains(cell))
+                continue;
+            foreach (var neighbor in topology.GetNeighbors(cell))
+            {
+                neighborCounts.TryGetValue(neighbor, out var count);
+                neighborCounts[neighbor] = count + 1;
+            }
+        }
+
+        var nextGeneration = new Dictionary<Cell, int>();
+
+        foreach (var (cell, count) in neighborCounts)
+        {
+            if (!cells.ContainsKey(cell) && rule.NextCellState(0, count) != 0)
+                nextGeneration[cell] = LifeRule.Alive;
+        }
+
+        foreach (var (cell, state) in cells)
+        {
+            if (!topology.Contains(cell))
+                continue;
+            neighborCounts.TryGetValue(cell, out var count);
+            var next = rule.NextCellState(state, count);
+            if (next != 0)
+                nextGeneration[cell] = next;
+        }
+
+        return nextGeneration;
+    }
+
+    public Dictionary<Cell, int> Simulate(IReadOnlyDictionary<Cell, int> cells, int generations, LifeRule rule, Topology topology)
+    {
+        var current = new Dictionary<Cell, int>(cells);
+        for (int i = 0; i < generations; i++)
+        {
+            current = Tick(current, rule, topology);
         }
         return current;
     }
+
+    private static void RequireTwoStates(LifeRule rule)
+    {
+        if (rule.IsGenerations)
+            throw new ArgumentException($"{rule} has dying states; step it with a dictionary of cell states.", nameof(rule));
+    }
 }
@@ -5,5 +5,11 @@ namespace GameOfLife.Engine.Services;
 public interface IGameEngine
 {
     HashSet<Cell> Tick(HashSet<Cell> aliveCells);
+    HashSet<Cell> Tick(HashSet<Cell> aliveCells, LifeRule rule);
+    HashSet<Cell> Tick(HashSet<Cell> aliveCells, LifeRule rule, Topology topology);
     HashSet<Cell> Simulate(HashSet<Cell> aliveCells, int generations);
+    HashSet<Cell> Simulate(HashSet<Cell> aliveCells, int generations, LifeRule rule);
+    HashSet<Cell> Simulate(HashSet<Cell> aliveCells, int generations, LifeRule rule, Topology topology);
+    Dictionary<Cell, int> Tick(IReadOnlyDictionary<Cell, int> cells, LifeRule rule, Topology topology);
+    Dictionary<Cell, int> Simulate(IReadOnlyDictionary<Cell, int> cells, int generations, LifeRule rule, Topology topology);
 }
@@ -1,13 +1,20 @@
 using System.Net;
 using System.Net.Http.Json;
 using System.Text.Json;
+using System.Net.Http.Headers;
 using GameOfLife.Api.Dtos;
+using GameOfLife.Api.Services;
+using GameOfLife.Engine.Models;
+using GameOfLife.Engine.Services;
 using Microsoft.AspNetCore.Mvc.Testing;
+using Microsoft.AspNetCore.TestHost;
+using Microsoft.Extensions.DependencyInjection;
 
 namespace GameOfLife.Api.Tests;
 
 public class GameControllerTests : IClassFixture<WebApplicationFactory<Program>>
 {
+    private readonly WebApplicationFactory<Program> _factory;
     private readonly HttpClient _client;
     private readonly JsonSerializerOptions _jsonOptions = new()
     {
@@ -16,13 +23,35 @@ public class GameControllerTests : IClassFixture<WebApplicationFactory<Program>>
 
     public GameControllerTests(WebApplicationFactory<Program> factory)
     {
+        _factory = factory;
         _client = factory.CreateClient();
     }
 
+    // Helper: a client for a server whose session store holds at most maxTotalCells cells.
+    private HttpClient ClientWithSessionMemory(long maxTotalCells) =>
+        _factory.WithWebHostBuilder(builder => builder.ConfigureTestServices(services =>
+            services.AddSingleton<ISimulationSessionStore>(new SimulationSessionStore(maxTotalCells)))).CreateClient();
+
     // Helper: build a string[][] cell array from long pairs.
     private static string[][] Cells(params (long x, long y)[] pairs) =>
         pairs.Select(p => new[] { p.x.ToString(), p.y.ToString() }).ToArray();
 
+    // Helper: a binary cell body (application/x-life-cells) from long pairs.
+    private static ByteArrayContent BinaryCells(params (long x, long y)[] pairs)
+    {
+        var content = new ByteArrayContent(BinaryCellCodec.Encode(pairs.Select(p => new Cell(p.x, p.y))));
+        content.Headers.ContentType = new MediaTypeHeaderValue(BinaryCellCodec.MediaType);
+        return content;
+    }
+
+    private static async Task<HashSet<Cell>> ReadBinaryCells(HttpResponseMessage response)
+    {
+        Assert.Equal(BinaryCellCodec.MediaType, response.Content.Headers.ContentType?.MediaType);
+        var bytes = await response.Content.ReadAsByteArrayAsync();
+        Assert.True(BinaryCellCodec.TryDecode(bytes, 1_000_000, out var cells, out var error), error);
+        return cells;
+    }
+
     [Fact]
     public async Task Tick_BlinkerOscillates()
     {
@@ -296,4 +325,478 @@ public class GameControllerTests : IClassFixture<WebApplicationFactory<Program>>
         var content = await response.Content.ReadAsStringAsync();
         Assert.Equal("#Life 1.06\n", content);
     }
+
+    [Fact]
+    public async Task Tick_HighLifeRule_AppliesB6Birth()
+    {
+        // The centre cell (1,1) has exactly six live neighbours.
+        var request = new TickRequest
+        {
+            Cells = Cells((0, 0), (1, 0), (2, 0), (0, 2), (1, 2), (2, 2)),
+            Rule = "B36/S23"
+        };
+
+        var response = await _client.PostAsJsonAsync("/api/v1/game/tick", request);
+        response.EnsureSuccessStatusCode();
+
+        var result = await response.Content.ReadFromJsonAsync<SimulationResponse>(_jsonOptions);
+        Assert.NotNull(result);
+        Assert.Contains(("1", "1"), result.Cells.Select(c => (c[0], c[1])).ToHashSet());
+    }
+
+    [Fact]
+    public async Task Simulate_InvalidRule_ReturnsBadRequest()
+    {
+        var request = new SimulationRequest
+        {
+            Cells = Cells((0, 0)),
+            Generations = 1,
+            Rule = "B0/S8"
+        };
+
+        var response = await _client.PostAsJsonAsync("/api/v1/game/simulate", request);
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task Tick_Torus_WrapsAroundTheSeams()
+    {
+        // In a 3-high torus the blinker's ends are neighbours, so every cell sees the other two.
+        var request = new TickRequest
+        {
+            Cells = Cells((0, -1), (0, 0), (0, 1)),
+            Topology = "torus:5x3@-2,-1"
+        };
+
+        var response = await _client.PostAsJsonAsync("/api/v1/game/tick", request);
+        response.EnsureSuccessStatusCode();
+
+        var result = await response.Content.ReadFromJsonAsync<SimulationResponse>(_jsonOptions);
+        Assert.NotNull(result);
+        Assert.Equal(9, result.LiveCellCount);
+    }
+
+    [Fact]
+    public async Task Simulate_InvalidTopology_ReturnsBadRequest()
+    {
+        var request = new SimulationRequest
+        {
+            Cells = Cells((0, 0)),
+            Generations = 1,
+            Topology = "torus:2x2@0,0"
+        };
+
+        var response = await _client.PostAsJsonAsync("/api/v1/game/simulate", request);
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task TickBinary_BlinkerOscillates()
+    {
+        var response = await _client.PostAsync("/api/v1/game/tick/binary", BinaryCells((0, -1), (0, 0), (0, 1)));
+        response.EnsureSuccessStatusCode();
+
+        var cells = await ReadBinaryCells(response);
+        Assert.Equal(new HashSet<Cell> { new(-1, 0), new(0, 0), new(1, 0) }, cells);
+    }
+
+    [Fact]
+    public async Task SimulateBinary_HighLifeRuleAndLongExtremes_RoundTrip()
+    {
+        // A block in each corner of the 64-bit plane is a still life under HighLife too.
+        const long max = long.MaxValue, min = long.MinValue;
+        var blocks = new[]
+        {
+            (min, min), (min + 1, min), (min, min + 1), (min + 1, min + 1),
+            (max, max), (max - 1, max), (max, max - 1), (max - 1, max - 1),
+        };
+
+        var response = await _client.PostAsync(
+            "/api/v1/game/simulate/binary?generations=4&rule=B36%2FS23", BinaryCells(blocks));
+        response.EnsureSuccessStatusCode();
+
+        var cells = await ReadBinaryCells(response);
+        Assert.Equal(blocks.Select(b => new Cell(b.Item1, b.Item2)).ToHashSet(), cells);
+    }
+
+    [Fact]
+    public async Task SimulateBinary_GenerationsOutOfRange_ReturnsBadRequest()
+    {
+        var response = await _client.PostAsync("/api/v1/game/simulate/binary?generations=0", BinaryCells((0, 0)));
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task TickBinary_TruncatedBody_ReturnsBadRequest()
+    {
+        var bytes = BinaryCellCodec.Encode(new[] { new Cell(5, 5), new Cell(6, 6) });
+        using var content = new ByteArrayContent(bytes[..^1]);
+        content.Headers.ContentType = new MediaTypeHeaderValue(BinaryCellCodec.MediaType);
+
+        var response = await _client.PostAsync("/api/v1/game/tick/binary", content);
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task TickBinary_JsonBody_ReturnsBadRequest()
+    {
+        using var content = new StringContent("{\"cells\":[]}", System.Text.Encoding.UTF8, "application/json");
+
+        var response = await _client.PostAsync("/api/v1/game/tick/binary", content);
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task ParseBinary_ReturnsCellsInBinary()
+    {
+        var request = new ParseRequest { Content = "#Life 1.06\n0 1\n-9223372036854775808 9223372036854775807\n" };
+
+        var response = await _client.PostAsJsonAsync("/api/v1/game/parse/binary", request);
+        response.EnsureSuccessStatusCode();
+
+        var cells = await ReadBinaryCells(response);
+        Assert.Equal(new HashSet<Cell> { new(0, 1), new(long.MinValue, long.MaxValue) }, cells);
+    }
+
+    [Fact]
+    public async Task ExportBinary_ReturnsPlainTextLife106Format()
+    {
+        var response = await _client.PostAsync("/api/v1/game/export/binary", BinaryCells((0, 0), (1, 1)));
+        response.EnsureSuccessStatusCode();
+
+        Assert.Equal("text/plain", response.Content.Headers.ContentType?.MediaType);
+        Assert.Equal("#Life 1.06\n0 0\n1 1\n", await response.Content.ReadAsStringAsync());
+    }
+
+    private async Task<Guid> CreateSession(params (long x, long y)[] pairs)
+    {
+        var response = await _client.PostAsJsonAsync("/api/v1/game/sessions", new CreateSessionRequest { Cells = Cells(pairs) });
+        response.EnsureSuccessStatusCode();
+        var created = await response.Content.ReadFromJsonAsync<CreateSessionResponse>(_jsonOptions);
+        Assert.NotNull(created);
+        Assert.Equal(pairs.Length, created.LiveCellCount);
+        return created.SessionId;
+    }
+
+    [Fact]
+    public async Task Session_BlinkerAdvance_ReturnsBirthsAndDeaths()
+    {
+        var id = await CreateSession((0, -1), (0, 0), (0, 1));
+
+        var response = await _client.PostAsJsonAsync($"/api/v1/game/sessions/{id}/advance",
+            new AdvanceSessionRequest { FromGeneration = 0, Generations = 1 });
+        response.EnsureSuccessStatusCode();
+
+        var delta = await response.Content.ReadFromJsonAsync<SessionDeltaResponse>(_jsonOptions);
+        Assert.NotNull(delta);
+        Assert.Equal(1, delta.Generation);
+        Assert.Equal(3, delta.LiveCellCount);
+        Assert.Equal(new[] { ("-1", "0"), ("1", "0") }.ToHashSet(), delta.Births.Select(c => (c[0], c[1])).ToHashSet());
+        Assert.Equal(new[] { ("0", "-1"), ("0", "1") }.ToHashSet(), delta.Deaths.Select(c => (c[0], c[1])).ToHashSet());
+    }
+
+    [Fact]
+    public async Task Session_AdvanceFromStaleGeneration_ReturnsConflict()
+    {
+        var id = await CreateSession((0, -1), (0, 0), (0, 1));
+        var first = await _client.PostAsJsonAsync($"/api/v1/game/sessions/{id}/advance",
+            new AdvanceSessionRequest { FromGeneration = 0, Generations = 2 });
+        first.EnsureSuccessStatusCode();
+
+        var stale = await _client.PostAsJsonAsync($"/api/v1/game/sessions/{id}/advance",
+            new AdvanceSessionRequest { FromGeneration = 0, Generations = 1 });
+        Assert.Equal(HttpStatusCode.Conflict, stale.StatusCode);
+    }
+
+    [Fact]
+    public async Task Session_DeletedOrUnknown_ReturnsNotFound()
+    {
+        var id = await CreateSession((0, 0));
+
+        var deleted = await _client.DeleteAsync($"/api/v1/game/sessions/{id}");
+        Assert.Equal(HttpStatusCode.NoContent, deleted.StatusCode);
+
+        var advance = await _client.PostAsJsonAsync($"/api/v1/game/sessions/{id}/advance",
+            new AdvanceSessionRequest { FromGeneration = 0, Generations = 1 });
+        Assert.Equal(HttpStatusCode.NotFound, advance.StatusCode);
+
+        var unknown = await _client.PostAsJsonAsync($"/api/v1/game/sessions/{Guid.NewGuid()}/advance",
+            new AdvanceSessionRequest { FromGeneration = 0, Generations = 1 });
+        Assert.Equal(HttpStatusCode.NotFound, unknown.StatusCode);
+    }
+
+    [Fact]
+    public async Task Session_StoreFull_ReturnsInsufficientStorageAndKeepsOtherSessions()
+    {
+        // Each three-cell board takes four cells of the budget, so the third does not fit.
+        var client = ClientWithSessionMemory(8);
+        var request = new CreateSessionRequest { Cells = Cells((0, -1), (0, 0), (0, 1)) };
+
+        var first = await client.PostAsJsonAsync("/api/v1/game/sessions", request);
+        first.EnsureSuccessStatusCode();
+        (await client.PostAsJsonAsync("/api/v1/game/sessions", request)).EnsureSuccessStatusCode();
+        var full = await client.PostAsJsonAsync("/api/v1/game/sessions", request);
+
+        Assert.Equal(HttpStatusCode.InsufficientStorage, full.StatusCode);
+        Assert.Contains("session memory is full", await full.Content.ReadAsStringAsync());
+
+        var created = await first.Content.ReadFromJsonAsync<CreateSessionResponse>(_jsonOptions);
+        Assert.NotNull(created);
+        var advanced = await client.PostAsJsonAsync($"/api/v1/game/sessions/{created.SessionId}/advance",
+            new AdvanceSessionRequest { FromGeneration = 0, Generations = 1 });
+        advanced.EnsureSuccessStatusCode();
+    }
+
+    [Fact]
+    public async Task Session_GrowingPastStore_ReturnsInsufficientStorageAndKeepsBoard()
+    {
+        // The R-pentomino fills the six-cell budget and has six cells one generation later.
+        var client = ClientWithSessionMemory(6);
+        var response = await client.PostAsJsonAsync("/api/v1/game/sessions",
+            new CreateSessionRequest { Cells = Cells((1, 0), (2, 0), (0, 1), (1, 1), (1, 2)) });
+        response.EnsureSuccessStatusCode();
+        var created = await response.Content.ReadFromJsonAsync<CreateSessionResponse>(_jsonOptions);
+        Assert.NotNull(created);
+
+        var grown = await client.PostAsJsonAsync($"/api/v1/game/sessions/{created.SessionId}/advance",
+            new AdvanceSessionRequest { FromGeneration = 0, Generations = 1 });
+        Assert.Equal(HttpStatusCode.InsufficientStorage, grown.StatusCode);
+
+        // Still at generation 0, not moved on by the advance that did not fit.
+        var moved = await client.PostAsJsonAsync($"/api/v1/game/sessions/{created.SessionId}/advance",
+            new AdvanceSessionRequest { FromGeneration = 1, Generations = 1 });
+        Assert.Equal(HttpStatusCode.Conflict, moved.StatusCode);
+    }
+
+    [Fact]
+    public async Task SessionBinary_KeepsRuleAndLongExtremes()
+    {
+        // HighLife: the centre cell (1,1) has six live neighbours and is born; the block in the far corner stays.
+        const long max = long.MaxValue;
+        var response = await _client.PostAsync("/api/v1/game/sessions/binary?rule=B36%2FS23", BinaryCells(
+            (0, 0), (1, 0), (2, 0), (0, 2), (1, 2), (2, 2),
+            (max, max), (max - 1, max), (max, max - 1), (max - 1, max - 1)));
+        response.EnsureSuccessStatusCode();
+        var created = await response.Content.ReadFromJsonAsync<CreateSessionResponse>(_jsonOptions);
+        Assert.NotNull(created);
+
+        var advance = await _client.PostAsJsonAsync($"/api/v1/game/sessions/{created.SessionId}/advance",
+            new AdvanceSessionRequest { FromGeneration = 0, Generations = 1 });
+        advance.EnsureSuccessStatusCode();
+
+        var delta = await advance.Content.ReadFromJsonAsync<SessionDeltaResponse>(_jsonOptions);
+        Assert.NotNull(delta);
+        Assert.Contains(("1", "1"), delta.Births.Select(c => (c[0], c[1])));
+        Assert.DoesNotContain(delta.Deaths, c => c[0] == max.ToString());
+    }
+
+    [Fact]
+    public async Task SessionBinary_KeepsTopology()
+    {
+        // On a 5×5 rectangle the blinker's middle sits on the right edge, so nothing is born past it.
+        var response = await _client.PostAsync("/api/v1/game/sessions/binary?topology=rect%3A5x5%400%2C-2",
+            BinaryCells((4, -1), (4, 0), (4, 1)));
+        response.EnsureSuccessStatusCode();
+        var created = await response.Content.ReadFromJsonAsync<CreateSessionResponse>(_jsonOptions);
+        Assert.NotNull(created);
+
+        var advance = await _client.PostAsJsonAsync($"/api/v1/game/sessions/{created.SessionId}/advance",
+            new AdvanceSessionRequest { FromGeneration = 0, Generations = 1 });
+        advance.EnsureSuccessStatusCode();
+
+        var delta = await advance.Content.ReadFromJsonAsync<SessionDeltaResponse>(_jsonOptions);
+        Assert.NotNull(delta);
+        Assert.Equal(new[] { ("3", "0") }, delta.Births.Select(c => (c[0], c[1])));
+        Assert.Equal(2, delta.LiveCellCount);
+    }
+
+    [Fact]
+    public async Task Tick_BriansBrain_SendsDyingCellsWithTheirState()
+    {
+        // The live pair fires into the dying state; the dying cell at (5,5) is gone after its last state.
+        var request = new TickRequest
+        {
+            Cells = [["0", "0"], ["1", "0"], ["5", "5", "2"]],
+            Rule = "B2/S/C3"
+        };
+
+        var response = await _client.PostAsJsonAsync("/api/v1/game/tick", request);
+        response.EnsureSuccessStatusCode();
+
+        var result = await response.Content.ReadFromJsonAsync<SimulationResponse>(_jsonOptions);
+        Assert.NotNull(result);
+        Assert.Equal(4, result.LiveCellCount);
+        Assert.Contains(result.Cells, c => c.SequenceEqual(new[] { "0", "0", "2" }));
+        Assert.Contains(result.Cells, c => c.SequenceEqual(new[] { "0", "-1" }));
+        Assert.DoesNotContain(result.Cells, c => c[0] == "5");
+    }
+
+    [Fact]
+    public async Task Tick_CellStateOutOfRange_ReturnsBadRequest()
+    {
+        var request = new TickRequest { Cells = [["0", "0", "0"]], Rule = "B2/S/C3" };
+
+        var response = await _client.PostAsJsonAsync("/api/v1/game/tick", request);
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+    }
+
+    [Fact]
+    public async Task TickBinary_GenerationsRule_ReturnsBadRequest()
+    {
+        var response = await _client.PostAsync("/api/v1/game/tick/binary?rule=B2%2FS%2FC3", BinaryCells((0, 0), (1, 0)));
+
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+        Assert.Contains("JSON", await response.Content.ReadAsStringAsync());
+    }
+
+    [Fact]
+    public async Task Export_DyingCells_ReturnsBadRequest()
+    {
+        var response = await _client.PostAsJsonAsync("/api/v1/game/export",
+            new ExportRequest { Cells = [["0", "0"], ["1", "1", "2"]] });
+
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+        Assert.Contains("Life 1.06 has no cell states", await response.Content.ReadAsStringAsync());
+    }
+
+    [Fact]
+    public async Task Session_GenerationsAdvance_ReportsNewStatesAsBirths()
+    {
+        var response = await _client.PostAsJsonAsync("/api/v1/game/sessions",
+            new CreateSessionRequest { Cells = [["0", "0"], ["1", "0"], ["5", "5", "2"]], Rule = "B2/S/C3" });
+        response.EnsureSuccessStatusCode();
+        var created = await response.Content.ReadFromJsonAsync<CreateSessionResponse>(_jsonOptions);
+        Assert.NotNull(created);
+        Assert.Equal(2, created.LiveCellCount);
+
+        var advance = await _client.PostAsJsonAsync($"/api/v1/game/sessions/{created.SessionId}/advance",
+            new AdvanceSessionRequest { FromGeneration = 0, Generations = 1 });
+        advance.EnsureSuccessStatusCode();
+
+        var delta = await advance.Content.ReadFromJsonAsync<SessionDeltaResponse>(_jsonOptions);
+        Assert.NotNull(delta);
+        Assert.Equal(4, delta.LiveCellCount);
+        Assert.Contains(delta.Births, c => c.SequenceEqual(new[] { "1", "0", "2" }));
+        Assert.Contains(delta.Births, c => c.SequenceEqual(new[] { "1", "1" }));
+        Assert.Equal(new[] { ("5", "5") }, delta.Deaths.Select(c => (c[0], c[1])));
+    }
+
+    // Reads the next "frame" event of a session stream, skipping keep-alive comments.
+    private async Task<SessionDeltaResponse> ReadFrame(StreamReader reader, TimeSpan timeout)
+    {
+        using var cts = new CancellationTokenSource(timeout);
+        string? eventType = null;
+        while (await reader.ReadLineAsync(cts.Token) is { } line)
+        {
+            if (line.StartsWith("event: "))
+                eventType = line["event: ".Length..];
+            else if (line.StartsWith("data: ") && eventType == "frame")
+                return JsonSerializer.Deserialize<SessionDeltaResponse>(line["data: ".Length..], _jsonOptions)!;
+        }
+        throw new EndOfStreamException("The stream ended before the next frame.");
+    }
+
+    private async Task<(HttpResponseMessage Response, StreamReader Reader)> OpenStream(Guid id, string query)
+    {
+        var request = new HttpRequestMessage(HttpMethod.Get, $"/api/v1/game/sessions/{id}/stream?{query}");
+        var response = await _client.SendAsync(request, HttpCompletionOption.ResponseHeadersRead);
+        response.EnsureSuccessStatusCode();
+        Assert.Equal("text/event-stream", response.Content.Headers.ContentType?.MediaType);
+        return (response, new StreamReader(await response.Content.ReadAsStreamAsync()));
+    }
+
+    private Task<HttpResponseMessage> ControlStream(Guid id, StreamControlRequest control) =>
+        _client.PostAsJsonAsync($"/api/v1/game/sessions/{id}/stream", control);
+
+    [Fact]
+    public async Task Stream_Blinker_SendsOneGenerationPerFrame()
+    {
+        var id = await CreateSession((0, -1), (0, 0), (0, 1));
+        var (response, reader) = await OpenStream(id, "intervalMs=10");
+        using (response)
+        {
+            var first = await ReadFrame(reader, TimeSpan.FromSeconds(5));
+            var second = await ReadFrame(reader, TimeSpan.FromSeconds(5));
+
+            Assert.Equal(1, first.Generation);
+            Assert.Equal(2, second.Generation);
+            Assert.Equal(new[] { ("-1", "0"), ("1", "0") }.ToHashSet(), first.Births.Select(c => (c[0], c[1])).ToHashSet());
+            Assert.Equal(first.Births.Select(c => (c[0], c[1])).ToHashSet(), second.Deaths.Select(c => (c[0], c[1])).ToHashSet());
+        }
+    }
+
+    [Fact]
+    public async Task Stream_WithoutAcks_WaitsForTheClient()
+    {
+        var id = await CreateSession((0, -1), (0, 0), (0, 1));
+        var (response, reader) = await OpenStream(id, "intervalMs=10");
+        using (response)
+        {
+            SessionDeltaResponse frame = null!;
+            for (var i = 0; i < 16; i++)
+                frame = await ReadFrame(reader, TimeSpan.FromSeconds(5));
+            Assert.Equal(16, frame.Generation);
+
+            var next = ReadFrame(reader, TimeSpan.FromSeconds(5));
+            await Task.Delay(300);
+            Assert.False(next.IsCompleted);
+
+            var ack = await ControlStream(id, new StreamControlRequest { Type = "ack", Generation = 16 });
+            Assert.Equal(HttpStatusCode.NoContent, ack.StatusCode);
+            Assert.Equal(17, (await next).Generation);
+        }
+    }
+
+    [Fact]
+    public async Task Stream_OpenedPaused_StartsOnResume()
+    {
+        var id = await CreateSession((0, -1), (0, 0), (0, 1));
+        var (response, reader) = await OpenStream(id, "intervalMs=10&paused=true");
+        using (response)
+        {
+            var first = ReadFrame(reader, TimeSpan.FromSeconds(5));
+            await Task.Delay(300);
+            Assert.False(first.IsCompleted);
+
+            Assert.Equal(HttpStatusCode.NoContent, (await ControlStream(id, new StreamControlRequest { Type = "speed", IntervalMs = 20 })).StatusCode);
+            Assert.Equal(HttpStatusCode.NoContent, (await ControlStream(id, new StreamControlRequest { Type = "resume" })).StatusCode);
+            Assert.Equal(1, (await first).Generation);
+        }
+    }
+
+    [Fact]
+    public async Task Stream_SecondStreamOnSession_ReturnsConflict()
+    {
+        var id = await CreateSession((0, 0));
+        var (response, _) = await OpenStream(id, "paused=true");
+        using (response)
+        {
+            var second = await _client.GetAsync($"/api/v1/game/sessions/{id}/stream", HttpCompletionOption.ResponseHeadersRead);
+            Assert.Equal(HttpStatusCode.Conflict, second.StatusCode);
+        }
+    }
+
+    [Fact]
+    public async Task StreamControl_InvalidMessages_AreRejected()
+    {
+        var id = await CreateSession((0, 0));
+        Assert.Equal(HttpStatusCode.Conflict, (await ControlStream(id, new StreamControlRequest { Type = "pause" })).StatusCode);
+        Assert.Equal(HttpStatusCode.NotFound, (await ControlStream(Guid.NewGuid(), new StreamControlRequest { Type = "pause" })).StatusCode);
+
+        var (response, _) = await OpenStream(id, "paused=true");
+        using (response)
+        {
+            Assert.Equal(HttpStatusCode.BadRequest, (await ControlStream(id, new StreamControlRequest { Type = "rewind" })).StatusCode);
+            Assert.Equal(HttpStatusCode.BadRequest, (await ControlStream(id, new StreamControlRequest { Type = "speed", IntervalMs = 1 })).StatusCode);
+            Assert.Equal(HttpStatusCode.BadRequest, (await ControlStream(id, new StreamControlRequest { Type = "ack" })).StatusCode);
+        }
+    }
+
+    [Fact]
+    public async Task Stream_IntervalOutOfRange_ReturnsBadRequest()
+    {
+        var id = await CreateSession((0, 0));
+        var response = await _client.GetAsync($"/api/v1/game/sessions/{id}/stream?intervalMs=5");
+        Assert.Equal(HttpStatusCode.BadRequest, response.StatusCode);
+    }
 }
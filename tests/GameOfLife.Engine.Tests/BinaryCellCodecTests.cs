@@ -0,0 +1,103 @@
+using GameOfLife.Engine.Models;
+using GameOfLife.Engine.Services;
+
+namespace GameOfLife.Engine.Tests;
+
+public class BinaryCellCodecTests
+{
+    private static HashSet<Cell> RoundTrip(HashSet<Cell> cells)
+    {
+        var bytes = BinaryCellCodec.Encode(cells);
+        Assert.True(BinaryCellCodec.TryDecode(bytes, 1_000_000, out var decoded, out var error), error);
+        return decoded;
+    }
+
+    [Fact]
+    public void RoundTrip_SmallPattern_PreservesCells()
+    {
+        var cells = new HashSet<Cell> { new(0, 1), new(1, 2), new(2, 0), new(2, 1), new(2, 2) };
+        Assert.Equal(cells, RoundTrip(cells));
+    }
+
+    [Fact]
+    public void RoundTrip_LongExtremes_PreservesCells()
+    {
+        var cells = new HashSet<Cell>
+        {
+            new(long.MinValue, long.MinValue),
+            new(long.MinValue, long.MaxValue),
+            new(long.MaxValue, long.MinValue),
+            new(long.MaxValue, long.MaxValue),
+            new(0, 0),
+            new(-2_000_000_000_000, 7),
+        };
+        Assert.Equal(cells, RoundTrip(cells));
+    }
+
+    [Fact]
+    public void Encode_EmptySet_IsSingleZeroByte()
+    {
+        Assert.Equal(new byte[] { 0 }, BinaryCellCodec.Encode(new HashSet<Cell>()));
+    }
+
+    [Fact]
+    public void Encode_DenseBlock_TakesTwoBytesPerCell()
+    {
+        var cells = new HashSet<Cell>();
+        for (long x = 0; x < 100; x++)
+            for (long y = 0; y < 100; y++)
+                cells.Add(new Cell(x + 1_000_000_000_000, y - 1_000_000_000_000));
+
+        var bytes = BinaryCellCodec.Encode(cells);
+        // The first cell pays for its distance from the origin, the first of each column
+        // for the jump back up; every other cell costs two bytes.
+        Assert.True(bytes.Length < 2.1 * cells.Count, $"{bytes.Length} bytes for {cells.Count} cells");
+    }
+
+    [Fact]
+    public void Encode_WrappingStep_CostsOneBytePerCoordinate()
+    {
+        // long.MinValue → long.MaxValue wraps to a difference of -1. The frontend's
+        // api.test.ts expects exactly these bytes too.
+        var bytes = BinaryCellCodec.Encode(new HashSet<Cell> { new(long.MaxValue, 0), new(long.MinValue, 0) });
+        Assert.Equal(new byte[] { 2, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0x01, 0, 1, 0 }, bytes);
+    }
+
+    [Fact]
+    public void TryDecode_TooManyCells_ReturnsFalse()
+    {
+        var bytes = BinaryCellCodec.Encode(new HashSet<Cell> { new(0, 0), new(1, 0), new(2, 0) });
+        Assert.False(BinaryCellCodec.TryDecode(bytes, 2, out _, out var error));
+        Assert.Contains("exceeds maximum of 2", error);
+    }
+
+    [Fact]
+    public void TryDecode_TruncatedData_ReturnsFalse()
+    {
+        var bytes = BinaryCellCodec.Encode(new HashSet<Cell> { new(5, 5), new(6, 6) });
+        Assert.False(BinaryCellCodec.TryDecode(bytes.AsSpan(0, bytes.Length - 1), 10, out _, out var error));
+        Assert.Contains("truncated", error);
+    }
+
+    [Fact]
+    public void TryDecode_TrailingBytes_ReturnsFalse()
+    {
+        var bytes = BinaryCellCodec.Encode(new HashSet<Cell> { new(5, 5) }).Append((byte)0).ToArray();
+        Assert.False(BinaryCellCodec.TryDecode(bytes, 10, out _, out var error));
+        Assert.Contains("trailing", error);
+    }
+
+    [Fact]
+    public void TryDecode_VarintPast64Bits_ReturnsFalse()
+    {
+        // Count 1, then an X delta whose tenth byte sets bits above the 64th.
+        var bytes = new byte[] { 1, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0x02, 0 };
+        Assert.False(BinaryCellCodec.TryDecode(bytes, 10, out _, out _));
+    }
+
+    [Fact]
+    public void TryDecode_Empty_ReturnsFalse()
+    {
+        Assert.False(BinaryCellCodec.TryDecode(ReadOnlySpan<byte>.Empty, 10, out _, out _));
+    }
+}
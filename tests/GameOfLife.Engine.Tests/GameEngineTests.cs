@@ -187,4 +187,121 @@ public class GameEngineTests
         var result = _engine.Tick(cells);
         Assert.Contains(new Cell(1, 1), result);
     }
+
+    [Fact]
+    public void Tick_HighLife_BirthsOnSixNeighbours()
+    {
+        // The centre cell (1,1) has exactly six live neighbours: born under B36, not under B3.
+        var ring = new HashSet<Cell>
+        {
+            new(0, 0), new(1, 0), new(2, 0),
+            new(0, 2), new(1, 2), new(2, 2)
+        };
+        Assert.True(LifeRule.TryParse("B36/S23", out var highLife));
+
+        Assert.Contains(new Cell(1, 1), _engine.Tick(ring, highLife));
+        Assert.DoesNotContain(new Cell(1, 1), _engine.Tick(ring));
+    }
+
+    [Fact]
+    public void Tick_S0Rule_IsolatedCellSurvives()
+    {
+        var single = new HashSet<Cell> { new(0, 0) };
+        Assert.True(LifeRule.TryParse("B3/S0", out var rule));
+
+        Assert.Equal(single, _engine.Tick(single, rule));
+    }
+
+    [Fact]
+    public void Tick_WrappedPlane_BlinkerCrossesTheLimits()
+    {
+        // A blinker standing across the seam between long.MaxValue and long.MinValue.
+        var seam = new HashSet<Cell> { new(0, long.MaxValue), new(0, long.MinValue), new(0, long.MinValue + 1) };
+        Assert.True(Topology.TryParse("plane:wrap", out var wrap));
+
+        var expected = new HashSet<Cell> { new(-1, long.MinValue), new(0, long.MinValue), new(1, long.MinValue) };
+        Assert.Equal(expected, _engine.Tick(seam, LifeRule.Conway, wrap));
+    }
+
+    [Fact]
+    public void Tick_Rect_NothingLivesOutside()
+    {
+        // The blinker's middle sits on the right edge; the stray cell outside dies.
+        var cells = new HashSet<Cell> { new(4, -1), new(4, 0), new(4, 1), new(20, 20) };
+        Assert.True(Topology.TryParse("rect:5x5@0,-2", out var rect));
+
+        Assert.Equal(new HashSet<Cell> { new(3, 0), new(4, 0) }, _engine.Tick(cells, LifeRule.Conway, rect));
+    }
+
+    [Fact]
+    public void Tick_TorusAndKlein_DifferOnlyByTheTwist()
+    {
+        // Three cells along the bottom row; across the bottom edge they meet the top row, mirrored on a Klein bottle.
+        var bottom = new HashSet<Cell> { new(0, 4), new(1, 4), new(2, 4) };
+        Assert.True(Topology.TryParse("torus:6x5@0,0", out var torus));
+        Assert.True(Topology.TryParse("klein:6x5@0,0", out var klein));
+
+        Assert.Equal(new HashSet<Cell> { new(1, 0), new(1, 3), new(1, 4) }, _engine.Tick(bottom, LifeRule.Conway, torus));
+        Assert.Equal(new HashSet<Cell> { new(4, 0), new(1, 3), new(1, 4) }, _engine.Tick(bottom, LifeRule.Conway, klein));
+    }
+
+    [Fact]
+    public void Simulate_GliderOnTorus_ComesBackAround()
+    {
+        // A glider moves one cell diagonally every 4 generations: 32 generations cross an 8×8 torus.
+        var glider = new HashSet<Cell> { new(1, 0), new(2, 1), new(0, 2), new(1, 2), new(2, 2) };
+        Assert.True(Topology.TryParse("torus:8x8@0,0", out var torus));
+
+        Assert.Equal(glider, _engine.Simulate(glider, 32, LifeRule.Conway, torus));
+    }
+
+    [Fact]
+    public void Tick_BriansBrain_LiveCellsStartDying()
+    {
+        // Two live cells side by side: both fire into the dying state, and the four
+        // cells with exactly two live neighbours are born.
+        var cells = new Dictionary<Cell, int> { [new(0, 0)] = 1, [new(1, 0)] = 1 };
+        Assert.True(LifeRule.TryParse("B2/S/C3", out var briansBrain));
+
+        var next = _engine.Tick(cells, briansBrain, Topology.Plane);
+
+        var expected = new Dictionary<Cell, int>
+        {
+            [new(0, 0)] = 2, [new(1, 0)] = 2,
+            [new(0, -1)] = 1, [new(1, -1)] = 1, [new(0, 1)] = 1, [new(1, 1)] = 1
+        };
+        Assert.Equal(expected.OrderBy(c => c.Key.X).ThenBy(c => c.Key.Y), next.OrderBy(c => c.Key.X).ThenBy(c => c.Key.Y));
+    }
+
+    [Fact]
+    public void Tick_DyingCells_AreNotNeighboursAndBlockBirths()
+    {
+        // (1, 0) has two neighbours, but only one of them is alive; (0, 0) is dying, so it cannot be born.
+        var cells = new Dictionary<Cell, int> { [new(0, 0)] = 2, [new(2, 0)] = 1, [new(1, 1)] = 2 };
+        Assert.True(LifeRule.TryParse("B2/S/C3", out var briansBrain));
+
+        var next = _engine.Tick(cells, briansBrain, Topology.Plane);
+
+        Assert.Equal(new Dictionary<Cell, int> { [new(2, 0)] = 2 }, next);
+    }
+
+    [Fact]
+    public void Tick_StateDictionary_MatchesTheSetOverloadForTwoStateRules()
+    {
+        var glider = new HashSet<Cell> { new(1, 0), new(2, 1), new(0, 2), new(1, 2), new(2, 2) };
+        var states = glider.ToDictionary(c => c, _ => LifeRule.Alive);
+
+        var next = _engine.Simulate(states, 4, LifeRule.Conway, Topology.Plane);
+
+        Assert.Equal(_engine.Simulate(glider, 4), next.Keys.ToHashSet());
+        Assert.All(next.Values, state => Assert.Equal(LifeRule.Alive, state));
+    }
+
+    [Fact]
+    public void Tick_SetOverload_RejectsGenerationsRules()
+    {
+        Assert.True(LifeRule.TryParse("B2/S/C3", out var briansBrain));
+
+        Assert.Throws<ArgumentException>(() => _engine.Tick(new HashSet<Cell> { new(0, 0) }, briansBrain));
+    }
 }
@@ -0,0 +1,93 @@
+using GameOfLife.Engine.Models;
+
+namespace GameOfLife.Engine.Tests;
+
+public class LifeRuleTests
+{
+    [Theory]
+    [InlineData("B3/S23")]
+    [InlineData("b3/s23")]
+    [InlineData(" S23/B3 ")]
+    [InlineData("23/3")]
+    public void TryParse_ConwaySpellings_ReturnConway(string text)
+    {
+        Assert.True(LifeRule.TryParse(text, out var rule));
+        Assert.Equal(LifeRule.Conway, rule);
+    }
+
+    [Theory]
+    [InlineData(null)]
+    [InlineData("")]
+    [InlineData("Conway")]
+    [InlineData("B9/S23")]
+    [InlineData("B3-S23")]
+    public void TryParse_MalformedRule_ReturnsFalse(string? text)
+    {
+        Assert.False(LifeRule.TryParse(text, out _));
+    }
+
+    [Fact]
+    public void TryParse_B0Rule_ReturnsFalse()
+    {
+        // B0 would fill the unbounded plane in one generation.
+        Assert.False(LifeRule.TryParse("B012/S23", out _));
+    }
+
+    [Fact]
+    public void TryParse_EmptySurvival_IsAllowed()
+    {
+        Assert.True(LifeRule.TryParse("B2/S", out var seeds));
+        Assert.Equal(0, seeds.SurvivalMask);
+    }
+
+    [Fact]
+    public void ToString_ReturnsCanonicalForm()
+    {
+        Assert.True(LifeRule.TryParse("B63/S32", out var rule));
+        Assert.Equal("B36/S23", rule.ToString());
+    }
+
+    [Fact]
+    public void NextState_AppliesBirthAndSurvival()
+    {
+        var conway = LifeRule.Conway;
+        Assert.True(conway.NextState(alive: false, neighbors: 3));
+        Assert.False(conway.NextState(alive: false, neighbors: 2));
+        Assert.True(conway.NextState(alive: true, neighbors: 2));
+        Assert.False(conway.NextState(alive: true, neighbors: 4));
+    }
+
+    [Theory]
+    [InlineData("B2/S/C3", "B2/S/C3")]
+    [InlineData("S345/B2/C4", "B2/S345/C4")]
+    [InlineData("345/2/4", "B2/S345/C4")]
+    [InlineData("/2/3", "B2/S/C3")]
+    [InlineData("B3/S23/C2", "B3/S23")]
+    public void TryParse_GenerationsRule_ReadsTheStateCount(string text, string canonical)
+    {
+        Assert.True(LifeRule.TryParse(text, out var rule));
+        Assert.Equal(canonical, rule.ToString());
+    }
+
+    [Theory]
+    [InlineData("B2/S/C1")]
+    [InlineData("B2/S/C257")]
+    [InlineData("B2/S/C")]
+    public void TryParse_StateCountOutOfRange_ReturnsFalse(string text)
+    {
+        Assert.False(LifeRule.TryParse(text, out _));
+    }
+
+    [Fact]
+    public void NextCellState_DyingCellsAgeAndThenDie()
+    {
+        Assert.True(LifeRule.TryParse("B2/S345/C4", out var starWars));
+        Assert.Equal(LifeRule.Alive, starWars.NextCellState(0, 2));
+        Assert.Equal(LifeRule.Alive, starWars.NextCellState(LifeRule.Alive, 4));
+        Assert.Equal(2, starWars.NextCellState(LifeRule.Alive, 2));
+        Assert.Equal(3, starWars.NextCellState(2, 2));
+        Assert.Equal(0, starWars.NextCellState(3, 2));
+        // A state left over from a rule with more of them dies right away.
+        Assert.Equal(0, LifeRule.Conway.NextCellState(5, 3));
+    }
+}
@@ -0,0 +1,87 @@
+using GameOfLife.Engine.Models;
+
+namespace GameOfLife.Engine.Tests;
+
+public class TopologyTests
+{
+    private static Topology Parse(string text)
+    {
+        Assert.True(Topology.TryParse(text, out var topology), text);
+        return topology;
+    }
+
+    [Theory]
+    [InlineData("plane", "plane:clip")]
+    [InlineData(" Plane:Wrap ", "plane:wrap")]
+    [InlineData("TORUS:8x8@0,-4", "torus:8x8@0,-4")]
+    [InlineData("klein:40x30@-9223372036854775808,7", "klein:40x30@-9223372036854775808,7")]
+    [InlineData("rect:1x1@9223372036854775807,9223372036854775807", "rect:1x1@9223372036854775807,9223372036854775807")]
+    public void TryParse_ValidTopology_FormatsCanonically(string text, string expected)
+    {
+        Assert.Equal(expected, Parse(text).ToString());
+    }
+
+    [Theory]
+    [InlineData(null)]
+    [InlineData("")]
+    [InlineData("sphere:8x8@0,0")]
+    [InlineData("torus:2x8@0,0")]
+    [InlineData("klein:8x2@0,0")]
+    [InlineData("rect:0x8@0,0")]
+    [InlineData("rect:2x2@9223372036854775807,0")]
+    [InlineData("torus:99999999999999999999x8@0,0")]
+    public void TryParse_InvalidTopology_ReturnsFalse(string? text)
+    {
+        Assert.False(Topology.TryParse(text, out _));
+    }
+
+    [Fact]
+    public void Plane_IsTheClippedPlane()
+    {
+        Assert.Equal(Parse("plane:clip"), Topology.Plane);
+        Assert.Equal(new Cell(long.MaxValue, 0).GetNeighbors(), Topology.Plane.GetNeighbors(new Cell(long.MaxValue, 0)));
+    }
+
+    [Fact]
+    public void GetNeighbors_WrappedPlane_CrossesTheLimits()
+    {
+        var neighbors = Parse("plane:wrap").GetNeighbors(new Cell(long.MaxValue, long.MinValue)).ToHashSet();
+        Assert.Equal(8, neighbors.Count);
+        Assert.Contains(new Cell(long.MinValue, long.MaxValue), neighbors);
+    }
+
+    [Fact]
+    public void GetNeighbors_Rect_StopsAtTheEdge()
+    {
+        var neighbors = Parse("rect:4x3@10,20").GetNeighbors(new Cell(13, 21)).ToHashSet();
+        Assert.Equal(5, neighbors.Count);
+        Assert.DoesNotContain(new Cell(14, 21), neighbors);
+    }
+
+    [Fact]
+    public void GetNeighbors_Torus_JoinsOppositeEdges()
+    {
+        var neighbors = Parse("torus:4x3@10,20").GetNeighbors(new Cell(10, 20)).ToHashSet();
+        Assert.Equal(8, neighbors.Count);
+        Assert.Contains(new Cell(13, 22), neighbors);
+    }
+
+    [Fact]
+    public void GetNeighbors_Klein_MirrorsAcrossTopAndBottomOnly()
+    {
+        var klein = Parse("klein:4x3@10,20");
+        Assert.Contains(new Cell(10, 21), klein.GetNeighbors(new Cell(13, 21)));
+        Assert.Contains(new Cell(12, 20), klein.GetNeighbors(new Cell(11, 22)));
+        Assert.Contains(new Cell(10, 22), klein.GetNeighbors(new Cell(10, 20)));
+        // A torus reaches (11, 22) from here; mirrored, that neighbour is (12, 22).
+        Assert.DoesNotContain(new Cell(11, 22), klein.GetNeighbors(new Cell(10, 20)));
+    }
+
+    [Fact]
+    public void Contains_BoundedUniverseAtTheLimits_DoesNotOverflow()
+    {
+        var corner = Parse($"rect:4x4@{long.MinValue},{long.MinValue}");
+        Assert.True(corner.Contains(new Cell(long.MinValue + 3, long.MinValue)));
+        Assert.False(corner.Contains(new Cell(long.MaxValue, long.MinValue)));
+    }
+}